@@ -5,7 +5,9 @@
  * 
  * RESPONSABILIDADES:
  * - Inicializar estado da aplicação
- * - Gerar dias do mês automaticamente
+ * - Carregar/salvar dias, configurações e INSS manual (storage/)
+ * - Exibir falhas do armazenamento e seguir em memória se a leitura falhar
+ * - Gerar dias do mês automaticamente (meses nunca editados)
  * - Definir configurações padrão
  * - Renderizar layout completo
  * 
@@ -16,11 +18,103 @@
  * - Código auditável e claro
  */
 
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Layout } from './ui';
-import type { DayRecord, Settings } from './core/types';
+import type {
+    AFDDayDiff,
+    AFDDayImport,
+    CSVDayImport,
+    DayRecord,
+    MonthHistory,
+    Settings,
+    TaxTables,
+    TerminationInput,
+    VacationPeriod,
+    VacationSettings,
+} from './core/types';
 import './styles/app.css';
-import { isHoliday } from './core/holidays';
+import { DEFAULT_HOLIDAY_SETTINGS, describeHolidaySettings, getHolidayInfo, isHoliday } from './core/holidays';
+import { DEFAULT_CONTRACT_HOURS, createScale, isScheduledWorkDay, weeklyAnchor } from './core/schedule';
+import { NIGHT_SHIFT_PRESETS } from './core/nightShift';
+import { DEFAULT_IRRF_SETTINGS } from './core/irrf';
+import { EMPTY_TAX_TABLE_REGISTRY } from './core/taxTables';
+import { calculateTermination } from './core/termination';
+import { DEFAULT_CONTRACT_SETTINGS } from './core/contract';
+import { DEFAULT_FGTS_SETTINGS } from './core/fgts';
+import { DEFAULT_TIME_BANK_SETTINGS, buildTimeBankLedger } from './core/timeBank';
+import { EMPTY_EMPLOYMENT_INFO } from './core/timesheet';
+import { DEFAULT_DSR_SETTINGS } from './core/dsr';
+import { DEFAULT_OVERTIME_RULES } from './core/overtime';
+import {
+    DEFAULT_VACATION_SETTINGS,
+    calculateOvertimeAverage,
+    getAcquisitionPeriodOf,
+    markVacationDays,
+} from './core/vacation';
+import { calculateStoredMonthSummary, getStoredMonthTaxTables } from './core/calculations';
+import { applyAFDDays } from './core/afd';
+import { applyCSVDays } from './core/csv';
+import { parseDateKey, toMonthKey } from './core/time';
+import {
+    createDefaultBackend,
+    createMemoryBackend,
+    loadAllClosedMonthTables,
+    loadClosedMonthTables,
+    loadAllMonths,
+    loadINSSOverride,
+    loadMonthDays,
+    loadMonthsInRange,
+    loadSettings,
+    saveClosedMonthTables,
+    saveINSSOverride,
+    saveMonthDays,
+    saveSettings,
+} from './storage';
+import type { StorageBackend } from './storage';
+
+/**
+ * Configurações padrão, usadas enquanto o usuário não salvar as suas.
+ */
+const DEFAULT_SETTINGS: Settings = {
+    salarioMensal: 2200.00,          // R$ 2.200,00
+    horaEntradaPadrao: '08:00',       // 8h da manhã
+    horaSaidaPadrao: '17:00',         // 5h da tarde
+    intervaloPadraoHoras: 1,          // 1 hora de intervalo
+    folgaPadrao: 'domingo',           // Folga aos domingos
+    escala: createScale('6x1', 'domingo', weeklyAnchor('domingo')), // Escala 6x1
+    cargaHoraria: DEFAULT_CONTRACT_HOURS,         // 44h semanais, divisor 220
+    contrato: DEFAULT_CONTRACT_SETTINGS,          // Contrato integral
+    adicionalNoturno: NIGHT_SHIFT_PRESETS.urbano, // 20%, 22h às 5h, hora reduzida
+    feriados: DEFAULT_HOLIDAY_SETTINGS,           // Feriados de Maricá - RJ
+    irrf: DEFAULT_IRRF_SETTINGS,                  // Sem dependentes, simplificado permitido
+    tabelas: EMPTY_TAX_TABLE_REGISTRY,            // Apenas tabelas embutidas
+    ferias: DEFAULT_VACATION_SETTINGS,            // Sem admissão/férias registradas
+    fgts: DEFAULT_FGTS_SETTINGS,                  // Sem saldo inicial, TR zero
+    bancoHoras: DEFAULT_TIME_BANK_SETTINGS,       // Horas extras pagas (banco desligado)
+    identificacao: EMPTY_EMPLOYMENT_INFO,         // Trabalhador e empregador não informados
+    dsr: DEFAULT_DSR_SETTINGS,                    // DSR pela Lei 605/49 (domingos e feriados)
+    horasExtras: DEFAULT_OVERTIME_RULES,          // 50% nos dias de trabalho e folgas, 100% nos feriados
+};
+
+/**
+ * Backend padrão da aplicação (IndexedDB no navegador)
+ */
+const defaultBackend = createDefaultBackend();
+
+/**
+ * Dados persistidos do mês selecionado
+ */
+type StoredMonth = {
+    year: number;
+    month: number;
+    /**
+     * Versão dos dados salvos quando o mês foi carregado (ver importVersion)
+     */
+    version: number;
+    days?: DayRecord[];
+    descontoINSS?: number;
+    tabelasFechamento?: TaxTables;
+};
 
 /**
  * Gera automaticamente todos os dias de um mês
@@ -28,39 +122,41 @@ import { isHoliday } from './core/holidays';
  * @param year - Ano (ex: 2026)
  * @param month - Mês (0-11, onde 0 = Janeiro)
  * @param settings - Configurações do usuário
+ * @param storedDays - Dias já salvos deste mês (opcional)
  * @returns Array de DayRecord com todos os dias do mês
  * 
  * LÓGICA:
- * - Cria um dia para cada data do mês
+ * - Se o mês já foi editado e salvo, retorna os dias salvos
+ * - Caso contrário, cria um dia para cada data do mês
  * - Aplica horários padrão definidos em settings
- * - Marca folgas baseado no dia da semana (settings.folgaPadrao)
- * - Identifica feriados nacionais, estaduais (RJ) e municipais (Maricá)
+ * - Marca folgas pelo ciclo da escala (settings.escala)
+ * - Identifica feriados pelos calendários selecionados (settings.feriados):
+ *   nacional, UF, município e extras, inclusive os móveis de qualquer ano
+ * - Marca os dias de férias (settings.ferias)
  */
-function generateMonthDays(year: number, month: number, settings: Settings): DayRecord[] {
+function generateMonthDays(
+    year: number,
+    month: number,
+    settings: Settings,
+    storedDays?: DayRecord[]
+): DayRecord[] {
+    // Mês já editado: os dados salvos prevalecem sobre os padrões
+    // (as férias seguem sempre as configurações atuais)
+    if (storedDays && storedDays.length > 0) {
+        return markVacationDays(storedDays, settings.ferias);
+    }
+
     const days: DayRecord[] = [];
 
     // Determina quantos dias tem o mês
     const daysInMonth = new Date(year, month + 1, 0).getDate();
 
-    // Mapeia nome do dia da semana para número (0 = Domingo, 6 = Sábado)
-    const weekDayMap: Record<string, number> = {
-        'domingo': 0,
-        'segunda': 1,
-        'terca': 2,
-        'quarta': 3,
-        'quinta': 4,
-        'sexta': 5,
-        'sabado': 6,
-    };
-
-    const folgaDayNumber = weekDayMap[settings.folgaPadrao];
-
     // Gera cada dia do mês
     for (let day = 1; day <= daysInMonth; day++) {
         const date = new Date(year, month, day);
-        const dayOfWeek = date.getDay();
-        const isFolga = dayOfWeek === folgaDayNumber;
-        const ehFeriado = isHoliday(date);
+        const isFolga = !isScheduledWorkDay(date, settings.escala);
+        const ehFeriado = isHoliday(date, settings.feriados);
+        const feriado = getHolidayInfo(date, settings.feriados);
 
         days.push({
             date,
@@ -69,27 +165,118 @@ function generateMonthDays(year: number, month: number, settings: Settings): Day
             intervaloHoras: isFolga ? 0 : settings.intervaloPadraoHoras,
             ehFolga: isFolga,
             ehFeriado: ehFeriado,
+            feriado,
         });
     }
 
-    return days;
+    return markVacationDays(days, settings.ferias);
+}
+
+/**
+ * Agrupa dias importados (AFD ou planilha) por mês, em ordem cronológica
+ *
+ * @returns Tuplas [ano, mês (0-11), dias do mês]
+ */
+function groupByMonth<T extends { data: Date }>(dias: T[]): [number, number, T[]][] {
+    const porMes = new Map<string, T[]>();
+    for (const dia of dias) {
+        const key = toMonthKey(dia.data.getFullYear(), dia.data.getMonth());
+        porMes.set(key, [...(porMes.get(key) ?? []), dia]);
+    }
+    return [...porMes.keys()].sort().map((key) => {
+        const [year, month] = key.split('-').map(Number);
+        return [year, month - 1, porMes.get(key) as T[]];
+    });
+}
+
+/**
+ * Carrega o histórico dos meses salvos até uma data (lançamentos do banco de
+ * horas e tabelas guardadas no fechamento de cada mês)
+ *
+ * DECISÃO CONSERVADORA:
+ * - O banco usa todos os meses salvos, pois lotes antigos podem vencer no período
+ */
+async function loadMonthHistory(backend: StorageBackend, settings: Settings, ate: Date): Promise<MonthHistory> {
+    const tabelasFechamento = await loadAllClosedMonthTables(backend);
+    if (!settings.bancoHoras.ativo) return { bancoHoras: [], tabelasFechamento };
+    const months = await loadAllMonths(backend);
+    const bancoHoras = buildTimeBankLedger(months, settings, toMonthKey(ate.getFullYear(), ate.getMonth()));
+    return { bancoHoras, tabelasFechamento };
 }
 
+/**
+ * Props do componente App
+ */
+type AppProps = {
+    /**
+     * Backend de armazenamento (padrão: IndexedDB; use memória em testes)
+     */
+    backend?: StorageBackend;
+};
+
 /**
  * Componente principal da aplicação
  */
-function App() {
+function App({ backend: initialBackend = defaultBackend }: AppProps) {
+    // ============================================
+    // ARMAZENAMENTO
+    // ============================================
+    // Se a leitura falhar (IndexedDB bloqueado, modo privado...), a sessão segue em memória
+    const [backend, setBackend] = useState<StorageBackend>(initialBackend);
+    const [storageError, setStorageError] = useState<string | null>(null);
+
+    /**
+     * Exibe a falha do armazenamento (gravações que falham não interrompem a edição)
+     */
+    const handleStorageError = (error: unknown) => {
+        setStorageError(error instanceof Error ? error.message : String(error));
+    };
+
+    /**
+     * Executa uma operação do armazenamento chamada pelos componentes: a falha é
+     * exibida e repassada, para o componente sair do estado de espera
+     */
+    const withStorageErrors = async <T,>(operacao: () => Promise<T>): Promise<T> => {
+        try {
+            return await operacao();
+        } catch (error) {
+            handleStorageError(error);
+            throw error;
+        }
+    };
+
+    /**
+     * Exibe a falha de leitura e passa a usar o backend em memória
+     */
+    const fallbackToMemory = (error: unknown) => {
+        handleStorageError(error);
+        setBackend(createMemoryBackend());
+    };
+
     // ============================================
     // CONFIGURAÇÕES GLOBAIS
     // ============================================
-    const [settings, setSettings] = useState<Settings>({
-        salarioMensal: 2200.00,          // R$ 2.200,00
-        horaEntradaPadrao: '08:00',       // 8h da manhã
-        horaSaidaPadrao: '17:00',         // 5h da tarde
-        intervaloPadraoHoras: 1,          // 1 hora de intervalo
-        folgaPadrao: 'domingo',           // Folga aos domingos
-        escala: '6x1',                    // Escala 6x1
-    });
+    // null enquanto as configurações salvas são carregadas
+    const [settings, setSettings] = useState<Settings | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadSettings(backend, DEFAULT_SETTINGS)
+            .then((loaded) => {
+                if (!cancelled) setSettings(loaded);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                setSettings(DEFAULT_SETTINGS);
+                fallbackToMemory(error);
+            });
+        return () => { cancelled = true; };
+    }, [backend]);
+
+    const handleSettingsChange = (newSettings: Settings) => {
+        setSettings(newSettings);
+        saveSettings(backend, newSettings).catch(handleStorageError);
+    };
 
     // ============================================
     // ESTADO DE DATA (Mês e Ano selecionados)
@@ -98,15 +285,180 @@ function App() {
     const [currentYear, setCurrentYear] = useState(now.getFullYear());
     const [currentMonth, setCurrentMonth] = useState(now.getMonth());
 
+    // ============================================
+    // CARREGAMENTO DO MÊS SALVO
+    // ============================================
+    const [storedMonth, setStoredMonth] = useState<StoredMonth | null>(null);
+
+    // Incrementada quando meses são gravados fora do Layout (importação do AFD),
+    // forçando a releitura do armazenamento
+    const [importVersion, setImportVersion] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([
+            loadMonthDays(backend, currentYear, currentMonth),
+            loadINSSOverride(backend, currentYear, currentMonth),
+            loadClosedMonthTables(backend, currentYear, currentMonth),
+        ]).then(([days, descontoINSS, tabelasFechamento]) => {
+            if (!cancelled) {
+                setStoredMonth({
+                    year: currentYear,
+                    month: currentMonth,
+                    version: importVersion,
+                    days,
+                    descontoINSS,
+                    tabelasFechamento,
+                });
+            }
+        }).catch((error) => {
+            if (!cancelled) fallbackToMemory(error);
+        });
+        return () => { cancelled = true; };
+    }, [backend, currentYear, currentMonth, importVersion]);
+
+    // Todos os meses salvos e as tabelas dos meses fechados (13º no resumo anual e extrato do FGTS)
+    const [storedMonths, setStoredMonths] = useState<DayRecord[][] | null>(null);
+    const [storedClosedMonths, setStoredClosedMonths] = useState<Record<string, TaxTables> | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Promise.all([
+            loadAllMonths(backend),
+            loadAllClosedMonthTables(backend),
+        ]).then(([months, tabelas]) => {
+            if (!cancelled) {
+                setStoredMonths(months);
+                setStoredClosedMonths(tabelas);
+            }
+        }).catch((error) => {
+            if (!cancelled) fallbackToMemory(error);
+        });
+        return () => { cancelled = true; };
+    }, [backend, currentYear, currentMonth, importVersion]);
+
+    // Só considera os dados salvos se forem do mês selecionado (evita mostrar o mês anterior)
+    const monthLoaded =
+        storedMonth !== null &&
+        storedMonth.year === currentYear &&
+        storedMonth.month === currentMonth &&
+        storedMonth.version === importVersion;
+
     // ============================================
     // GERAÇÃO AUTOMÁTICA DE DIAS DO MÊS
     // ============================================
-    // Os dias são gerados sempre que o mês, ano ou configurações mudam
+    // Usa os dias salvos; meses nunca editados são gerados a partir das configurações
     const days = useMemo(() =>
-        generateMonthDays(currentYear, currentMonth, settings),
-        [currentYear, currentMonth, settings]
+        settings && monthLoaded
+            ? generateMonthDays(currentYear, currentMonth, settings, storedMonth?.days)
+            : null,
+        [currentYear, currentMonth, settings, monthLoaded, storedMonth]
     );
 
+    const handleDaysChange = (updatedDays: DayRecord[]) => {
+        saveMonthDays(backend, updatedDays).catch(handleStorageError);
+    };
+
+    const handleINSSChange = (descontoINSS: number | undefined) => {
+        saveINSSOverride(backend, currentYear, currentMonth, descontoINSS).catch(handleStorageError);
+    };
+
+    /**
+     * Média de horas extras do período aquisitivo de umas férias,
+     * calculada a partir dos meses salvos
+     */
+    const handleComputeOvertimeAverage = async (ferias: VacationSettings, periodo: VacationPeriod) => {
+        const aquisitivo = getAcquisitionPeriodOf(ferias, periodo);
+        if (!settings || !aquisitivo) return calculateOvertimeAverage([]);
+
+        const [months, historico] = await withStorageErrors(() => Promise.all([
+            loadMonthsInRange(backend, aquisitivo.inicio, aquisitivo.fim),
+            loadMonthHistory(backend, settings, aquisitivo.fim),
+        ]));
+        return calculateOvertimeAverage(
+            months.map((monthDays) => calculateStoredMonthSummary(monthDays, settings, historico))
+        );
+    };
+
+    /**
+     * Simula a rescisão usando os 12 meses salvos anteriores ao desligamento
+     */
+    const handleSimulateTermination = async (input: TerminationInput) => {
+        if (!settings) return null;
+
+        const desligamento = parseDateKey(input.dataDesligamento);
+        const inicio = new Date(desligamento.getFullYear(), desligamento.getMonth() - 11, 1);
+        const [months, historico] = await withStorageErrors(() => Promise.all([
+            loadMonthsInRange(backend, inicio, desligamento),
+            loadMonthHistory(backend, settings, desligamento),
+        ]));
+        const tabelas = getStoredMonthTaxTables(desligamento.getFullYear(), desligamento.getMonth(), settings, historico);
+        return calculateTermination(input, settings, months, tabelas, historico);
+    };
+
+    /**
+     * Aplica os dias do AFD a cada mês afetado (salvo ou gerado)
+     *
+     * @param gravar - false = apenas prévia; true = grava os meses alterados
+     */
+    const applyAFD = (dias: AFDDayImport[], sobrescrever: boolean, gravar: boolean) => withStorageErrors(async () => {
+        if (!settings) return [];
+
+        const diff: AFDDayDiff[] = [];
+        for (const [year, month, importados] of groupByMonth(dias)) {
+            const stored = await loadMonthDays(backend, year, month);
+            const monthDays = generateMonthDays(year, month, settings, stored);
+            const result = applyAFDDays(monthDays, importados, settings, sobrescrever);
+            if (gravar && result.diff.some((d) => d.aplicado)) {
+                await saveMonthDays(backend, result.days);
+            }
+            diff.push(...result.diff);
+        }
+        return diff;
+    });
+
+    const handlePreviewAFD = (dias: AFDDayImport[], sobrescrever: boolean) =>
+        applyAFD(dias, sobrescrever, false);
+
+    /**
+     * Grava a importação do AFD e recarrega os meses (o PIS/CPF usado fica salvo)
+     */
+    const handleImportAFD = async (dias: AFDDayImport[], sobrescrever: boolean, pisCpf: string) => {
+        try {
+            await applyAFD(dias, sobrescrever, true);
+        } finally {
+            // Meses gravados antes de uma falha também são recarregados
+            setImportVersion((v) => v + 1);
+        }
+        if (settings && settings.identificacao.pisCpf !== pisCpf) {
+            handleSettingsChange({ ...settings, identificacao: { ...settings.identificacao, pisCpf } });
+        }
+    };
+
+    /**
+     * Grava os dias lidos da planilha CSV em cada mês afetado e recarrega os meses
+     */
+    const handleImportCSV = (dias: CSVDayImport[]) => withStorageErrors(async () => {
+        if (!settings) return;
+
+        try {
+            for (const [year, month, importados] of groupByMonth(dias)) {
+                const stored = await loadMonthDays(backend, year, month);
+                const result = applyCSVDays(generateMonthDays(year, month, settings, stored), importados);
+                if (result.aplicados > 0) {
+                    await saveMonthDays(backend, result.days);
+                }
+            }
+        } finally {
+            // Meses gravados antes de uma falha também são recarregados
+            setImportVersion((v) => v + 1);
+        }
+    });
+
+    const handleCloseMonthChange = (tabelas: TaxTables | undefined) => {
+        saveClosedMonthTables(backend, currentYear, currentMonth, tabelas).catch(handleStorageError);
+    };
+
     // Navegação de meses
     const handlePrevMonth = () => {
         if (currentMonth === 0) {
@@ -141,7 +493,9 @@ function App() {
                 <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                     <div>
                         <h1 style={{ margin: 0, color: 'var(--duo-navy)' }}>Controle de Jornada CLT</h1>
-                        <p style={{ margin: 0, color: 'var(--duo-gray-dark)' }}>Gestão automática para Maricá - RJ</p>
+                        <p style={{ margin: 0, color: 'var(--duo-gray-dark)' }}>
+                            Gestão automática para {settings ? describeHolidaySettings(settings.feriados) : '...'}
+                        </p>
                     </div>
 
                     <div className="month-selector cartoon-panel" style={{ margin: 0, padding: '10px 20px', display: 'flex', alignItems: 'center', gap: '15px' }}>
@@ -161,14 +515,35 @@ function App() {
 
             {/* Layout principal com lista de dias e resumo */}
             <main className="app__main">
-                {/* Usamos a key para forçar o reset do estado interno do Layout ao mudar de mês */}
-                <Layout
-                    key={`${currentYear}-${currentMonth}`}
-                    days={days}
-                    settings={settings}
-                    onSettingsChange={setSettings}
-                    salarioMensal={settings.salarioMensal}
-                />
+                {storageError && (
+                    <p className="app__error" role="alert">
+                        Falha no armazenamento local ({storageError}). Os dados desta sessão podem não ser salvos.
+                    </p>
+                )}
+                {settings && days ? (
+                    /* Usamos a key para forçar o reset do estado interno do Layout ao mudar de mês */
+                    <Layout
+                        key={`${currentYear}-${currentMonth}-${importVersion}`}
+                        days={days}
+                        settings={settings}
+                        onSettingsChange={handleSettingsChange}
+                        onDaysChange={handleDaysChange}
+                        salarioMensal={settings.salarioMensal}
+                        descontoINSS={storedMonth?.descontoINSS}
+                        onINSSChange={handleINSSChange}
+                        tabelasFechamento={storedMonth?.tabelasFechamento}
+                        onCloseMonthChange={handleCloseMonthChange}
+                        onComputeOvertimeAverage={handleComputeOvertimeAverage}
+                        storedMonths={storedMonths ?? undefined}
+                        storedClosedMonths={storedClosedMonths ?? undefined}
+                        onSimulateTermination={handleSimulateTermination}
+                        onPreviewAFD={handlePreviewAFD}
+                        onImportAFD={handleImportAFD}
+                        onImportCSV={handleImportCSV}
+                    />
+                ) : (
+                    <p className="app__loading">Carregando...</p>
+                )}
             </main>
 
             {/* Footer da aplicação */}
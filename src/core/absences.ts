@@ -0,0 +1,155 @@
+/**
+ * core/absences.ts
+ *
+ * Ausências: faltas justificadas (atestado, art. 473), faltas injustificadas e atrasos.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Falta justificada (atestado médico ou art. 473 CLT) é paga normalmente
+ * - Falta injustificada desconta o dia (salário ÷ 30) e o repouso remunerado
+ *   da semana (Lei 605/49, art. 6º): folgas e feriados da mesma semana
+ * - Atraso desconta os minutos após o horário de entrada padrão, quando
+ *   passam da tolerância de 10 minutos diários (art. 58 §1º CLT, Súmula 366 TST)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Semanas no mesmo formato de groupDaysByWeek (domingo a sábado)
+ */
+
+import type { AbsenceReason, AbsenceType, DayRecord } from './types';
+import { getDayPunches, parseHourToMinutes } from './time';
+
+/**
+ * Tolerância diária de atraso em minutos (art. 58 §1º CLT).
+ */
+export const LATE_TOLERANCE_MINUTES = 10;
+
+/**
+ * Rótulos dos tipos de ausência.
+ */
+export const ABSENCE_TYPE_LABELS: Record<AbsenceType, string> = {
+    atestado: 'Atestado médico',
+    justificada: 'Falta justificada (art. 473)',
+    injustificada: 'Falta injustificada',
+    atraso: 'Atraso',
+};
+
+/**
+ * Motivos de falta justificada do art. 473 CLT, com o limite legal.
+ */
+export const ABSENCE_REASONS: Record<AbsenceReason, { descricao: string; limite: string }> = {
+    'falecimento': { descricao: 'Falecimento de familiar', limite: 'até 2 dias consecutivos' },
+    'casamento': { descricao: 'Casamento', limite: 'até 3 dias consecutivos' },
+    'nascimento': { descricao: 'Nascimento de filho', limite: '5 dias (licença-paternidade)' },
+    'doacao-sangue': { descricao: 'Doação de sangue', limite: '1 dia a cada 12 meses' },
+    'alistamento-eleitoral': { descricao: 'Alistamento eleitoral', limite: 'até 2 dias' },
+    'servico-militar': { descricao: 'Serviço militar', limite: 'tempo necessário' },
+    'vestibular': { descricao: 'Exame vestibular', limite: 'dias de prova' },
+    'juizo': { descricao: 'Comparecimento a juízo', limite: 'tempo necessário' },
+    'consulta-gestante': { descricao: 'Consultas da gestante', limite: 'até 6 consultas' },
+    'consulta-filho': { descricao: 'Consulta de filho até 6 anos', limite: '1 dia por ano' },
+    'exame-preventivo': { descricao: 'Exames preventivos de câncer', limite: 'até 3 dias a cada 12 meses' },
+    'outro': { descricao: 'Outro motivo legal', limite: 'conforme lei ou convenção' },
+};
+
+/**
+ * Indica se o dia tem ausência de dia inteiro (qualquer tipo exceto atraso).
+ */
+export function isFullDayAbsence(day: DayRecord): boolean {
+    return day.ausencia !== undefined && day.ausencia.tipo !== 'atraso';
+}
+
+/**
+ * Indica se o dia é uma ausência paga (atestado ou art. 473).
+ */
+export function isPaidAbsence(day: DayRecord): boolean {
+    return day.ausencia?.tipo === 'atestado' || day.ausencia?.tipo === 'justificada';
+}
+
+/**
+ * Minutos de atraso descontáveis de um dia.
+ *
+ * @param day - Dia com ausência do tipo "atraso" (vale a primeira entrada)
+ * @param horaEntradaPadrao - Horário de entrada padrão (HH:mm)
+ * @returns Minutos após a entrada padrão, ou 0 dentro da tolerância de 10 minutos
+ *
+ * @example
+ * // Entrada padrão 08:00
+ * calculateLateMinutes({ ...dia, entrada: '08:08', ausencia: { tipo: 'atraso' } }, '08:00') // 0
+ * calculateLateMinutes({ ...dia, entrada: '08:25', ausencia: { tipo: 'atraso' } }, '08:00') // 25
+ *
+ * DECISÃO CONSERVADORA:
+ * - Passada a tolerância, todo o atraso é descontado (Súmula 366 TST)
+ * - Só conta dias marcados como atraso (entradas antecipadas ou jornadas
+ *   noturnas com outro horário não são descontadas)
+ */
+export function calculateLateMinutes(day: DayRecord, horaEntradaPadrao: string): number {
+    const [primeira] = getDayPunches(day);
+    if (day.ausencia?.tipo !== 'atraso' || !primeira || !horaEntradaPadrao) return 0;
+
+    const atraso = parseHourToMinutes(primeira.entrada) - parseHourToMinutes(horaEntradaPadrao);
+    return atraso > LATE_TOLERANCE_MINUTES ? atraso : 0;
+}
+
+/**
+ * Calcula os descontos de faltas e atrasos de um mês.
+ *
+ * LÓGICA:
+ * 1. Cada falta injustificada desconta salário ÷ 30
+ * 2. Semana com falta injustificada perde o repouso: salário ÷ 30 por folga/feriado da semana
+ * 3. Atrasos acima da tolerância: minutos × valor hora ÷ 60
+ *
+ * @param weeks - Dias do mês agrupados por semana (ver groupDaysByWeek)
+ * @param salarioMensal - Salário mensal em reais
+ * @param valorHora - Valor da hora normal
+ * @param horaEntradaPadrao - Horário de entrada padrão (para os atrasos)
+ *
+ * @example
+ * // Salário R$ 3.000,00, 1 falta injustificada numa semana com 1 domingo de folga:
+ * // descontoFaltas 100.00, descontoDSRFaltas 100.00
+ *
+ * DECISÃO CONSERVADORA:
+ * - Perde-se o repouso apenas dos dias da semana que caem no mês
+ * - O DSR sobre horas extras da semana é mantido
+ * - Atrasos não retiram o repouso semanal
+ * - Atestados acima de 15 dias (benefício do INSS) não são tratados à parte
+ */
+export function calculateAbsenceDeductions(
+    weeks: DayRecord[][],
+    salarioMensal: number,
+    valorHora: number,
+    horaEntradaPadrao: string
+): {
+    diasFaltas: number;
+    diasAusenciasJustificadas: number;
+    minutosAtraso: number;
+    descontoFaltas: number;
+    descontoDSRFaltas: number;
+    descontoAtrasos: number;
+} {
+    const valorDia = salarioMensal / 30;
+    let diasFaltas = 0;
+    let diasAusenciasJustificadas = 0;
+    let minutosAtraso = 0;
+    let diasRepousoPerdidos = 0;
+
+    for (const week of weeks) {
+        const faltasSemana = week.filter((day) =>
+            day.ausencia?.tipo === 'injustificada' && !day.ehFolga && !day.ehFerias).length;
+        diasFaltas += faltasSemana;
+        diasAusenciasJustificadas += week.filter(isPaidAbsence).length;
+        minutosAtraso += week.reduce((sum, day) => sum + calculateLateMinutes(day, horaEntradaPadrao), 0);
+
+        if (faltasSemana > 0) {
+            diasRepousoPerdidos += week.filter((day) => !day.ehFerias && (day.ehFolga || day.ehFeriado)).length;
+        }
+    }
+
+    return {
+        diasFaltas,
+        diasAusenciasJustificadas,
+        minutosAtraso,
+        descontoFaltas: Math.round(diasFaltas * valorDia * 100) / 100,
+        descontoDSRFaltas: Math.round(diasRepousoPerdidos * valorDia * 100) / 100,
+        descontoAtrasos: Math.round(minutosAtraso * valorHora / 60 * 100) / 100,
+    };
+}
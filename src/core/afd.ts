@@ -0,0 +1,448 @@
+/**
+ * core/afd.ts
+ *
+ * Importação do AFD (Arquivo Fonte de Dados) gerado pelo relógio de ponto certificado.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Registros de largura fixa, um por linha: cabeçalho (tipo 1), marcações
+ *   (tipo 3, e tipo 7 no REP-P) e trailer (NSR 999999999)
+ * - Leiaute da Portaria 1.510/2009: data DDMMAAAA, hora HHMM e PIS
+ * - Leiaute da Portaria 671/2021: data/hora AAAA-MM-DDThh:mm:00-0300, CPF
+ *   e CRC-16 ao final do cabeçalho e de cada marcação; marcações do REP-P
+ *   (tipo 7) encadeadas por hash SHA-256
+ * - Apenas as marcações do PIS/CPF do trabalhador são importadas
+ * - Marcações consecutivas formam pares entrada/saída do dia da entrada
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global); a leitura do arquivo fica na UI
+ * - Problemas do arquivo são listados, nunca lançados como erro
+ */
+
+import type {
+    AFDDayDiff,
+    AFDDayImport,
+    AFDDayStatus,
+    AFDFile,
+    AFDLayout,
+    AFDPunchRecord,
+    DayRecord,
+    ImportIssue,
+    Punch,
+    Settings,
+} from './types';
+import { isFullDayAbsence } from './absences';
+import { getDayPunches, setDayPunches, toDateKey } from './time';
+
+/**
+ * Duração máxima de um período entre entrada e saída, em horas.
+ * Acima disso a entrada fica sem par (esquecimento de marcação).
+ */
+export const AFD_MAX_PERIOD_HOURS = 12;
+
+/**
+ * NSR do trailer (último registro do arquivo).
+ */
+const TRAILER_NSR = '999999999';
+
+/**
+ * Tamanho do cabeçalho no leiaute da Portaria 671 (o da 1.510 tem 232).
+ */
+const HEADER_671_LENGTH = 302;
+
+/**
+ * Tamanho da marcação tipo 3 no leiaute da Portaria 671 (o da 1.510 tem 34).
+ */
+const PUNCH_671_LENGTH = 50;
+
+/**
+ * Rótulos dos leiautes do AFD.
+ */
+export const AFD_LAYOUT_LABELS: Record<AFDLayout, string> = {
+    'portaria-1510': 'Portaria 1.510/2009 (PIS)',
+    'portaria-671': 'Portaria 671/2021 (CPF)',
+};
+
+/**
+ * Calcula o CRC-16 de um registro (algoritmo CRC-16/KERMIT, 4 dígitos hexadecimais).
+ *
+ * @param text - Conteúdo do registro sem o próprio CRC
+ * @returns CRC em hexadecimal maiúsculo
+ *
+ * @example
+ * calculateCRC16("123456789") // "2189"
+ */
+export function calculateCRC16(text: string): string {
+    let crc = 0;
+    for (let i = 0; i < text.length; i++) {
+        crc ^= text.charCodeAt(i) & 0xff;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1;
+        }
+    }
+    return crc.toString(16).toUpperCase().padStart(4, '0');
+}
+
+/**
+ * Remove a formatação e os zeros à esquerda de um PIS/CPF.
+ *
+ * @example
+ * normalizeDocument("012.345.678-90") // "1234567890"
+ * normalizeDocument("012345678901")   // "12345678901"
+ */
+export function normalizeDocument(documento: string): string {
+    return documento.replace(/\D/g, '').replace(/^0+/, '');
+}
+
+/**
+ * Lê uma data DDMMAAAA (e hora HHMM opcional) do leiaute da Portaria 1.510.
+ */
+function parseDate1510(data: string, hora = '0000'): Date | null {
+    if (!/^\d{8}$/.test(data) || !/^\d{4}$/.test(hora)) return null;
+    const date = new Date(
+        Number(data.slice(4, 8)),
+        Number(data.slice(2, 4)) - 1,
+        Number(data.slice(0, 2)),
+        Number(hora.slice(0, 2)),
+        Number(hora.slice(2, 4))
+    );
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Lê uma data AAAA-MM-DD (e hora Thh:mm opcional) do leiaute da Portaria 671.
+ *
+ * DECISÃO CONSERVADORA:
+ * - O fuso (-0300) é ignorado: vale a data e a hora registradas pelo relógio
+ */
+function parseDate671(text: string): Date | null {
+    const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2}))?/.exec(text);
+    if (!match) return null;
+    const [, year, month, day, hours = '0', minutes = '0'] = match;
+    const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+    return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Separa as linhas do arquivo, mantendo o número de cada uma.
+ */
+function splitRecords(text: string): { linha: number; registro: string }[] {
+    return text
+        .split(/\r?\n/)
+        .map((registro, index) => ({ linha: index + 1, registro }))
+        .filter(({ registro }) => registro.trim() !== '');
+}
+
+/**
+ * Lê um AFD (Portaria 1.510 ou 671).
+ *
+ * LÓGICA:
+ * 1. Cabeçalho define o leiaute (302 posições = Portaria 671)
+ * 2. Marcações tipo 3 (e tipo 7 do REP-P) viram AFDPunchRecord
+ * 3. Demais tipos (empresa, ajuste de relógio, empregados, eventos) são contados e ignorados
+ * 4. Trailer: quantidade de registros por tipo conferida com o lido
+ *
+ * @param text - Conteúdo do arquivo (ISO-8859-1, uma linha por registro)
+ * @returns Cabeçalho, marcações e problemas encontrados
+ *
+ * @example
+ * parseAFD("0000000013...\n0000000023" + "01032026" + "0800" + "012345678901\n...")
+ * // marcacoes: [{ nsr: 2, dataHora: 01/03/2026 08:00, documento: "12345678901" }]
+ *
+ * DECISÃO CONSERVADORA:
+ * - Sem cabeçalho, o leiaute é deduzido pelo tamanho da primeira marcação
+ * - Marcação com CRC-16 inválido é listada como problema, mas importada
+ *   (o arquivo pode ter sido exportado por software de terceiros)
+ * - A assinatura digital (.p7s) do arquivo não é verificada
+ */
+export function parseAFD(text: string): AFDFile {
+    const registros = splitRecords(text);
+    const problemas: ImportIssue[] = [];
+    const marcacoes: AFDPunchRecord[] = [];
+    const contagem: Record<string, number> = {};
+
+    const cabecalho = registros.find(({ registro }) => registro[9] === '1' && registro.slice(0, 9) !== TRAILER_NSR);
+    const primeiraMarcacao = registros.find(({ registro }) => registro[9] === '3' && registro.slice(0, 9) !== TRAILER_NSR);
+    const layout: AFDLayout = cabecalho
+        ? (cabecalho.registro.length >= HEADER_671_LENGTH ? 'portaria-671' : 'portaria-1510')
+        : (primeiraMarcacao && primeiraMarcacao.registro.length >= PUNCH_671_LENGTH ? 'portaria-671' : 'portaria-1510');
+    const is671 = layout === 'portaria-671';
+
+    const file: AFDFile = {
+        layout,
+        documentoEmpregador: '',
+        razaoSocial: '',
+        numeroREP: '',
+        inicio: null,
+        fim: null,
+        marcacoes,
+        problemas,
+    };
+
+    if (cabecalho) {
+        const r = cabecalho.registro;
+        file.documentoEmpregador = r.slice(11, 25).replace(/\D/g, '');
+        if (is671) {
+            file.razaoSocial = r.slice(39, 189).trim();
+            file.numeroREP = r.slice(189, 206).trim();
+            file.inicio = parseDate671(r.slice(206, 216));
+            file.fim = parseDate671(r.slice(216, 226));
+            const crc = calculateCRC16(r.slice(0, 298));
+            if (r.slice(298, 302).toUpperCase() !== crc) {
+                problemas.push({ linha: cabecalho.linha, mensagem: `CRC-16 do cabeçalho inválido (esperado ${crc})` });
+            }
+        } else {
+            file.razaoSocial = r.slice(37, 187).trim();
+            file.numeroREP = r.slice(187, 204).trim();
+            file.inicio = parseDate1510(r.slice(204, 212));
+            file.fim = parseDate1510(r.slice(212, 220));
+        }
+    } else {
+        problemas.push({ linha: 0, mensagem: 'Arquivo sem cabeçalho (registro tipo 1)' });
+    }
+
+    let trailer: { linha: number; registro: string } | undefined;
+    for (const { linha, registro } of registros) {
+        const nsr = registro.slice(0, 9);
+        if (nsr === TRAILER_NSR) {
+            trailer = { linha, registro };
+            continue;
+        }
+        if (!/^\d{9}$/.test(nsr)) {
+            // Linha de assinatura digital ou texto estranho ao leiaute
+            if (!registro.startsWith('ASSINATURA_DIGITAL')) {
+                problemas.push({ linha, mensagem: 'Linha fora do leiaute do AFD' });
+            }
+            continue;
+        }
+
+        const tipo = registro[9];
+        contagem[tipo] = (contagem[tipo] ?? 0) + 1;
+        if (tipo !== '3' && tipo !== '7') continue;
+
+        let dataHora: Date | null;
+        let documento: string;
+        if (is671) {
+            dataHora = parseDate671(registro.slice(10, 34));
+            documento = registro.slice(34, 46);
+            if (tipo === '3') {
+                const crc = calculateCRC16(registro.slice(0, 46));
+                if (registro.slice(46, 50).toUpperCase() !== crc) {
+                    problemas.push({ linha, mensagem: `CRC-16 da marcação inválido (esperado ${crc})` });
+                }
+            }
+        } else {
+            dataHora = parseDate1510(registro.slice(10, 18), registro.slice(18, 22));
+            documento = registro.slice(22, 34);
+        }
+
+        if (!dataHora || !/^\d+$/.test(documento.trim())) {
+            problemas.push({ linha, mensagem: 'Marcação com data/hora ou PIS/CPF ilegível' });
+            continue;
+        }
+        marcacoes.push({ nsr: Number(nsr), dataHora, documento: normalizeDocument(documento) });
+    }
+
+    if (trailer) {
+        // Quantidades por tipo: 2 a 5 (Portaria 1.510) ou 2 a 7 (Portaria 671)
+        const tipos = is671 ? ['2', '3', '4', '5', '6', '7'] : ['2', '3', '4', '5'];
+        tipos.forEach((tipo, index) => {
+            const campo = trailer!.registro.slice(9 + index * 9, 18 + index * 9);
+            const esperado = Number(campo);
+            const lido = contagem[tipo] ?? 0;
+            if (/^\d{9}$/.test(campo) && esperado !== lido) {
+                problemas.push({
+                    linha: trailer!.linha,
+                    mensagem: `Trailer informa ${esperado} registro(s) tipo ${tipo}, arquivo tem ${lido}`,
+                });
+            }
+        });
+    } else {
+        problemas.push({ linha: 0, mensagem: 'Arquivo sem trailer (arquivo incompleto?)' });
+    }
+
+    return file;
+}
+
+/**
+ * Confere o encadeamento SHA-256 das marcações do REP-P (registros tipo 7).
+ *
+ * LÓGICA:
+ * - Hash de cada registro = SHA-256 das posições 1 a 73 do registro
+ *   concatenadas ao hash do registro tipo 7 anterior (vazio no primeiro)
+ *
+ * @param text - Conteúdo do arquivo
+ * @returns Registros com hash divergente (vazio = cadeia íntegra ou sem tipo 7)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Assíncrona por usar a Web Crypto API; a comparação ignora maiúsculas/minúsculas
+ * - Após um hash divergente, a cadeia segue com o hash gravado no arquivo
+ *   (só o registro alterado é apontado)
+ */
+export async function verifyAFDHashChain(text: string): Promise<ImportIssue[]> {
+    const problemas: ImportIssue[] = [];
+    const encoder = new TextEncoder();
+    let anterior = '';
+
+    for (const { linha, registro } of splitRecords(text)) {
+        if (registro[9] !== '7' || registro.slice(0, 9) === TRAILER_NSR) continue;
+
+        const gravado = registro.slice(73, 137).toLowerCase();
+        const digest = await crypto.subtle.digest('SHA-256', encoder.encode(registro.slice(0, 73) + anterior));
+        const calculado = Array.from(new Uint8Array(digest))
+            .map((byte) => byte.toString(16).padStart(2, '0'))
+            .join('');
+
+        if (gravado !== calculado) {
+            problemas.push({ linha, mensagem: 'Hash SHA-256 da marcação não confere com a cadeia' });
+        }
+        anterior = registro.slice(73, 137);
+    }
+
+    return problemas;
+}
+
+/**
+ * Filtra as marcações de um trabalhador pelo PIS ou CPF.
+ *
+ * @example
+ * filterPunchesByWorker(file.marcacoes, "123.456.789-01")
+ */
+export function filterPunchesByWorker(marcacoes: AFDPunchRecord[], documento: string): AFDPunchRecord[] {
+    const alvo = normalizeDocument(documento);
+    if (!alvo) return [];
+    return marcacoes.filter((m) => m.documento === alvo);
+}
+
+/**
+ * Formata a hora de uma marcação como HH:mm.
+ */
+function formatPunchTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+/**
+ * Monta os pares entrada/saída de cada dia a partir das marcações de um trabalhador.
+ *
+ * LÓGICA:
+ * 1. Marcações em ordem cronológica; repetidas no mesmo minuto contam uma vez
+ * 2. Cada marcação abre um período e a seguinte o fecha
+ * 3. Período acima de AFD_MAX_PERIOD_HOURS: a entrada fica sem par
+ * 4. O período pertence ao dia da entrada (jornada noturna não é partida)
+ *
+ * @param marcacoes - Marcações do trabalhador (ver filterPunchesByWorker)
+ * @returns Dias com marcações e as marcações que ficaram sem par
+ *
+ * @example
+ * // 01/03 08:00, 12:00, 13:00, 17:00 e 22:00; 02/03 05:00
+ * // dias: 01/03 → [08:00–12:00, 13:00–17:00, 22:00–05:00]
+ *
+ * DECISÃO CONSERVADORA:
+ * - Marcação sem par não é completada nem descartada em silêncio: vai para semPar
+ */
+export function buildAFDDays(marcacoes: AFDPunchRecord[]): { dias: AFDDayImport[]; semPar: AFDPunchRecord[] } {
+    const ordenadas = [...marcacoes].sort((a, b) => a.dataHora.getTime() - b.dataHora.getTime() || a.nsr - b.nsr);
+    const porDia = new Map<string, AFDDayImport>();
+    const semPar: AFDPunchRecord[] = [];
+    const limite = AFD_MAX_PERIOD_HOURS * 60 * 60 * 1000;
+
+    let aberta: AFDPunchRecord | null = null;
+    let ultima: number | null = null;
+    for (const marcacao of ordenadas) {
+        const instante = Math.floor(marcacao.dataHora.getTime() / 60000);
+        if (instante === ultima) continue;
+        ultima = instante;
+
+        if (!aberta) {
+            aberta = marcacao;
+            continue;
+        }
+        if (marcacao.dataHora.getTime() - aberta.dataHora.getTime() > limite) {
+            semPar.push(aberta);
+            aberta = marcacao;
+            continue;
+        }
+
+        const key = toDateKey(aberta.dataHora);
+        const dia = porDia.get(key) ?? {
+            data: new Date(aberta.dataHora.getFullYear(), aberta.dataHora.getMonth(), aberta.dataHora.getDate()),
+            marcacoes: [],
+        };
+        dia.marcacoes.push({ entrada: formatPunchTime(aberta.dataHora), saida: formatPunchTime(marcacao.dataHora) });
+        porDia.set(key, dia);
+        aberta = null;
+    }
+    if (aberta) semPar.push(aberta);
+
+    const dias = [...porDia.values()].sort((a, b) => a.data.getTime() - b.data.getTime());
+    return { dias, semPar };
+}
+
+/**
+ * Indica se duas listas de marcações têm os mesmos horários.
+ */
+function samePunches(a: Punch[], b: Punch[]): boolean {
+    return a.length === b.length && a.every((m, i) => m.entrada === b[i].entrada && m.saida === b[i].saida);
+}
+
+/**
+ * Aplica as marcações do AFD aos dias de um mês.
+ *
+ * LÓGICA (por dia com marcações no AFD):
+ * 1. Férias: não recebe marcações
+ * 2. Mesmos horários: nada muda
+ * 3. Sem horário ou com o horário padrão: recebe as marcações
+ * 4. Editado manualmente com outros horários: só recebe se sobrescrever = true
+ *
+ * @param days - Dias do mês (salvos ou gerados)
+ * @param importados - Dias montados por buildAFDDays (outros meses são ignorados)
+ * @param settings - Configurações (horário e intervalo padrão)
+ * @param sobrescrever - Substitui também os dias editados manualmente
+ * @returns Dias atualizados e a prévia de cada dia importado
+ *
+ * @example
+ * // Dia 08:00–17:00 (padrão) e AFD com 08:02–12:00, 13:01–17:05:
+ * // situacao "novo", marcacoes com os dois pares e intervalo 0
+ *
+ * DECISÃO CONSERVADORA:
+ * - Um único par mantém o intervalo padrão (intervalo pré-assinalado, art. 74 §2º CLT);
+ *   com vários pares, o intervalo é o tempo entre eles
+ * - Dia com marcação deixa de ser falta ou folga compensatória (atraso é mantido)
+ * - Folga e feriado trabalhados continuam marcados como folga/feriado
+ */
+export function applyAFDDays(
+    days: DayRecord[],
+    importados: AFDDayImport[],
+    settings: Settings,
+    sobrescrever: boolean
+): { days: DayRecord[]; diff: AFDDayDiff[] } {
+    const porDia = new Map(importados.map((d) => [toDateKey(d.data), d.marcacoes]));
+    const diff: AFDDayDiff[] = [];
+
+    const updated = days.map((day) => {
+        const depois = porDia.get(toDateKey(day.date));
+        if (!depois || depois.length === 0) return day;
+
+        const antes = getDayPunches(day);
+        const horarioPadrao = !day.marcacoes
+            && day.entrada === settings.horaEntradaPadrao
+            && day.saida === settings.horaSaidaPadrao;
+
+        let situacao: AFDDayStatus;
+        if (day.ehFerias) situacao = 'ferias';
+        else if (samePunches(antes, depois)) situacao = 'igual';
+        else if (antes.length === 0 || horarioPadrao) situacao = 'novo';
+        else situacao = 'alterado';
+
+        const aplicado = situacao === 'novo' || (situacao === 'alterado' && sobrescrever);
+        diff.push({ data: day.date, situacao, antes, depois, aplicado });
+        if (!aplicado) return day;
+
+        return {
+            ...setDayPunches(day, depois, settings.intervaloPadraoHoras),
+            ausencia: isFullDayAbsence(day) ? undefined : day.ausencia,
+            compensacao: undefined,
+        };
+    });
+
+    return { days: updated, diff };
+}
@@ -5,11 +5,21 @@
  * 
  * REGRAS DE NEGÓCIO CRÍTICAS:
  * - Jornada padrão diária é configurável pelo usuário
- * - Domingo NÃO gera automaticamente 100% (apenas se for feriado)
- * - Feriado gera 100% para TODAS as horas trabalhadas
- * - Horas acima da jornada padrão geram 50%
- * - Dia de folga (não feriado) gera 50% para todas as horas
+ * - Percentuais das horas extras configuráveis (faixas, dia da semana, folga,
+ *   feriado; ver overtime.ts). Padrão CLT:
+ *   - Domingo NÃO gera automaticamente 100% (apenas se for feriado)
+ *   - Feriado gera 100% para TODAS as horas trabalhadas
+ *   - Horas acima da jornada padrão geram 50%
+ *   - Dia de folga (não feriado) gera 50% para todas as horas
+ * - Horas normais acima da carga semanal contratual (padrão 44h) viram extra
+ *   (percentual da primeira faixa)
+ * - Valor hora = salário ÷ divisor contratual (padrão 220; ver Settings.cargaHoraria)
+ * - Dia de férias não gera horas (pago como férias + 1/3, ver vacation.ts)
+ * - Horas na janela noturna geram adicional noturno (hora reduzida de 52m30s)
  * - DSR calculado sobre horas extras do período
+ * - No banco de horas, só as horas vencidas são pagas (ver timeBank.ts)
+ * - Intermitente: só os dias das convocações geram horas; cada convocação paga
+ *   DSR, férias + 1/3 e 13º proporcionais (ver contract.ts)
  * 
  * CRITÉRIOS DE DESENVOLVIMENTO:
  * - Funções puras (sem estado global)
@@ -18,133 +28,261 @@
  * - Tratamento de edge cases de forma conservadora
  */
 
-import type { DailyHoursResult, DayRecord, MonthlySummary, Settings } from './types';
+import type {
+    DailyHoursResult,
+    DayRecord,
+    IntermittentCallPay,
+    MonthHistory,
+    MonthlySummary,
+    NightShiftRules,
+    OvertimeHours,
+    OvertimeRules,
+    Punch,
+    Settings,
+    TaxTables,
+    TimeBankEntry,
+    WeeklySummary,
+} from './types';
 import {
     calculateWorkedMinutes,
+    getDayPunches,
+    getPunchPeriods,
     minutesToDecimalHours,
+    toMonthKey,
 } from './time';
+import { calculateINSS } from './inss';
+import { calculateIRRF } from './irrf';
+import { getDailyStandardHours, isScheduledWorkDay } from './schedule';
+import { isHoliday } from './holidays';
+import { isNightMinute, nightMinuteWeight, nightWindowMinutes } from './nightShift';
+import { getTaxTables } from './taxTables';
+import { calculateMonthVacationValues } from './vacation';
+import { calculateBaseSalary, calculateFGTSDeposit } from './payroll';
+import { calculateAbsenceDeductions, isFullDayAbsence } from './absences';
+import { countDSRDays } from './dsr';
+import { calculateCallPayments, getCallForDate, getContractHourlyValue, getContractWeeklyHours } from './contract';
+import {
+    addOvertimeHours,
+    calculateOvertimeValue,
+    CLT_OVERTIME_PERCENT,
+    DEFAULT_OVERTIME_RULES,
+    getRestCompensations,
+    getRestDayPercent,
+    getWeekdayPercent,
+    getWeeklyExcessPercent,
+    isRestDayCompensated,
+    splitOvertimeTiers,
+    sumOvertimeHours,
+} from './overtime';
+
+/**
+ * Resultado zerado (dia sem jornada registrada).
+ */
+const EMPTY_DAILY_RESULT: DailyHoursResult = {
+    horasNormais: 0,
+    horasExtras: {},
+    horasNoturnas: 0,
+    horasNoturnasExtra: 0,
+    adicionalNoturnoHoras: 0,
+};
 
 /**
  * Calcula o resultado de horas trabalhadas para um único dia.
  * 
- * LÓGICA DE CLASSIFICAÇÃO:
- * 1. Se feriado: TODAS as horas = 100%
- * 2. Se folga (não feriado): TODAS as horas = 50%
+ * LÓGICA DE CLASSIFICAÇÃO (percentuais de regrasExtras, ver overtime.ts):
+ * 1. Se feriado: TODAS as horas são extras com o percentual do feriado (padrão 100%)
+ * 2. Se folga (não feriado): TODAS as horas são extras com o percentual do dia da
+ *    semana, se houver, ou o da folga (padrão 50%; 100% com a Súmula 146 ativa).
+ *    Folga compensada é informada como dia normal (ver calculateDayResults)
  * 3. Dia normal:
  *    - Até jornada padrão = horas normais
- *    - Acima da jornada padrão = 50%
+ *    - Acima da jornada padrão = extras pelo percentual do dia da semana, se houver,
+ *      ou pelas faixas de horas extras do dia (padrão: todas a 50%)
  * 
- * @param entrada - Horário de entrada (HH:mm)
- * @param saida - Horário de saída (HH:mm)
- * @param intervaloHoras - Duração do intervalo em horas
+ * MARCAÇÕES:
+ * - A jornada é a lista de pares entrada/saída; as lacunas entre os pares
+ *   são intervalos reais e não contam como trabalho
+ * 
+ * VIRADA DE DIA (saída < entrada):
+ * - Os períodos são percorridos minuto a minuto, em ordem cronológica
+ * - Minutos após a meia-noite seguem as regras do dia seguinte (feriado/folga)
+ * - Minutos em dias normais somam juntos contra a jornada padrão
+ * 
+ * ADICIONAL NOTURNO (se regrasNoturnas for informado):
+ * - Minutos na janela noturna valem 60/52.5 com hora reduzida (7h reais = 8h)
+ * - As horas noturnas recebem o adicional sobre a hora já classificada:
+ *   normal × %, extra de p% × (1 + p) × %
+ * - As últimas horas da jornada são as extras; se forem noturnas, entram em horasNoturnasExtra
+ * 
+ * @param marcacoes - Pares entrada/saída (HH:mm) em ordem cronológica (ver getDayPunches)
+ * @param intervaloHoras - Intervalo não registrado nas marcações, em horas
  * @param ehFeriado - Se o dia é feriado
  * @param ehFolga - Se o dia é folga semanal
  * @param jornadaPadraoHoras - Jornada padrão diária em horas (ex: 7.33)
- * @returns Resultado com horas normais, 50% e 100%
+ * @param proximoDia - Classificação do dia seguinte (usada só se a jornada vira o dia)
+ * @param regrasNoturnas - Regras do adicional noturno (omitido = sem adicional)
+ * @param regrasExtras - Percentuais de horas extras (padrão: CLT, ver DEFAULT_OVERTIME_RULES)
+ * @param diaSemana - Dia da semana da entrada (0 = domingo); omitido = ignora os percentuais por dia
+ * @returns Resultado com horas normais, extras por percentual e noturnas
  * 
  * DECISÕES CONSERVADORAS:
- * - Se entrada ou saída estiverem vazios, retorna zeros
+ * - Sem marcações, retorna zeros
  * - Feriado tem precedência sobre folga (se ambos forem true)
  * - Não permite horas negativas
+ * - Sem proximoDia, a jornada inteira segue as regras do dia de entrada
+ * - O intervalo não registrado é descontado proporcionalmente de cada minuto
+ *   da jornada, já que o registro não informa em que horário ele foi gozado
  */
 export function calculateDailyResult(
-    entrada: string,
-    saida: string,
+    marcacoes: Punch[],
     intervaloHoras: number,
     ehFeriado: boolean,
     ehFolga: boolean,
-    jornadaPadraoHoras: number
+    jornadaPadraoHoras: number,
+    proximoDia?: Pick<DayRecord, 'ehFeriado' | 'ehFolga'>,
+    regrasNoturnas?: NightShiftRules,
+    regrasExtras: OvertimeRules = DEFAULT_OVERTIME_RULES,
+    diaSemana?: number
 ): DailyHoursResult {
-    // Se não há entrada/saída válida, retorna zeros
-    if (!entrada || !saida) {
-        return {
-            horasNormais: 0,
-            horasExtra50: 0,
-            horasExtra100: 0,
-        };
+    // Períodos com virada de dia (minutos desde 00:00 do dia da primeira entrada)
+    const periodos = getPunchPeriods(marcacoes);
+    const minutos: number[] = [];
+    for (const periodo of periodos) {
+        for (let minuto = periodo.inicio; minuto < periodo.fim; minuto++) minutos.push(minuto);
     }
 
-    // Calcula total de minutos trabalhados (já descontando intervalo)
-    const minutosTrabalhadosTotal = calculateWorkedMinutes(entrada, saida, intervaloHoras);
-    const horasTrabalhadasTotal = minutesToDecimalHours(minutosTrabalhadosTotal);
+    // Duração total e minutos efetivamente trabalhados
+    const duracaoMinutos = minutos.length;
+    const minutosTrabalhados = calculateWorkedMinutes(marcacoes, intervaloHoras);
+    if (duracaoMinutos === 0 || minutosTrabalhados === 0) {
+        return { ...EMPTY_DAILY_RESULT };
+    }
 
-    // REGRA 1: FERIADO - todas as horas são 100%
-    if (ehFeriado) {
-        return {
-            horasNormais: 0,
-            horasExtra50: 0,
-            horasExtra100: horasTrabalhadasTotal,
-        };
+    // Fração de cada minuto do período que é trabalho (desconta o intervalo)
+    const fatorTrabalho = minutosTrabalhados / duracaoMinutos;
+    const seguinte = proximoDia ?? { ehFeriado, ehFolga };
+
+    // Prorrogação (Súmula 60, II): só se a janela noturna inteira foi trabalhada
+    let cobreJanelaNoturna = false;
+    if (regrasNoturnas && regrasNoturnas.prorrogacao) {
+        const minutosNaJanela = minutos.filter((m) => isNightMinute(m % (24 * 60), regrasNoturnas)).length;
+        cobreJanelaNoturna = minutosNaJanela >= nightWindowMinutes(regrasNoturnas);
     }
 
-    // REGRA 2: FOLGA (não feriado) - todas as horas são 50%
-    if (ehFolga) {
-        return {
-            horasNormais: 0,
-            horasExtra50: horasTrabalhadasTotal,
-            horasExtra100: 0,
-        };
+    let normais = 0;
+    const extras: OvertimeHours = {};
+    let extrasPorFaixa = 0;
+    let noturnas = 0;
+    let noturnasExtra = 0;
+    let adicionalNoturno = 0;
+    let jornadaRestante = jornadaPadraoHoras * 60;
+    let passouPelaJanela = false;
+
+    for (const minutoAbsoluto of minutos) {
+        const viraDia = minutoAbsoluto >= 24 * 60;
+        const parte = viraDia ? seguinte : { ehFeriado, ehFolga };
+        const diaSemanaParte = diaSemana === undefined ? undefined : (diaSemana + (viraDia ? 1 : 0)) % 7;
+
+        // Minuto noturno: dentro da janela, ou prorrogação após a janela inteira
+        let ehNoturno = false;
+        if (regrasNoturnas) {
+            const naJanela = isNightMinute(minutoAbsoluto % (24 * 60), regrasNoturnas);
+            if (naJanela) passouPelaJanela = true;
+            ehNoturno = naJanela || (cobreJanelaNoturna && passouPelaJanela);
+        }
+
+        const peso = fatorTrabalho * (ehNoturno && regrasNoturnas ? nightMinuteWeight(regrasNoturnas) : 1);
+        let minutoNormal = 0;
+        let minutoExtras: [number, number][] = [];
+
+        const percentualRepouso = getRestDayPercent(parte.ehFeriado, parte.ehFolga, regrasExtras, diaSemanaParte);
+        if (percentualRepouso !== null) {
+            // REGRAS 1 e 2: FERIADO ou FOLGA - todas as horas são extras
+            minutoExtras = [[percentualRepouso, peso]];
+        } else {
+            // REGRA 3: DIA NORMAL
+            // Até a jornada padrão = horas normais
+            // Acima da jornada padrão = extras (dia da semana ou faixas)
+            minutoNormal = Math.min(peso, Math.max(0, jornadaRestante));
+            jornadaRestante -= minutoNormal;
+            const excedente = peso - minutoNormal;
+            if (excedente > 0) {
+                const percentualDia = getWeekdayPercent(regrasExtras, diaSemanaParte);
+                if (percentualDia !== undefined) {
+                    minutoExtras = [[percentualDia, excedente]];
+                } else {
+                    minutoExtras = splitOvertimeTiers(excedente, extrasPorFaixa, regrasExtras.faixas);
+                    extrasPorFaixa += excedente;
+                }
+            }
+        }
+
+        normais += minutoNormal;
+        let minutoExtra = 0;
+        let minutoExtraMajorado = 0;
+        for (const [percentual, valor] of minutoExtras) {
+            extras[percentual] = (extras[percentual] ?? 0) + valor;
+            minutoExtra += valor;
+            minutoExtraMajorado += valor * (1 + percentual / 100);
+        }
+
+        if (ehNoturno && regrasNoturnas) {
+            noturnas += peso;
+            noturnasExtra += minutoExtra;
+            adicionalNoturno += (minutoNormal + minutoExtraMajorado) * regrasNoturnas.percentual;
+        }
     }
 
-    // REGRA 3: DIA NORMAL
-    // Até a jornada padrão = horas normais
-    // Acima da jornada padrão = horas extras 50%
-    if (horasTrabalhadasTotal <= jornadaPadraoHoras) {
-        return {
-            horasNormais: horasTrabalhadasTotal,
-            horasExtra50: 0,
-            horasExtra100: 0,
-        };
-    } else {
-        const horasNormais = jornadaPadraoHoras;
-        const horasExtra50 = horasTrabalhadasTotal - jornadaPadraoHoras;
-
-        return {
-            horasNormais: horasNormais,
-            horasExtra50: horasExtra50,
-            horasExtra100: 0,
-        };
+    const horasExtras: OvertimeHours = {};
+    for (const [percentual, valor] of Object.entries(extras)) {
+        const horas = minutesToDecimalHours(valor);
+        if (horas > 0) horasExtras[percentual] = horas;
     }
+
+    return {
+        horasNormais: minutesToDecimalHours(normais),
+        horasExtras,
+        horasNoturnas: minutesToDecimalHours(noturnas),
+        horasNoturnasExtra: minutesToDecimalHours(noturnasExtra),
+        adicionalNoturnoHoras: Math.round((adicionalNoturno / 60) * 10000) / 10000,
+    };
 }
 
 /**
  * Calcula o DSR (Descanso Semanal Remunerado) sobre horas extras.
  * 
  * LÓGICA:
- * DSR = valor das horas extras multiplicado pelo número de domingos/feriados.
+ * DSR = (valor das horas extras ÷ dias úteis) × dias de repouso (Lei 605/49)
  * 
- * Fórmula simplificada:
- * DSR = (valor hora extra 50% * horas 50% + valor hora extra 100% * horas 100%) * (dias de repouso / dias úteis)
+ * Fórmula:
+ * DSR = (Σ horas de cada percentual × valor hora × (1 + percentual) + outras parcelas)
+ *       * (dias de repouso / dias úteis)
  * 
- * DECISÃO CONSERVADORA:
- * - Para simplificar, calculamos DSR como percentual sobre o total de horas extras
- * - Proporção padrão: 1/6 (aproximadamente 4.33 domingos em um mês de 26 dias úteis)
- * - Esta é uma aproximação. Ajustes podem ser feitos conforme necessidade legal.
+ * A contagem dos dias (calendário ou escala) fica em countDSRDays (dsr.ts).
  * 
- * @param horasExtra50Total - Total de horas extras 50% do período
- * @param horasExtra100Total - Total de horas extras 100% do período
- * @param valorHoraExtra50 - Valor unitário da hora extra 50%
- * @param valorHoraExtra100 - Valor unitário da hora extra 100%
+ * @param horasExtras - Horas extras do período por percentual
+ * @param valorHora - Valor da hora normal
  * @param diasRepouso - Número de dias de repouso no período (domingos + feriados)
  * @param diasUteis - Número de dias úteis no período
+ * @param outrasParcelas - Outras parcelas variáveis na base, em reais (ex.: adicional noturno)
  * @returns Valor do DSR em reais
  * 
+ * @example
+ * // 10h extras 50% a R$ 20,45, 26 dias úteis, 5 domingos
+ * calculateDSR({ '50': 10 }, 13.6333, 5, 26) // 39.33
+ * 
  * NOTA IMPORTANTE:
- * Esta implementação usa uma fórmula simplificada.
- * Para cálculos legais precisos, consulte legislação vigente e CCT.
+ * Convenções coletivas podem mudar o divisor (ex.: sábado como repouso).
  */
 export function calculateDSR(
-    horasExtra50Total: number,
-    horasExtra100Total: number,
-    valorHoraExtra50: number,
-    valorHoraExtra100: number,
+    horasExtras: OvertimeHours,
+    valorHora: number,
     diasRepouso: number,
-    diasUteis: number
+    diasUteis: number,
+    outrasParcelas = 0
 ): number {
-    // Valor total das horas extras do período
-    const valorHorasExtras50 = horasExtra50Total * valorHoraExtra50;
-    const valorHorasExtras100 = horasExtra100Total * valorHoraExtra100;
-    const valorTotalHorasExtras = valorHorasExtras50 + valorHorasExtras100;
+    // Valor total das horas extras do período (e demais parcelas da base)
+    const valorTotalHorasExtras = calculateOvertimeValue(horasExtras, valorHora) + outrasParcelas;
 
     // Se não há dias úteis ou dias de repouso, DSR é zero
     if (diasUteis === 0 || diasRepouso === 0) {
@@ -158,160 +296,403 @@ export function calculateDSR(
     return Math.round(dsr * 100) / 100;
 }
 
+/**
+ * Retorna a classificação (feriado/folga) do dia seguinte a days[index].
+ *
+ * DECISÃO CONSERVADORA:
+ * - Se o dia seguinte está no array, usa o que o usuário marcou
+ * - No último dia do mês, deriva do calendário de feriados e da escala
+ */
+function getNextDayFlags(
+    days: DayRecord[],
+    index: number,
+    settings: Settings,
+    compensacoes: Map<string, Date>
+): Pick<DayRecord, 'ehFeriado' | 'ehFolga'> {
+    const next = days[index + 1];
+    if (next) {
+        return { ehFeriado: next.ehFeriado, ehFolga: next.ehFolga && !isRestDayCompensated(next, compensacoes) };
+    }
+
+    const current = days[index].date;
+    const nextDate = new Date(current.getFullYear(), current.getMonth(), current.getDate() + 1);
+    return {
+        ehFeriado: isHoliday(nextDate, settings.feriados),
+        ehFolga: !isScheduledWorkDay(nextDate, settings.escala),
+    };
+}
+
+/**
+ * Agrupa os registros em semanas (começando no domingo).
+ *
+ * @param days - Dias do mês, em ordem cronológica
+ * @returns Array de semanas; a primeira e a última podem ser incompletas
+ */
+export function groupDaysByWeek(days: DayRecord[]): DayRecord[][] {
+    if (days.length === 0) return [];
+
+    const weeks: DayRecord[][] = [];
+    let currentWeek: DayRecord[] = [];
+
+    days.forEach((day) => {
+        // Se for domingo e a semana atual já tiver algo, começamos nova semana
+        // Ou se for o primeiro dia
+        if (day.date.getDay() === 0 && currentWeek.length > 0) {
+            weeks.push(currentWeek);
+            currentWeek = [];
+        }
+        currentWeek.push(day);
+    });
+
+    if (currentWeek.length > 0) {
+        weeks.push(currentWeek);
+    }
+
+    return weeks;
+}
+
+/**
+ * Calcula o resultado diário de cada dia do mês (com o dia seguinte, para jornadas noturnas).
+ * Dias de férias e ausências de dia inteiro não geram horas; folgas trabalhadas
+ * com folga compensatória vinculada são calculadas como dia de trabalho.
+ * No intermitente, dias fora das convocações também não geram horas.
+ *
+ * @param days - Array com todos os dias do mês
+ * @param settings - Configurações do trabalhador
+ * @returns Resultados na mesma ordem de days
+ */
+export function calculateDayResults(days: DayRecord[], settings: Settings): DailyHoursResult[] {
+    const jornadaPadraoHoras = getDailyStandardHours(settings.escala, settings.cargaHoraria);
+    const semConvocacao = (day: DayRecord) => settings.contrato.tipo === 'intermitente'
+        && getCallForDate(day.date, settings.contrato.convocacoes) === null;
+    const compensacoes = getRestCompensations(days);
+
+    return days.map((day, index) => day.ehFerias || isFullDayAbsence(day) || semConvocacao(day) ? EMPTY_DAILY_RESULT : calculateDailyResult(
+        getDayPunches(day),
+        day.intervaloHoras,
+        day.ehFeriado,
+        day.ehFolga && !isRestDayCompensated(day, compensacoes),
+        jornadaPadraoHoras,
+        getNextDayFlags(days, index, settings, compensacoes),
+        settings.adicionalNoturno,
+        settings.horasExtras,
+        day.date.getDay()
+    ));
+}
+
+/**
+ * Retorna o limite semanal de horas aplicável a uma semana, ou null se não se aplica.
+ * O limite é a carga semanal do contrato (44h, 40h, 36h...; no tempo parcial,
+ * no máximo 30h ou 26h, ver getContractWeeklyHours).
+ *
+ * DECISÃO CONSERVADORA:
+ * - Semanas incompletas no mês (início/fim) não são avaliadas, pois
+ *   os demais dias pertencem a outro mês
+ * - Escala 12x36 não é avaliada: a compensação é inerente à escala (art. 59-A)
+ */
+export function getWeeklyLimitHours(week: DayRecord[], settings: Settings): number | null {
+    if (week.length < 7 || settings.escala.tipo === '12x36') {
+        return null;
+    }
+    return getContractWeeklyHours(settings);
+}
+
+/**
+ * Aplica o limite semanal: horas normais acima do limite viram extra
+ * (com o percentual da primeira faixa, padrão 50%).
+ *
+ * LÓGICA:
+ * - Soma as horas normais da semana
+ * - O excesso é retirado dos últimos dias da semana (do fim para o início),
+ *   pois são as horas que ultrapassaram o limite cronologicamente
+ *
+ * @param results - Resultados diários da semana
+ * @param limiteHoras - Limite semanal em horas (ex: 44)
+ * @param percentual - Adicional das horas reclassificadas (padrão 50%)
+ * @returns Novos resultados e total de horas reclassificadas
+ *
+ * DECISÃO CONSERVADORA:
+ * - O adicional noturno não é recalculado sobre as horas reclassificadas
+ */
+export function applyWeeklyLimit(
+    results: DailyHoursResult[],
+    limiteHoras: number,
+    percentual: number = CLT_OVERTIME_PERCENT
+): { resultados: DailyHoursResult[]; excesso: number } {
+    const totalNormais = results.reduce((sum, r) => sum + r.horasNormais, 0);
+    const excesso = Math.round(Math.max(0, totalNormais - limiteHoras) * 100) / 100;
+
+    let restante = excesso;
+    const resultados = results.map((r) => ({ ...r }));
+    for (let i = resultados.length - 1; i >= 0 && restante > 0; i--) {
+        const mover = Math.min(resultados[i].horasNormais, restante);
+        resultados[i].horasNormais = Math.round((resultados[i].horasNormais - mover) * 100) / 100;
+        resultados[i].horasExtras = addOvertimeHours(resultados[i].horasExtras, { [percentual]: mover });
+        restante -= mover;
+    }
+
+    return { resultados, excesso };
+}
+
+/**
+ * Retorna as tabelas vigentes na competência dos dias informados.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Sem dias, usa a competência atual
+ */
+export function getMonthTaxTables(days: DayRecord[], settings: Settings): TaxTables {
+    const reference = days[0]?.date ?? new Date();
+    return getTaxTables(reference.getFullYear(), reference.getMonth(), settings.tabelas);
+}
+
 /**
  * Calcula o resumo mensal completo baseado em todos os dias registrados.
  * 
  * LÓGICA:
- * 1. Itera sobre todos os dias do mês
- * 2. Calcula resultado diário de cada dia
+ * 1. Calcula resultado diário de cada dia (com o dia seguinte, para jornadas noturnas)
+ * 2. Agrupa por semana e aplica o limite semanal (carga semanal do contrato)
  * 3. Acumula totais
- * 4. Calcula DSR sobre as horas extras
- * 5. Calcula valores financeiros (bruto, INSS, líquido)
+ * 4. Calcula DSR sobre as horas extras (fórmula de settings.dsr) e a parcela de cada semana
+ *    (no intermitente, DSR sobre a remuneração de cada convocação)
+ * 5. Calcula valores financeiros (bruto com adicional noturno, INSS, IRRF, líquido)
  * 
  * @param days - Array com todos os dias do mês (DayRecord[])
  * @param settings - Configurações do trabalhador
- * @returns Resumo mensal completo com valores financeiros
+ * @param tabelas - Tabelas da competência (padrão: as vigentes no mês, ou as
+ *   guardadas no fechamento do mês, quando informadas)
+ * @param bancoHoras - Lançamento do banco de horas do mês (ver buildTimeBankLedger);
+ *   usado só no modo banco de horas, em que apenas as horas vencidas são pagas
+ * @returns Resumo mensal completo com valores financeiros e semanas
  * 
  * PREMISSAS:
- * - Salário mensal já está definido em settings.salarioMensal
- * - Jornada padrão é calculada: 220h/mês ÷ 30 dias ≈ 7.33h/dia (ou conforme configurado)
- * - Adicional 50% = valor hora × 1.5
- * - Adicional 100% = valor hora × 2.0
- * - INSS calculado sobre valor bruto (tabela simplificada)
+ * - Salário mensal já está definido em settings.salarioMensal (no intermitente,
+ *   o salário-hora em settings.contrato.valorHora)
+ * - Jornada padrão diária vem da escala (ver getDailyStandardHours em schedule.ts)
+ * - Hora extra de p% = valor hora × (1 + p), com os percentuais de settings.horasExtras
+ * - INSS calculado sobre valor bruto (tabela progressiva da competência)
+ * - IRRF calculado sobre bruto - INSS - dependentes (ver irrf.ts)
  * 
  * DECISÃO CONSERVADORA:
- * - Jornada padrão diária = 220h/mês ÷ 30 dias = 7.33h/dia (padrão CLT 44h semanais)
+ * - Jornada padrão diária = carga semanal ÷ dias trabalhados por semana na escala
+ *   (44h: 6x1 = 7.33h, 5x2 = 8.8h; 12x36 = 12h)
  * - Esta é uma aproximação. Ajustar conforme necessidade.
+ * - Intermitente: sem banco de horas e sem desconto de faltas e atrasos (só as
+ *   horas trabalhadas são pagas); férias e 13º tributados junto com o mês
  */
 export function calculateMonthlySummary(
     days: DayRecord[],
-    settings: Settings
+    settings: Settings,
+    tabelas: TaxTables = getMonthTaxTables(days, settings),
+    bancoHoras: TimeBankEntry | null = null
 ): MonthlySummary {
-    // CÁLCULO DA JORNADA PADRÃO DIÁRIA
-    // CLT: 44 horas semanais = 220 horas mensais (considerando 4 semanas e meia)
-    // 220h ÷ 30 dias = 7.33h por dia
-    const jornadaPadraoHoras = 220 / 30; // 7.33h/dia
-
     // CÁLCULO DO VALOR HORA
-    // Salário mensal ÷ 220 horas = valor hora
-    const valorHora = settings.salarioMensal / 220;
-    const valorHoraExtra50 = valorHora * 1.5;  // 50% de adicional
-    const valorHoraExtra100 = valorHora * 2.0; // 100% de adicional
+    // Salário mensal ÷ divisor (220 para 44h semanais) = valor hora
+    // Intermitente: salário-hora do contrato
+    const intermitente = settings.contrato.tipo === 'intermitente';
+    const valorHora = getContractHourlyValue(settings);
 
     // Acumuladores
     let horasNormaisTotal = 0;
-    let horasExtra50Total = 0;
-    let horasExtra100Total = 0;
-    let diasRepouso = 0;
-    let diasUteis = 0;
-
-    // Itera sobre todos os dias do mês
-    for (const day of days) {
-        const resultado = calculateDailyResult(
-            day.entrada,
-            day.saida,
-            day.intervaloHoras,
-            day.ehFeriado,
-            day.ehFolga,
-            jornadaPadraoHoras
-        );
-
-        horasNormaisTotal += resultado.horasNormais;
-        horasExtra50Total += resultado.horasExtra50;
-        horasExtra100Total += resultado.horasExtra100;
-
-        // Conta dias de repouso (folgas e feriados)
-        if (day.ehFolga || day.ehFeriado) {
-            diasRepouso++;
-        } else {
-            diasUteis++;
+    let horasExtrasTotal: OvertimeHours = {};
+    let horasNoturnasTotal = 0;
+    let adicionalNoturnoHorasTotal = 0;
+
+    // Resultados diários, depois ajustados semana a semana
+    const resultadosDiarios = calculateDayResults(days, settings);
+    const resultadosAjustados: DailyHoursResult[] = [];
+    const semanas: WeeklySummary[] = [];
+    let offset = 0;
+
+    const weeks = groupDaysByWeek(days);
+    for (const week of weeks) {
+        const limite = getWeeklyLimitHours(week, settings);
+        const doDia = resultadosDiarios.slice(offset, offset + week.length);
+        offset += week.length;
+
+        const { resultados, excesso } = limite === null
+            ? { resultados: doDia, excesso: 0 }
+            : applyWeeklyLimit(doDia, limite, getWeeklyExcessPercent(settings.horasExtras));
+
+        const semana: WeeklySummary = {
+            inicio: week[0].date,
+            fim: week[week.length - 1].date,
+            totalHoras: 0,
+            horasNormais: Math.round(resultados.reduce((sum, r) => sum + r.horasNormais, 0) * 100) / 100,
+            horasExtras: addOvertimeHours(...resultados.map((r) => r.horasExtras)),
+            horasExtraLimiteSemanal: excesso,
+            limiteSemanalHoras: limite,
+            dsr: 0,
+        };
+        semana.totalHoras = Math.round((semana.horasNormais + sumOvertimeHours(semana.horasExtras)) * 100) / 100;
+        semanas.push(semana);
+        resultadosAjustados.push(...resultados);
+
+        horasExtrasTotal = addOvertimeHours(horasExtrasTotal, semana.horasExtras);
+        for (const resultado of resultados) {
+            horasNormaisTotal += resultado.horasNormais;
+            horasNoturnasTotal += resultado.horasNoturnas;
+            adicionalNoturnoHorasTotal += resultado.adicionalNoturnoHoras;
         }
     }
 
+    // Dias úteis e de repouso do DSR (calendário ou escala); férias não entram
+    const { diasUteis, diasRepouso } = countDSRDays(days, settings.dsr);
+
     // Arredonda totais para 2 casas decimais
     horasNormaisTotal = Math.round(horasNormaisTotal * 100) / 100;
-    horasExtra50Total = Math.round(horasExtra50Total * 100) / 100;
-    horasExtra100Total = Math.round(horasExtra100Total * 100) / 100;
+    horasNoturnasTotal = Math.round(horasNoturnasTotal * 100) / 100;
+
+    // BANCO DE HORAS: as extras feitas vão para o banco; pagam-se só as vencidas
+    // (as semanas continuam com as horas feitas, para o DSR ser repartido por elas)
+    const bancoAtivo = settings.bancoHoras.ativo && !intermitente;
+    const movimentoBanco = bancoAtivo ? bancoHoras : null;
+    if (bancoAtivo) {
+        horasExtrasTotal = movimentoBanco?.horasVencidas ?? {};
+    }
+
+    // ADICIONAL NOTURNO (já considera hora reduzida e incidência sobre extras)
+    const adicionalNoturno = adicionalNoturnoHorasTotal * valorHora;
 
     // CÁLCULO DO DSR
-    const dsrTotal = calculateDSR(
-        horasExtra50Total,
-        horasExtra100Total,
-        valorHoraExtra50,
-        valorHoraExtra100,
-        diasRepouso,
-        diasUteis
-    );
+    // Variação de CCT: adicional noturno habitual na base (só na fórmula legal)
+    const adicionalNaBase = settings.dsr.metodo === 'legal' && settings.dsr.incluirAdicionalNoturno
+        ? adicionalNoturno
+        : 0;
+    const valorHorasExtras = calculateOvertimeValue(horasExtrasTotal, valorHora);
+
+    // CONVOCAÇÕES DO INTERMITENTE (DSR sobre toda a remuneração, férias + 1/3 e 13º)
+    const convocacoes = intermitente
+        ? calculateCallPayments(days, resultadosAjustados, settings.contrato, settings.dsr)
+        : null;
+    const somaConvocacoes = (valor: (pagamento: IntermittentCallPay) => number) =>
+        (convocacoes ?? []).reduce((sum, pagamento) => sum + valor(pagamento), 0);
+
+    const dsrTotal = convocacoes
+        ? somaConvocacoes((c) => c.dsr)
+        : calculateDSR(horasExtrasTotal, valorHora, diasRepouso, diasUteis, adicionalNaBase);
+    const baseDSR = convocacoes ? somaConvocacoes((c) => c.remuneracao) : valorHorasExtras + adicionalNaBase;
+    const valorVerbasConvocacoes = somaConvocacoes((c) => c.ferias + c.tercoFerias + c.decimoTerceiro);
+
+    // PARCELA DO DSR DE CADA SEMANA
+    // Proporcional ao valor das horas extras da semana (no intermitente, de todas
+    // as horas da semana) sobre o total do mês
+    const valorSemana = (semana: WeeklySummary) => calculateOvertimeValue(semana.horasExtras, valorHora)
+        + (intermitente ? semana.horasNormais * valorHora : 0);
+    const valorExtrasMes = semanas.reduce((sum, semana) => sum + valorSemana(semana), 0);
+    for (const semana of semanas) {
+        semana.dsr = valorExtrasMes > 0
+            ? Math.round(dsrTotal * (valorSemana(semana) / valorExtrasMes) * 100) / 100
+            : 0;
+    }
+
+    // FÉRIAS DO MÊS (dias de férias + 1/3 e abono pecuniário)
+    const { diasFerias, valorFerias, valorAbonoFerias } = calculateMonthVacationValues(days, settings);
+    const salarioBase = intermitente
+        ? horasNormaisTotal * valorHora
+        : calculateBaseSalary(settings.salarioMensal, diasFerias, days.length);
 
     // CÁLCULO DOS VALORES FINANCEIROS
-    // Valor bruto = salário base + horas extras + DSR
-    const valorHorasExtras50 = horasExtra50Total * valorHoraExtra50;
-    const valorHorasExtras100 = horasExtra100Total * valorHoraExtra100;
-    const valorBruto = settings.salarioMensal + valorHorasExtras50 + valorHorasExtras100 + dsrTotal;
+    // Valor bruto = salário base + horas extras + adicional noturno + DSR + férias + abono
+    //               + verbas das convocações - faltas, repouso perdido e atrasos
+
+    // FALTAS E ATRASOS (dia + repouso da semana nas faltas injustificadas)
+    const apuradas = calculateAbsenceDeductions(weeks, settings.salarioMensal, valorHora, settings.horaEntradaPadrao);
+    const ausencias = intermitente
+        ? { ...apuradas, descontoFaltas: 0, descontoDSRFaltas: 0, descontoAtrasos: 0 }
+        : apuradas;
+    const descontosAusencias = ausencias.descontoFaltas + ausencias.descontoDSRFaltas + ausencias.descontoAtrasos;
+
+    const valorBruto = salarioBase + valorHorasExtras + adicionalNoturno + dsrTotal
+        + valorFerias + valorAbonoFerias + valorVerbasConvocacoes - descontosAusencias;
 
-    // DESCONTO INSS (tabela simplificada 2026)
-    // DECISÃO CONSERVADORA: Implementação simplificada com alíquota única
-    // Para cálculo preciso, usar tabela progressiva vigente
-    const descontoINSS = calculateINSS(valorBruto);
+    // Abono pecuniário é isento de INSS e IRRF
+    const valorTributavel = valorBruto - valorAbonoFerias;
 
-    // Valor líquido = bruto - INSS
-    const valorLiquido = valorBruto - descontoINSS;
+    // DESCONTO INSS (tabela progressiva da competência)
+    const descontoINSS = calculateINSS(valorTributavel, tabelas.inss);
+
+    // DESCONTO IRRF (após o INSS, com dependentes e desconto simplificado)
+    // DECISÃO CONSERVADORA: férias tributadas junto com o mês (na prática o IRRF
+    // das férias é retido em separado no pagamento antecipado)
+    const descontoIRRF = calculateIRRF(valorTributavel, descontoINSS, settings.irrf, tabelas.irrf);
+
+    // Valor líquido = bruto - INSS - IRRF
+    const valorLiquido = valorBruto - descontoINSS - descontoIRRF;
+
+    // FGTS (encargo do empregador): 8% sobre o bruto sem o abono pecuniário
+    const { baseFGTS, depositoFGTS } = calculateFGTSDeposit({ valorBruto, valorAbonoFerias });
 
     return {
         horasNormais: horasNormaisTotal,
-        horasExtra50: horasExtra50Total,
-        horasExtra100: horasExtra100Total,
+        horasExtras: horasExtrasTotal,
+        horasNoturnas: horasNoturnasTotal,
+        adicionalNoturno: Math.round(adicionalNoturno * 100) / 100,
         dsrTotal: Math.round(dsrTotal * 100) / 100,
+        dsr: {
+            metodo: settings.dsr.metodo,
+            base: Math.round(baseDSR * 100) / 100,
+            diasUteis,
+            diasRepouso,
+        },
+        bancoHoras: movimentoBanco,
+        convocacoes,
+        valorVerbasConvocacoes: Math.round(valorVerbasConvocacoes * 100) / 100,
+        valorHora: Math.round(valorHora * 100) / 100,
+        salarioBase: Math.round(salarioBase * 100) / 100,
+        diasFerias,
+        valorFerias,
+        valorAbonoFerias,
+        ...ausencias,
         valorBruto: Math.round(valorBruto * 100) / 100,
         descontoINSS: Math.round(descontoINSS * 100) / 100,
+        descontoIRRF,
         valorLiquido: Math.round(valorLiquido * 100) / 100,
+        baseFGTS,
+        depositoFGTS,
+        semanas,
+        tabelas,
     };
 }
 
 /**
- * Calcula o desconto de INSS sobre o salário bruto.
- * 
- * TABELA INSS 2026 (valores aproximados):
- * - Até R$ 1.412,00: 7,5%
- * - De R$ 1.412,01 até R$ 2.666,68: 9%
- * - De R$ 2.666,69 até R$ 4.000,03: 12%
- * - De R$ 4.000,04 até R$ 7.786,02: 14%
- * 
- * DECISÃO CONSERVADORA:
- * - Implementação com alíquotas progressivas
- * - Valores podem estar desatualizados - VERIFICAR TABELA VIGENTE
- * - Esta é uma aproximação para o aplicativo pessoal
- * 
- * @param valorBruto - Salário bruto em reais
- * @returns Desconto de INSS em reais
- * 
- * IMPORTANTE:
- * Esta implementação é simplificada para uso pessoal.
- * Para cálculos legais oficiais, consulte a tabela INSS vigente.
+ * Retorna as tabelas de uma competência salva: as guardadas no fechamento do
+ * mês ou, com o mês aberto, as vigentes na competência.
+ *
+ * @param year - Ano (ex: 2026)
+ * @param month - Mês (0-11)
+ * @param settings - Configurações (tabelas cadastradas)
+ * @param historico - Tabelas guardadas no fechamento dos meses
  */
-function calculateINSS(valorBruto: number): number {
-    let inss = 0;
-
-    // Faixa 1: até 1412,00 = 7,5%
-    if (valorBruto <= 1412.00) {
-        inss = valorBruto * 0.075;
-    }
-    // Faixa 2: 1412,01 até 2666,68 = 9%
-    else if (valorBruto <= 2666.68) {
-        inss = 1412.00 * 0.075 + (valorBruto - 1412.00) * 0.09;
-    }
-    // Faixa 3: 2666,69 até 4000,03 = 12%
-    else if (valorBruto <= 4000.03) {
-        inss = 1412.00 * 0.075 + (2666.68 - 1412.00) * 0.09 + (valorBruto - 2666.68) * 0.12;
-    }
-    // Faixa 4: 4000,04 até 7786,02 = 14%
-    else if (valorBruto <= 7786.02) {
-        inss = 1412.00 * 0.075 + (2666.68 - 1412.00) * 0.09 + (4000.03 - 2666.68) * 0.12 + (valorBruto - 4000.03) * 0.14;
-    }
-    // Acima do teto: desconto máximo
-    else {
-        inss = 1412.00 * 0.075 + (2666.68 - 1412.00) * 0.09 + (4000.03 - 2666.68) * 0.12 + (7786.02 - 4000.03) * 0.14;
-    }
+export function getStoredMonthTaxTables(
+    year: number,
+    month: number,
+    settings: Settings,
+    historico: MonthHistory
+): TaxTables {
+    return historico.tabelasFechamento[toMonthKey(year, month)] ?? getTaxTables(year, month, settings.tabelas);
+}
 
-    return inss;
+/**
+ * Calcula o resumo de um mês salvo com os dados guardados da sua competência,
+ * como no resumo do mês exibido (ver Layout).
+ *
+ * @param days - Dias do mês salvo
+ * @param settings - Configurações do trabalhador
+ * @param historico - Lançamentos do banco de horas e tabelas do fechamento dos meses salvos
+ * @returns Resumo mensal (ver calculateMonthlySummary)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Mês sem lançamento no banco é calculado sem banco de horas
+ * - Mês aberto usa as tabelas vigentes na competência
+ */
+export function calculateStoredMonthSummary(
+    days: DayRecord[],
+    settings: Settings,
+    historico: MonthHistory
+): MonthlySummary {
+    const reference = days[0]?.date ?? new Date();
+    const key = toMonthKey(reference.getFullYear(), reference.getMonth());
+    const bancoHoras = historico.bancoHoras.find((l) => l.competencia === key) ?? null;
+    const tabelas = getStoredMonthTaxTables(reference.getFullYear(), reference.getMonth(), settings, historico);
+    return calculateMonthlySummary(days, settings, tabelas, bancoHoras);
 }
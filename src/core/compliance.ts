@@ -0,0 +1,212 @@
+/**
+ * core/compliance.ts
+ *
+ * Alertas de conformidade da jornada: descansos, intervalos e limites legais.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Interjornada: 11h de descanso entre o fim de uma jornada e o início da
+ *   seguinte (art. 66 CLT); as horas suprimidas são pagas como extra +50%
+ *   (OJ 355 SDI-1 TST)
+ * - Intrajornada: jornada acima de 6h exige intervalo de 1h (art. 71 CLT); o
+ *   tempo suprimido é indenizado com +50% (art. 71 §4º, Lei 13.467/17)
+ * - Horas extras: no máximo 2 por dia (art. 59 CLT); o excesso já é pago como
+ *   extra e sujeita o empregador a multa administrativa (art. 75)
+ * - Repouso semanal: no máximo 6 dias seguidos de trabalho (art. 67 CLT);
+ *   o repouso concedido após o 7º dia é pago em dobro (OJ 410 SDI-1 TST)
+ * - Tempo parcial: sem horas extras no contrato de 30h; no máximo 6 por semana
+ *   no de 26h (art. 58-A CLT)
+ * - Intermitente: só há trabalho dentro de uma convocação aceita (art. 452-A CLT)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Apenas aponta as violações; as indenizações não entram no valor bruto
+ */
+
+import type { ComplianceRule, ComplianceWarning, DayRecord, Settings } from './types';
+import { calculateDayResults, calculateMonthlySummary } from './calculations';
+import { getCallForDate, getContractHourlyValue, PART_TIME_LIMITS } from './contract';
+import { getRestCompensations, isRestDayCompensated, sumOvertimeHours } from './overtime';
+import { calculateLongestBreakMinutes, calculateWorkedMinutes, getDayPunches, getPunchPeriods } from './time';
+
+/**
+ * Descanso mínimo entre jornadas em minutos (art. 66 CLT).
+ */
+export const MIN_REST_BETWEEN_SHIFTS_MINUTES = 11 * 60;
+
+/**
+ * Jornada acima da qual o intervalo mínimo é de 1h (art. 71 CLT).
+ */
+export const LONG_SHIFT_MINUTES = 6 * 60;
+
+/**
+ * Intervalo mínimo em jornadas acima de 6h, em minutos.
+ */
+export const MIN_BREAK_MINUTES = 60;
+
+/**
+ * Máximo de horas extras por dia (art. 59 CLT).
+ */
+export const MAX_DAILY_OVERTIME_HOURS = 2;
+
+/**
+ * Máximo de dias seguidos de trabalho sem repouso (art. 67 CLT, OJ 410 SDI-1).
+ */
+export const MAX_CONSECUTIVE_WORKDAYS = 6;
+
+/**
+ * Rótulos das regras, com o dispositivo legal.
+ */
+export const COMPLIANCE_RULE_LABELS: Record<ComplianceRule, string> = {
+    'interjornada': 'Interjornada (art. 66)',
+    'intrajornada': 'Intervalo (art. 71)',
+    'limite-extras': 'Extras acima de 2h (art. 59)',
+    'repouso-semanal': 'Sem repouso semanal (art. 67)',
+    'tempo-parcial': 'Extras no tempo parcial (art. 58-A)',
+    'sem-convocacao': 'Trabalho sem convocação (art. 452-A)',
+};
+
+/**
+ * Formata minutos como "9h30".
+ */
+function formatDuration(minutes: number): string {
+    const rounded = Math.round(minutes);
+    const hours = Math.floor(rounded / 60);
+    const rest = rounded % 60;
+    return rest > 0 ? `${hours}h${String(rest).padStart(2, '0')}` : `${hours}h`;
+}
+
+/**
+ * Verifica as regras de jornada de um mês.
+ *
+ * LÓGICA:
+ * 1. Interjornada: última saída de um dia (com virada) até a primeira entrada do seguinte
+ * 2. Intrajornada: jornada acima de 6h com intervalo abaixo de 1h
+ * 3. Limite de extras: dia útil com mais de 2h extras
+ * 4. Repouso: do 7º dia seguido com horas registradas em diante
+ * 5. Intermitente: dia com horas registradas fora das convocações
+ * 6. Tempo parcial: semana com mais extras que o permitido (no último dia da semana)
+ *
+ * @param days - Dias do mês, em ordem cronológica e sem lacunas
+ * @param settings - Configurações (salário, escala, contrato)
+ * @returns Violações em ordem cronológica (por dia, na ordem das regras acima)
+ *
+ * @example
+ * // Salário R$ 2.200,00 (hora R$ 10,00), saída 23:00 e entrada às 08:00:
+ * // interjornada de 2h suprimidas → indenização 2 × 10 × 1.5 = 30.00
+ *
+ * DECISÃO CONSERVADORA:
+ * - Só verifica dias do próprio mês (o descanso e a sequência de dias
+ *   não atravessam a virada do mês)
+ * - Intervalo informado é considerado gozado de forma contínua; com
+ *   marcações, vale a maior lacuna entre os pares
+ * - Limite de 2h não se aplica a folgas e feriados (todas as horas já são extras)
+ * - Repouso em dobro indenizado pelas horas do dia × valor hora (a hora
+ *   simples já está no salário ou foi paga como extra)
+ * - Tempo parcial: extras da semana inteira, incluídas as do limite semanal;
+ *   o excesso já é pago como extra (apenas multa administrativa)
+ * - Intermitente: o dia fora de convocação não é pago (ver calculateDayResults)
+ */
+export function checkCompliance(days: DayRecord[], settings: Settings): ComplianceWarning[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const valorHora = round(getContractHourlyValue(settings));
+    const resultados = calculateDayResults(days, settings);
+    const compensacoes = getRestCompensations(days);
+    const warnings: ComplianceWarning[] = [];
+    let diasSeguidos = 0;
+
+    days.forEach((day, index) => {
+        const marcacoes = getDayPunches(day);
+        const jornada = calculateWorkedMinutes(marcacoes, day.intervaloHoras);
+        if (jornada === 0) {
+            diasSeguidos = 0;
+            return;
+        }
+
+        // 1. Interjornada (desde o fim do último período do dia anterior)
+        const periodosAnterior = index > 0 ? getPunchPeriods(getDayPunches(days[index - 1])) : [];
+        if (periodosAnterior.length > 0) {
+            const fimAnterior = periodosAnterior[periodosAnterior.length - 1].fim;
+            const descanso = 24 * 60 + getPunchPeriods(marcacoes)[0].inicio - fimAnterior;
+            if (descanso < MIN_REST_BETWEEN_SHIFTS_MINUTES) {
+                const suprimidas = (MIN_REST_BETWEEN_SHIFTS_MINUTES - Math.max(0, descanso)) / 60;
+                warnings.push({
+                    data: day.date,
+                    regra: 'interjornada',
+                    descricao: `Descanso de ${formatDuration(Math.max(0, descanso))} entre jornadas (mínimo 11h)`,
+                    horas: round(suprimidas),
+                    indenizacao: round(suprimidas * valorHora * 1.5),
+                });
+            }
+        }
+
+        // 2. Intrajornada (intervalo informado ou maior lacuna entre as marcações)
+        const intervaloMinutos = Math.max(day.intervaloHoras * 60, calculateLongestBreakMinutes(marcacoes));
+        if (jornada > LONG_SHIFT_MINUTES && intervaloMinutos < MIN_BREAK_MINUTES) {
+            const suprimidas = (MIN_BREAK_MINUTES - intervaloMinutos) / 60;
+            warnings.push({
+                data: day.date,
+                regra: 'intrajornada',
+                descricao: `Intervalo de ${formatDuration(intervaloMinutos)} em jornada de ${formatDuration(jornada)}`,
+                horas: round(suprimidas),
+                indenizacao: round(suprimidas * valorHora * 1.5),
+            });
+        }
+
+        // 3. Limite diário de horas extras
+        const extras = sumOvertimeHours(resultados[index].horasExtras);
+        const diaDeTrabalho = !day.ehFolga || isRestDayCompensated(day, compensacoes);
+        if (diaDeTrabalho && !day.ehFeriado && extras > MAX_DAILY_OVERTIME_HOURS) {
+            warnings.push({
+                data: day.date,
+                regra: 'limite-extras',
+                descricao: `${formatDuration(extras * 60)} extras no dia (máximo 2h)`,
+                horas: round(extras - MAX_DAILY_OVERTIME_HOURS),
+                indenizacao: 0,
+            });
+        }
+
+        // 4. Repouso semanal
+        diasSeguidos++;
+        if (diasSeguidos > MAX_CONSECUTIVE_WORKDAYS) {
+            const horas = jornada / 60;
+            warnings.push({
+                data: day.date,
+                regra: 'repouso-semanal',
+                descricao: `${diasSeguidos}º dia seguido de trabalho (repouso em dobro)`,
+                horas: round(horas),
+                indenizacao: round(horas * valorHora),
+            });
+        }
+
+        // 5. Trabalho do intermitente fora das convocações
+        if (settings.contrato.tipo === 'intermitente' && getCallForDate(day.date, settings.contrato.convocacoes) === null) {
+            warnings.push({
+                data: day.date,
+                regra: 'sem-convocacao',
+                descricao: `${formatDuration(jornada)} registradas fora de uma convocação (horas não pagas)`,
+                horas: round(jornada / 60),
+                indenizacao: 0,
+            });
+        }
+    });
+
+    // 6. Horas extras semanais do tempo parcial
+    if (settings.contrato.tipo === 'parcial' && days.length > 0) {
+        const { horasSemanais, extrasSemanais } = PART_TIME_LIMITS[settings.contrato.modalidadeParcial];
+        for (const semana of calculateMonthlySummary(days, settings).semanas) {
+            const extras = sumOvertimeHours(semana.horasExtras);
+            if (extras <= extrasSemanais) continue;
+            warnings.push({
+                data: semana.fim,
+                regra: 'tempo-parcial',
+                descricao: extrasSemanais > 0
+                    ? `${formatDuration(extras * 60)} extras na semana (máximo ${extrasSemanais}h no contrato de ${horasSemanais}h)`
+                    : `${formatDuration(extras * 60)} extras na semana (contrato de ${horasSemanais}h não admite extras)`,
+                horas: round(extras - extrasSemanais),
+                indenizacao: 0,
+            });
+        }
+    }
+
+    return warnings.sort((a, b) => a.data.getTime() - b.data.getTime());
+}
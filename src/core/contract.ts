@@ -0,0 +1,211 @@
+/**
+ * core/contract.ts
+ *
+ * Modalidades de contrato: integral, tempo parcial (art. 58-A CLT) e
+ * intermitente (art. 452-A CLT).
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Tempo parcial de até 30h semanais: não admite horas extras
+ * - Tempo parcial de até 26h semanais: até 6 horas extras por semana,
+ *   com adicional mínimo de 50% (art. 58-A §§3º e 4º)
+ * - Tempo parcial: férias de 30 dias pelo art. 130 e abono pecuniário permitido
+ *   (art. 58-A §§6º e 7º, Lei 13.467/17); os valores seguem o integral
+ * - Intermitente: salário-hora; só as horas das convocações são pagas
+ * - Ao fim de cada convocação o intermitente recebe a remuneração, o DSR, as
+ *   férias proporcionais + 1/3 e o 13º proporcional (art. 452-A §6º)
+ * - Intermitente: as férias são gozadas sem nova remuneração (art. 452-A §9º),
+ *   pois já foram pagas nas convocações
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Datas das convocações gravadas como "YYYY-MM-DD", como em time.ts
+ */
+
+import type {
+    ContractHours,
+    ContractSettings,
+    ContractType,
+    DailyHoursResult,
+    DayRecord,
+    DSRSettings,
+    IntermittentCall,
+    IntermittentCallPay,
+    PartTimeMode,
+    Settings,
+} from './types';
+import { countDSRDays } from './dsr';
+import { addOvertimeHours, calculateOvertimeValue } from './overtime';
+import { toDateKey } from './time';
+
+/**
+ * Rótulos das modalidades de contrato.
+ */
+export const CONTRACT_TYPE_LABELS: Record<ContractType, string> = {
+    integral: 'Integral (art. 58)',
+    parcial: 'Tempo parcial (art. 58-A)',
+    intermitente: 'Intermitente (art. 452-A)',
+};
+
+/**
+ * Limites do tempo parcial: carga semanal máxima e horas extras semanais permitidas.
+ */
+export const PART_TIME_LIMITS: Record<PartTimeMode, { horasSemanais: number; extrasSemanais: number }> = {
+    '30h': { horasSemanais: 30, extrasSemanais: 0 },
+    '26h': { horasSemanais: 26, extrasSemanais: 6 },
+};
+
+/**
+ * Configuração padrão: contrato integral, sem convocações.
+ */
+export const DEFAULT_CONTRACT_SETTINGS: ContractSettings = {
+    tipo: 'integral',
+    modalidadeParcial: '30h',
+    valorHora: 0,
+    convocacoes: [],
+};
+
+/**
+ * Carga semanal usada no limite semanal das horas normais.
+ *
+ * DECISÃO CONSERVADORA:
+ * - No tempo parcial, a carga configurada nunca passa do teto da modalidade
+ */
+export function getContractWeeklyHours(settings: Settings): number {
+    const { contrato, cargaHoraria } = settings;
+    if (contrato.tipo !== 'parcial') return cargaHoraria.horasSemanais;
+    return Math.min(cargaHoraria.horasSemanais, PART_TIME_LIMITS[contrato.modalidadeParcial].horasSemanais);
+}
+
+/**
+ * Valor da hora normal do contrato: salário ÷ divisor ou, no intermitente, o salário-hora.
+ *
+ * @example
+ * // Salário R$ 2.200,00, divisor 220
+ * getContractHourlyValue(settings) // 10
+ */
+export function getContractHourlyValue(settings: Settings): number {
+    if (settings.contrato.tipo === 'intermitente') return settings.contrato.valorHora;
+    return settings.salarioMensal / settings.cargaHoraria.divisor;
+}
+
+/**
+ * Ordena as convocações pela data de início.
+ */
+export function sortCalls(convocacoes: IntermittentCall[]): IntermittentCall[] {
+    return [...convocacoes].sort((a, b) => a.inicio.localeCompare(b.inicio));
+}
+
+/**
+ * Retorna a convocação que inclui a data, ou null se nenhuma a inclui.
+ */
+export function getCallForDate(date: Date, convocacoes: IntermittentCall[]): IntermittentCall | null {
+    const key = toDateKey(date);
+    return convocacoes.find((c) => c.inicio <= key && key <= c.fim) ?? null;
+}
+
+/**
+ * Indica se a convocação se sobrepõe a alguma das demais.
+ */
+export function overlapsOtherCall(convocacao: IntermittentCall, convocacoes: IntermittentCall[]): boolean {
+    return convocacoes.some((c) => c !== convocacao && c.inicio <= convocacao.fim && convocacao.inicio <= c.fim);
+}
+
+/**
+ * Calcula o pagamento de cada convocação do intermitente que tem dias no mês.
+ *
+ * LÓGICA:
+ * 1. Remuneração = horas normais + extras + adicional noturno dos dias da convocação
+ * 2. DSR = remuneração ÷ dias úteis × dias de repouso da convocação (ver countDSRDays)
+ * 3. Férias proporcionais = (remuneração + DSR) ÷ 12, mais 1/3
+ * 4. 13º proporcional = (remuneração + DSR) ÷ 12
+ *
+ * @param days - Dias do mês
+ * @param resultados - Resultados de cada dia (mesma ordem de days), já com o limite semanal
+ * @param contrato - Contrato intermitente (salário-hora e convocações)
+ * @param dsr - Configuração do DSR
+ * @returns Pagamentos em ordem de início das convocações
+ *
+ * @example
+ * // Salário-hora R$ 10,00, convocação de segunda a domingo, 8h de segunda a sexta:
+ * // remuneração 400.00, DSR 66.67 (400 ÷ 6 dias úteis × 1 domingo),
+ * // férias 38.89, 1/3 12.96, 13º 38.89, total 557.41
+ *
+ * DECISÃO CONSERVADORA:
+ * - Convocação que atravessa a virada do mês é paga mês a mês (o período de
+ *   pagamento não ultrapassa um mês); cada mês paga os seus dias
+ * - Convocação curta sem domingo ou feriado não tem DSR
+ */
+export function calculateCallPayments(
+    days: DayRecord[],
+    resultados: DailyHoursResult[],
+    contrato: ContractSettings,
+    dsr: DSRSettings
+): IntermittentCallPay[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const valorHora = contrato.valorHora;
+    const pagamentos: IntermittentCallPay[] = [];
+
+    for (const convocacao of sortCalls(contrato.convocacoes)) {
+        const indices = days
+            .map((day, index) => ({ key: toDateKey(day.date), index }))
+            .filter(({ key }) => convocacao.inicio <= key && key <= convocacao.fim)
+            .map(({ index }) => index);
+        if (indices.length === 0) continue;
+
+        const doPeriodo = indices.map((index) => resultados[index]);
+        const horasNormais = doPeriodo.reduce((sum, r) => sum + r.horasNormais, 0);
+        const horasExtras = addOvertimeHours(...doPeriodo.map((r) => r.horasExtras));
+        const adicionalNoturnoHoras = doPeriodo.reduce((sum, r) => sum + r.adicionalNoturnoHoras, 0);
+        const remuneracao = (horasNormais + adicionalNoturnoHoras) * valorHora
+            + calculateOvertimeValue(horasExtras, valorHora);
+
+        const { diasUteis, diasRepouso } = countDSRDays(indices.map((index) => days[index]), dsr);
+        const valorDSR = diasUteis > 0 ? remuneracao / diasUteis * diasRepouso : 0;
+
+        const base = round(remuneracao) + round(valorDSR);
+        const ferias = round(base / 12);
+        const tercoFerias = round(ferias / 3);
+        const decimoTerceiro = round(base / 12);
+
+        pagamentos.push({
+            convocacao,
+            inicio: days[indices[0]].date,
+            fim: days[indices[indices.length - 1]].date,
+            horasNormais: round(horasNormais),
+            horasExtras,
+            remuneracao: round(remuneracao),
+            dsr: round(valorDSR),
+            ferias,
+            tercoFerias,
+            decimoTerceiro,
+            total: round(base + ferias + tercoFerias + decimoTerceiro),
+        });
+    }
+
+    return pagamentos;
+}
+
+/**
+ * Descreve o contrato em uma linha (resumo das configurações).
+ *
+ * @example
+ * describeContract(DEFAULT_CONTRACT_SETTINGS, DEFAULT_CONTRACT_HOURS)
+ * // "Integral (art. 58) · 44h semanais"
+ * describeContract({ ...parcial, modalidadeParcial: '26h' }, { horasSemanais: 26, divisor: 130 })
+ * // "Tempo parcial (art. 58-A) · 26h semanais, até 6h extras por semana"
+ */
+export function describeContract(contrato: ContractSettings, cargaHoraria: ContractHours): string {
+    const rotulo = CONTRACT_TYPE_LABELS[contrato.tipo];
+    const horas = String(cargaHoraria.horasSemanais).replace('.', ',');
+
+    if (contrato.tipo === 'intermitente') {
+        const valor = contrato.valorHora.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+        return `${rotulo} · ${valor}/hora · ${contrato.convocacoes.length} convocação(ões)`;
+    }
+    if (contrato.tipo === 'parcial') {
+        const { extrasSemanais } = PART_TIME_LIMITS[contrato.modalidadeParcial];
+        return `${rotulo} · ${horas}h semanais, `
+            + (extrasSemanais > 0 ? `até ${extrasSemanais}h extras por semana` : 'sem horas extras');
+    }
+    return `${rotulo} · ${horas}h semanais`;
+}
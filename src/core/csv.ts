@@ -0,0 +1,412 @@
+/**
+ * core/csv.ts
+ *
+ * Planilha CSV do mês: exportação dos dias com as horas calculadas e
+ * importação de horários vindos de planilhas.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Formato brasileiro: separador ";", decimais com vírgula, datas DD/MM/AAAA
+ * - Exportação: uma linha por dia (horários, situação e DailyHoursResult)
+ *   seguida dos totais do MonthlySummary
+ * - Importação tolerante: colunas data/entrada/saída/intervalo em qualquer
+ *   ordem (ou marcações), separador ";", "," ou tabulação, datas e decimais
+ *   brasileiros ou ISO; cada linha recusada é informada com o motivo
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global); download e leitura do arquivo ficam na UI
+ * - A exportação é relida pela importação (ida e volta)
+ */
+
+import type {
+    CSVDayImport,
+    CSVImport,
+    DailyHoursResult,
+    DayRecord,
+    ImportIssue,
+    MonthlySummary,
+    Punch,
+} from './types';
+import { isFullDayAbsence } from './absences';
+import {
+    addOvertimeHours,
+    CLT_OVERTIME_PERCENT,
+    getOvertimeHoursAt,
+    getOvertimePercents,
+    getRestCompensations,
+} from './overtime';
+import { getDayPunches, setDayPunches, toDateKey } from './time';
+import { describeDayStatus } from './timesheet';
+
+/**
+ * Separador de colunas da exportação (Excel/LibreOffice em português).
+ */
+export const CSV_SEPARATOR = ';';
+
+/**
+ * Colunas da exportação antes das horas extras, na ordem.
+ */
+const EXPORT_HEADER_START = [
+    'Data', 'Dia', 'Entrada', 'Saída', 'Intervalo (h)', 'Marcações', 'Situação', 'Horas normais',
+];
+
+/**
+ * Colunas da exportação depois das horas extras, na ordem.
+ */
+const EXPORT_HEADER_END = ['Horas noturnas', 'Noturnas extra', 'Adicional noturno (h)'];
+
+/**
+ * Rótulo que separa os dias dos totais; a importação para nesta linha.
+ */
+const TOTALS_LABEL = 'Totais';
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+/**
+ * Formata um número com vírgula decimal e 2 casas.
+ */
+function formatDecimal(value: number): string {
+    return value.toFixed(2).replace('.', ',');
+}
+
+/**
+ * Formata uma data como DD/MM/AAAA.
+ */
+function formatDate(date: Date): string {
+    const [year, month, day] = toDateKey(date).split('-');
+    return `${day}/${month}/${year}`;
+}
+
+/**
+ * Protege um campo com aspas quando contém separador, aspas ou quebra de linha.
+ */
+function quoteField(value: string): string {
+    return /[;"\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Exporta os dias de um mês em CSV.
+ *
+ * LÓGICA:
+ * 1. Cabeçalho e uma linha por dia: horários, situação e resultado diário, com
+ *    uma coluna "Extra N%" por percentual de hora extra presente no mês
+ * 2. Linha em branco, "Totais" e um par rótulo;valor por total do mês
+ *
+ * @param days - Dias do mês
+ * @param resultados - Resultado de cada dia (ver calculateDayResults), mesma ordem de days
+ * @param resumo - Resumo do mês (ver calculateMonthlySummary)
+ * @returns Conteúdo do arquivo (linhas separadas por CRLF)
+ *
+ * @example
+ * exportMonthCSV(days, calculateDayResults(days, settings), summary)
+ * // "Data;Dia;Entrada;Saída;Intervalo (h);...\r\n02/03/2026;Seg;08:00;17:00;1,00;;;8,00;0,00;..."
+ *
+ * DECISÃO CONSERVADORA:
+ * - A coluna "Marcações" só é preenchida em dias com vários pares
+ * - Sem horas extras no mês, sai a coluna "Extra 50%" (zerada), para manter o layout
+ * - As horas diárias não passam pelo limite semanal (que aparece apenas nos totais)
+ */
+export function exportMonthCSV(days: DayRecord[], resultados: DailyHoursResult[], resumo: MonthlySummary): string {
+    const encontrados = getOvertimePercents(addOvertimeHours(resumo.horasExtras, ...resultados.map((r) => r.horasExtras)));
+    const percentuais = encontrados.length > 0 ? encontrados : [CLT_OVERTIME_PERCENT];
+    const linhas: string[][] = [[
+        ...EXPORT_HEADER_START,
+        ...percentuais.map((percentual) => `Extra ${percentual}%`),
+        ...EXPORT_HEADER_END,
+    ]];
+    const compensacoes = getRestCompensations(days);
+
+    days.forEach((day, index) => {
+        const r = resultados[index];
+        linhas.push([
+            formatDate(day.date),
+            WEEKDAY_LABELS[day.date.getDay()],
+            day.entrada,
+            day.saida,
+            formatDecimal(day.intervaloHoras),
+            day.marcacoes && day.marcacoes.length > 1
+                ? day.marcacoes.map((m) => `${m.entrada}-${m.saida}`).join(' ')
+                : '',
+            describeDayStatus(day, compensacoes),
+            formatDecimal(r.horasNormais),
+            ...percentuais.map((percentual) => formatDecimal(getOvertimeHoursAt(r.horasExtras, percentual))),
+            formatDecimal(r.horasNoturnas),
+            formatDecimal(r.horasNoturnasExtra),
+            formatDecimal(r.adicionalNoturnoHoras),
+        ]);
+    });
+
+    const totais: [string, number][] = [
+        ['Horas normais', resumo.horasNormais],
+        ...percentuais.map((percentual): [string, number] => [
+            `Horas extras ${percentual}%`,
+            getOvertimeHoursAt(resumo.horasExtras, percentual),
+        ]),
+        ['Horas noturnas', resumo.horasNoturnas],
+        ['Adicional noturno (R$)', resumo.adicionalNoturno],
+        ['DSR (R$)', resumo.dsrTotal],
+        ['Salário base (R$)', resumo.salarioBase],
+        ['Férias (R$)', resumo.valorFerias],
+        ['Abono pecuniário (R$)', resumo.valorAbonoFerias],
+        ['Férias + 1/3 e 13º das convocações (R$)', resumo.valorVerbasConvocacoes],
+        ['Faltas (dias)', resumo.diasFaltas],
+        ['Desconto de faltas e DSR (R$)', resumo.descontoFaltas + resumo.descontoDSRFaltas],
+        ['Desconto de atrasos (R$)', resumo.descontoAtrasos],
+        ['Bruto (R$)', resumo.valorBruto],
+        ['INSS (R$)', resumo.descontoINSS],
+        ['IRRF (R$)', resumo.descontoIRRF],
+        ['Líquido (R$)', resumo.valorLiquido],
+        ['FGTS (R$)', resumo.depositoFGTS],
+    ];
+    linhas.push([], [TOTALS_LABEL]);
+    for (const [rotulo, valor] of totais) {
+        linhas.push([rotulo, formatDecimal(valor)]);
+    }
+
+    return linhas.map((linha) => linha.map(quoteField).join(CSV_SEPARATOR)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Remove acentos, espaços extras e maiúsculas de um nome de coluna.
+ */
+function normalizeHeader(value: string): string {
+    return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+}
+
+/**
+ * Separa os campos de uma linha, respeitando aspas ("a;b" e "" como aspas literais).
+ */
+function splitCSVLine(line: string, separator: string): string[] {
+    const campos: string[] = [];
+    let atual = '';
+    let aspas = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (aspas) {
+            if (char === '"' && line[i + 1] === '"') {
+                atual += '"';
+                i++;
+            } else if (char === '"') {
+                aspas = false;
+            } else {
+                atual += char;
+            }
+        } else if (char === '"') {
+            aspas = true;
+        } else if (char === separator) {
+            campos.push(atual.trim());
+            atual = '';
+        } else {
+            atual += char;
+        }
+    }
+    campos.push(atual.trim());
+    return campos;
+}
+
+/**
+ * Lê uma data DD/MM/AAAA, DD/MM/AA, DD-MM-AAAA, DD.MM.AAAA ou AAAA-MM-DD.
+ */
+function parseCSVDate(value: string): Date | null {
+    let day: number, month: number, year: number;
+    const br = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(value);
+    const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value);
+    if (br) {
+        [day, month, year] = [Number(br[1]), Number(br[2]), Number(br[3])];
+        if (br[3].length === 2) year += 2000;
+    } else if (iso) {
+        [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+    } else {
+        return null;
+    }
+
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+/**
+ * Lê um horário "8:00", "08:00:00", "08h00" ou "8h" como "HH:mm".
+ */
+function parseCSVTime(value: string): string | null {
+    const match = /^(\d{1,2})(?:[:hH](\d{2})?(?::\d{2})?)?$/.exec(value);
+    if (!match || (match[2] === undefined && !/[hH]$/.test(value))) return null;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2] ?? '0');
+    if (hours > 23 || minutes > 59) return null;
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Lê um intervalo em horas decimais ("1", "1,5", "1.5") ou "HH:mm" ("01:30" = 1,5).
+ */
+function parseCSVHours(value: string): number | null {
+    const time = /^(\d{1,2}):(\d{2})$/.exec(value);
+    if (time) return Number(time[1]) + Number(time[2]) / 60;
+    const decimal = value.replace(',', '.');
+    if (!/^\d+(\.\d+)?$/.test(decimal)) return null;
+    return Number(decimal);
+}
+
+/**
+ * Lê a coluna de marcações ("08:00-12:00 13:00-17:00"; aceita "–", "," e "|").
+ */
+function parseCSVPunches(value: string): Punch[] | null {
+    const marcacoes: Punch[] = [];
+    for (const par of value.split(/[\s,|]+/).filter(Boolean)) {
+        const [entrada, saida, ...resto] = par.split(/[-–]/).map(parseCSVTime);
+        if (!entrada || !saida || resto.length > 0) return null;
+        marcacoes.push({ entrada, saida });
+    }
+    return marcacoes;
+}
+
+/**
+ * Encontra a coluna cujo nome começa por um dos prefixos (sem acentos).
+ */
+function findColumn(cabecalho: string[], prefixos: string[]): number {
+    return cabecalho.findIndex((nome) => prefixos.some((p) => nome.startsWith(p)));
+}
+
+/**
+ * Lê os horários de uma planilha CSV.
+ *
+ * LÓGICA:
+ * 1. Separador deduzido do cabeçalho (o mais frequente entre ";", tabulação e ",")
+ * 2. Colunas pelo nome: data, entrada, saída, intervalo e marcações (opcional)
+ * 3. Cada linha vira um dia; linhas em branco são ignoradas e "Totais" encerra a leitura
+ *
+ * @param text - Conteúdo do arquivo
+ * @returns Dias lidos e as linhas recusadas
+ *
+ * @example
+ * importCSV("Data;Entrada;Saída;Intervalo\n02/03/2026;08:00;17:00;1,5\n31/02/2026;08:00;17:00;1")
+ * // dias: [{ linha: 2, data: 02/03/2026, marcacoes: [08:00–17:00], intervaloHoras: 1.5 }]
+ * // erros: [{ linha: 3, mensagem: 'Data inválida: "31/02/2026"' }]
+ *
+ * DECISÃO CONSERVADORA:
+ * - Entrada e saída vazias = dia sem horário (folga não trabalhada)
+ * - A coluna de marcações, quando preenchida, prevalece sobre entrada/saída
+ * - Data repetida: vale a primeira linha; as seguintes são recusadas
+ * - Colunas de horas calculadas (exportação) são ignoradas: o app recalcula
+ */
+export function importCSV(text: string): CSVImport {
+    const linhas = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+    const erros: ImportIssue[] = [];
+    const dias: CSVDayImport[] = [];
+
+    const primeira = linhas[0] ?? '';
+    const separador = [';', '\t', ',']
+        .map((s) => ({ s, n: primeira.split(s).length }))
+        .sort((a, b) => b.n - a.n)[0].s;
+    const cabecalho = splitCSVLine(primeira, separador).map(normalizeHeader);
+
+    const col = {
+        data: findColumn(cabecalho, ['data', 'date']),
+        entrada: findColumn(cabecalho, ['entrada', 'inicio']),
+        saida: findColumn(cabecalho, ['saida', 'fim']),
+        intervalo: findColumn(cabecalho, ['intervalo', 'pausa', 'almoco']),
+        marcacoes: findColumn(cabecalho, ['marcac', 'batidas']),
+    };
+
+    if (col.data < 0 || ((col.entrada < 0 || col.saida < 0) && col.marcacoes < 0)) {
+        erros.push({ linha: 1, mensagem: 'Cabeçalho sem as colunas data, entrada e saída (ou marcações)' });
+        return { dias, erros };
+    }
+
+    const vistas = new Map<string, number>();
+    for (let index = 1; index < linhas.length; index++) {
+        const linha = index + 1;
+        if (linhas[index].trim() === '') continue;
+
+        const campos = splitCSVLine(linhas[index], separador);
+        const campo = (i: number) => (i >= 0 ? campos[i] ?? '' : '');
+        if (normalizeHeader(campos[0]) === normalizeHeader(TOTALS_LABEL)) break;
+
+        const data = parseCSVDate(campo(col.data));
+        if (!data) {
+            erros.push({ linha, mensagem: `Data inválida: "${campo(col.data)}"` });
+            continue;
+        }
+
+        const key = toDateKey(data);
+        const repetida = vistas.get(key);
+        if (repetida !== undefined) {
+            erros.push({ linha, mensagem: `Data repetida (já informada na linha ${repetida})` });
+            continue;
+        }
+
+        let marcacoes: Punch[] | null;
+        if (campo(col.marcacoes) !== '') {
+            marcacoes = parseCSVPunches(campo(col.marcacoes));
+            if (!marcacoes) {
+                erros.push({ linha, mensagem: `Marcações inválidas: "${campo(col.marcacoes)}"` });
+                continue;
+            }
+        } else if (campo(col.entrada) === '' && campo(col.saida) === '') {
+            marcacoes = [];
+        } else {
+            const entrada = parseCSVTime(campo(col.entrada));
+            const saida = parseCSVTime(campo(col.saida));
+            if (!entrada || !saida) {
+                erros.push({
+                    linha,
+                    mensagem: `Horário inválido: "${!entrada ? campo(col.entrada) : campo(col.saida)}"`,
+                });
+                continue;
+            }
+            marcacoes = [{ entrada, saida }];
+        }
+
+        let intervaloHoras: number | null = null;
+        if (campo(col.intervalo) !== '') {
+            intervaloHoras = parseCSVHours(campo(col.intervalo));
+            if (intervaloHoras === null) {
+                erros.push({ linha, mensagem: `Intervalo inválido: "${campo(col.intervalo)}"` });
+                continue;
+            }
+        }
+
+        vistas.set(key, linha);
+        dias.push({ linha, data, marcacoes, intervaloHoras });
+    }
+
+    dias.sort((a, b) => a.data.getTime() - b.data.getTime());
+    return { dias, erros };
+}
+
+/**
+ * Aplica os dias lidos da planilha aos dias de um mês.
+ *
+ * @param days - Dias do mês (salvos ou gerados)
+ * @param importados - Dias lidos por importCSV (outros meses são ignorados)
+ * @returns Dias atualizados e a quantidade de dias alterados
+ *
+ * DECISÃO CONSERVADORA:
+ * - A planilha prevalece sobre os horários do app (inclusive edições manuais)
+ * - Dias de férias não recebem horários
+ * - Dia com horário deixa de ser falta ou folga compensatória (atraso é mantido)
+ */
+export function applyCSVDays(days: DayRecord[], importados: CSVDayImport[]): { days: DayRecord[]; aplicados: number } {
+    const porDia = new Map(importados.map((d) => [toDateKey(d.data), d]));
+    let aplicados = 0;
+
+    const updated = days.map((day) => {
+        const importado = porDia.get(toDateKey(day.date));
+        if (!importado || day.ehFerias) return day;
+
+        const novo = setDayPunches(day, importado.marcacoes, importado.intervaloHoras ?? day.intervaloHoras);
+        const mesmoHorario = novo.intervaloHoras === day.intervaloHoras
+            && JSON.stringify(getDayPunches(novo)) === JSON.stringify(getDayPunches(day));
+        if (mesmoHorario) return day;
+
+        aplicados++;
+        const trabalhado = importado.marcacoes.length > 0;
+        return {
+            ...novo,
+            ausencia: trabalhado && isFullDayAbsence(day) ? undefined : day.ausencia,
+            compensacao: trabalhado ? undefined : day.compensacao,
+        };
+    });
+
+    return { days: updated, aplicados };
+}
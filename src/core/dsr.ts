@@ -0,0 +1,78 @@
+/**
+ * core/dsr.ts
+ *
+ * Dias úteis e dias de repouso do DSR (Descanso Semanal Remunerado) sobre horas extras.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Lei 605/49 (art. 7º) e Súmula 172 TST: horas extras habituais refletem no repouso
+ * - Fórmula legal: (valor das horas extras ÷ dias úteis) × (domingos + feriados do mês),
+ *   contados pelo calendário, e não pela folga da escala
+ * - Sábado é dia útil não trabalhado (entra no divisor), salvo variação de CCT
+ * - Feriado em domingo conta uma vez só
+ * - Modo aproximado (anterior): folgas da escala e feriados como repouso
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - O valor do DSR é calculado em calculations.ts (calculateDSR)
+ */
+
+import type { DayRecord, DSRMethod, DSRSettings } from './types';
+
+/**
+ * Configuração padrão: fórmula legal, sábado útil, só horas extras na base.
+ */
+export const DEFAULT_DSR_SETTINGS: DSRSettings = {
+    metodo: 'legal',
+    sabadoRepouso: false,
+    incluirAdicionalNoturno: false,
+};
+
+/**
+ * Descrição de cada fórmula (exibida nas configurações e no resumo).
+ */
+export const DSR_METHOD_LABELS: Record<DSRMethod, string> = {
+    legal: 'Lei 605/49 (domingos e feriados do calendário)',
+    aproximado: 'Aproximado (folgas da escala e feriados)',
+};
+
+/**
+ * Conta os dias úteis e os dias de repouso do mês para o DSR.
+ *
+ * LÓGICA:
+ * - legal: domingos e feriados são repouso (e sábados, se sabadoRepouso);
+ *   os demais dias são úteis, trabalhados ou não
+ * - aproximado: folgas da escala e feriados são repouso; os demais, úteis
+ *
+ * @param days - Dias do mês
+ * @param dsr - Configuração do DSR
+ * @returns Dias úteis (divisor) e dias de repouso (multiplicador)
+ *
+ * @example
+ * // Março/2026, sem feriados: 31 dias, 5 domingos
+ * countDSRDays(diasDeMarco, DEFAULT_DSR_SETTINGS) // { diasUteis: 26, diasRepouso: 5 }
+ *
+ * DECISÃO CONSERVADORA:
+ * - Dias de férias não entram em nenhuma das contagens (o DSR fica proporcional
+ *   ao período trabalhado no mês)
+ */
+export function countDSRDays(days: DayRecord[], dsr: DSRSettings): { diasUteis: number; diasRepouso: number } {
+    let diasUteis = 0;
+    let diasRepouso = 0;
+
+    for (const day of days) {
+        if (day.ehFerias) continue;
+
+        const weekday = day.date.getDay();
+        const repouso = dsr.metodo === 'legal'
+            ? weekday === 0 || day.ehFeriado || (dsr.sabadoRepouso && weekday === 6)
+            : day.ehFolga || day.ehFeriado;
+
+        if (repouso) {
+            diasRepouso++;
+        } else {
+            diasUteis++;
+        }
+    }
+
+    return { diasUteis, diasRepouso };
+}
@@ -0,0 +1,193 @@
+/**
+ * core/fgts.ts
+ *
+ * FGTS: depósitos mensais, extrato com rendimento e valores de saque.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Depósito mensal de 8% sobre a remuneração (Lei 8.036/90, art. 15):
+ *   salário + horas extras + DSR + adicional noturno + férias gozadas
+ * - Abono pecuniário de férias não integra a base (art. 144 CLT)
+ * - 13º salário: 8% sobre o valor integral, lançado em dezembro
+ * - Rendimento: TR + 3% ao ano, capitalizados mensalmente sobre o saldo anterior (art. 13)
+ * - Saque-aniversário: alíquota da faixa do saldo + parcela adicional (Lei 13.932/19)
+ * - Optante do saque-aniversário dispensado sem justa causa saca apenas a multa
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Recebe os meses salvos (a leitura fica em storage/)
+ */
+
+import type {
+    DayRecord,
+    FGTSLedgerEntry,
+    FGTSSettings,
+    FGTSWithdrawal,
+    MonthHistory,
+    Settings,
+} from './types';
+import { calculateStoredMonthSummary, getStoredMonthTaxTables } from './calculations';
+import { FGTS_RATE } from './payroll';
+import { calculateThirteenthSalary } from './thirteenth';
+import { addMonthsToKey, toMonthKey } from './time';
+
+/**
+ * Juros anuais creditados na conta do FGTS (além da TR).
+ */
+export const FGTS_ANNUAL_INTEREST = 0.03;
+
+/**
+ * Multa do FGTS na dispensa sem justa causa (percentual).
+ */
+export const FGTS_DISMISSAL_FINE = 40;
+
+/**
+ * Faixas do saque-aniversário: saldo até o limite → alíquota + parcela adicional.
+ */
+export const ANNIVERSARY_WITHDRAWAL_BRACKETS: { ate: number | null; aliquota: number; parcelaAdicional: number }[] = [
+    { ate: 500, aliquota: 50, parcelaAdicional: 0 },
+    { ate: 1000, aliquota: 40, parcelaAdicional: 50 },
+    { ate: 5000, aliquota: 30, parcelaAdicional: 150 },
+    { ate: 10000, aliquota: 20, parcelaAdicional: 650 },
+    { ate: 15000, aliquota: 15, parcelaAdicional: 1150 },
+    { ate: 20000, aliquota: 10, parcelaAdicional: 1900 },
+    { ate: null, aliquota: 5, parcelaAdicional: 2900 },
+];
+
+/**
+ * Configuração padrão: sem saldo inicial, TR zero e saque-rescisão.
+ */
+export const DEFAULT_FGTS_SETTINGS: FGTSSettings = {
+    saldoInicial: 0,
+    competenciaInicial: null,
+    trMensal: 0,
+    saqueAniversario: false,
+};
+
+/**
+ * Taxa mensal de rendimento do FGTS: (1 + TR) × (1 + 3% a.a. mensalizado) - 1.
+ *
+ * @param trMensal - TR do mês em percentual (ex.: 0.17)
+ *
+ * @example
+ * getMonthlyYieldRate(0)    // ≈ 0.002466 (apenas os 3% a.a.)
+ * getMonthlyYieldRate(0.17) // ≈ 0.004140
+ */
+export function getMonthlyYieldRate(trMensal: number): number {
+    const juros = Math.pow(1 + FGTS_ANNUAL_INTEREST, 1 / 12) - 1;
+    return (1 + trMensal / 100) * (1 + juros) - 1;
+}
+
+/**
+ * Monta o extrato do FGTS mês a mês até uma competência.
+ *
+ * LÓGICA:
+ * 1. Começa na competência do saldo inicial (ou no primeiro mês salvo)
+ * 2. Cada mês: rendimento sobre o saldo anterior + depósito de 8% do mês salvo
+ * 3. Dezembro: + 8% do 13º calculado com os meses salvos do ano
+ *
+ * @param months - Dias dos meses salvos
+ * @param settings - Configurações (salário, FGTS)
+ * @param ate - Última competência do extrato ("YYYY-MM")
+ * @param historico - Lançamentos do banco de horas e tabelas do fechamento dos meses salvos
+ * @returns Lançamentos do extrato (vazio sem meses salvos nem competência inicial)
+ *
+ * @example
+ * // Salário R$ 2.200,00, banco de horas com 10.68h extras 50% vencidas em 06/2026:
+ * // depósito de 06/2026 = 190.79 (176.00 sem as horas pagas), o mesmo do resumo do mês
+ *
+ * DECISÃO CONSERVADORA:
+ * - Meses não salvos não têm depósito, mas continuam rendendo
+ * - TR única informada pelo usuário (não há série histórica embutida)
+ * - Sem distribuição anual de resultados do FGTS
+ * - Rendimento creditado já no mês do depósito anterior (sem o atraso do dia 10)
+ * - Mês fechado usa as tabelas guardadas no fechamento (como no resumo do mês)
+ */
+export function buildFGTSLedger(
+    months: DayRecord[][],
+    settings: Settings,
+    ate: string,
+    historico: MonthHistory
+): FGTSLedgerEntry[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const stored = new Map<string, DayRecord[]>();
+    for (const days of months) {
+        if (days.length === 0) continue;
+        stored.set(toMonthKey(days[0].date.getFullYear(), days[0].date.getMonth()), days);
+    }
+
+    const keys = [...stored.keys()].sort();
+    const inicio = settings.fgts.competenciaInicial ?? keys[0];
+    if (!inicio) return [];
+
+    const taxa = getMonthlyYieldRate(settings.fgts.trMensal);
+    const entries: FGTSLedgerEntry[] = [];
+    let saldo = settings.fgts.saldoInicial;
+
+    for (let key = inicio; key <= ate; key = addMonthsToKey(key, 1)) {
+        const days = stored.get(key);
+        const { baseFGTS, depositoFGTS } = days
+            ? calculateStoredMonthSummary(days, settings, historico)
+            : { baseFGTS: 0, depositoFGTS: 0 };
+
+        let deposito13 = 0;
+        if (key.endsWith('-12')) {
+            const year = Number(key.slice(0, 4));
+            const yearMonths = keys.filter((k) => k.startsWith(`${year}-`)).map((k) => stored.get(k) as DayRecord[]);
+            const decimoTerceiro = calculateThirteenthSalary(
+                year,
+                yearMonths,
+                settings,
+                getStoredMonthTaxTables(year, 11, settings, historico),
+                historico
+            );
+            deposito13 = round(decimoTerceiro.valorIntegral * FGTS_RATE);
+        }
+
+        const rendimento = round(saldo * taxa);
+        saldo = round(saldo + rendimento + depositoFGTS + deposito13);
+        entries.push({ competencia: key, base: baseFGTS, deposito: depositoFGTS, deposito13, rendimento, saldo });
+    }
+
+    return entries;
+}
+
+/**
+ * Calcula o que poderia ser sacado do FGTS com um saldo.
+ *
+ * @param saldo - Saldo da conta em reais
+ * @param saqueAniversario - Optante do saque-aniversário
+ *
+ * @example
+ * calculateFGTSWithdrawal(8000, false)
+ * // saque-aniversário: 20% + 650 = 2250.00
+ * // dispensa: saldo 8000.00 + multa 3200.00 = 11200.00
+ *
+ * DECISÃO CONSERVADORA:
+ * - Multa de 40% sobre o saldo atual (na prática, sobre todos os depósitos
+ *   do contrato corrigidos, inclusive os já sacados)
+ */
+export function calculateFGTSWithdrawal(saldo: number, saqueAniversario: boolean): FGTSWithdrawal {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const faixa = ANNIVERSARY_WITHDRAWAL_BRACKETS.find((f) => f.ate === null || saldo <= f.ate)
+        ?? ANNIVERSARY_WITHDRAWAL_BRACKETS[ANNIVERSARY_WITHDRAWAL_BRACKETS.length - 1];
+    const valorAniversario = saldo > 0 ? saldo * faixa.aliquota / 100 + faixa.parcelaAdicional : 0;
+
+    const saldoLiberado = saqueAniversario ? 0 : saldo;
+    const multa = saldo * FGTS_DISMISSAL_FINE / 100;
+
+    return {
+        saldo: round(saldo),
+        saqueAniversario: {
+            aliquota: faixa.aliquota,
+            parcelaAdicional: faixa.parcelaAdicional,
+            valor: round(valorAniversario),
+        },
+        dispensa: {
+            saldoLiberado: round(saldoLiberado),
+            multa: round(multa),
+            total: round(saldoLiberado + multa),
+        },
+    };
+}
@@ -0,0 +1,209 @@
+/**
+ * core/holidayData.ts
+ *
+ * Calendários de feriados embutidos no aplicativo (nacional, estaduais e municipais).
+ *
+ * REGRAS:
+ * - Apenas dados, sem lógica (a consulta fica em holidays.ts)
+ * - Feriados móveis usam diasAposPascoa (ex: Sexta-feira Santa = -2)
+ * - Pontos facultativos nacionais podem ser promovidos a feriado por UF ou município
+ *
+ * IMPORTANTE:
+ * Os dados seguem as leis estaduais/municipais conhecidas, mas podem mudar.
+ * Confira a legislação local e use os feriados extras para ajustes.
+ */
+
+import type { HolidayCalendar } from './types';
+
+/**
+ * Calendário nacional (Lei 662/49, Lei 6.802/80, Lei 14.759/23 e pontos facultativos federais).
+ */
+export const NATIONAL_CALENDAR: HolidayCalendar = {
+    id: 'BR',
+    nome: 'Brasil',
+    regras: [
+        { mes: 0, dia: 1, nome: 'Confraternização Universal', tipo: 'nacional' },
+        { mes: 3, dia: 21, nome: 'Tiradentes', tipo: 'nacional' },
+        { mes: 4, dia: 1, nome: 'Dia do Trabalhador', tipo: 'nacional' },
+        { mes: 8, dia: 7, nome: 'Independência do Brasil', tipo: 'nacional' },
+        { mes: 9, dia: 12, nome: 'Nossa Senhora Aparecida', tipo: 'nacional' },
+        { mes: 10, dia: 2, nome: 'Finados', tipo: 'nacional' },
+        { mes: 10, dia: 15, nome: 'Proclamação da República', tipo: 'nacional' },
+        { mes: 10, dia: 20, nome: 'Consciência Negra', tipo: 'nacional' },
+        { mes: 11, dia: 25, nome: 'Natal', tipo: 'nacional' },
+        { diasAposPascoa: -48, nome: 'Carnaval (segunda-feira)', tipo: 'facultativo' },
+        { diasAposPascoa: -47, nome: 'Carnaval', tipo: 'facultativo' },
+        { diasAposPascoa: -46, nome: 'Quarta-feira de Cinzas', tipo: 'facultativo', meioPeriodo: true },
+        { diasAposPascoa: -2, nome: 'Sexta-feira Santa', tipo: 'nacional' },
+        { diasAposPascoa: 60, nome: 'Corpus Christi', tipo: 'facultativo' },
+    ],
+};
+
+/**
+ * Calendários estaduais, indexados pela UF.
+ * UFs sem feriado estadual próprio têm lista vazia.
+ */
+export const STATE_CALENDARS: Record<string, HolidayCalendar> = {
+    AC: {
+        id: 'AC', nome: 'Acre', uf: 'AC', regras: [
+            { mes: 0, dia: 23, nome: 'Dia do Evangélico', tipo: 'estadual' },
+            { mes: 5, dia: 15, nome: 'Aniversário do Acre', tipo: 'estadual' },
+            { mes: 8, dia: 5, nome: 'Dia da Amazônia', tipo: 'estadual' },
+            { mes: 10, dia: 17, nome: 'Tratado de Petrópolis', tipo: 'estadual' },
+        ],
+    },
+    AL: {
+        id: 'AL', nome: 'Alagoas', uf: 'AL', regras: [
+            { mes: 5, dia: 24, nome: 'São João', tipo: 'estadual' },
+            { mes: 5, dia: 29, nome: 'São Pedro', tipo: 'estadual' },
+            { mes: 8, dia: 16, nome: 'Emancipação Política de Alagoas', tipo: 'estadual' },
+        ],
+    },
+    AP: {
+        id: 'AP', nome: 'Amapá', uf: 'AP', regras: [
+            { mes: 2, dia: 19, nome: 'São José', tipo: 'estadual' },
+            { mes: 8, dia: 13, nome: 'Criação do Território do Amapá', tipo: 'estadual' },
+        ],
+    },
+    AM: {
+        id: 'AM', nome: 'Amazonas', uf: 'AM', regras: [
+            { mes: 8, dia: 5, nome: 'Elevação do Amazonas à Província', tipo: 'estadual' },
+        ],
+    },
+    BA: {
+        id: 'BA', nome: 'Bahia', uf: 'BA', regras: [
+            { mes: 6, dia: 2, nome: 'Independência da Bahia', tipo: 'estadual' },
+        ],
+    },
+    CE: {
+        id: 'CE', nome: 'Ceará', uf: 'CE', regras: [
+            { mes: 2, dia: 19, nome: 'São José', tipo: 'estadual' },
+            { mes: 2, dia: 25, nome: 'Data Magna do Ceará', tipo: 'estadual' },
+        ],
+    },
+    DF: {
+        id: 'DF', nome: 'Distrito Federal', uf: 'DF', regras: [
+            { mes: 10, dia: 30, nome: 'Dia do Evangélico', tipo: 'estadual' },
+        ],
+    },
+    ES: { id: 'ES', nome: 'Espírito Santo', uf: 'ES', regras: [] },
+    GO: { id: 'GO', nome: 'Goiás', uf: 'GO', regras: [] },
+    MA: {
+        id: 'MA', nome: 'Maranhão', uf: 'MA', regras: [
+            { mes: 6, dia: 28, nome: 'Adesão do Maranhão à Independência', tipo: 'estadual' },
+        ],
+    },
+    MT: { id: 'MT', nome: 'Mato Grosso', uf: 'MT', regras: [] },
+    MS: {
+        id: 'MS', nome: 'Mato Grosso do Sul', uf: 'MS', regras: [
+            { mes: 9, dia: 11, nome: 'Criação do Estado', tipo: 'estadual' },
+        ],
+    },
+    MG: { id: 'MG', nome: 'Minas Gerais', uf: 'MG', regras: [] },
+    PA: {
+        id: 'PA', nome: 'Pará', uf: 'PA', regras: [
+            { mes: 7, dia: 15, nome: 'Adesão do Pará à Independência', tipo: 'estadual' },
+        ],
+    },
+    PB: {
+        id: 'PB', nome: 'Paraíba', uf: 'PB', regras: [
+            { mes: 7, dia: 5, nome: 'Fundação do Estado', tipo: 'estadual' },
+        ],
+    },
+    PR: {
+        id: 'PR', nome: 'Paraná', uf: 'PR', regras: [
+            { mes: 11, dia: 19, nome: 'Emancipação Política do Paraná', tipo: 'estadual' },
+        ],
+    },
+    PE: {
+        id: 'PE', nome: 'Pernambuco', uf: 'PE', regras: [
+            { mes: 2, dia: 6, nome: 'Data Magna de Pernambuco', tipo: 'estadual' },
+        ],
+    },
+    PI: {
+        id: 'PI', nome: 'Piauí', uf: 'PI', regras: [
+            { mes: 9, dia: 19, nome: 'Dia do Piauí', tipo: 'estadual' },
+        ],
+    },
+    RJ: {
+        id: 'RJ', nome: 'Rio de Janeiro', uf: 'RJ', regras: [
+            { mes: 3, dia: 23, nome: 'São Jorge', tipo: 'estadual' },
+            { diasAposPascoa: -47, nome: 'Carnaval', tipo: 'estadual' },
+        ],
+    },
+    RN: {
+        id: 'RN', nome: 'Rio Grande do Norte', uf: 'RN', regras: [
+            { mes: 9, dia: 3, nome: 'Mártires de Cunhaú e Uruaçu', tipo: 'estadual' },
+        ],
+    },
+    RS: {
+        id: 'RS', nome: 'Rio Grande do Sul', uf: 'RS', regras: [
+            { mes: 8, dia: 20, nome: 'Revolução Farroupilha', tipo: 'estadual' },
+        ],
+    },
+    RO: {
+        id: 'RO', nome: 'Rondônia', uf: 'RO', regras: [
+            { mes: 0, dia: 4, nome: 'Criação do Estado', tipo: 'estadual' },
+            { mes: 5, dia: 18, nome: 'Dia do Evangélico', tipo: 'estadual' },
+        ],
+    },
+    RR: {
+        id: 'RR', nome: 'Roraima', uf: 'RR', regras: [
+            { mes: 9, dia: 5, nome: 'Criação do Estado', tipo: 'estadual' },
+        ],
+    },
+    SC: { id: 'SC', nome: 'Santa Catarina', uf: 'SC', regras: [] },
+    SP: {
+        id: 'SP', nome: 'São Paulo', uf: 'SP', regras: [
+            { mes: 6, dia: 9, nome: 'Revolução Constitucionalista', tipo: 'estadual' },
+        ],
+    },
+    SE: {
+        id: 'SE', nome: 'Sergipe', uf: 'SE', regras: [
+            { mes: 6, dia: 8, nome: 'Emancipação Política de Sergipe', tipo: 'estadual' },
+        ],
+    },
+    TO: {
+        id: 'TO', nome: 'Tocantins', uf: 'TO', regras: [
+            { mes: 8, dia: 8, nome: 'Nossa Senhora da Natividade', tipo: 'estadual' },
+            { mes: 9, dia: 5, nome: 'Criação do Estado', tipo: 'estadual' },
+        ],
+    },
+};
+
+/**
+ * Calendários municipais embutidos, indexados pelo id ("UF-nome").
+ */
+export const MUNICIPAL_CALENDARS: Record<string, HolidayCalendar> = {
+    'RJ-marica': {
+        id: 'RJ-marica', nome: 'Maricá', uf: 'RJ', regras: [
+            { mes: 4, dia: 26, nome: 'Aniversário de Maricá', tipo: 'municipal' },
+            { mes: 7, dia: 15, nome: 'Padroeira de Maricá', tipo: 'municipal' },
+            { diasAposPascoa: 60, nome: 'Corpus Christi', tipo: 'municipal' },
+        ],
+    },
+    'RJ-rio-de-janeiro': {
+        id: 'RJ-rio-de-janeiro', nome: 'Rio de Janeiro', uf: 'RJ', regras: [
+            { mes: 0, dia: 20, nome: 'São Sebastião', tipo: 'municipal' },
+        ],
+    },
+    'RJ-niteroi': {
+        id: 'RJ-niteroi', nome: 'Niterói', uf: 'RJ', regras: [
+            { mes: 5, dia: 24, nome: 'São João Batista', tipo: 'municipal' },
+            { mes: 10, dia: 22, nome: 'Aniversário de Niterói', tipo: 'municipal' },
+        ],
+    },
+    'SP-sao-paulo': {
+        id: 'SP-sao-paulo', nome: 'São Paulo', uf: 'SP', regras: [
+            { mes: 0, dia: 25, nome: 'Aniversário de São Paulo', tipo: 'municipal' },
+            { diasAposPascoa: 60, nome: 'Corpus Christi', tipo: 'municipal' },
+        ],
+    },
+    'MG-belo-horizonte': {
+        id: 'MG-belo-horizonte', nome: 'Belo Horizonte', uf: 'MG', regras: [
+            { mes: 7, dia: 15, nome: 'Assunção de Nossa Senhora', tipo: 'municipal' },
+            { mes: 11, dia: 8, nome: 'Imaculada Conceição', tipo: 'municipal' },
+            { diasAposPascoa: 60, nome: 'Corpus Christi', tipo: 'municipal' },
+        ],
+    },
+};
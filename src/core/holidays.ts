@@ -1,47 +1,237 @@
 /**
  * core/holidays.ts
- * 
- * Lógica para identificação de feriados nacionais, estaduais (RJ) 
- * e municipais (Maricá).
+ *
+ * Lógica para identificação de feriados a partir dos calendários selecionados:
+ * nacional (sempre), estadual (UF), municipal e feriados extras do usuário.
+ *
+ * REGRAS:
+ * - Feriados fixos são definidos por dia/mês
+ * - Feriados móveis são calculados a partir da Páscoa de cada ano
+ * - Pontos facultativos (tipo 'facultativo') NÃO contam como feriado em isHoliday,
+ *   exceto se a configuração facultativosComoFeriado estiver ativa
+ * - Os dados dos calendários ficam em holidayData.ts
  */
 
+import type {
+    CustomHoliday,
+    Holiday,
+    HolidayCalendar,
+    HolidayInfo,
+    HolidayRule,
+    HolidaySettings,
+} from './types';
+import { MUNICIPAL_CALENDARS, NATIONAL_CALENDAR, STATE_CALENDARS } from './holidayData';
+import { parseDateKey } from './time';
+
+/**
+ * Configuração padrão: Maricá - RJ (calendário original do aplicativo).
+ */
+export const DEFAULT_HOLIDAY_SETTINGS: HolidaySettings = {
+    uf: 'RJ',
+    municipio: 'RJ-marica',
+    extras: [],
+    facultativosComoFeriado: false,
+};
+
+/**
+ * Calcula a data do Domingo de Páscoa (calendário gregoriano).
+ *
+ * ALGORITMO:
+ * Meeus/Jones/Butcher ("algoritmo anônimo"), válido para qualquer ano gregoriano.
+ *
+ * @param year - Ano (ex: 2026)
+ * @returns Data do Domingo de Páscoa
+ *
+ * @example
+ * calculateEaster(2026) // 05/04/2026
+ * calculateEaster(2027) // 28/03/2027
+ */
+export function calculateEaster(year: number): Date {
+    const a = year % 19;
+    const b = Math.floor(year / 100);
+    const c = year % 100;
+    const d = Math.floor(b / 4);
+    const e = b % 4;
+    const f = Math.floor((b + 8) / 25);
+    const g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30;
+    const i = Math.floor(c / 4);
+    const k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7;
+    const m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const month = Math.floor((h + l - 7 * m + 114) / 31); // 3 = Março, 4 = Abril
+    const day = ((h + l - 7 * m + 114) % 31) + 1;
+
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Lista as UFs com calendário embutido, em ordem alfabética.
+ */
+export function listStateCalendars(): HolidayCalendar[] {
+    return Object.values(STATE_CALENDARS).sort((a, b) => a.nome.localeCompare(b.nome));
+}
+
+/**
+ * Lista os municípios com calendário embutido de uma UF.
+ */
+export function listMunicipalCalendars(uf: string | null): HolidayCalendar[] {
+    return Object.values(MUNICIPAL_CALENDARS)
+        .filter((c) => c.uf === uf)
+        .sort((a, b) => a.nome.localeCompare(b.nome));
+}
+
+/**
+ * Descreve a seleção de calendários para exibição (ex: "Maricá - RJ").
+ */
+export function describeHolidaySettings(config: HolidaySettings): string {
+    const municipio = config.municipio ? MUNICIPAL_CALENDARS[config.municipio] : undefined;
+    if (municipio) return `${municipio.nome} - ${municipio.uf}`;
+    if (config.uf && STATE_CALENDARS[config.uf]) return STATE_CALENDARS[config.uf].nome;
+    return NATIONAL_CALENDAR.nome;
+}
+
+/**
+ * Retorna os calendários ativos para a configuração (nacional + UF + município).
+ *
+ * DECISÃO CONSERVADORA:
+ * - Município de outra UF é ignorado (seleção inconsistente)
+ */
+function getActiveCalendars(config: HolidaySettings): HolidayCalendar[] {
+    const calendars = [NATIONAL_CALENDAR];
+
+    if (config.uf && STATE_CALENDARS[config.uf]) {
+        calendars.push(STATE_CALENDARS[config.uf]);
+    }
+
+    const municipio = config.municipio ? MUNICIPAL_CALENDARS[config.municipio] : undefined;
+    if (municipio && municipio.uf === config.uf) {
+        calendars.push(municipio);
+    }
+
+    return calendars;
+}
+
+/**
+ * Resolve a data de uma regra em um ano.
+ */
+function resolveRuleDate(rule: HolidayRule, year: number, easter: Date): Date {
+    if ('diasAposPascoa' in rule) {
+        return new Date(easter.getFullYear(), easter.getMonth(), easter.getDate() + rule.diasAposPascoa);
+    }
+    return new Date(year, rule.mes, rule.dia);
+}
+
+/**
+ * Resolve a data de um feriado extra em um ano (undefined se não ocorre no ano).
+ */
+function resolveCustomDate(extra: CustomHoliday, year: number): Date | undefined {
+    const date = parseDateKey(extra.data);
+    if (extra.anual) {
+        return new Date(year, date.getMonth(), date.getDate());
+    }
+    return date.getFullYear() === year ? date : undefined;
+}
+
+/**
+ * Retorna todos os feriados e pontos facultativos de um mês.
+ *
+ * @param year - Ano de consulta
+ * @param month - Mês de consulta (0-11)
+ * @param config - Calendários selecionados (padrão: Maricá - RJ)
+ * @returns Lista de feriados do mês, ordenada por dia
+ */
+export function getHolidayList(
+    year: number,
+    month: number,
+    config: HolidaySettings = DEFAULT_HOLIDAY_SETTINGS
+): Holiday[] {
+    const easter = calculateEaster(year);
+    const holidays: Holiday[] = [];
+
+    for (const calendar of getActiveCalendars(config)) {
+        for (const rule of calendar.regras) {
+            const date = resolveRuleDate(rule, year, easter);
+            if (date.getMonth() === month) {
+                holidays.push({ date, nome: rule.nome, tipo: rule.tipo, meioPeriodo: rule.meioPeriodo });
+            }
+        }
+    }
+
+    for (const extra of config.extras) {
+        const date = resolveCustomDate(extra, year);
+        if (date && date.getMonth() === month) {
+            holidays.push({ date, nome: extra.nome, tipo: extra.tipo });
+        }
+    }
+
+    return holidays.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Indica se um feriado conta como feriado (e não apenas ponto facultativo).
+ */
+function countsAsHoliday(holiday: Holiday, config: HolidaySettings): boolean {
+    return holiday.tipo !== 'facultativo' || config.facultativosComoFeriado;
+}
+
 /**
  * Retorna uma lista de feriados para um ano e mês específicos.
- * Feriados incluídos: Federais (Brasil), Estaduais (RJ) e Municipais (Maricá).
- * 
+ * Pontos facultativos só são incluídos se configurados como feriado.
+ *
  * @param year - Ano de consulta
  * @param month - Mês de consulta (0-11)
+ * @param config - Calendários selecionados (padrão: Maricá - RJ)
  * @returns Array com os números dos dias que são feriados
  */
-export function getHolidays(year: number, month: number): number[] {
-    const holidaysByMonth: Record<number, number[]> = {
-        0: [1], // 01/Jan: Confraternização Universal
-        3: [21, 23], // 21/Abr: Tiradentes | 23/Abr: São Jorge (RJ)
-        4: [1, 26], // 01/Mai: Dia do Trabalhador | 26/Mai: Aniversário de Maricá
-        7: [15], // 15/Ago: Padroeira de Maricá
-        8: [7], // 07/Set: Independência do Brasil
-        9: [12], // 12/Out: Nossa Senhora Aparecida
-        10: [2, 15, 20], // 02/Nov: Finados | 15/Nov: Proclamação da República | 20/Nov: Consciência Negra
-        11: [25], // 25/Dez: Natal
-    };
-
-    // Feriados móveis (Cálculo simplificado para 2026)
-    if (year === 2026) {
-        if (month === 1) holidaysByMonth[1] = [...(holidaysByMonth[1] || []), 17]; // Carnaval: 17/Fev
-        if (month === 3) holidaysByMonth[3] = [...(holidaysByMonth[3] || []), 3]; // Sexta-feira Santa: 03/Abr
-        if (month === 5) holidaysByMonth[5] = [...(holidaysByMonth[5] || []), 4]; // Corpus Christi: 04/Jun
-    }
+export function getHolidays(
+    year: number,
+    month: number,
+    config: HolidaySettings = DEFAULT_HOLIDAY_SETTINGS
+): number[] {
+    return getHolidayList(year, month, config)
+        .filter((h) => countsAsHoliday(h, config))
+        .map((h) => h.date.getDate());
+}
+
+/**
+ * Retorna o feriado (ou ponto facultativo) de uma data, se houver.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Se houver mais de um na mesma data, prevalece o que não é facultativo
+ *   e, entre esses, o de menor abrangência (municipal > estadual > nacional)
+ */
+export function getHoliday(
+    date: Date,
+    config: HolidaySettings = DEFAULT_HOLIDAY_SETTINGS
+): Holiday | undefined {
+    const list = getHolidayList(date.getFullYear(), date.getMonth(), config)
+        .filter((h) => h.date.getDate() === date.getDate());
+    const feriados = list.filter((h) => h.tipo !== 'facultativo');
+    return feriados[feriados.length - 1] ?? list[0];
+}
+
+/**
+ * Retorna a identificação (nome/tipo) do feriado de uma data, para gravar no DayRecord.
+ */
+export function getHolidayInfo(
+    date: Date,
+    config: HolidaySettings = DEFAULT_HOLIDAY_SETTINGS
+): HolidayInfo | undefined {
+    const holiday = getHoliday(date, config);
+    if (!holiday) return undefined;
 
-    return holidaysByMonth[month] || [];
+    const { date: _date, ...info } = holiday;
+    return info;
 }
 
 /**
  * Verifica se uma data específica é feriado
  */
-export function isHoliday(date: Date): boolean {
+export function isHoliday(date: Date, config: HolidaySettings = DEFAULT_HOLIDAY_SETTINGS): boolean {
     const year = date.getFullYear();
     const month = date.getMonth();
     const day = date.getDate();
-    const holidays = getHolidays(year, month);
+    const holidays = getHolidays(year, month, config);
     return holidays.includes(day);
 }
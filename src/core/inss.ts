@@ -0,0 +1,42 @@
+/**
+ * core/inss.ts
+ *
+ * Cálculo do desconto de INSS do empregado.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Alíquotas progressivas por faixa (EC 103/2019)
+ * - Cada faixa incide apenas sobre a parte do salário dentro dela
+ * - Acima do teto (limite da última faixa), o desconto é o máximo
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Tabela recebida por parâmetro (ver taxTables.ts para a tabela da competência)
+ */
+
+import type { INSSTable } from './types';
+
+/**
+ * Calcula o desconto de INSS sobre o salário de contribuição.
+ *
+ * @param valorBruto - Salário bruto em reais
+ * @param tabela - Tabela do INSS da competência
+ * @returns Desconto de INSS em reais (sem arredondamento)
+ *
+ * @example
+ * // Tabela 2026: 1621,00 × 7,5% + (2200 - 1621,00) × 9%
+ * calculateINSS(2200, getTaxTables(2026, 0).inss) // 173.685
+ */
+export function calculateINSS(valorBruto: number, tabela: INSSTable): number {
+    let inss = 0;
+    let limiteAnterior = 0;
+
+    for (const faixa of tabela.faixas) {
+        if (valorBruto <= limiteAnterior) break;
+
+        const parcela = Math.min(valorBruto, faixa.ate) - limiteAnterior;
+        inss += parcela * faixa.aliquota;
+        limiteAnterior = faixa.ate;
+    }
+
+    return inss;
+}
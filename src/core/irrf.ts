@@ -0,0 +1,127 @@
+/**
+ * core/irrf.ts
+ *
+ * Cálculo do IRRF (Imposto de Renda Retido na Fonte) sobre o salário mensal.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Base de cálculo = rendimento bruto - INSS - dedução por dependente
+ * - Desconto simplificado mensal pode substituir as deduções legais
+ *   (INSS + dependentes), quando for mais vantajoso
+ * - Imposto = base × alíquota da faixa - parcela a deduzir
+ * - A partir de 2026 (Lei 15.270/25): redução do imposto para rendimentos
+ *   tributáveis até R$ 7.350,00 (zera o imposto até R$ 5.000,00)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Tabela recebida por parâmetro (padrão: IRRF_TABLE_2026; ver taxTables.ts
+ *   para a tabela de cada competência)
+ *
+ * IMPORTANTE:
+ * As tabelas ficam em taxTableData.ts e podem ser atualizadas pelo usuário.
+ */
+
+import type { IRRFSettings, IRRFTable } from './types';
+import { IRRF_TABLE_2026 } from './taxTableData';
+
+/**
+ * Configuração padrão: sem dependentes, desconto simplificado permitido.
+ */
+export const DEFAULT_IRRF_SETTINGS: IRRFSettings = {
+    dependentes: 0,
+    descontoSimplificado: true,
+};
+
+/**
+ * Calcula a base de cálculo do IRRF.
+ *
+ * @param valorBruto - Rendimento tributável bruto em reais
+ * @param descontoINSS - INSS já descontado em reais
+ * @param config - Dependentes e opção pelo desconto simplificado
+ * @param tabela - Tabela do IRRF
+ * @returns Base de cálculo em reais (nunca negativa)
+ *
+ * @example
+ * calculateIRRFBase(5000, 509.59, { dependentes: 1, descontoSimplificado: false })
+ * // 5000 - 509.59 - 189.59 = 4300.82
+ */
+export function calculateIRRFBase(
+    valorBruto: number,
+    descontoINSS: number,
+    config: IRRFSettings,
+    tabela: IRRFTable = IRRF_TABLE_2026
+): number {
+    const deducoesLegais = descontoINSS + config.dependentes * tabela.deducaoDependente;
+    const deducao = config.descontoSimplificado
+        ? Math.max(deducoesLegais, tabela.descontoSimplificado)
+        : deducoesLegais;
+
+    return Math.max(0, Math.round((valorBruto - deducao) * 100) / 100);
+}
+
+/**
+ * Aplica a tabela progressiva sobre a base de cálculo.
+ *
+ * @param base - Base de cálculo em reais
+ * @param tabela - Tabela do IRRF
+ * @returns Imposto pela tabela, antes da redução
+ */
+export function applyIRRFTable(base: number, tabela: IRRFTable = IRRF_TABLE_2026): number {
+    const faixa = tabela.faixas.find((f) => f.ate === null || base <= f.ate)
+        ?? tabela.faixas[tabela.faixas.length - 1];
+
+    return Math.max(0, base * faixa.aliquota - faixa.deducao);
+}
+
+/**
+ * Calcula a redução do imposto pelo rendimento tributável (Lei 15.270/25).
+ *
+ * @param valorBruto - Rendimento tributável bruto em reais
+ * @param tabela - Tabela do IRRF
+ * @returns Redução em reais (0 se a tabela não tem redução ou acima do limite)
+ *
+ * @example
+ * calculateIRRFReduction(6000) // 978.62 - 0.133145 × 6000 = 179.75
+ */
+export function calculateIRRFReduction(valorBruto: number, tabela: IRRFTable = IRRF_TABLE_2026): number {
+    const reducao = tabela.reducao;
+    if (!reducao) return 0;
+
+    if (valorBruto <= reducao.limiteIsencao) {
+        return reducao.reducaoMaxima;
+    }
+    if (valorBruto <= reducao.limiteReducao) {
+        return Math.max(0, reducao.constante - reducao.coeficiente * valorBruto);
+    }
+    return 0;
+}
+
+/**
+ * Calcula o desconto de IRRF do mês.
+ *
+ * LÓGICA:
+ * 1. Base = bruto - deduções (legais ou simplificado)
+ * 2. Imposto pela tabela progressiva
+ * 3. Redução pelo rendimento bruto, limitada ao imposto
+ *
+ * @param valorBruto - Rendimento tributável bruto em reais
+ * @param descontoINSS - INSS do mês em reais
+ * @param config - Dependentes e opção pelo desconto simplificado
+ * @param tabela - Tabela do IRRF (padrão: 2026)
+ * @returns Desconto de IRRF em reais, arredondado para 2 casas
+ *
+ * DECISÃO CONSERVADORA:
+ * - Pensão alimentícia e previdência privada não são deduzidas
+ * - Rendimento tributável = valor bruto do mês (sem verbas isentas)
+ */
+export function calculateIRRF(
+    valorBruto: number,
+    descontoINSS: number,
+    config: IRRFSettings,
+    tabela: IRRFTable = IRRF_TABLE_2026
+): number {
+    const base = calculateIRRFBase(valorBruto, descontoINSS, config, tabela);
+    const imposto = applyIRRFTable(base, tabela);
+    const reducao = Math.min(imposto, calculateIRRFReduction(valorBruto, tabela));
+
+    return Math.round((imposto - reducao) * 100) / 100;
+}
@@ -0,0 +1,76 @@
+/**
+ * core/nightShift.ts
+ *
+ * Regras do adicional noturno (art. 73 CLT e Lei 5.889/73 para rurais).
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Urbano: trabalho entre 22:00 e 05:00, adicional mínimo de 20%
+ * - Urbano: hora noturna reduzida de 52m30s (7h reais = 8h noturnas)
+ * - Rural (lavoura): 21:00 às 05:00, 25%, sem hora reduzida
+ * - Rural (pecuária): 20:00 às 04:00, 25%, sem hora reduzida
+ * - Prorrogação após jornada noturna integral também é noturna (Súmula 60, II TST)
+ * - CCT pode fixar percentual ou janela diferentes (regra "personalizada")
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Minutos contados a partir de 00:00, como em time.ts
+ */
+
+import type { NightShiftRules } from './types';
+import { parseHourToMinutes } from './time';
+
+/**
+ * Duração de uma hora noturna reduzida em minutos reais (52m30s).
+ */
+export const REDUCED_NIGHT_HOUR_MINUTES = 52.5;
+
+/**
+ * Regras pré-configuradas de adicional noturno.
+ */
+export const NIGHT_SHIFT_PRESETS: Record<'urbano' | 'rural-lavoura' | 'rural-pecuaria', NightShiftRules> = {
+    'urbano': { percentual: 0.2, inicio: '22:00', fim: '05:00', horaReduzida: true, prorrogacao: true },
+    'rural-lavoura': { percentual: 0.25, inicio: '21:00', fim: '05:00', horaReduzida: false, prorrogacao: true },
+    'rural-pecuaria': { percentual: 0.25, inicio: '20:00', fim: '04:00', horaReduzida: false, prorrogacao: true },
+};
+
+/**
+ * Verifica se um minuto do dia (0-1439) está dentro da janela noturna.
+ *
+ * @example
+ * isNightMinute(23 * 60, NIGHT_SHIFT_PRESETS.urbano) // true (23:00)
+ * isNightMinute(5 * 60, NIGHT_SHIFT_PRESETS.urbano)  // false (05:00 já é diurno)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Início inclusivo, fim exclusivo
+ * - Janela que atravessa a meia-noite (início > fim) é tratada corretamente
+ */
+export function isNightMinute(minuteOfDay: number, regras: NightShiftRules): boolean {
+    const inicio = parseHourToMinutes(regras.inicio);
+    const fim = parseHourToMinutes(regras.fim);
+
+    if (inicio === fim) return false;
+    if (inicio < fim) {
+        return minuteOfDay >= inicio && minuteOfDay < fim;
+    }
+    return minuteOfDay >= inicio || minuteOfDay < fim;
+}
+
+/**
+ * Duração da janela noturna em minutos reais.
+ *
+ * @example
+ * nightWindowMinutes(NIGHT_SHIFT_PRESETS.urbano) // 420 (22:00 às 05:00)
+ */
+export function nightWindowMinutes(regras: NightShiftRules): number {
+    const inicio = parseHourToMinutes(regras.inicio);
+    const fim = parseHourToMinutes(regras.fim);
+    return (fim - inicio + 24 * 60) % (24 * 60);
+}
+
+/**
+ * Fator de conversão de minutos reais noturnos em minutos "de relógio CLT".
+ * Com hora reduzida: 60 ÷ 52.5 ≈ 1.142857 (7h reais = 8h).
+ */
+export function nightMinuteWeight(regras: NightShiftRules): number {
+    return regras.horaReduzida ? 60 / REDUCED_NIGHT_HOUR_MINUTES : 1;
+}
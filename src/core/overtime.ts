@@ -0,0 +1,347 @@
+/**
+ * core/overtime.ts
+ *
+ * Percentuais de horas extras (CLT e convenções coletivas) e operações sobre
+ * horas extras agrupadas por percentual.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Adicional mínimo de 50% (art. 7º, XVI, CF/88); CCTs podem prever percentuais maiores
+ * - Dia de trabalho: horas acima da jornada seguem as faixas (ex.: 2h a 60%, depois 100%)
+ * - Dia da semana com percentual próprio (ex.: domingo 100%): vale para todas as
+ *   horas extras do dia, no lugar das faixas e da folga
+ * - Folga trabalhada (não feriado): todas as horas são extras; com a Súmula 146 TST
+ *   ativa, a folga não compensada é paga em dobro (100%)
+ * - Folga compensada (vinculada a uma folga compensatória em até 6 dias): o dia
+ *   conta como dia de trabalho (jornada normal e faixas)
+ * - Feriado: todas as horas são extras com o percentual do feriado (tem precedência)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Horas extras sempre como OvertimeHours (chave = percentual)
+ */
+
+import type { DayRecord, OvertimeHours, OvertimeRules, OvertimeTier, WeekDay } from './types';
+import { WEEKDAY_INDEX } from './schedule';
+import { calculateWorkedMinutes, getDayPunches, toDateKey } from './time';
+
+/**
+ * Adicional mínimo de hora extra em % (art. 7º, XVI, CF/88).
+ */
+export const CLT_OVERTIME_PERCENT = 50;
+
+/**
+ * Percentual da folga trabalhada sem compensação (pagamento em dobro, Súmula 146 TST).
+ */
+export const DOUBLE_PAY_PERCENT = 100;
+
+/**
+ * Distância máxima, em dias, entre a folga trabalhada e a folga compensatória
+ * (o repouso não pode passar do 7º dia, OJ 410 SDI-1 TST).
+ */
+export const REST_COMPENSATION_MAX_DAYS = 6;
+
+/**
+ * Regras padrão da CLT: 50% nos dias de trabalho e nas folgas, 100% nos feriados.
+ */
+export const DEFAULT_OVERTIME_RULES: OvertimeRules = {
+    faixas: [{ ateHoras: null, percentual: CLT_OVERTIME_PERCENT }],
+    diasSemana: {},
+    folga: CLT_OVERTIME_PERCENT,
+    folgaEmDobro: false,
+    feriado: 100,
+};
+
+/**
+ * Dias da semana pelo índice de Date.getDay() (0 = domingo).
+ */
+const WEEKDAYS_BY_INDEX = (Object.keys(WEEKDAY_INDEX) as WeekDay[])
+    .sort((a, b) => WEEKDAY_INDEX[a] - WEEKDAY_INDEX[b]);
+
+/**
+ * Percentual aplicado a todas as horas de um dia sem jornada normal (feriado ou folga).
+ *
+ * @param ehFeriado - Se o dia é feriado
+ * @param ehFolga - Se o dia é folga
+ * @param regras - Regras de horas extras
+ * @param diaSemana - Dia da semana (0 = domingo); omitido = ignora os percentuais por dia
+ * @returns Percentual, ou null para dia de trabalho (horas acima da jornada seguem as faixas)
+ *
+ * @example
+ * getRestDayPercent(true, false, DEFAULT_OVERTIME_RULES)  // 100 (feriado)
+ * getRestDayPercent(false, true, DEFAULT_OVERTIME_RULES)  // 50 (folga)
+ * getRestDayPercent(false, false, DEFAULT_OVERTIME_RULES) // null
+ * getRestDayPercent(false, true, { ...DEFAULT_OVERTIME_RULES, folgaEmDobro: true }) // 100
+ *
+ * DECISÃO CONSERVADORA:
+ * - Folga compensada deve chegar aqui como dia de trabalho (ver isRestDayCompensated)
+ */
+export function getRestDayPercent(
+    ehFeriado: boolean,
+    ehFolga: boolean,
+    regras: OvertimeRules,
+    diaSemana?: number
+): number | null {
+    if (ehFeriado) return regras.feriado;
+    if (!ehFolga) return null;
+    const percentual = getWeekdayPercent(regras, diaSemana) ?? regras.folga;
+    return regras.folgaEmDobro ? Math.max(DOUBLE_PAY_PERCENT, percentual) : percentual;
+}
+
+/**
+ * Percentual próprio do dia da semana, se configurado.
+ */
+export function getWeekdayPercent(regras: OvertimeRules, diaSemana?: number): number | undefined {
+    return diaSemana === undefined ? undefined : regras.diasSemana[WEEKDAYS_BY_INDEX[diaSemana]];
+}
+
+/**
+ * Datas permitidas para a folga compensatória de uma folga trabalhada.
+ *
+ * @returns Primeira e última data ("YYYY-MM-DD"), até 6 dias antes e depois
+ */
+export function getRestCompensationRange(date: Date): [string, string] {
+    const shift = (dias: number) => toDateKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() + dias));
+    return [shift(-REST_COMPENSATION_MAX_DAYS), shift(REST_COMPENSATION_MAX_DAYS)];
+}
+
+/**
+ * Verifica se um dia pode ser a folga compensatória de uma folga trabalhada:
+ * dia de trabalho da escala, sem horas trabalhadas, feriado, férias, ausência
+ * ou compensação do banco de horas.
+ */
+export function isRestCompensationTarget(day: DayRecord): boolean {
+    return !day.ehFolga && !day.ehFeriado && !day.ehFerias && !day.ausencia && !day.compensacao
+        && calculateWorkedMinutes(getDayPunches(day), day.intervaloHoras) === 0;
+}
+
+/**
+ * Folgas trabalhadas com folga compensatória válida, pela data da compensação.
+ *
+ * @param days - Dias do mês
+ * @returns Mapa "YYYY-MM-DD" da folga compensatória → data da folga trabalhada
+ *
+ * @example
+ * // Domingo 05/04 trabalhado, vinculado à quarta 08/04 (dia útil sem marcações)
+ * getRestCompensations(days) // Map { "2026-04-08" → 05/04/2026 }
+ *
+ * DECISÃO CONSERVADORA:
+ * - Feriado não é compensado por este vínculo (segue o percentual do feriado)
+ * - Vínculo fora do prazo (mais de 6 dias) ou no próprio dia é ignorado
+ * - A compensação é conferida nos dias informados: data fora deles, dia
+ *   trabalhado, folga, feriado, férias ou ausência não compensam
+ * - Cada data compensa uma única folga: vale o primeiro vínculo do mês e as
+ *   demais folgas vinculadas à mesma data seguem sem compensação
+ */
+export function getRestCompensations(days: DayRecord[]): Map<string, Date> {
+    const porData = new Map(days.map((day) => [toDateKey(day.date), day]));
+    const compensacoes = new Map<string, Date>();
+
+    for (const day of days) {
+        if (!day.ehFolga || day.ehFeriado || !day.folgaCompensatoria) continue;
+
+        const [inicio, fim] = getRestCompensationRange(day.date);
+        const alvo = porData.get(day.folgaCompensatoria);
+        if (day.folgaCompensatoria < inicio || day.folgaCompensatoria > fim || alvo === undefined || alvo === day) continue;
+        if (isRestCompensationTarget(alvo) && !compensacoes.has(day.folgaCompensatoria)) {
+            compensacoes.set(day.folgaCompensatoria, day.date);
+        }
+    }
+    return compensacoes;
+}
+
+/**
+ * Verifica se uma folga trabalhada tem folga compensatória válida vinculada.
+ *
+ * @param day - Dia a verificar
+ * @param compensacoes - Compensações válidas do mês (ver getRestCompensations)
+ *
+ * @example
+ * // Domingo 05/04 trabalhado, compensado na quarta 08/04
+ * isRestDayCompensated(domingo, getRestCompensations(days)) // true
+ */
+export function isRestDayCompensated(day: DayRecord, compensacoes: Map<string, Date>): boolean {
+    return day.folgaCompensatoria !== undefined
+        && compensacoes.get(day.folgaCompensatoria)?.getTime() === day.date.getTime();
+}
+
+/**
+ * Motivo pelo qual o vínculo de folga compensatória de um dia não foi aceito.
+ *
+ * @param day - Folga trabalhada com vínculo
+ * @param days - Dias do mês
+ * @param compensacoes - Compensações válidas do mês (ver getRestCompensations)
+ * @returns Motivo, ou null sem vínculo (ou com vínculo válido)
+ *
+ * @example
+ * // Domingos 05/04 e 12/04 vinculados à mesma quarta 08/04
+ * getRestCompensationIssue(domingo12, days, compensacoes) // "08/04 já compensa a folga de 05/04"
+ */
+export function getRestCompensationIssue(
+    day: DayRecord,
+    days: DayRecord[],
+    compensacoes: Map<string, Date>
+): string | null {
+    if (!day.ehFolga || day.ehFeriado || !day.folgaCompensatoria || isRestDayCompensated(day, compensacoes)) return null;
+
+    const formatKey = (key: string) => key.split('-').reverse().slice(0, 2).join('/');
+    const data = formatKey(day.folgaCompensatoria);
+    const outra = compensacoes.get(day.folgaCompensatoria);
+    if (outra) return `${data} já compensa a folga de ${formatKey(toDateKey(outra))}`;
+
+    const [inicio, fim] = getRestCompensationRange(day.date);
+    if (day.folgaCompensatoria < inicio || day.folgaCompensatoria > fim || day.folgaCompensatoria === toDateKey(day.date)) {
+        return `${data} fora do prazo de ${REST_COMPENSATION_MAX_DAYS} dias`;
+    }
+    if (!days.some((d) => toDateKey(d.date) === day.folgaCompensatoria)) return `${data} fora do mês`;
+    return `${data} não é dia útil livre (trabalhado, folga, feriado, férias ou ausência)`;
+}
+
+/**
+ * Distribui minutos extras de um dia de trabalho pelas faixas.
+ *
+ * @param minutos - Minutos extras a distribuir
+ * @param jaFeitos - Minutos extras do dia já distribuídos antes destes
+ * @param faixas - Faixas em ordem crescente de limite
+ * @returns Pares [percentual, minutos]
+ *
+ * @example
+ * // Faixas: até 2h a 60%, depois 100%; já houve 1h50 de extras no dia
+ * splitOvertimeTiers(20, 110, [{ ateHoras: 2, percentual: 60 }, { ateHoras: null, percentual: 100 }])
+ * // [[60, 10], [100, 10]]
+ *
+ * DECISÃO CONSERVADORA:
+ * - Sem faixas, usa o adicional mínimo de 50%
+ * - Minutos além da última faixa seguem o percentual da última
+ */
+export function splitOvertimeTiers(minutos: number, jaFeitos: number, faixas: OvertimeTier[]): [number, number][] {
+    const partes: [number, number][] = [];
+    let restante = minutos;
+    let feitos = jaFeitos;
+
+    for (const faixa of faixas) {
+        if (restante <= 0) break;
+        const limite = faixa.ateHoras === null ? Infinity : faixa.ateHoras * 60;
+        const usado = Math.min(restante, Math.max(0, limite - feitos));
+        if (usado > 0) {
+            partes.push([faixa.percentual, usado]);
+            restante -= usado;
+            feitos += usado;
+        }
+    }
+
+    if (restante > 0) {
+        partes.push([faixas.length > 0 ? faixas[faixas.length - 1].percentual : CLT_OVERTIME_PERCENT, restante]);
+    }
+    return partes;
+}
+
+/**
+ * Percentual das horas reclassificadas pelo limite semanal (o da primeira faixa).
+ */
+export function getWeeklyExcessPercent(regras: OvertimeRules): number {
+    return regras.faixas[0]?.percentual ?? CLT_OVERTIME_PERCENT;
+}
+
+/**
+ * Soma horas extras por percentual (arredondadas em 2 casas; percentuais zerados saem).
+ *
+ * @example
+ * addOvertimeHours({ '50': 2 }, { '50': 1, '100': 3 }) // { '50': 3, '100': 3 }
+ */
+export function addOvertimeHours(...parcelas: OvertimeHours[]): OvertimeHours {
+    const total: OvertimeHours = {};
+    for (const parcela of parcelas) {
+        for (const [percentual, horas] of Object.entries(parcela)) {
+            total[percentual] = (total[percentual] ?? 0) + horas;
+        }
+    }
+    return roundOvertimeHours(total);
+}
+
+/**
+ * Multiplica horas extras por um fator (ex.: média = soma × 1/n).
+ */
+export function scaleOvertimeHours(horas: OvertimeHours, fator: number): OvertimeHours {
+    const resultado: OvertimeHours = {};
+    for (const [percentual, valor] of Object.entries(horas)) {
+        resultado[percentual] = valor * fator;
+    }
+    return roundOvertimeHours(resultado);
+}
+
+/**
+ * Arredonda as horas de cada percentual em 2 casas e remove os zerados.
+ */
+export function roundOvertimeHours(horas: OvertimeHours): OvertimeHours {
+    const resultado: OvertimeHours = {};
+    for (const [percentual, valor] of Object.entries(horas)) {
+        const arredondado = Math.round(valor * 100) / 100;
+        if (arredondado !== 0) resultado[percentual] = arredondado;
+    }
+    return resultado;
+}
+
+/**
+ * Total de horas extras (todos os percentuais).
+ */
+export function sumOvertimeHours(horas: OvertimeHours): number {
+    return Math.round(Object.values(horas).reduce((sum, valor) => sum + valor, 0) * 100) / 100;
+}
+
+/**
+ * Percentuais presentes, em ordem crescente.
+ *
+ * @example
+ * getOvertimePercents({ '100': 1, '50': 2 }) // [50, 100]
+ */
+export function getOvertimePercents(horas: OvertimeHours): number[] {
+    return Object.keys(horas)
+        .filter((percentual) => horas[percentual] > 0)
+        .map(Number)
+        .sort((a, b) => a - b);
+}
+
+/**
+ * Horas de um percentual (0 se ausente).
+ */
+export function getOvertimeHoursAt(horas: OvertimeHours, percentual: number): number {
+    return horas[String(percentual)] ?? 0;
+}
+
+/**
+ * Valor das horas extras em reais: horas × valor hora × (1 + percentual).
+ *
+ * @example
+ * calculateOvertimeValue({ '50': 10, '100': 2 }, 10) // 190 (150 + 40)
+ */
+export function calculateOvertimeValue(horas: OvertimeHours, valorHora: number): number {
+    return Object.entries(horas)
+        .reduce((sum, [percentual, valor]) => sum + valor * valorHora * (1 + Number(percentual) / 100), 0);
+}
+
+/**
+ * Descreve as horas extras em texto (ex.: "10h a 50% · 2h a 100%"; vazio sem extras).
+ */
+export function describeOvertimeHours(horas: OvertimeHours): string {
+    return getOvertimePercents(horas)
+        .map((percentual) => `${String(getOvertimeHoursAt(horas, percentual)).replace('.', ',')}h a ${percentual}%`)
+        .join(' · ');
+}
+
+/**
+ * Descreve as regras em texto (ex.: "até 2h: 60%, depois 100% · folga 100% · feriado 100%").
+ */
+export function describeOvertimeRules(regras: OvertimeRules): string {
+    const faixas = regras.faixas.map((faixa, i) => faixa.ateHoras === null
+        ? `${i > 0 ? 'depois ' : ''}${faixa.percentual}%`
+        : `até ${String(faixa.ateHoras).replace('.', ',')}h: ${faixa.percentual}%`);
+    const dias = WEEKDAYS_BY_INDEX
+        .filter((dia) => regras.diasSemana[dia] !== undefined)
+        .map((dia) => `${dia} ${regras.diasSemana[dia]}%`);
+
+    const folga = regras.folgaEmDobro
+        ? `folga ${Math.max(DOUBLE_PAY_PERCENT, regras.folga)}% sem compensação (Súmula 146)`
+        : `folga ${regras.folga}%`;
+
+    return [faixas.join(', '), ...dias, folga, `feriado ${regras.feriado}%`].join(' · ');
+}
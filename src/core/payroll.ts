@@ -4,12 +4,13 @@
  * Converte resultados de horas trabalhadas em valores monetários.
  * 
  * REGRAS DE NEGÓCIO CRÍTICAS:
- * - Valor hora = salário mensal ÷ 220 horas (padrão CLT 44h semanais)
- * - Hora extra 50% = valor hora × 1.5
- * - Hora extra 100% = valor hora × 2.0
+ * - Valor hora = salário mensal ÷ divisor (padrão 220 para 44h semanais; ver Settings.cargaHoraria)
+ * - Hora extra de p% = valor hora × (1 + p); percentuais configuráveis (ver overtime.ts)
+ * - Adicional noturno = horas equivalentes do adicional × valor hora
  * - DSR calculado sobre horas extras
  * - INSS pode ser calculado automaticamente ou fornecido manualmente
- * - Valor líquido = bruto - INSS
+ * - IRRF calculado após o INSS (ver irrf.ts)
+ * - Valor líquido = bruto - INSS - IRRF
  * 
  * CRITÉRIOS DE DESENVOLVIMENTO:
  * - Funções puras (sem estado global)
@@ -18,31 +19,40 @@
  * - Transparência total nos cálculos
  */
 
-import type { DailyHoursResult, MonthlySummary } from './types';
+import type { DailyHoursResult, IRRFSettings, MonthlySummary, OvertimeHours } from './types';
+import { calculateIRRF } from './irrf';
+import { calculateOvertimeValue, getOvertimePercents, getOvertimeHoursAt } from './overtime';
+import { CLT_MONTHLY_DIVISOR } from './schedule';
+
+/**
+ * Alíquota do depósito mensal de FGTS (encargo do empregador, Lei 8.036/90 art. 15).
+ */
+export const FGTS_RATE = 0.08;
 
 /**
  * Calcula o valor de uma hora normal de trabalho.
  * 
  * FÓRMULA:
- * Valor hora = salário mensal ÷ 220 horas
+ * Valor hora = salário mensal ÷ divisor
  * 
  * JUSTIFICATIVA:
  * - CLT: 44 horas semanais × 5 semanas (aprox.) = 220 horas mensais
- * - Esta é a divisão padrão para cálculo de hora trabalhada
+ * - Contratos de 40h, 36h e 30h usam 200, 180 e 150 (ou o divisor da CCT)
  * 
  * @param salarioMensal - Salário mensal bruto em reais
+ * @param divisor - Divisor mensal (padrão 220, ver Settings.cargaHoraria)
  * @returns Valor de uma hora normal em reais
  * 
  * @example
  * calculateHourlyValue(2200.00) // 10.00
  * calculateHourlyValue(3300.00) // 15.00
+ * calculateHourlyValue(2000.00, 200) // 10.00
  * 
  * DECISÃO CONSERVADORA:
- * - Usa divisor fixo de 220h (padrão CLT)
  * - Arredonda para 2 casas decimais (centavos)
  */
-export function calculateHourlyValue(salarioMensal: number): number {
-    const valorHora = salarioMensal / 220;
+export function calculateHourlyValue(salarioMensal: number, divisor: number = CLT_MONTHLY_DIVISOR): number {
+    const valorHora = salarioMensal / divisor;
     return Math.round(valorHora * 100) / 100;
 }
 
@@ -51,17 +61,20 @@ export function calculateHourlyValue(salarioMensal: number): number {
  * 
  * CÁLCULOS:
  * - Valor normal = horas normais × valor hora
- * - Valor extra 50% = horas extra 50% × (valor hora × 1.5)
- * - Valor extra 100% = horas extra 100% × (valor hora × 2.0)
+ * - Valor extra de p% = horas a p% × (valor hora × (1 + p))
+ * - Valor adicional noturno = adicionalNoturnoHoras × valor hora
  * 
- * @param dailyResult - Resultado de horas do dia (normal, 50%, 100%)
+ * @param dailyResult - Resultado de horas do dia (normal, extras por percentual, noturnas)
  * @param valorHora - Valor de uma hora normal em reais
  * @returns Objeto com valores monetários do dia
  * 
  * @example
- * const result = { horasNormais: 8, horasExtra50: 2, horasExtra100: 0 };
+ * const result = {
+ *   horasNormais: 8, horasExtras: { '50': 2 },
+ *   horasNoturnas: 0, horasNoturnasExtra: 0, adicionalNoturnoHoras: 0,
+ * };
  * calculatePayrollForDay(result, 10.00)
- * // { valorNormal: 80.00, valorExtra50: 30.00, valorExtra100: 0.00 }
+ * // { valorNormal: 80.00, valoresExtras: { '50': 30.00 }, valorExtras: 30.00, valorAdicionalNoturno: 0.00 }
  * 
  * DECISÃO CONSERVADORA:
  * - Todos os valores arredondados para 2 casas decimais
@@ -72,57 +85,107 @@ export function calculatePayrollForDay(
     valorHora: number
 ): {
     valorNormal: number;
-    valorExtra50: number;
-    valorExtra100: number;
+    valoresExtras: Record<string, number>;
+    valorExtras: number;
+    valorAdicionalNoturno: number;
 } {
-    // Valor hora extra 50% = valor hora × 1.5
-    const valorHoraExtra50 = valorHora * 1.5;
-
-    // Valor hora extra 100% = valor hora × 2.0
-    const valorHoraExtra100 = valorHora * 2.0;
-
     // Calcula valores monetários
     const valorNormal = dailyResult.horasNormais * valorHora;
-    const valorExtra50 = dailyResult.horasExtra50 * valorHoraExtra50;
-    const valorExtra100 = dailyResult.horasExtra100 * valorHoraExtra100;
+    const { valores, total } = calculateOvertimeBreakdown(dailyResult.horasExtras, valorHora);
+
+    // Adicional noturno já vem em horas equivalentes (inclui incidência sobre extras)
+    const valorAdicionalNoturno = dailyResult.adicionalNoturnoHoras * valorHora;
 
     return {
         valorNormal: Math.round(valorNormal * 100) / 100,
-        valorExtra50: Math.round(valorExtra50 * 100) / 100,
-        valorExtra100: Math.round(valorExtra100 * 100) / 100,
+        valoresExtras: valores,
+        valorExtras: total,
+        valorAdicionalNoturno: Math.round(valorAdicionalNoturno * 100) / 100,
     };
 }
 
+/**
+ * Calcula o salário base do mês descontando os dias de férias.
+ *
+ * FÓRMULA:
+ * Salário base = salário mensal ÷ 30 × (30 - dias de férias)
+ *
+ * @param salarioMensal - Salário mensal em reais
+ * @param diasFerias - Dias de férias no mês
+ * @param diasNoMes - Dias do mês (28 a 31)
+ * @returns Salário base proporcional (0 se o mês inteiro for de férias)
+ *
+ * @example
+ * calculateBaseSalary(3000, 10, 31) // 2000.00
+ * calculateBaseSalary(3000, 28, 28) // 0 (fevereiro inteiro de férias)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Mês comercial de 30 dias, como no cálculo das férias
+ */
+export function calculateBaseSalary(salarioMensal: number, diasFerias: number, diasNoMes: number): number {
+    if (diasFerias <= 0) return salarioMensal;
+    if (diasFerias >= diasNoMes) return 0;
+    return Math.max(0, salarioMensal / 30 * (30 - diasFerias));
+}
+
 /**
  * Calcula a folha de pagamento mensal completa.
  * 
  * COMPOSIÇÃO DO SALÁRIO BRUTO:
- * - Salário base mensal
- * - + Valor das horas extras 50%
- * - + Valor das horas extras 100%
+ * - Salário base mensal (proporcional aos dias fora de férias)
+ * - + Valor das horas extras (cada percentual com o seu adicional)
+ * - + Adicional noturno (já calculado no MonthlySummary)
  * - + DSR (já calculado no MonthlySummary)
+ * - + Férias + 1/3 e abono pecuniário (já calculados no MonthlySummary)
+ * - - Faltas injustificadas, repouso perdido e atrasos (já calculados no MonthlySummary)
+ * - Intermitente: horas normais pelo salário-hora, mais férias + 1/3 e 13º das
+ *   convocações (já calculados no MonthlySummary)
  * 
  * COMPOSIÇÃO DO SALÁRIO LÍQUIDO:
  * - Salário bruto
  * - - Desconto INSS
+ * - - Desconto IRRF (recalculado se o INSS for informado manualmente)
  * 
  * @param monthSummary - Resumo mensal com totais de horas e valores
  * @param salarioMensal - Salário mensal base em reais
  * @param descontoINSS - Desconto INSS (opcional, usa o do summary se não fornecido)
- * @returns Objeto com valores bruto, INSS e líquido
+ * @param irrf - Dependentes/desconto simplificado (necessário para recalcular o IRRF com INSS manual)
+ * @param divisor - Divisor mensal do salário-hora (padrão 220)
+ * @returns Objeto com adicional noturno, valores bruto, INSS, IRRF e líquido
  * 
  * @example
  * const summary = {
  *   horasNormais: 176,
- *   horasExtra50: 10,
- *   horasExtra100: 2,
- *   dsrTotal: 50.00,
- *   valorBruto: 2450.00,
+ *   horasExtras: { '50': 10, '100': 2 },
+ *   horasNoturnas: 0,
+ *   adicionalNoturno: 0,
+ *   dsrTotal: 36.54,
+ *   dsr: { metodo: 'legal', base: 190.00, diasUteis: 26, diasRepouso: 5 },
+ *   valorHora: 10.00,
+ *   salarioBase: 2200.00,
+ *   diasFerias: 0,
+ *   valorFerias: 0,
+ *   valorAbonoFerias: 0,
+ *   diasFaltas: 0,
+ *   diasAusenciasJustificadas: 0,
+ *   minutosAtraso: 0,
+ *   descontoFaltas: 0,
+ *   descontoDSRFaltas: 0,
+ *   descontoAtrasos: 0,
+ *   bancoHoras: null,
+ *   convocacoes: null,
+ *   valorVerbasConvocacoes: 0,
+ *   valorBruto: 2426.54,
  *   descontoINSS: 200.00,
- *   valorLiquido: 2250.00
+ *   descontoIRRF: 0.00,
+ *   valorLiquido: 2226.54,
+ *   baseFGTS: 2426.54,
+ *   depositoFGTS: 194.12,
+ *   semanas: [],
+ *   tabelas: getTaxTables(2026, 0)
  * };
  * calculateMonthlyPayroll(summary, 2200.00)
- * // { bruto: 2450.00, inss: 200.00, liquido: 2250.00 }
+ * // { adicionalNoturno: 0.00, bruto: 2426.54, inss: 200.00, irrf: 0.00, liquido: 2226.54 }
  * 
  * DECISÃO CONSERVADORA:
  * - Usa valores já calculados no MonthlySummary
@@ -140,36 +203,51 @@ export function calculatePayrollForDay(
 export function calculateMonthlyPayroll(
     monthSummary: MonthlySummary,
     salarioMensal: number,
-    descontoINSS?: number
+    descontoINSS?: number,
+    irrf?: IRRFSettings,
+    divisor: number = CLT_MONTHLY_DIVISOR
 ): {
+    adicionalNoturno: number;
     bruto: number;
     inss: number;
+    irrf: number;
     liquido: number;
 } {
-    // Valor hora (para referência/auditoria)
-    const valorHora = calculateHourlyValue(salarioMensal);
-    const valorHoraExtra50 = valorHora * 1.5;
-    const valorHoraExtra100 = valorHora * 2.0;
+    // Valor hora (para referência/auditoria); no intermitente, o salário-hora do contrato
+    const intermitente = monthSummary.convocacoes !== null;
+    const valorHora = intermitente ? monthSummary.valorHora : calculateHourlyValue(salarioMensal, divisor);
 
     // Calcula valores das horas extras
-    const valorHorasExtras50 = monthSummary.horasExtra50 * valorHoraExtra50;
-    const valorHorasExtras100 = monthSummary.horasExtra100 * valorHoraExtra100;
+    const valorHorasExtras = calculateOvertimeValue(monthSummary.horasExtras, valorHora);
 
-    // VALOR BRUTO = salário base + horas extras + DSR
-    // Nota: DSR já vem calculado no MonthlySummary
-    const valorBruto = salarioMensal + valorHorasExtras50 + valorHorasExtras100 + monthSummary.dsrTotal;
+    // VALOR BRUTO = salário base + horas extras + adicional noturno + DSR
+    // Nota: adicional noturno e DSR já vêm calculados no MonthlySummary
+    // Com férias no mês (ou no intermitente), o salário base já vem do MonthlySummary
+    const salarioBase = intermitente || monthSummary.diasFerias > 0 ? monthSummary.salarioBase : salarioMensal;
+    const valorBruto = salarioBase + valorHorasExtras
+        + monthSummary.adicionalNoturno + monthSummary.dsrTotal
+        + monthSummary.valorFerias + monthSummary.valorAbonoFerias + monthSummary.valorVerbasConvocacoes
+        - monthSummary.descontoFaltas - monthSummary.descontoDSRFaltas - monthSummary.descontoAtrasos;
 
     // DESCONTO INSS
     // Se fornecido manualmente, usa o valor fornecido
     // Caso contrário, usa o calculado no MonthlySummary
     const inss = descontoINSS !== undefined ? descontoINSS : monthSummary.descontoINSS;
 
-    // VALOR LÍQUIDO = bruto - INSS
-    const valorLiquido = valorBruto - inss;
+    // DESCONTO IRRF
+    // Depende do INSS: com INSS manual (e configuração informada), recalcula
+    const descontoIRRF = descontoINSS !== undefined && irrf
+        ? calculateIRRF(valorBruto - monthSummary.valorAbonoFerias, inss, irrf, monthSummary.tabelas.irrf)
+        : monthSummary.descontoIRRF;
+
+    // VALOR LÍQUIDO = bruto - INSS - IRRF
+    const valorLiquido = valorBruto - inss - descontoIRRF;
 
     return {
+        adicionalNoturno: Math.round(monthSummary.adicionalNoturno * 100) / 100,
         bruto: Math.round(valorBruto * 100) / 100,
         inss: Math.round(inss * 100) / 100,
+        irrf: Math.round(descontoIRRF * 100) / 100,
         liquido: Math.round(valorLiquido * 100) / 100,
     };
 }
@@ -179,17 +257,15 @@ export function calculateMonthlyPayroll(
  * 
  * Função auxiliar para exibir breakdown detalhado na UI.
  * 
- * @param horasExtra50 - Total de horas extras 50% no mês
- * @param horasExtra100 - Total de horas extras 100% no mês
+ * @param horasExtras - Horas extras do mês por percentual
  * @param valorHora - Valor de uma hora normal
- * @returns Objeto com valores individuais e total
+ * @returns Valor de cada percentual e total
  * 
  * @example
- * calculateOvertimeBreakdown(10, 2, 10.00)
+ * calculateOvertimeBreakdown({ '50': 10, '100': 2 }, 10.00)
  * // {
- * //   valorExtra50: 150.00,
- * //   valorExtra100: 40.00,
- * //   totalExtras: 190.00
+ * //   valores: { '50': 150.00, '100': 40.00 },
+ * //   total: 190.00
  * // }
  * 
  * DECISÃO CONSERVADORA:
@@ -197,24 +273,76 @@ export function calculateMonthlyPayroll(
  * - Mantém cálculos transparentes e auditáveis
  */
 export function calculateOvertimeBreakdown(
-    horasExtra50: number,
-    horasExtra100: number,
+    horasExtras: OvertimeHours,
     valorHora: number
 ): {
-    valorExtra50: number;
-    valorExtra100: number;
-    totalExtras: number;
+    valores: Record<string, number>;
+    total: number;
+} {
+    const valores: Record<string, number> = {};
+    for (const percentual of getOvertimePercents(horasExtras)) {
+        const valor = getOvertimeHoursAt(horasExtras, percentual) * valorHora * (1 + percentual / 100);
+        valores[percentual] = Math.round(valor * 100) / 100;
+    }
+
+    return {
+        valores,
+        total: Math.round(calculateOvertimeValue(horasExtras, valorHora) * 100) / 100,
+    };
+}
+
+/**
+ * Calcula a média mensal das verbas variáveis (horas extras, DSR e adicional noturno).
+ * Usada nos reflexos: 13º salário e verbas rescisórias.
+ *
+ * @param summaries - Resumos dos meses considerados
+ * @param salarioMensal - Salário mensal atual (para o valor hora)
+ * @param divisor - Divisor mensal do salário-hora (padrão 220)
+ * @returns Médias mensais em reais (sem arredondamento)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Horas extras pela média física × valor hora atual (Súmula 347 TST)
+ * - DSR e adicional noturno pela média dos valores
+ * - Sem meses informados, as médias são zero
+ */
+export function calculateVariablePayAverages(
+    summaries: Pick<MonthlySummary, 'horasExtras' | 'dsrTotal' | 'adicionalNoturno'>[],
+    salarioMensal: number,
+    divisor: number = CLT_MONTHLY_DIVISOR
+): {
+    mediaHorasExtras: number;
+    mediaDSR: number;
+    mediaAdicionalNoturno: number;
 } {
-    const valorHoraExtra50 = valorHora * 1.5;
-    const valorHoraExtra100 = valorHora * 2.0;
+    if (summaries.length === 0) return { mediaHorasExtras: 0, mediaDSR: 0, mediaAdicionalNoturno: 0 };
 
-    const valorExtra50 = horasExtra50 * valorHoraExtra50;
-    const valorExtra100 = horasExtra100 * valorHoraExtra100;
-    const totalExtras = valorExtra50 + valorExtra100;
+    const valorHora = calculateHourlyValue(salarioMensal, divisor);
+    const media = (value: (summary: (typeof summaries)[number]) => number) =>
+        summaries.reduce((sum, summary) => sum + value(summary), 0) / summaries.length;
 
     return {
-        valorExtra50: Math.round(valorExtra50 * 100) / 100,
-        valorExtra100: Math.round(valorExtra100 * 100) / 100,
-        totalExtras: Math.round(totalExtras * 100) / 100,
+        mediaHorasExtras: media((s) => calculateOvertimeValue(s.horasExtras, valorHora)),
+        mediaDSR: media((s) => s.dsrTotal),
+        mediaAdicionalNoturno: media((s) => s.adicionalNoturno),
+    };
+}
+
+/**
+ * Calcula a base e o depósito de FGTS de um mês.
+ *
+ * FÓRMULA:
+ * - Base = valor bruto - abono pecuniário
+ * - Depósito = base × 8%
+ *
+ * @example
+ * // Bruto R$ 2.450,00 sem abono → base 2450.00, depósito 196.00
+ */
+export function calculateFGTSDeposit(
+    summary: Pick<MonthlySummary, 'valorBruto' | 'valorAbonoFerias'>
+): { baseFGTS: number; depositoFGTS: number } {
+    const baseFGTS = summary.valorBruto - summary.valorAbonoFerias;
+    return {
+        baseFGTS: Math.round(baseFGTS * 100) / 100,
+        depositoFGTS: Math.round(baseFGTS * FGTS_RATE * 100) / 100,
     };
 }
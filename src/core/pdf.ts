@@ -0,0 +1,127 @@
+/**
+ * core/pdf.ts
+ *
+ * Gerador mínimo de PDF (texto e linhas), sem bibliotecas externas.
+ *
+ * REGRAS:
+ * - Páginas A4 retrato; fontes padrão Helvetica e Helvetica-Bold (sem embutir)
+ * - Texto em WinAnsiEncoding: acentos do português são preservados;
+ *   caracteres fora da tabela viram "?"
+ * - Coordenadas em pontos a partir do canto superior esquerdo
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras: recebe as operações de cada página e devolve os bytes do arquivo
+ * - O download fica na UI
+ */
+
+import type { PDFOperation } from './types';
+
+/**
+ * Largura da página A4 em pontos.
+ */
+export const PDF_PAGE_WIDTH = 595;
+
+/**
+ * Altura da página A4 em pontos.
+ */
+export const PDF_PAGE_HEIGHT = 842;
+
+/**
+ * Caracteres Unicode da faixa 0x80–0x9F do WinAnsiEncoding.
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+    '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87,
+    'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91,
+    '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98,
+    '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+/**
+ * Converte um texto em string literal PDF: bytes WinAnsi com ( ) \ escapados.
+ */
+function encodeText(texto: string): string {
+    let out = '';
+    for (const char of texto) {
+        const code = char.charCodeAt(0);
+        const byte = WIN_ANSI_EXTRAS[char] ?? (code < 0x80 || (code >= 0xa0 && code <= 0xff) ? code : 0x3f);
+        const encoded = String.fromCharCode(byte);
+        out += encoded === '(' || encoded === ')' || encoded === '\\' ? `\\${encoded}` : encoded;
+    }
+    return `(${out})`;
+}
+
+/**
+ * Formata uma coordenada com no máximo 2 casas.
+ */
+function num(value: number): string {
+    return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Monta o conteúdo (content stream) de uma página.
+ */
+function renderPage(operacoes: PDFOperation[]): string {
+    return operacoes.map((op) => {
+        if (op.tipo === 'linha') {
+            return `0.5 w ${num(op.x1)} ${num(PDF_PAGE_HEIGHT - op.y1)} m ${num(op.x2)} ${num(PDF_PAGE_HEIGHT - op.y2)} l S`;
+        }
+        const fonte = op.negrito ? '/F2' : '/F1';
+        return `BT ${fonte} ${num(op.tamanho)} Tf ${num(op.x)} ${num(PDF_PAGE_HEIGHT - op.y)} Td ${encodeText(op.texto)} Tj ET`;
+    }).join('\n');
+}
+
+/**
+ * Gera um arquivo PDF.
+ *
+ * LÓGICA:
+ * 1. Objetos fixos: catálogo (1), árvore de páginas (2), fontes (3 e 4)
+ * 2. Cada página: objeto da página + objeto de conteúdo
+ * 3. Tabela xref com a posição de cada objeto e trailer
+ *
+ * @param paginas - Operações de cada página, em ordem
+ * @returns Bytes do arquivo (application/pdf)
+ *
+ * @example
+ * createPDF([[{ tipo: 'texto', x: 40, y: 60, texto: 'Espelho de ponto', tamanho: 14, negrito: true }]])
+ *
+ * DECISÃO CONSERVADORA:
+ * - Sem compressão dos conteúdos (arquivo maior, mas legível e auditável)
+ * - Lista de páginas vazia gera uma página em branco (PDF sempre válido)
+ */
+export function createPDF(paginas: PDFOperation[][]): Uint8Array<ArrayBuffer> {
+    const lista = paginas.length > 0 ? paginas : [[]];
+    const objetos: string[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${lista.map((_, i) => `${5 + i * 2} 0 R`).join(' ')}] /Count ${lista.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+
+    lista.forEach((operacoes, i) => {
+        const conteudo = renderPage(operacoes);
+        objetos.push(
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] `
+            + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`,
+            `<< /Length ${conteudo.length} >>\nstream\n${conteudo}\nendstream`
+        );
+    });
+
+    // Cada caractere da string é um byte (WinAnsi), então o tamanho é o offset
+    let arquivo = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objetos.forEach((objeto, i) => {
+        offsets.push(arquivo.length);
+        arquivo += `${i + 1} 0 obj\n${objeto}\nendobj\n`;
+    });
+
+    const xref = arquivo.length;
+    arquivo += `xref\n0 ${objetos.length + 1}\n0000000000 65535 f \n`;
+    arquivo += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    arquivo += `trailer\n<< /Size ${objetos.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(arquivo.length);
+    for (let i = 0; i < arquivo.length; i++) {
+        bytes[i] = arquivo.charCodeAt(i);
+    }
+    return bytes;
+}
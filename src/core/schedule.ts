@@ -0,0 +1,215 @@
+/**
+ * core/schedule.ts
+ *
+ * Modelo de escalas de trabalho baseado em ciclos trabalho/folga.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Toda escala é um ciclo de N dias, ancorado em uma data
+ * - 6x1 e 5x2 são ciclos de 7 dias alinhados ao dia de folga escolhido
+ * - 4x2 é um ciclo de 6 dias (a folga muda de dia da semana a cada ciclo)
+ * - 12x36 é um ciclo de 2 dias com jornada de 12h (art. 59-A CLT)
+ * - Jornada diária padrão = carga semanal (padrão 44h) ÷ média de dias trabalhados por semana
+ * - Divisor do salário-hora = carga semanal × 5 (44h → 220), salvo divisor de CCT
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Não acessa Date.now()
+ */
+
+import type { ContractHours, ScaleType, WeekDay, WorkScale } from './types';
+import { parseDateKey, toDateKey } from './time';
+
+/**
+ * Carga horária semanal padrão da CLT (art. 7º, XIII, CF/88).
+ */
+export const CLT_WEEKLY_HOURS = 44;
+
+/**
+ * Divisor mensal do salário-hora da CLT (44h × 5 semanas).
+ */
+export const CLT_MONTHLY_DIVISOR = 220;
+
+/**
+ * Divisores usuais: 44h, 40h, 36h e 30h semanais.
+ */
+export const MONTHLY_DIVISOR_OPTIONS = [220, 200, 180, 150];
+
+/**
+ * Carga horária padrão: 44h semanais, divisor 220.
+ */
+export const DEFAULT_CONTRACT_HOURS: ContractHours = {
+    horasSemanais: CLT_WEEKLY_HOURS,
+    divisor: CLT_MONTHLY_DIVISOR,
+};
+
+/**
+ * Divisor correspondente a uma carga semanal (horas semanais × 5).
+ *
+ * @example
+ * getStandardDivisor(44) // 220
+ * getStandardDivisor(40) // 200
+ */
+export function getStandardDivisor(horasSemanais: number): number {
+    return Math.round(horasSemanais * 5 * 100) / 100;
+}
+
+/**
+ * Mapeia nome do dia da semana para número (0 = Domingo, 6 = Sábado).
+ */
+export const WEEKDAY_INDEX: Record<WeekDay, number> = {
+    'domingo': 0,
+    'segunda': 1,
+    'terca': 2,
+    'quarta': 3,
+    'quinta': 4,
+    'sexta': 5,
+    'sabado': 6,
+};
+
+/**
+ * Definição das escalas pré-configuradas.
+ * - padrao: ciclo começando pelos dias de trabalho
+ * - jornadaDiariaHoras: jornada fixa (quando a lei define uma)
+ */
+export const SCALE_PRESETS: Record<Exclude<ScaleType, 'personalizada'>, {
+    label: string;
+    padrao: boolean[];
+    jornadaDiariaHoras?: number;
+}> = {
+    '6x1': { label: '6x1', padrao: [true, true, true, true, true, true, false] },
+    '5x2': { label: '5x2', padrao: [true, true, true, true, true, false, false] },
+    '4x2': { label: '4x2', padrao: [true, true, true, true, false, false] },
+    '12x36': { label: '12x36', padrao: [true, false], jornadaDiariaHoras: 12 },
+};
+
+/**
+ * Indica se o tipo de escala é semanal (ciclo de 7 dias preso ao dia de folga).
+ */
+export function isWeeklyScale(tipo: ScaleType): boolean {
+    return tipo === '6x1' || tipo === '5x2';
+}
+
+/**
+ * Calcula a diferença em dias corridos entre duas datas (b - a).
+ *
+ * DECISÃO CONSERVADORA:
+ * - Usa Date.UTC para ignorar horário de verão e horas do dia
+ */
+export function daysBetween(a: Date, b: Date): number {
+    const utcA = Date.UTC(a.getFullYear(), a.getMonth(), a.getDate());
+    const utcB = Date.UTC(b.getFullYear(), b.getMonth(), b.getDate());
+    return Math.round((utcB - utcA) / 86400000);
+}
+
+/**
+ * Calcula a data-âncora de uma escala semanal para que a última folga
+ * do ciclo caia no dia da semana escolhido.
+ *
+ * @example
+ * // folga no domingo → ciclo começa na segunda-feira
+ * weeklyAnchor('domingo') // "2024-01-01" (uma segunda-feira)
+ */
+export function weeklyAnchor(folga: WeekDay): string {
+    // 01/01/2024 é uma segunda-feira: somando o índice da folga,
+    // chegamos ao dia seguinte à folga (início do ciclo)
+    return toDateKey(new Date(2024, 0, 1 + WEEKDAY_INDEX[folga]));
+}
+
+/**
+ * Cria uma escala a partir do tipo.
+ *
+ * @param tipo - Tipo de escala
+ * @param folga - Dia de folga (usado por 6x1 e 5x2)
+ * @param dataAncora - Início do ciclo "YYYY-MM-DD" (usado por 4x2, 12x36 e personalizada)
+ * @param padrao - Padrão do ciclo (obrigatório apenas para 'personalizada')
+ * @returns Escala pronta para uso em Settings
+ */
+export function createScale(
+    tipo: ScaleType,
+    folga: WeekDay,
+    dataAncora: string,
+    padrao: boolean[] = [true, true, true, true, true, true, false]
+): WorkScale {
+    if (tipo === 'personalizada') {
+        return { tipo, padrao, dataAncora };
+    }
+
+    const preset = SCALE_PRESETS[tipo];
+    return {
+        tipo,
+        padrao: preset.padrao,
+        dataAncora: isWeeklyScale(tipo) ? weeklyAnchor(folga) : dataAncora,
+        jornadaDiariaHoras: preset.jornadaDiariaHoras,
+    };
+}
+
+/**
+ * Verifica se uma data é dia de trabalho pela escala.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Datas anteriores à âncora também seguem o ciclo (módulo positivo)
+ * - Padrão vazio = nenhum dia de trabalho
+ */
+export function isScheduledWorkDay(date: Date, escala: WorkScale): boolean {
+    const cycle = escala.padrao.length;
+    if (cycle === 0) return false;
+
+    const offset = daysBetween(parseDateKey(escala.dataAncora), date);
+    const index = ((offset % cycle) + cycle) % cycle;
+    return escala.padrao[index];
+}
+
+/**
+ * Calcula a jornada diária padrão (em horas) de uma escala.
+ *
+ * FÓRMULA:
+ * jornada = carga semanal ÷ (dias de trabalho no ciclo × 7 ÷ dias do ciclo)
+ *
+ * @param escala - Escala de trabalho
+ * @param cargaHoraria - Carga horária contratual (padrão: 44h, divisor 220)
+ *
+ * @example
+ * // 44h: 6x1 = 44 ÷ 6 = 7.33h | 5x2 = 44 ÷ 5 = 8.8h | 12x36: 12h (fixo)
+ * // 40h: 5x2 = 40 ÷ 5 = 8h
+ *
+ * DECISÃO CONSERVADORA:
+ * - Jornada explícita (jornadaDiariaHoras) tem precedência
+ * - Ciclo sem dias de trabalho cai para divisor ÷ 30 dias
+ */
+export function getDailyStandardHours(escala: WorkScale, cargaHoraria: ContractHours = DEFAULT_CONTRACT_HOURS): number {
+    if (escala.jornadaDiariaHoras !== undefined) {
+        return escala.jornadaDiariaHoras;
+    }
+
+    const workDays = escala.padrao.filter(Boolean).length;
+    if (workDays === 0) {
+        return cargaHoraria.divisor / 30;
+    }
+
+    const workDaysPerWeek = (workDays * 7) / escala.padrao.length;
+    return cargaHoraria.horasSemanais / workDaysPerWeek;
+}
+
+/**
+ * Converte um padrão em texto ("T" = trabalho, "F" = folga).
+ *
+ * @example
+ * formatPattern([true, true, false]) // "TTF"
+ */
+export function formatPattern(padrao: boolean[]): string {
+    return padrao.map((work) => (work ? 'T' : 'F')).join('');
+}
+
+/**
+ * Converte texto ("T"/"F") em padrão. Outros caracteres são ignorados.
+ *
+ * @example
+ * parsePattern("TTTTTTF") // [true, true, true, true, true, true, false]
+ */
+export function parsePattern(text: string): boolean[] {
+    return text
+        .toUpperCase()
+        .split('')
+        .filter((c) => c === 'T' || c === 'F')
+        .map((c) => c === 'T');
+}
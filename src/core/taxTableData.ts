@@ -0,0 +1,116 @@
+/**
+ * core/taxTableData.ts
+ *
+ * Tabelas embutidas de INSS, IRRF, salário mínimo e salário-família, por vigência.
+ *
+ * REGRAS:
+ * - Apenas dados, sem lógica (a consulta fica em taxTables.ts)
+ * - Cada versão vale a partir da competência indicada (YYYY-MM) até a próxima
+ * - Versões em ordem crescente de vigência
+ *
+ * IMPORTANTE:
+ * Os valores seguem as portarias e leis publicadas, mas podem mudar.
+ * Novas tabelas podem ser cadastradas pelo usuário no SettingsPanel.
+ */
+
+import type { IRRFTable, TaxTableRegistry } from './types';
+
+/**
+ * Tabela do IRRF mensal de 02/2024 a 04/2025 (Lei 14.848/24).
+ */
+export const IRRF_TABLE_2024: IRRFTable = {
+    faixas: [
+        { ate: 2259.20, aliquota: 0, deducao: 0 },
+        { ate: 2826.65, aliquota: 0.075, deducao: 169.44 },
+        { ate: 3751.05, aliquota: 0.15, deducao: 381.44 },
+        { ate: 4664.68, aliquota: 0.225, deducao: 662.77 },
+        { ate: null, aliquota: 0.275, deducao: 896.00 },
+    ],
+    deducaoDependente: 189.59,
+    descontoSimplificado: 564.80,
+};
+
+/**
+ * Tabela do IRRF mensal de 05/2025 a 12/2025 (Lei 15.191/25).
+ */
+export const IRRF_TABLE_2025: IRRFTable = {
+    faixas: [
+        { ate: 2428.80, aliquota: 0, deducao: 0 },
+        { ate: 2826.65, aliquota: 0.075, deducao: 182.16 },
+        { ate: 3751.05, aliquota: 0.15, deducao: 394.16 },
+        { ate: 4664.68, aliquota: 0.225, deducao: 675.49 },
+        { ate: null, aliquota: 0.275, deducao: 908.73 },
+    ],
+    deducaoDependente: 189.59,
+    descontoSimplificado: 607.20,
+};
+
+/**
+ * Tabela do IRRF mensal vigente em 2026 (faixas de 05/2025 + redução da Lei 15.270/25).
+ */
+export const IRRF_TABLE_2026: IRRFTable = {
+    ...IRRF_TABLE_2025,
+    reducao: {
+        limiteIsencao: 5000.00,
+        reducaoMaxima: 312.89,
+        limiteReducao: 7350.00,
+        constante: 978.62,
+        coeficiente: 0.133145,
+    },
+};
+
+/**
+ * Registro das tabelas embutidas.
+ */
+export const BUILTIN_TAX_TABLES: TaxTableRegistry = {
+    inss: [
+        {
+            vigencia: '2024-01',
+            tabela: {
+                faixas: [
+                    { ate: 1412.00, aliquota: 0.075 },
+                    { ate: 2666.68, aliquota: 0.09 },
+                    { ate: 4000.03, aliquota: 0.12 },
+                    { ate: 7786.02, aliquota: 0.14 },
+                ],
+            },
+        },
+        {
+            vigencia: '2025-01',
+            tabela: {
+                faixas: [
+                    { ate: 1518.00, aliquota: 0.075 },
+                    { ate: 2793.88, aliquota: 0.09 },
+                    { ate: 4190.83, aliquota: 0.12 },
+                    { ate: 8157.41, aliquota: 0.14 },
+                ],
+            },
+        },
+        {
+            vigencia: '2026-01',
+            tabela: {
+                faixas: [
+                    { ate: 1621.00, aliquota: 0.075 },
+                    { ate: 2902.84, aliquota: 0.09 },
+                    { ate: 4354.27, aliquota: 0.12 },
+                    { ate: 8475.55, aliquota: 0.14 },
+                ],
+            },
+        },
+    ],
+    irrf: [
+        { vigencia: '2024-02', tabela: IRRF_TABLE_2024 },
+        { vigencia: '2025-05', tabela: IRRF_TABLE_2025 },
+        { vigencia: '2026-01', tabela: IRRF_TABLE_2026 },
+    ],
+    salarioMinimo: [
+        { vigencia: '2024-01', tabela: 1412.00 },
+        { vigencia: '2025-01', tabela: 1518.00 },
+        { vigencia: '2026-01', tabela: 1621.00 },
+    ],
+    salarioFamilia: [
+        { vigencia: '2024-01', tabela: { limiteRemuneracao: 1819.26, valorPorFilho: 62.04 } },
+        { vigencia: '2025-01', tabela: { limiteRemuneracao: 1906.04, valorPorFilho: 65.00 } },
+        { vigencia: '2026-01', tabela: { limiteRemuneracao: 1980.38, valorPorFilho: 67.54 } },
+    ],
+};
@@ -0,0 +1,190 @@
+/**
+ * core/taxTables.ts
+ *
+ * Consulta das tabelas versionadas (INSS, IRRF, salário mínimo, salário-família).
+ *
+ * REGRAS:
+ * - Cada competência usa as tabelas em vigor naquele mês (maior vigência <= competência)
+ * - Tabelas do usuário somam-se às embutidas; na mesma vigência, a do usuário prevalece
+ * - Meses fechados guardam as tabelas usadas (ver storage/repository.ts) e não
+ *   passam por esta consulta
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Os dados embutidos ficam em taxTableData.ts
+ */
+
+import type {
+    INSSBracket,
+    IRRFBracket,
+    TableVersion,
+    TaxTableRegistry,
+    TaxTables,
+} from './types';
+import { BUILTIN_TAX_TABLES } from './taxTableData';
+import { toMonthKey } from './time';
+
+/**
+ * Registro vazio (nenhuma tabela do usuário).
+ */
+export const EMPTY_TAX_TABLE_REGISTRY: TaxTableRegistry = {
+    inss: [],
+    irrf: [],
+    salarioMinimo: [],
+    salarioFamilia: [],
+};
+
+/**
+ * Lista as versões de uma tabela (embutidas + usuário), em ordem de vigência.
+ *
+ * @param kind - Tipo de tabela ('inss', 'irrf', 'salarioMinimo', 'salarioFamilia')
+ * @param custom - Tabelas do usuário
+ */
+export function listTableVersions<K extends keyof TaxTableRegistry>(
+    kind: K,
+    custom: TaxTableRegistry = EMPTY_TAX_TABLE_REGISTRY
+): TaxTableRegistry[K] {
+    const byVigencia = new Map<string, TaxTableRegistry[K][number]>();
+    for (const version of BUILTIN_TAX_TABLES[kind]) byVigencia.set(version.vigencia, version);
+    for (const version of custom[kind] ?? []) byVigencia.set(version.vigencia, version);
+
+    return [...byVigencia.values()].sort((a, b) => a.vigencia.localeCompare(b.vigencia)) as TaxTableRegistry[K];
+}
+
+/**
+ * Escolhe a versão em vigor em uma competência.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Competência anterior à primeira tabela usa a mais antiga disponível
+ */
+function resolveVersion<T>(versions: TableVersion<T>[], competencia: string): TableVersion<T> {
+    let current = versions[0];
+    for (const version of versions) {
+        if (version.vigencia <= competencia) current = version;
+    }
+    return current;
+}
+
+/**
+ * Retorna as tabelas em vigor em uma competência.
+ *
+ * @param year - Ano (ex: 2026)
+ * @param month - Mês (0-11)
+ * @param custom - Tabelas do usuário (Settings.tabelas)
+ *
+ * @example
+ * getTaxTables(2025, 3).salarioMinimo // 1518.00
+ * getTaxTables(2026, 0).inss.faixas[0].ate // 1621.00
+ */
+export function getTaxTables(
+    year: number,
+    month: number,
+    custom: TaxTableRegistry = EMPTY_TAX_TABLE_REGISTRY
+): TaxTables {
+    const competencia = toMonthKey(year, month);
+    const inss = resolveVersion(listTableVersions('inss', custom), competencia);
+    const irrf = resolveVersion(listTableVersions('irrf', custom), competencia);
+    const salarioMinimo = resolveVersion(listTableVersions('salarioMinimo', custom), competencia);
+    const salarioFamilia = resolveVersion(listTableVersions('salarioFamilia', custom), competencia);
+
+    return {
+        competencia,
+        inss: inss.tabela,
+        irrf: irrf.tabela,
+        salarioMinimo: salarioMinimo.tabela,
+        salarioFamilia: salarioFamilia.tabela,
+        vigencias: {
+            inss: inss.vigencia,
+            irrf: irrf.vigencia,
+            salarioMinimo: salarioMinimo.vigencia,
+            salarioFamilia: salarioFamilia.vigencia,
+        },
+    };
+}
+
+/**
+ * Adiciona (ou substitui, na mesma vigência) uma tabela do usuário.
+ */
+export function addTableVersion<K extends keyof TaxTableRegistry>(
+    registry: TaxTableRegistry,
+    kind: K,
+    version: TaxTableRegistry[K][number]
+): TaxTableRegistry {
+    const others = registry[kind].filter((v) => v.vigencia !== version.vigencia);
+    return { ...registry, [kind]: [...others, version] };
+}
+
+/**
+ * Remove uma tabela do usuário pela vigência.
+ */
+export function removeTableVersion(
+    registry: TaxTableRegistry,
+    kind: keyof TaxTableRegistry,
+    vigencia: string
+): TaxTableRegistry {
+    return { ...registry, [kind]: registry[kind].filter((v) => v.vigencia !== vigencia) };
+}
+
+/**
+ * Converte um número digitado no formato brasileiro ou americano ("1.621,00" ou "1621.00").
+ */
+function parseAmount(text: string): number {
+    const trimmed = text.trim();
+    const normalized = trimmed.includes(',') ? trimmed.replace(/\./g, '').replace(',', '.') : trimmed;
+    return trimmed === '' ? NaN : Number(normalized);
+}
+
+/**
+ * Lê faixas do INSS no formato "limite:alíquota%; ..." (ex: "1621,00:7,5; 2902,84:9").
+ *
+ * @returns Faixas em ordem crescente, ou undefined se o texto for inválido
+ */
+export function parseINSSBrackets(text: string): INSSBracket[] | undefined {
+    const faixas = text.split(';').filter((part) => part.trim() !== '').map((part) => {
+        const [ate, aliquota] = part.split(':').map(parseAmount);
+        return { ate, aliquota: aliquota / 100 };
+    });
+
+    const valid = faixas.length > 0 && faixas.every((f, i) =>
+        Number.isFinite(f.ate) && Number.isFinite(f.aliquota) && (i === 0 || f.ate > faixas[i - 1].ate));
+    return valid ? faixas : undefined;
+}
+
+/**
+ * Formata faixas do INSS no formato aceito por parseINSSBrackets.
+ */
+export function formatINSSBrackets(faixas: INSSBracket[]): string {
+    return faixas.map((f) => `${f.ate.toFixed(2)}:${+(f.aliquota * 100).toFixed(2)}`).join('; ');
+}
+
+/**
+ * Lê faixas do IRRF no formato "limite:alíquota%:dedução; ..."; a última faixa usa "-" como limite.
+ * (ex: "2428,80:0:0; 2826,65:7,5:182,16; ...; -:27,5:908,73")
+ *
+ * @returns Faixas em ordem crescente, ou undefined se o texto for inválido
+ */
+export function parseIRRFBrackets(text: string): IRRFBracket[] | undefined {
+    const faixas = text.split(';').filter((part) => part.trim() !== '').map((part) => {
+        const [ate, aliquota, deducao] = part.split(':');
+        return {
+            ate: ate?.trim() === '-' ? null : parseAmount(ate ?? ''),
+            aliquota: parseAmount(aliquota ?? '') / 100,
+            deducao: parseAmount(deducao ?? ''),
+        };
+    });
+
+    const valid = faixas.length > 0 && faixas.every((f, i) =>
+        (f.ate === null ? i === faixas.length - 1 : Number.isFinite(f.ate))
+        && Number.isFinite(f.aliquota) && Number.isFinite(f.deducao)
+        && (i === 0 || (f.ate ?? Infinity) > (faixas[i - 1].ate ?? Infinity)));
+    return valid ? faixas : undefined;
+}
+
+/**
+ * Formata faixas do IRRF no formato aceito por parseIRRFBrackets.
+ */
+export function formatIRRFBrackets(faixas: IRRFBracket[]): string {
+    return faixas
+        .map((f) => `${f.ate === null ? '-' : f.ate.toFixed(2)}:${+(f.aliquota * 100).toFixed(2)}:${f.deducao.toFixed(2)}`)
+        .join('; ');
+}
@@ -0,0 +1,425 @@
+/**
+ * core/termination.ts
+ *
+ * Simulador de rescisão do contrato de trabalho (verbas rescisórias).
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Saldo de salário: dias trabalhados no mês do desligamento
+ * - Aviso prévio: 30 dias + 3 por ano completo de serviço, até 90 (Lei 12.506/11)
+ *   - Indenizado: integra o tempo de serviço (projeção, art. 487 §1º e OJ 82 SDI-1)
+ *   - Pedido de demissão sem cumprir o aviso: desconto de 30 dias (art. 487 §2º)
+ *   - Acordo (art. 484-A): aviso indenizado pela metade
+ * - Férias vencidas e proporcionais + 1/3 (vencidas fora do prazo: em dobro, art. 137)
+ * - 13º proporcional: um avo por mês com 15 ou mais dias de contrato
+ * - Multa do FGTS: 40% (sem justa causa) ou 20% (acordo) sobre o saldo
+ * - Justa causa: apenas saldo de salário e férias vencidas + 1/3 (Súmula 171 TST)
+ * - Intermitente: saldo, férias + 1/3 e 13º já pagos em cada convocação
+ *   (art. 452-A §6º); restam aviso prévio e FGTS
+ *
+ * INCIDÊNCIAS:
+ * - Saldo de salário e 13º: INSS, IRRF e FGTS
+ * - Aviso prévio indenizado: apenas FGTS (Súmula 305 TST)
+ * - Férias indenizadas + 1/3: nenhuma (Súmula 386 STJ)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Recebe os meses salvos (a leitura fica em storage/)
+ */
+
+import type {
+    DayRecord,
+    MonthHistory,
+    NoticeMode,
+    Settings,
+    TaxTables,
+    TerminationInput,
+    TerminationItem,
+    TerminationResult,
+    TerminationType,
+} from './types';
+import { calculateStoredMonthSummary } from './calculations';
+import { calculateINSS } from './inss';
+import { calculateIRRF } from './irrf';
+import { calculateVariablePayAverages, FGTS_RATE } from './payroll';
+import { parseDateKey } from './time';
+import { getAcquisitionPeriods, VACATION_DAYS_PER_YEAR } from './vacation';
+
+/**
+ * Dias de aviso prévio para menos de 1 ano de serviço.
+ */
+export const NOTICE_BASE_DAYS = 30;
+
+/**
+ * Dias acrescidos ao aviso por ano completo de serviço.
+ */
+export const NOTICE_DAYS_PER_YEAR = 3;
+
+/**
+ * Limite de dias de aviso prévio.
+ */
+export const NOTICE_MAX_DAYS = 90;
+
+/**
+ * Percentual da multa do FGTS por modalidade.
+ */
+const FGTS_FINE: Record<TerminationType, number> = {
+    'sem-justa-causa': 40,
+    'pedido-demissao': 0,
+    'acordo': 20,
+    'justa-causa': 0,
+    'fim-contrato': 0,
+};
+
+/**
+ * Percentual do saldo do FGTS liberado para saque por modalidade.
+ */
+const FGTS_WITHDRAWAL: Record<TerminationType, number> = {
+    'sem-justa-causa': 100,
+    'pedido-demissao': 0,
+    'acordo': 80,
+    'justa-causa': 0,
+    'fim-contrato': 100,
+};
+
+/**
+ * Rótulos das modalidades de desligamento.
+ */
+export const TERMINATION_TYPE_LABELS: Record<TerminationType, string> = {
+    'sem-justa-causa': 'Dispensa sem justa causa',
+    'pedido-demissao': 'Pedido de demissão',
+    'acordo': 'Acordo (art. 484-A)',
+    'justa-causa': 'Dispensa por justa causa',
+    'fim-contrato': 'Fim de contrato por prazo determinado',
+};
+
+/**
+ * Soma dias a uma data (sem alterar a original).
+ */
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Soma meses a uma data (sem alterar a original).
+ */
+function addMonths(date: Date, months: number): Date {
+    return new Date(date.getFullYear(), date.getMonth() + months, date.getDate());
+}
+
+/**
+ * Dias corridos entre duas datas, contando as duas pontas.
+ */
+function countDays(inicio: Date, fim: Date): number {
+    return Math.round((fim.getTime() - inicio.getTime()) / 86_400_000) + 1;
+}
+
+/**
+ * Conta os meses completos entre duas datas (fim inclusive).
+ *
+ * @example
+ * countCompletedMonths(new Date(2026, 0, 10), new Date(2026, 3, 9)) // 3
+ */
+export function countCompletedMonths(inicio: Date, fim: Date): number {
+    let meses = 0;
+    while (addDays(addMonths(inicio, meses + 1), -1) <= fim) meses++;
+    return meses;
+}
+
+/**
+ * Anos completos de serviço entre a admissão e o desligamento.
+ */
+export function countCompletedYears(admissao: Date, desligamento: Date): number {
+    return Math.floor(countCompletedMonths(admissao, desligamento) / 12);
+}
+
+/**
+ * Dias de aviso prévio proporcional ao tempo de serviço.
+ *
+ * @example
+ * getNoticeDays(0)  // 30
+ * getNoticeDays(4)  // 42
+ * getNoticeDays(25) // 90
+ */
+export function getNoticeDays(anosServico: number): number {
+    return Math.min(NOTICE_BASE_DAYS + NOTICE_DAYS_PER_YEAR * anosServico, NOTICE_MAX_DAYS);
+}
+
+/**
+ * Avos de férias proporcionais: meses completos desde o início do período aquisitivo,
+ * mais um avo se a fração restante tiver 15 dias ou mais (art. 146, parágrafo único).
+ */
+function countVacationAvos(inicio: Date, fim: Date): number {
+    const meses = countCompletedMonths(inicio, fim);
+    const restante = countDays(addMonths(inicio, meses), fim);
+    return Math.min(meses + (restante >= 15 ? 1 : 0), 12);
+}
+
+/**
+ * Avos de 13º: meses civis com 15 ou mais dias de contrato entre as datas.
+ */
+function countThirteenthAvos(inicio: Date, fim: Date): number {
+    let avos = 0;
+    for (let mes = new Date(inicio.getFullYear(), inicio.getMonth(), 1); mes <= fim; mes = addMonths(mes, 1)) {
+        const primeiro = mes < inicio ? inicio : mes;
+        const ultimoDoMes = new Date(mes.getFullYear(), mes.getMonth() + 1, 0);
+        const ultimo = ultimoDoMes > fim ? fim : ultimoDoMes;
+        if (countDays(primeiro, ultimo) >= 15) avos++;
+    }
+    return avos;
+}
+
+/**
+ * Indica se a modalidade tem aviso prévio.
+ */
+export function hasNotice(tipo: TerminationType): boolean {
+    return tipo === 'sem-justa-causa' || tipo === 'pedido-demissao' || tipo === 'acordo';
+}
+
+/**
+ * Monta uma rubrica de provento.
+ */
+function provento(
+    codigo: string,
+    descricao: string,
+    referencia: string,
+    valor: number,
+    incidencias: { inss: boolean; irrf: boolean; fgts: boolean }
+): TerminationItem {
+    return {
+        codigo,
+        descricao,
+        referencia,
+        valor: Math.round(valor * 100) / 100,
+        desconto: false,
+        incideINSS: incidencias.inss,
+        incideIRRF: incidencias.irrf,
+        incideFGTS: incidencias.fgts,
+    };
+}
+
+const TRIBUTAVEL = { inss: true, irrf: true, fgts: true };
+const SO_FGTS = { inss: false, irrf: false, fgts: true };
+const ISENTO = { inss: false, irrf: false, fgts: false };
+
+/**
+ * Simula as verbas rescisórias de um desligamento.
+ *
+ * LÓGICA:
+ * 1. Remuneração de referência = salário + médias das verbas variáveis dos meses salvos
+ * 2. Aviso prévio conforme a modalidade (e projeção da data final, se indenizado)
+ * 3. Saldo de salário, férias vencidas/proporcionais + 1/3 e 13º proporcional
+ * 4. INSS e IRRF: verbas salariais do mês e 13º calculados separadamente
+ * 5. FGTS: depósito sobre as verbas rescisórias, multa e percentual de saque
+ *
+ * @param input - Modalidade, data de desligamento, aviso e saldo do FGTS
+ * @param settings - Configurações (salário, admissão, férias, IRRF)
+ * @param months - Dias dos meses salvos dos últimos 12 meses (para as médias)
+ * @param tabelas - Tabelas da competência do desligamento
+ * @param historico - Lançamentos do banco de horas e tabelas do fechamento dos meses salvos
+ * @returns Rescisão simulada, ou null sem data de admissão ou com desligamento anterior a ela
+ *
+ * @example
+ * // Admissão 2024-03-10, dispensa sem justa causa em 2026-10-19, aviso indenizado:
+ * // aviso de 36 dias (2 anos completos), data projetada 24/11/2026,
+ * // férias proporcionais 9/12, 13º 11/12, multa de 40% do FGTS
+ *
+ * DECISÃO CONSERVADORA:
+ * - Saldo de salário pelo mês comercial: salário ÷ 30 × dias (no máximo 30)
+ * - Aviso trabalhado: os dias acima de 30 (Lei 12.506/11) são indenizados
+ * - Acordo: a projeção usa todos os dias do aviso, embora o valor seja pela metade
+ * - Considera que nenhuma parcela do 13º do ano foi adiantada
+ * - Sem saldo informado, o FGTS é estimado em 8% do salário por mês completo de serviço
+ * - Optante do saque-aniversário: o saldo fica bloqueado, apenas a multa é sacada
+ * - Intermitente: salário de referência = média das horas normais pagas nos
+ *   meses salvos; as horas extras da média pelo salário-hora do contrato
+ */
+export function calculateTermination(
+    input: TerminationInput,
+    settings: Settings,
+    months: DayRecord[][],
+    tabelas: TaxTables,
+    historico: MonthHistory
+): TerminationResult | null {
+    if (!settings.ferias.dataAdmissao) return null;
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const admissao = parseDateKey(settings.ferias.dataAdmissao);
+    const desligamento = parseDateKey(input.dataDesligamento);
+    if (desligamento < admissao) return null;
+
+    const { tipo } = input;
+    const intermitente = settings.contrato.tipo === 'intermitente';
+    const resumos = months
+        .filter((days) => days.length > 0)
+        .map((days) => calculateStoredMonthSummary(days, settings, historico));
+    const salario = !intermitente ? settings.salarioMensal
+        : resumos.length > 0 ? resumos.reduce((sum, r) => sum + r.salarioBase, 0) / resumos.length : 0;
+    const medias = calculateVariablePayAverages(
+        resumos,
+        // Intermitente: salário mensal equivalente ao salário-hora (valor hora = salário-hora)
+        intermitente ? settings.contrato.valorHora * settings.cargaHoraria.divisor : salario,
+        settings.cargaHoraria.divisor
+    );
+    const remuneracao = salario + medias.mediaHorasExtras + medias.mediaDSR + medias.mediaAdicionalNoturno;
+
+    // ============================================
+    // AVISO PRÉVIO
+    // ============================================
+    const anosServico = countCompletedYears(admissao, desligamento);
+    const diasAviso = !hasNotice(tipo) ? 0 : tipo === 'pedido-demissao' ? NOTICE_BASE_DAYS : getNoticeDays(anosServico);
+    const aviso: NoticeMode = input.aviso;
+    const rubricas: TerminationItem[] = [];
+
+    // Dias de aviso pagos sem trabalho (projetados no tempo de serviço)
+    let diasIndenizados = 0;
+    if (tipo === 'sem-justa-causa' || tipo === 'acordo') {
+        diasIndenizados = aviso === 'indenizado' ? diasAviso : diasAviso - NOTICE_BASE_DAYS;
+    }
+    const dataProjetada = addDays(desligamento, diasIndenizados);
+
+    // ============================================
+    // SALDO DE SALÁRIO
+    // ============================================
+    const inicioMes = new Date(desligamento.getFullYear(), desligamento.getMonth(), 1);
+    const diasSaldo = Math.min(countDays(admissao > inicioMes ? admissao : inicioMes, desligamento), 30);
+    if (!intermitente) {
+        rubricas.push(provento('saldo-salario', 'Saldo de salário', `${diasSaldo} dias`, salario / 30 * diasSaldo, TRIBUTAVEL));
+    }
+
+    if (diasIndenizados > 0) {
+        const fator = tipo === 'acordo' ? 0.5 : 1;
+        rubricas.push(provento(
+            'aviso-indenizado',
+            tipo === 'acordo' ? 'Aviso prévio indenizado (metade, art. 484-A)' : 'Aviso prévio indenizado',
+            tipo === 'acordo' ? `${diasIndenizados}/2 dias` : `${diasIndenizados} dias`,
+            remuneracao / 30 * diasIndenizados * fator,
+            SO_FGTS
+        ));
+    }
+
+    // ============================================
+    // FÉRIAS
+    // ============================================
+    const aquisitivos = intermitente ? [] : getAcquisitionPeriods(settings.ferias, dataProjetada);
+    let valorFerias = 0;
+
+    for (const periodo of aquisitivos) {
+        if (periodo.saldo <= 0) continue;
+
+        if (periodo.situacao === 'em-aquisicao') {
+            if (tipo === 'justa-causa') continue;
+            const avos = countVacationAvos(periodo.inicio, dataProjetada);
+            const dias = Math.min(avos * VACATION_DAYS_PER_YEAR / 12, periodo.saldo);
+            if (dias <= 0) continue;
+            const valor = remuneracao / 30 * dias;
+            valorFerias += valor;
+            rubricas.push(provento('ferias-proporcionais', 'Férias proporcionais', `${avos}/12 avos`, valor, ISENTO));
+            continue;
+        }
+
+        const valor = remuneracao / 30 * periodo.saldo;
+        valorFerias += valor;
+        rubricas.push(provento(
+            'ferias-vencidas',
+            `Férias vencidas (${periodo.numero}º período)`,
+            `${periodo.saldo} dias`,
+            valor,
+            ISENTO
+        ));
+        if (periodo.situacao === 'vencido') {
+            valorFerias += valor;
+            rubricas.push(provento(
+                'ferias-dobro',
+                `Dobra das férias (${periodo.numero}º período, art. 137)`,
+                `${periodo.saldo} dias`,
+                valor,
+                ISENTO
+            ));
+        }
+    }
+
+    if (valorFerias > 0) {
+        rubricas.push(provento('terco-ferias', '1/3 constitucional sobre férias', '1/3', valorFerias / 3, ISENTO));
+    }
+
+    // ============================================
+    // 13º PROPORCIONAL
+    // ============================================
+    let valor13 = 0;
+    if (tipo !== 'justa-causa' && !intermitente) {
+        const inicioAno = new Date(desligamento.getFullYear(), 0, 1);
+        const avos = countThirteenthAvos(admissao > inicioAno ? admissao : inicioAno, dataProjetada);
+        valor13 = round(remuneracao / 12 * avos);
+        if (valor13 > 0) {
+            rubricas.push(provento('13-proporcional', '13º salário proporcional', `${avos}/12 avos`, valor13, TRIBUTAVEL));
+        }
+    }
+
+    // ============================================
+    // DESCONTO DO AVISO (PEDIDO DE DEMISSÃO)
+    // ============================================
+    if (tipo === 'pedido-demissao' && aviso === 'indenizado') {
+        rubricas.push({
+            ...provento('desconto-aviso', 'Aviso prévio não cumprido (art. 487 §2º)', `${diasAviso} dias`, salario / 30 * diasAviso, ISENTO),
+            desconto: true,
+        });
+    }
+
+    // ============================================
+    // INSS E IRRF (MÊS E 13º SEPARADOS)
+    // ============================================
+    const proventos = rubricas.filter((r) => !r.desconto);
+    const baseMes = (flag: 'incideINSS' | 'incideIRRF') =>
+        proventos.filter((r) => r[flag] && r.codigo !== '13-proporcional').reduce((sum, r) => sum + r.valor, 0);
+
+    const inssMes = round(calculateINSS(baseMes('incideINSS'), tabelas.inss));
+    const inss13 = round(calculateINSS(valor13, tabelas.inss));
+    const irrfMes = calculateIRRF(baseMes('incideIRRF'), inssMes, settings.irrf, tabelas.irrf);
+    const irrf13 = calculateIRRF(valor13, inss13, settings.irrf, { ...tabelas.irrf, reducao: undefined });
+
+    const totalProventos = round(proventos.reduce((sum, r) => sum + r.valor, 0));
+    const inss = round(inssMes + inss13);
+    const irrf = round(irrfMes + irrf13);
+    const totalDescontos = round(
+        rubricas.filter((r) => r.desconto).reduce((sum, r) => sum + r.valor, 0) + inss + irrf
+    );
+    const liquido = round(totalProventos - totalDescontos);
+
+    // ============================================
+    // FGTS
+    // ============================================
+    const saldoEstimado = input.saldoFGTS === undefined;
+    const saldo = round(input.saldoFGTS ?? salario * FGTS_RATE * countCompletedMonths(admissao, desligamento));
+    const depositoRescisao = round(
+        proventos.filter((r) => r.incideFGTS).reduce((sum, r) => sum + r.valor, 0) * FGTS_RATE
+    );
+    const percentualMulta = FGTS_FINE[tipo];
+    const multa = round((saldo + depositoRescisao) * percentualMulta / 100);
+    const percentualSaque = settings.fgts.saqueAniversario ? 0 : FGTS_WITHDRAWAL[tipo];
+    const valorSaque = round((saldo + depositoRescisao) * percentualSaque / 100 + multa);
+
+    return {
+        tipo,
+        dataDesligamento: desligamento,
+        dataProjetada,
+        anosServico,
+        diasAviso,
+        remuneracao: round(remuneracao),
+        rubricas,
+        totalProventos,
+        inss,
+        irrf,
+        totalDescontos,
+        liquido,
+        fgts: {
+            saldo,
+            saldoEstimado,
+            depositoRescisao,
+            percentualMulta,
+            multa,
+            percentualSaque,
+            valorSaque,
+        },
+        totalReceber: round(liquido + multa),
+    };
+}
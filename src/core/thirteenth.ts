@@ -0,0 +1,127 @@
+/**
+ * core/thirteenth.ts
+ *
+ * Cálculo do 13º salário (gratificação natalina, Lei 4.090/62 e Lei 4.749/65).
+ *
+ * REGRAS DE NEGÓCIO:
+ * - 1/12 (um avo) por mês com 15 ou mais dias trabalhados
+ * - Médias de horas extras, DSR e adicional noturno integram o 13º (Súmula 45 TST)
+ * - 1ª parcela: metade do valor, sem descontos, até 30 de novembro
+ * - 2ª parcela: restante, até 20 de dezembro, com INSS e IRRF sobre o valor
+ *   integral, calculados separadamente da folha mensal (tributação exclusiva)
+ * - Intermitente: sem 13º anual; o proporcional é pago em cada convocação
+ *   (art. 452-A §6º, ver contract.ts)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Recebe os meses salvos do ano (a leitura fica em storage/)
+ */
+
+import type { DayRecord, MonthHistory, Settings, TaxTables, ThirteenthSalary } from './types';
+import { calculateStoredMonthSummary } from './calculations';
+import { isPaidAbsence } from './absences';
+import { calculateINSS } from './inss';
+import { calculateIRRF } from './irrf';
+import { calculateVariablePayAverages } from './payroll';
+import { getRestCompensations } from './overtime';
+import { calculateWorkedMinutes, getDayPunches, toDateKey } from './time';
+
+/**
+ * Mínimo de dias trabalhados no mês para contar um avo.
+ */
+export const MIN_DAYS_FOR_AVO = 15;
+
+/**
+ * Conta os dias trabalhados de um mês para fins de avos.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Contam os dias com horas registradas e os dias remunerados sem trabalho
+ *   (folga, feriado, férias, atestado, faltas do art. 473 e folga compensatória,
+ *   do banco de horas ou de uma folga trabalhada)
+ * - Dia útil sem horas registradas e falta injustificada não contam
+ */
+export function countWorkedDays(days: DayRecord[]): number {
+    const compensacoesFolga = getRestCompensations(days);
+    return days.filter((day) =>
+        day.ehFolga || day.ehFeriado || day.ehFerias || day.compensacao || isPaidAbsence(day)
+        || compensacoesFolga.has(toDateKey(day.date))
+        || calculateWorkedMinutes(getDayPunches(day), day.intervaloHoras) > 0
+    ).length;
+}
+
+/**
+ * Calcula o 13º salário de um ano a partir dos meses salvos.
+ *
+ * LÓGICA:
+ * 1. Cada mês salvo com 15+ dias trabalhados conta um avo
+ * 2. Médias mensais de horas extras, DSR e adicional noturno dos meses com avo
+ * 3. Valor integral = (salário + médias) ÷ 12 × avos
+ * 4. 1ª parcela = metade; 2ª parcela = restante - INSS - IRRF
+ *
+ * @param year - Ano de referência
+ * @param months - Dias de cada mês salvo do ano
+ * @param settings - Configurações (salário, IRRF)
+ * @param tabelas - Tabelas da competência de dezembro
+ * @param historico - Lançamentos do banco de horas e tabelas do fechamento dos meses salvos
+ * @returns Cálculo completo com as duas parcelas
+ *
+ * DECISÃO CONSERVADORA:
+ * - Meses não salvos não contam avo (o histórico é a fonte de verdade)
+ * - Horas extras pela média física × valor hora atual; DSR e adicional noturno
+ *   pela média dos valores
+ * - IRRF sem a redução da Lei 15.270/25 (aplicada apenas aos rendimentos mensais)
+ */
+export function calculateThirteenthSalary(
+    year: number,
+    months: DayRecord[][],
+    settings: Settings,
+    tabelas: TaxTables,
+    historico: MonthHistory
+): ThirteenthSalary {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const salario = settings.salarioMensal;
+
+    const considerados = settings.contrato.tipo === 'intermitente' ? [] : months
+        .filter((days) => days.length > 0 && days[0].date.getFullYear() === year)
+        .filter((days) => countWorkedDays(days) >= MIN_DAYS_FOR_AVO)
+        .slice(0, 12);
+    const avos = considerados.length;
+    const { mediaHorasExtras, mediaDSR, mediaAdicionalNoturno } = calculateVariablePayAverages(
+        considerados.map((days) => calculateStoredMonthSummary(days, settings, historico)),
+        salario,
+        settings.cargaHoraria.divisor
+    );
+
+    const remuneracao = salario + mediaHorasExtras + mediaDSR + mediaAdicionalNoturno;
+    const valorIntegral = round(remuneracao / 12 * avos);
+    const primeira = round(valorIntegral / 2);
+
+    const inss = round(calculateINSS(valorIntegral, tabelas.inss));
+    const irrf = calculateIRRF(valorIntegral, inss, settings.irrf, { ...tabelas.irrf, reducao: undefined });
+    const segundaBruto = round(valorIntegral - primeira);
+    const segundaLiquido = round(segundaBruto - inss - irrf);
+
+    return {
+        ano: year,
+        avos,
+        mesesConsiderados: considerados.map((days) => days[0].date.getMonth()),
+        salario,
+        mediaHorasExtras: round(mediaHorasExtras),
+        mediaDSR: round(mediaDSR),
+        mediaAdicionalNoturno: round(mediaAdicionalNoturno),
+        remuneracao: round(remuneracao),
+        valorIntegral,
+        primeiraParcela: {
+            valor: primeira,
+            vencimento: new Date(year, 10, 30),
+        },
+        segundaParcela: {
+            bruto: segundaBruto,
+            inss,
+            irrf,
+            liquido: segundaLiquido,
+            vencimento: new Date(year, 11, 20),
+        },
+        liquidoTotal: round(primeira + segundaLiquido),
+    };
+}
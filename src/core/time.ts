@@ -9,6 +9,7 @@
  * - Não implementa regras CLT (apenas operações matemáticas de tempo)
  * - Não usa bibliotecas externas
  * - Estritamente tipado
+ * - Jornadas são listas de marcações (pares entrada/saída)
  * 
  * CONTEXTO:
  * - Aplicativo pessoal para controle de jornada CLT
@@ -16,6 +17,8 @@
  * - Resultados devem ser previsíveis e auditáveis
  */
 
+import type { DayRecord, Punch } from './types';
+
 /**
  * Converte uma string de horário no formato HH:mm para total de minutos desde 00:00.
  * 
@@ -37,38 +40,154 @@ export function parseHourToMinutes(time: string): number {
 }
 
 /**
- * Calcula o total de minutos efetivamente trabalhados em um dia.
+ * Retorna as marcações de um dia: a lista de pares, ou o par entrada/saída
+ * como atalho de um único período.
+ *
+ * @example
+ * getDayPunches({ entrada: "08:00", saida: "17:00" })
+ * // [{ entrada: "08:00", saida: "17:00" }]
+ * getDayPunches({ entrada: "08:00", saida: "22:00", marcacoes: [{ entrada: "08:00", saida: "12:00" }, { entrada: "18:00", saida: "22:00" }] })
+ * // as duas marcações
+ *
+ * DECISÃO CONSERVADORA:
+ * - Pares com entrada ou saída vazia são ignorados
+ */
+export function getDayPunches(day: Pick<DayRecord, 'entrada' | 'saida' | 'marcacoes'>): Punch[] {
+    const marcacoes = day.marcacoes && day.marcacoes.length > 0
+        ? day.marcacoes
+        : [{ entrada: day.entrada, saida: day.saida }];
+    return marcacoes.filter((m) => m.entrada !== '' && m.saida !== '');
+}
+
+/**
+ * Grava as marcações em um dia: um único par fica em entrada/saída, vários pares
+ * ficam em marcacoes (com entrada = primeira, saída = última).
+ *
+ * @param day - Dia a atualizar
+ * @param marcacoes - Pares entrada/saída em ordem cronológica (vazio = sem horário)
+ * @param intervaloHoras - Intervalo não registrado, usado apenas com um único par
+ * @returns Cópia do dia com os novos horários
+ *
+ * @example
+ * setDayPunches(dia, [{ entrada: "08:00", saida: "17:00" }], 1)
+ * // entrada "08:00", saida "17:00", intervaloHoras 1, marcacoes undefined
+ * setDayPunches(dia, [{ entrada: "08:00", saida: "12:00" }, { entrada: "13:00", saida: "17:00" }], 1)
+ * // entrada "08:00", saida "17:00", intervaloHoras 0, marcacoes com os dois pares
+ *
+ * DECISÃO CONSERVADORA:
+ * - Com vários pares o intervalo é o tempo entre eles (intervaloHoras = 0)
+ */
+export function setDayPunches<T extends Pick<DayRecord, 'entrada' | 'saida' | 'intervaloHoras' | 'marcacoes'>>(
+    day: T,
+    marcacoes: Punch[],
+    intervaloHoras: number
+): T {
+    if (marcacoes.length === 0) {
+        return { ...day, entrada: '', saida: '', intervaloHoras: 0, marcacoes: undefined };
+    }
+    const varios = marcacoes.length > 1;
+    return {
+        ...day,
+        entrada: marcacoes[0].entrada,
+        saida: marcacoes[marcacoes.length - 1].saida,
+        intervaloHoras: varios ? 0 : intervaloHoras,
+        marcacoes: varios ? marcacoes : undefined,
+    };
+}
+
+/**
+ * Converte as marcações em períodos contínuos, em minutos desde 00:00 do dia
+ * da primeira entrada (valores acima de 1440 caem no dia seguinte).
+ *
+ * @param marcacoes - Pares entrada/saída em ordem cronológica
+ * @returns Períodos { inicio, fim } em ordem cronológica
+ *
+ * @example
+ * getPunchPeriods([{ entrada: "22:00", saida: "02:00" }, { entrada: "03:00", saida: "06:00" }])
+ * // [{ inicio: 1320, fim: 1560 }, { inicio: 1620, fim: 1800 }]
+ *
+ * DECISÃO CONSERVADORA:
+ * - Entrada anterior à saída do par anterior = entrada no dia seguinte
+ */
+export function getPunchPeriods(marcacoes: Punch[]): { inicio: number; fim: number }[] {
+    const periods: { inicio: number; fim: number }[] = [];
+    let dia = 0;
+
+    for (const marcacao of marcacoes) {
+        let inicio = dia + parseHourToMinutes(marcacao.entrada);
+        const anterior = periods[periods.length - 1];
+        if (anterior && inicio < anterior.fim) {
+            dia += 24 * 60;
+            inicio += 24 * 60;
+        }
+        const fim = inicio + calculateHourDifference(marcacao.entrada, marcacao.saida);
+        if (fim >= dia + 24 * 60) dia += 24 * 60;
+        periods.push({ inicio, fim });
+    }
+
+    return periods;
+}
+
+/**
+ * Calcula o total de minutos efetivamente trabalhados em uma lista de marcações.
  * 
- * @param entrada - Horário de entrada no formato "HH:mm"
- * @param saida - Horário de saída no formato "HH:mm"
- * @param intervaloHoras - Duração do intervalo em horas (ex: 1.0 para 1 hora)
+ * @param marcacoes - Pares entrada/saída ("HH:mm") em ordem cronológica
+ * @param intervaloHoras - Intervalo não registrado nas marcações, em horas (ex: 1.0)
  * @returns Total de minutos trabalhados (mínimo 0)
  * 
  * @example
- * calculateWorkedMinutes("08:00", "17:00", 1) // 480 (9h - 1h = 8h = 480min)
- * calculateWorkedMinutes("08:00", "12:00", 0) // 240 (4h = 240min)
- * calculateWorkedMinutes("08:00", "09:00", 2) // 0 (1h - 2h intervalo = 0, não negativo)
+ * calculateWorkedMinutes([{ entrada: "08:00", saida: "17:00" }], 1) // 480 (9h - 1h = 8h)
+ * calculateWorkedMinutes([{ entrada: "08:00", saida: "12:00" }])    // 240 (4h)
+ * calculateWorkedMinutes([{ entrada: "08:00", saida: "09:00" }], 2) // 0 (não negativo)
+ * calculateWorkedMinutes([{ entrada: "22:00", saida: "06:00" }])    // 480 (termina no dia seguinte)
+ * calculateWorkedMinutes([{ entrada: "08:00", saida: "12:00" }, { entrada: "13:00", saida: "17:00" }]) // 480
  * 
  * DECISÃO CONSERVADORA:
+ * - Os intervalos entre os pares não são trabalho
+ * - Saída anterior à entrada = período termina no dia seguinte
  * - Retorna 0 se o resultado for negativo (intervalo maior que tempo total)
  * - Não lança erros, comportamento previsível
  */
 export function calculateWorkedMinutes(
-    entrada: string,
-    saida: string,
-    intervaloHoras: number
+    marcacoes: Punch[],
+    intervaloHoras = 0
 ): number {
-    const entradaMinutes = parseHourToMinutes(entrada);
-    const saidaMinutes = parseHourToMinutes(saida);
+    const totalMinutes = getPunchPeriods(marcacoes).reduce((sum, p) => sum + p.fim - p.inicio, 0);
     const intervaloMinutes = intervaloHoras * 60;
 
-    const totalMinutes = saidaMinutes - entradaMinutes;
     const workedMinutes = totalMinutes - intervaloMinutes;
 
     // Não permite resultado negativo
     return Math.max(0, workedMinutes);
 }
 
+/**
+ * Calcula o maior intervalo entre dois pares de marcações, em minutos.
+ *
+ * @example
+ * calculateLongestBreakMinutes([{ entrada: "08:00", saida: "12:00" }, { entrada: "12:40", saida: "17:00" }]) // 40
+ * calculateLongestBreakMinutes([{ entrada: "08:00", saida: "17:00" }]) // 0
+ */
+export function calculateLongestBreakMinutes(marcacoes: Punch[]): number {
+    const periods = getPunchPeriods(marcacoes);
+    let maior = 0;
+    for (let i = 1; i < periods.length; i++) {
+        maior = Math.max(maior, periods[i].inicio - periods[i - 1].fim);
+    }
+    return maior;
+}
+
+/**
+ * Indica se a jornada atravessa a meia-noite (saída anterior à entrada).
+ *
+ * @example
+ * crossesMidnight("22:00", "06:00") // true
+ * crossesMidnight("08:00", "17:00") // false
+ */
+export function crossesMidnight(entrada: string, saida: string): boolean {
+    return parseHourToMinutes(saida) < parseHourToMinutes(entrada);
+}
+
 /**
  * Converte minutos em horas decimais, arredondando para duas casas decimais.
  * 
@@ -95,17 +214,17 @@ export function minutesToDecimalHours(minutes: number): number {
  * 
  * @param entrada - Horário de entrada no formato "HH:mm"
  * @param saida - Horário de saída no formato "HH:mm"
- * @returns Diferença total em minutos
+ * @returns Diferença total em minutos (0 a 1439)
  * 
  * @example
  * calculateHourDifference("08:00", "17:00") // 540 (9 horas)
  * calculateHourDifference("08:00", "12:00") // 240 (4 horas)
  * calculateHourDifference("23:00", "23:30") // 30 (30 minutos)
+ * calculateHourDifference("23:00", "01:00") // 120 (termina no dia seguinte)
  * 
  * DECISÃO CONSERVADORA:
- * - Considera apenas horários no mesmo dia
- * - Não trata virada de dia (ex: "23:00" até "01:00" do dia seguinte)
- * - Se saída < entrada, o resultado será negativo
+ * - Se saída < entrada, a saída é considerada no dia seguinte (+24h)
+ * - Saída igual à entrada resulta em 0 (não em 24h)
  */
 export function calculateHourDifference(
     entrada: string,
@@ -113,5 +232,74 @@ export function calculateHourDifference(
 ): number {
     const entradaMinutes = parseHourToMinutes(entrada);
     const saidaMinutes = parseHourToMinutes(saida);
-    return saidaMinutes - entradaMinutes;
+    const diff = saidaMinutes - entradaMinutes;
+    return diff < 0 ? diff + 24 * 60 : diff;
+}
+
+/**
+ * Converte uma data em chave textual no formato "YYYY-MM-DD" (horário local).
+ *
+ * @param date - Data a converter
+ * @returns Chave do dia (ex: "2026-01-08")
+ *
+ * @example
+ * toDateKey(new Date(2026, 0, 8)) // "2026-01-08"
+ *
+ * DECISÃO CONSERVADORA:
+ * - Usa getFullYear/getMonth/getDate (fuso local) em vez de toISOString (UTC),
+ *   evitando que o dia "pule" para trás em fusos negativos como o de Brasília
+ */
+export function toDateKey(date: Date): string {
+    const year = date.getFullYear();
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${year}-${month}-${day}`;
+}
+
+/**
+ * Converte uma chave "YYYY-MM-DD" de volta em Date (meia-noite, horário local).
+ *
+ * @param key - Chave do dia (ex: "2026-01-08")
+ * @returns Data correspondente
+ *
+ * @example
+ * parseDateKey("2026-01-08") // new Date(2026, 0, 8)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Não valida o formato (delegado ao chamador), assim como parseHourToMinutes
+ */
+export function parseDateKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number);
+    return new Date(year, month - 1, day);
+}
+
+/**
+ * Gera a chave de um mês no formato "YYYY-MM".
+ *
+ * @param year - Ano (ex: 2026)
+ * @param month - Mês (0-11, onde 0 = Janeiro)
+ * @returns Chave do mês (ex: "2026-01")
+ *
+ * @example
+ * toMonthKey(2026, 0) // "2026-01"
+ */
+export function toMonthKey(year: number, month: number): string {
+    return `${year}-${String(month + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Soma meses a uma chave "YYYY-MM" (aceita valores negativos).
+ *
+ * @param key - Chave do mês (ex: "2026-01")
+ * @param months - Quantidade de meses a somar
+ * @returns Chave do mês resultante
+ *
+ * @example
+ * addMonthsToKey("2026-11", 2)  // "2027-01"
+ * addMonthsToKey("2026-01", -1) // "2025-12"
+ */
+export function addMonthsToKey(key: string, months: number): string {
+    const [year, month] = key.split('-').map(Number);
+    const date = new Date(year, month - 1 + months, 1);
+    return toMonthKey(date.getFullYear(), date.getMonth());
 }
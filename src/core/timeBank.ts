@@ -0,0 +1,234 @@
+/**
+ * core/timeBank.ts
+ *
+ * Banco de horas: horas extras viram crédito de horas em vez de pagamento.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Horas extras creditadas com multiplicador configurável (abaixo de 100% e a partir de 100%)
+ * - Saídas antecipadas e folgas compensatórias debitam horas do banco
+ * - Débitos compensam primeiro as horas mais antigas
+ * - Prazo de compensação: 6 meses no acordo individual (art. 59 §5º CLT),
+ *   12 meses no acordo coletivo (art. 59 §2º)
+ * - Horas não compensadas no prazo são pagas como hora extra no mês em que
+ *   vencem, com o adicional original (percentual de cada hora)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Recebe os meses salvos (a leitura fica em storage/)
+ */
+
+import type {
+    DayRecord,
+    Settings,
+    TimeBankAgreement,
+    TimeBankEntry,
+    TimeBankLot,
+    TimeBankSettings,
+} from './types';
+import { calculateMonthlySummary } from './calculations';
+import { getDailyStandardHours } from './schedule';
+import { LATE_TOLERANCE_MINUTES } from './absences';
+import { addMonthsToKey, calculateWorkedMinutes, getDayPunches, toMonthKey } from './time';
+import {
+    addOvertimeHours,
+    getOvertimeHoursAt,
+    getOvertimePercents,
+    getWeeklyExcessPercent,
+    roundOvertimeHours,
+    sumOvertimeHours,
+} from './overtime';
+
+/**
+ * Prazo de compensação em meses por tipo de acordo.
+ */
+export const TIME_BANK_EXPIRY_MONTHS: Record<TimeBankAgreement, number> = {
+    individual: 6,
+    coletivo: 12,
+};
+
+/**
+ * Configuração padrão: banco desligado, hora por hora, acordo individual.
+ */
+export const DEFAULT_TIME_BANK_SETTINGS: TimeBankSettings = {
+    ativo: false,
+    acordo: 'individual',
+    multiplicador50: 1,
+    multiplicador100: 1,
+    saldoInicialHoras: 0,
+    competenciaInicial: null,
+};
+
+/**
+ * Multiplicador do banco para um percentual de hora extra
+ * (multiplicador100 a partir de 100%, multiplicador50 abaixo).
+ */
+export function getTimeBankMultiplier(percentual: number, bancoHoras: TimeBankSettings): number {
+    return percentual >= 100 ? bancoHoras.multiplicador100 : bancoHoras.multiplicador50;
+}
+
+/**
+ * Horas de banco de um lote (horas extras × multiplicador).
+ */
+export function getLotHours(lot: TimeBankLot, bancoHoras: TimeBankSettings): number {
+    return Object.entries(lot.horas)
+        .reduce((sum, [percentual, horas]) => sum + horas * getTimeBankMultiplier(Number(percentual), bancoHoras), 0);
+}
+
+/**
+ * Compensa horas de banco com um lote (dos menores percentuais para os maiores).
+ * Altera o lote e retorna as horas que ainda faltam compensar.
+ */
+function consumeLot(lot: TimeBankLot, horas: number, bancoHoras: TimeBankSettings): number {
+    for (const percentual of getOvertimePercents(lot.horas)) {
+        const multiplicador = getTimeBankMultiplier(percentual, bancoHoras);
+        if (horas <= 0 || multiplicador <= 0) continue;
+        const usado = Math.min(horas, getOvertimeHoursAt(lot.horas, percentual) * multiplicador);
+        lot.horas[percentual] -= usado / multiplicador;
+        horas -= usado;
+    }
+    return horas;
+}
+
+/**
+ * Calcula as horas debitadas do banco em um mês.
+ *
+ * LÓGICA:
+ * 1. Folga compensatória: debita a jornada padrão do dia
+ * 2. Dia útil trabalhado abaixo da jornada padrão: debita a diferença
+ *
+ * @param days - Dias do mês
+ * @param settings - Configurações (escala)
+ * @returns Horas a debitar
+ *
+ * @example
+ * // Escala 5x2 (8.8h/dia), saída 2h antes da jornada em um dia e 1 folga compensatória:
+ * // débito = 2 + 8.8 = 10.8
+ *
+ * DECISÃO CONSERVADORA:
+ * - Diferenças de até 10 minutos no dia não são debitadas (art. 58 §1º CLT)
+ * - Dias sem marcação (nem compensação) não são debitados
+ * - Dias com ausência ou atraso seguem os descontos de absences.ts
+ */
+export function calculateTimeBankDebit(days: DayRecord[], settings: Settings): number {
+    const jornadaMinutos = getDailyStandardHours(settings.escala, settings.cargaHoraria) * 60;
+    let minutos = 0;
+
+    for (const day of days) {
+        if (day.ehFerias || day.ehFolga || day.ehFeriado || day.ausencia) continue;
+
+        if (day.compensacao) {
+            minutos += jornadaMinutos;
+            continue;
+        }
+
+        const marcacoes = getDayPunches(day);
+        if (marcacoes.length === 0) continue;
+
+        const falta = jornadaMinutos - calculateWorkedMinutes(marcacoes, day.intervaloHoras);
+        if (falta > LATE_TOLERANCE_MINUTES) {
+            minutos += falta;
+        }
+    }
+
+    return Math.round(minutos / 60 * 100) / 100;
+}
+
+/**
+ * Monta o banco de horas mês a mês até uma competência.
+ *
+ * LÓGICA (a cada mês):
+ * 1. Débitos do mês compensam os lotes mais antigos; o que sobrar fica negativo
+ * 2. Horas extras do mês formam um novo lote (abatendo antes o saldo negativo)
+ * 3. Lotes que completam o prazo vencem e são pagos no mês
+ *
+ * @param months - Dias dos meses salvos
+ * @param settings - Configurações (escala, banco de horas)
+ * @param ate - Última competência do banco ("YYYY-MM")
+ * @returns Lançamentos do banco (vazio sem meses salvos nem competência inicial)
+ *
+ * @example
+ * // Acordo individual (6 meses), hora por hora: 10h extras 50% em 01/2026,
+ * // 4h compensadas em 03/2026 → em 06/2026 vencem 6h, pagas como extra 50%
+ * // (cada lote guarda os percentuais originais, ex.: 60% ou 75% da CCT)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Lote de janeiro no acordo individual vence em junho (compensação até o 6º mês)
+ * - Saldo negativo não é descontado; é abatido pelos créditos seguintes
+ * - Saldo inicial entra como horas extras com o percentual da primeira faixa
+ *   na competência inicial
+ */
+export function buildTimeBankLedger(months: DayRecord[][], settings: Settings, ate: string): TimeBankEntry[] {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const bancoHoras = settings.bancoHoras;
+
+    const stored = new Map<string, DayRecord[]>();
+    for (const days of months) {
+        if (days.length === 0) continue;
+        stored.set(toMonthKey(days[0].date.getFullYear(), days[0].date.getMonth()), days);
+    }
+
+    const inicio = bancoHoras.competenciaInicial ?? [...stored.keys()].sort()[0];
+    if (!inicio) return [];
+
+    // Sem o modo banco, o resumo devolve todas as horas extras feitas no mês
+    const semBanco: Settings = { ...settings, bancoHoras: { ...bancoHoras, ativo: false } };
+    const prazo = TIME_BANK_EXPIRY_MONTHS[bancoHoras.acordo];
+
+    let lotes: TimeBankLot[] = [];
+    let negativo = 0;
+    if (bancoHoras.saldoInicialHoras > 0) {
+        const percentual = getWeeklyExcessPercent(settings.horasExtras);
+        lotes.push({
+            competencia: inicio,
+            vencimento: addMonthsToKey(inicio, prazo - 1),
+            horas: {
+                [percentual]: bancoHoras.saldoInicialHoras / (getTimeBankMultiplier(percentual, bancoHoras) || 1),
+            },
+        });
+    } else {
+        negativo = -bancoHoras.saldoInicialHoras;
+    }
+
+    const entries: TimeBankEntry[] = [];
+    for (let key = inicio; key <= ate; key = addMonthsToKey(key, 1)) {
+        const days = stored.get(key);
+
+        // 1. Débitos compensam os lotes mais antigos
+        const debito = days ? calculateTimeBankDebit(days, settings) : 0;
+        let restante = debito;
+        for (const lote of lotes) {
+            restante = consumeLot(lote, restante, bancoHoras);
+        }
+        negativo += restante;
+
+        // 2. Crédito do mês (abate o saldo negativo antes de formar o lote)
+        let credito = 0;
+        if (days) {
+            const resumo = calculateMonthlySummary(days, semBanco);
+            const lote: TimeBankLot = {
+                competencia: key,
+                vencimento: addMonthsToKey(key, prazo - 1),
+                horas: { ...resumo.horasExtras },
+            };
+            credito = getLotHours(lote, bancoHoras);
+            negativo = consumeLot(lote, negativo, bancoHoras);
+            lotes.push(lote);
+        }
+
+        // 3. Vencimento: lotes que completam o prazo neste mês
+        const vencidos = lotes.filter((l) => l.vencimento <= key);
+        lotes = lotes.filter((l) => l.vencimento > key && sumOvertimeHours(l.horas) > 0);
+
+        const saldo = lotes.reduce((sum, l) => sum + getLotHours(l, bancoHoras), 0) - negativo;
+        entries.push({
+            competencia: key,
+            credito: round(credito),
+            debito,
+            horasVencidas: addOvertimeHours(...vencidos.map((l) => l.horas)),
+            saldo: round(saldo),
+            lotes: lotes.map((l) => ({ ...l, horas: roundOvertimeHours(l.horas) })),
+        });
+    }
+
+    return entries;
+}
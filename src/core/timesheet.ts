@@ -0,0 +1,384 @@
+/**
+ * core/timesheet.ts
+ *
+ * Espelho de ponto mensal: documento formal com a jornada de cada dia e o
+ * resumo financeiro do mês, para conferência com o RH.
+ *
+ * REGRAS DE NEGÓCIO:
+ * - Cabeçalho com empregador, trabalhador e jornada contratual
+ * - Cada dia com as marcações e a divisão em horas normais, extras 50%/100% e noturnas
+ * - Totais de cada semana e o resumo financeiro do mês (MonthlySummary)
+ * - Linhas de assinatura do trabalhador e do empregador
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Usa o mesmo resumo do Layout (calculateMonthlySummary); não recalcula valores
+ * - O PDF é gerado por core/pdf.ts; a versão para impressão fica na UI
+ */
+
+import type {
+    DayRecord,
+    EmploymentInfo,
+    MonthlySummary,
+    OvertimeHours,
+    PDFOperation,
+    Settings,
+    TimeSheet,
+    TimeSheetRow,
+} from './types';
+import { calculateDayResults, groupDaysByWeek } from './calculations';
+import { ABSENCE_TYPE_LABELS } from './absences';
+import { CONTRACT_TYPE_LABELS } from './contract';
+import {
+    addOvertimeHours,
+    CLT_OVERTIME_PERCENT,
+    getOvertimeHoursAt,
+    getOvertimePercents,
+    getRestCompensations,
+    isRestDayCompensated,
+} from './overtime';
+import { createPDF, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from './pdf';
+import { getDayPunches, toMonthKey } from './time';
+
+/**
+ * Identificação vazia (nada informado nas configurações).
+ */
+export const EMPTY_EMPLOYMENT_INFO: EmploymentInfo = {
+    nome: '',
+    cargo: '',
+    pisCpf: '',
+    empregador: '',
+    cnpjEmpregador: '',
+};
+
+const MONTH_NAMES = [
+    'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+    'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro',
+];
+
+const WEEKDAY_LABELS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+/**
+ * Situação de um dia em texto (ex.: "Folga / Feriado"; vazio = dia útil comum).
+ *
+ * @param day - Dia a descrever
+ * @param compensacoes - Compensações válidas do mês (ver getRestCompensations)
+ *
+ * @example
+ * describeDayStatus({ ...dia, ehFolga: true }, compensacoes)                 // "Folga"
+ * describeDayStatus({ ...dia, ausencia: { tipo: 'atestado' } }, compensacoes) // "Atestado médico"
+ * // Domingo vinculado à quarta 08/04, dia útil sem marcações:
+ * describeDayStatus(domingo, compensacoes) // "Folga (compensada em 08/04)"
+ */
+export function describeDayStatus(day: DayRecord, compensacoes: Map<string, Date>): string {
+    const partes: string[] = [];
+    if (day.ehFerias) partes.push('Férias');
+    if (day.ehFolga) {
+        partes.push(day.folgaCompensatoria && isRestDayCompensated(day, compensacoes)
+            ? `Folga (compensada em ${day.folgaCompensatoria.split('-').reverse().slice(0, 2).join('/')})`
+            : 'Folga');
+    }
+    if (day.ehFeriado) partes.push(day.feriado?.nome ?? 'Feriado');
+    if (day.ausencia) partes.push(ABSENCE_TYPE_LABELS[day.ausencia.tipo]);
+    if (day.compensacao) partes.push('Compensação');
+    return partes.join(' / ');
+}
+
+/**
+ * Formata horas decimais como HH:mm (vazio para zero).
+ *
+ * @example
+ * formatTimeSheetHours(8.8) // "08:48"
+ * formatTimeSheetHours(0)   // ""
+ */
+export function formatTimeSheetHours(horas: number): string {
+    const minutos = Math.round(horas * 60);
+    if (minutos === 0) return '';
+    return `${String(Math.floor(minutos / 60)).padStart(2, '0')}:${String(minutos % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Marcações de um dia do espelho em texto (com o intervalo quando há um só par).
+ *
+ * @example
+ * formatTimeSheetPunches({ ...linha, marcacoes: [{ entrada: '08:00', saida: '17:00' }], intervaloHoras: 1 })
+ * // "08:00–17:00  (int. 01:00)"
+ */
+export function formatTimeSheetPunches(linha: TimeSheetRow): string {
+    const pares = linha.marcacoes.map((m) => `${m.entrada}–${m.saida}`).join('  ');
+    return linha.marcacoes.length === 1 && linha.intervaloHoras > 0
+        ? `${pares}  (int. ${formatTimeSheetHours(linha.intervaloHoras)})`
+        : pares;
+}
+
+/**
+ * Formata a competência "YYYY-MM" por extenso (ex.: "Março/2026").
+ */
+export function formatTimeSheetPeriod(competencia: string): string {
+    const [year, month] = competencia.split('-').map(Number);
+    return `${MONTH_NAMES[month - 1]}/${year}`;
+}
+
+/**
+ * Monta o espelho de ponto de um mês.
+ *
+ * @param days - Dias do mês (os mesmos exibidos no Layout)
+ * @param settings - Configurações (identificação, escala, horário padrão)
+ * @param resumo - Resumo do mês calculado pelo Layout (calculateMonthlySummary)
+ * @returns Espelho com os dias agrupados por semana
+ *
+ * @example
+ * buildTimeSheet(days, settings, calculateMonthlySummary(days, settings))
+ * // { competencia: "2026-03", semanas: [{ dias: [...], totais: {...} }, ...], ... }
+ *
+ * DECISÃO CONSERVADORA:
+ * - As horas de cada dia não passam pelo limite semanal; o excedente da semana
+ *   aparece nos totais da semana, como no Layout
+ * - Sem horas extras no mês, mantém a coluna de 50% (zerada)
+ */
+export function buildTimeSheet(days: DayRecord[], settings: Settings, resumo: MonthlySummary): TimeSheet {
+    const resultados = calculateDayResults(days, settings);
+    const compensacoes = getRestCompensations(days);
+    const first = days[0]?.date ?? new Date();
+
+    let index = 0;
+    const semanas = groupDaysByWeek(days).map((week, wIndex) => ({
+        dias: week.map((day): TimeSheetRow => ({
+            data: day.date,
+            marcacoes: getDayPunches(day),
+            intervaloHoras: day.intervaloHoras,
+            situacao: describeDayStatus(day, compensacoes),
+            resultado: resultados[index++],
+        })),
+        totais: resumo.semanas[wIndex] ?? null,
+    }));
+    const percentuais = getOvertimePercents(addOvertimeHours(resumo.horasExtras, ...resultados.map((r) => r.horasExtras)));
+
+    return {
+        competencia: toMonthKey(first.getFullYear(), first.getMonth()),
+        identificacao: settings.identificacao,
+        jornada: `Escala ${settings.escala.tipo} · ${settings.horaEntradaPadrao}–${settings.horaSaidaPadrao}`
+            + ` · intervalo ${String(settings.intervaloPadraoHoras).replace('.', ',')}h`
+            + ` · ${String(settings.cargaHoraria.horasSemanais).replace('.', ',')}h semanais`
+            + (settings.contrato.tipo !== 'integral' ? ` · ${CONTRACT_TYPE_LABELS[settings.contrato.tipo]}` : ''),
+        semanas,
+        percentuaisExtras: percentuais.length > 0 ? percentuais : [CLT_OVERTIME_PERCENT],
+        resumo,
+    };
+}
+
+/**
+ * Itens do resumo financeiro do espelho (rótulo e valor já formatado).
+ */
+export function getTimeSheetTotals(resumo: MonthlySummary): [string, string][] {
+    const moeda = (value: number) => value.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' });
+    const horas = (value: number) => formatTimeSheetHours(value) || '00:00';
+    const percentuais = getOvertimePercents(resumo.horasExtras);
+
+    const itens: [string, string][] = [
+        ['Horas normais', horas(resumo.horasNormais)],
+        ...(percentuais.length > 0 ? percentuais : [CLT_OVERTIME_PERCENT]).map((percentual): [string, string] => [
+            `Horas extras ${percentual}%`,
+            horas(getOvertimeHoursAt(resumo.horasExtras, percentual)),
+        ]),
+        ['Horas noturnas', horas(resumo.horasNoturnas)],
+        ['Salário base', moeda(resumo.salarioBase)],
+        ['Adicional noturno', moeda(resumo.adicionalNoturno)],
+        ['DSR', moeda(resumo.dsrTotal)],
+    ];
+    if (resumo.valorFerias > 0) itens.push(['Férias (com 1/3)', moeda(resumo.valorFerias)]);
+    if (resumo.valorAbonoFerias > 0) itens.push(['Abono pecuniário', moeda(resumo.valorAbonoFerias)]);
+    if (resumo.convocacoes) {
+        itens.push([`Férias + 1/3 e 13º (${resumo.convocacoes.length} convocação(ões))`, moeda(resumo.valorVerbasConvocacoes)]);
+    }
+    if (resumo.descontoFaltas + resumo.descontoDSRFaltas > 0) {
+        itens.push([`Faltas (${resumo.diasFaltas} dia(s)) e DSR`, `- ${moeda(resumo.descontoFaltas + resumo.descontoDSRFaltas)}`]);
+    }
+    if (resumo.descontoAtrasos > 0) itens.push([`Atrasos (${resumo.minutosAtraso} min)`, `- ${moeda(resumo.descontoAtrasos)}`]);
+    if (resumo.bancoHoras) itens.push(['Saldo do banco de horas', `${String(resumo.bancoHoras.saldo).replace('.', ',')}h`]);
+    itens.push(
+        ['Salário bruto', moeda(resumo.valorBruto)],
+        ['INSS', `- ${moeda(resumo.descontoINSS)}`],
+        ['IRRF', `- ${moeda(resumo.descontoIRRF)}`],
+        ['Salário líquido', moeda(resumo.valorLiquido)],
+        ['FGTS (depósito do empregador)', moeda(resumo.depositoFGTS)],
+    );
+    return itens;
+}
+
+/**
+ * Margem da página PDF em pontos.
+ */
+const MARGIN = 40;
+
+/**
+ * Colunas fixas da tabela de dias no PDF: rótulo e posição x.
+ */
+const PDF_COLUMNS: [string, number][] = [
+    ['Dia', MARGIN],
+    ['Marcações', 98],
+    ['Situação', 272],
+    ['Normais', 392],
+];
+
+/**
+ * Faixa horizontal das colunas de horas extras e posição da coluna de noturnas.
+ */
+const PDF_EXTRA_START = 436;
+const PDF_NIGHT_COLUMN = 526;
+
+/**
+ * Posição x e rótulo da coluna de cada percentual de hora extra no PDF.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Com mais de dois percentuais as colunas ficam estreitas e o rótulo vira só "N%"
+ */
+function getPDFExtraColumns(percentuais: number[]): [string, number][] {
+    const largura = (PDF_NIGHT_COLUMN - PDF_EXTRA_START) / Math.max(2, percentuais.length);
+    return percentuais.map((percentual, i) => [
+        percentuais.length > 2 ? `${percentual}%` : `Extra ${percentual}%`,
+        PDF_EXTRA_START + i * largura,
+    ]);
+}
+
+/**
+ * Gera o espelho de ponto em PDF.
+ *
+ * LÓGICA:
+ * 1. Cabeçalho: título, competência, empregador, trabalhador e jornada
+ * 2. Tabela de dias (cabeçalho repetido a cada página) com o total de cada semana
+ * 3. Resumo financeiro em duas colunas
+ * 4. Declaração, local/data e assinaturas; numeração das páginas
+ *
+ * @param espelho - Espelho montado por buildTimeSheet
+ * @returns Bytes do PDF
+ *
+ * DECISÃO CONSERVADORA:
+ * - Textos longos (marcações, situação) são cortados para caber na coluna
+ */
+export function renderTimeSheetPDF(espelho: TimeSheet): Uint8Array<ArrayBuffer> {
+    const paginas: PDFOperation[][] = [];
+    let pagina: PDFOperation[] = [];
+    let y = MARGIN;
+    const direita = PDF_PAGE_WIDTH - MARGIN;
+    const limite = PDF_PAGE_HEIGHT - MARGIN - 20;
+
+    const texto = (x: number, conteudo: string, tamanho = 8, negrito = false) =>
+        pagina.push({ tipo: 'texto', x, y, texto: conteudo, tamanho, negrito });
+    const linha = () => pagina.push({ tipo: 'linha', x1: MARGIN, y1: y, x2: direita, y2: y });
+    const cortar = (conteudo: string, max: number) =>
+        conteudo.length > max ? `${conteudo.slice(0, max - 1)}…` : conteudo;
+    const colunasExtras = getPDFExtraColumns(espelho.percentuaisExtras);
+    const extras = (horas: OvertimeHours, negrito = false) => espelho.percentuaisExtras.forEach((percentual, i) =>
+        texto(colunasExtras[i][1], formatTimeSheetHours(getOvertimeHoursAt(horas, percentual)), 8, negrito));
+
+    const cabecalhoTabela = () => {
+        y += 12;
+        [...PDF_COLUMNS, ...colunasExtras, ['Noturnas', PDF_NIGHT_COLUMN] as [string, number]]
+            .forEach(([rotulo, x]) => texto(x, rotulo, 8, true));
+        y += 4;
+        linha();
+    };
+    const novaPagina = (comTabela: boolean) => {
+        pagina = [];
+        paginas.push(pagina);
+        y = MARGIN;
+        if (comTabela) cabecalhoTabela();
+    };
+    const reservar = (altura: number, comTabela = false) => {
+        if (y + altura > limite) novaPagina(comTabela);
+    };
+
+    // 1. Cabeçalho
+    const id = espelho.identificacao;
+    novaPagina(false);
+    y += 14;
+    texto(MARGIN, 'ESPELHO DE PONTO', 14, true);
+    texto(400, `Competência: ${formatTimeSheetPeriod(espelho.competencia)}`, 10, true);
+    y += 8;
+    linha();
+    y += 14;
+    texto(MARGIN, `Empregador: ${id.empregador || '—'}`, 9);
+    texto(400, `CNPJ/CPF: ${id.cnpjEmpregador || '—'}`, 9);
+    y += 13;
+    texto(MARGIN, `Empregado(a): ${id.nome || '—'}`, 9);
+    texto(400, `PIS/CPF: ${id.pisCpf || '—'}`, 9);
+    y += 13;
+    texto(MARGIN, `Cargo: ${id.cargo || '—'}`, 9);
+    y += 13;
+    texto(MARGIN, `Jornada: ${espelho.jornada}`, 9);
+    y += 8;
+    linha();
+
+    // 2. Dias e totais semanais
+    cabecalhoTabela();
+    espelho.semanas.forEach((semana, wIndex) => {
+        for (const dia of semana.dias) {
+            reservar(11, true);
+            y += 11;
+            const r = dia.resultado;
+            texto(PDF_COLUMNS[0][1], `${String(dia.data.getDate()).padStart(2, '0')} ${WEEKDAY_LABELS[dia.data.getDay()]}`);
+            texto(PDF_COLUMNS[1][1], cortar(formatTimeSheetPunches(dia), 40));
+            texto(PDF_COLUMNS[2][1], cortar(dia.situacao, 26));
+            texto(PDF_COLUMNS[3][1], formatTimeSheetHours(r.horasNormais));
+            extras(r.horasExtras);
+            texto(PDF_NIGHT_COLUMN, formatTimeSheetHours(r.horasNoturnas));
+        }
+
+        if (semana.totais) {
+            const t = semana.totais;
+            reservar(14, true);
+            y += 3;
+            linha();
+            y += 10;
+            let resumoSemana = `Semana ${wIndex + 1}: ${formatTimeSheetHours(t.totalHoras) || '00:00'} trabalhadas`;
+            if (t.horasExtraLimiteSemanal > 0) {
+                resumoSemana += ` · ${formatTimeSheetHours(t.horasExtraLimiteSemanal)} acima de ${t.limiteSemanalHoras}h/semana`;
+            }
+            if (t.dsr > 0) resumoSemana += ` · DSR ${t.dsr.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' })}`;
+            texto(MARGIN, resumoSemana, 8, true);
+            texto(PDF_COLUMNS[3][1], formatTimeSheetHours(t.horasNormais), 8, true);
+            extras(t.horasExtras, true);
+        }
+    });
+
+    // 3. Resumo financeiro (duas colunas)
+    const totais = getTimeSheetTotals(espelho.resumo);
+    const linhasResumo = Math.ceil(totais.length / 2);
+    reservar(30 + linhasResumo * 12);
+    y += 8;
+    linha();
+    y += 16;
+    texto(MARGIN, 'RESUMO DO MÊS', 10, true);
+    const topo = y;
+    totais.forEach(([rotulo, valor], i) => {
+        const coluna = i < linhasResumo ? 0 : 1;
+        y = topo + ((i % linhasResumo) + 1) * 12;
+        texto(MARGIN + coluna * 280, rotulo, 8);
+        texto(MARGIN + coluna * 280 + 170, valor, 8, true);
+    });
+    y = topo + linhasResumo * 12;
+
+    // 4. Declaração e assinaturas
+    reservar(100);
+    y += 24;
+    texto(MARGIN, 'Declaro que as marcações acima correspondem à jornada efetivamente trabalhada no período.', 8);
+    y += 18;
+    texto(MARGIN, 'Local e data: ______________________________________', 8);
+    y += 42;
+    pagina.push({ tipo: 'linha', x1: MARGIN, y1: y, x2: MARGIN + 220, y2: y });
+    pagina.push({ tipo: 'linha', x1: direita - 220, y1: y, x2: direita, y2: y });
+    y += 11;
+    texto(MARGIN, `Empregado(a)${id.nome ? `: ${id.nome}` : ''}`, 8);
+    texto(direita - 220, `Empregador${id.empregador ? `: ${id.empregador}` : ''}`, 8);
+
+    paginas.forEach((ops, i) => ops.push({
+        tipo: 'texto',
+        x: direita - 60,
+        y: PDF_PAGE_HEIGHT - 24,
+        texto: `Página ${i + 1} de ${paginas.length}`,
+        tamanho: 7,
+    }));
+
+    return createPDF(paginas);
+}
@@ -10,7 +10,7 @@
  * 
  * CONTEXTO:
  * - Aplicativo pessoal para controle de jornada CLT
- * - Escala 6x1 (6 dias de trabalho, 1 dia de folga)
+ * - Escalas 6x1, 5x2, 4x2, 12x36 ou padrão personalizado
  * - Cálculos envolvem direitos trabalhistas e valores financeiros
  */
 
@@ -28,168 +28,1950 @@ export type WeekDay =
   | 'domingo';
 
 /**
- * Configurações globais do trabalhador.
- * Define os parâmetros base para todos os cálculos.
+ * Tipos de escala suportados.
+ * - '6x1': 6 dias de trabalho, 1 de folga (folga fixa na semana)
+ * - '5x2': 5 dias de trabalho, 2 de folga (folgas fixas na semana)
+ * - '4x2': 4 dias de trabalho, 2 de folga (ciclo de 6 dias, folga "anda" na semana)
+ * - '12x36': 12 horas de trabalho, 36 de descanso (dia sim, dia não)
+ * - 'personalizada': padrão trabalho/folga livre (ex: 6x1 com folga rotativa)
  */
-export type Settings = {
+export type ScaleType = '6x1' | '5x2' | '4x2' | '12x36' | 'personalizada';
+
+/**
+ * Modelo de escala de trabalho baseado em ciclo.
+ * O dia D é de trabalho se padrao[(D - dataAncora) mod padrao.length] for true.
+ */
+export type WorkScale = {
   /**
-   * Salário mensal bruto em reais (R$).
+   * Tipo de escala (define o padrão pré-configurado).
    */
-  salarioMensal: number;
+  tipo: ScaleType;
 
   /**
-   * Horário de entrada padrão no formato HH:mm (ex: "08:00").
+   * Sequência de dias do ciclo: true = trabalho, false = folga.
+   * O tamanho do array é a duração do ciclo em dias.
    */
-  horaEntradaPadrao: string;
+  padrao: boolean[];
 
   /**
-   * Horário de saída padrão no formato HH:mm (ex: "17:00").
+   * Data de início do ciclo no formato "YYYY-MM-DD".
+   * Corresponde ao índice 0 de `padrao`.
    */
-  horaSaidaPadrao: string;
+  dataAncora: string;
 
   /**
-   * Duração do intervalo intrajornada em horas (ex: 1 para 1 hora).
+   * Jornada diária padrão em horas para os dias de trabalho (opcional).
+   * Se ausente, é derivada da carga semanal (padrão 44h) distribuída pelos dias de trabalho.
    */
-  intervaloPadraoHoras: number;
+  jornadaDiariaHoras?: number;
+};
 
+/**
+ * Carga horária contratual (art. 7º, XIII, CF/88; art. 64 CLT).
+ */
+export type ContractHours = {
   /**
-   * Dia da semana que é folga padrão na escala 6x1.
+   * Horas semanais do contrato (ex.: 44, 40, 36, 30).
+   * Limite semanal das horas normais e base da jornada diária da escala.
    */
-  folgaPadrao: WeekDay;
+  horasSemanais: number;
 
   /**
-   * Tipo de escala de trabalho.
-   * Atualmente suporta apenas '6x1'.
+   * Divisor mensal do salário-hora (ex.: 220 para 44h, 200 para 40h, 180 para 36h,
+   * 150 para 30h; ou outro valor previsto em CCT).
    */
-  escala: '6x1';
+  divisor: number;
 };
 
 /**
- * Representa o registro de um único dia do mês.
- * Contém os dados brutos de entrada/saída e classificações do dia.
+ * Modalidade do contrato de trabalho.
+ *
+ * - integral: jornada de até 8h diárias e 44h semanais (art. 58 CLT)
+ * - parcial: tempo parcial (art. 58-A CLT), ver PartTimeMode
+ * - intermitente: trabalho por convocação, pago por hora (art. 452-A CLT)
  */
-export type DayRecord = {
+export type ContractType = 'integral' | 'parcial' | 'intermitente';
+
+/**
+ * Modalidade do tempo parcial (art. 58-A CLT).
+ *
+ * - 30h: até 30h semanais, sem horas extras
+ * - 26h: até 26h semanais, com até 6 horas extras por semana
+ */
+export type PartTimeMode = '30h' | '26h';
+
+/**
+ * Convocação do trabalho intermitente (art. 452-A CLT): período de prestação
+ * de serviço aceito pelo trabalhador.
+ */
+export type IntermittentCall = {
   /**
-   * Data do dia (ano, mês, dia).
+   * Primeiro dia da convocação no formato "YYYY-MM-DD".
    */
-  date: Date;
+  inicio: string;
 
   /**
-   * Horário de entrada no formato HH:mm (ex: "08:15").
-   * Pode ser vazio se for folga ou feriado.
+   * Último dia da convocação no formato "YYYY-MM-DD" (inclusive).
    */
-  entrada: string;
+  fim: string;
 
   /**
-   * Horário de saída no formato HH:mm (ex: "17:30").
-   * Pode ser vazio se for folga ou feriado.
+   * Descrição do serviço (ex.: "Evento de fim de ano"); pode ser vazia.
    */
-  saida: string;
+  descricao: string;
+};
+
+/**
+ * Modalidade do contrato e dados próprios do tempo parcial e do intermitente.
+ */
+export type ContractSettings = {
+  tipo: ContractType;
 
   /**
-   * Duração do intervalo intrajornada em horas (ex: 1.0).
-   * Descontado do total de horas trabalhadas.
+   * Modalidade do tempo parcial (usada apenas quando tipo = 'parcial').
    */
-  intervaloHoras: number;
+  modalidadeParcial: PartTimeMode;
 
   /**
-   * Indica se o dia é folga semanal (ex: domingo na escala 6x1).
+   * Salário-hora do intermitente em reais (R$), não inferior ao valor horário
+   * do salário mínimo (usado apenas quando tipo = 'intermitente').
    */
-  ehFolga: boolean;
+  valorHora: number;
 
   /**
-   * Indica se o dia é feriado nacional/municipal.
-   * Feriados têm regras especiais de cálculo.
+   * Convocações do intermitente, em qualquer ordem.
    */
-  ehFeriado: boolean;
+  convocacoes: IntermittentCall[];
 };
 
 /**
- * Resultado do cálculo de horas trabalhadas em um único dia.
- * Separa horas normais de horas extras com diferentes percentuais.
+ * Pagamento de uma convocação do intermitente no mês (art. 452-A §6º CLT).
  */
-export type DailyHoursResult = {
+export type IntermittentCallPay = {
+  convocacao: IntermittentCall;
+
   /**
-   * Horas trabalhadas dentro da jornada normal (até 8h/dia ou 44h/semana).
+   * Primeiro dia da convocação dentro do mês.
+   */
+  inicio: Date;
+
+  /**
+   * Último dia da convocação dentro do mês.
+   */
+  fim: Date;
+
+  /**
+   * Horas normais trabalhadas na convocação.
    */
   horasNormais: number;
 
   /**
-   * Horas extras com adicional de 50%.
-   * Geralmente as duas primeiras horas extras do dia.
+   * Horas extras trabalhadas na convocação, por percentual.
+   */
+  horasExtras: OvertimeHours;
+
+  /**
+   * Remuneração das horas em reais (R$): normais + extras + adicional noturno.
+   */
+  remuneracao: number;
+
+  /**
+   * Repouso semanal remunerado sobre a remuneração em reais (R$).
+   */
+  dsr: number;
+
+  /**
+   * Férias proporcionais em reais (R$): 1/12 da remuneração com DSR.
+   */
+  ferias: number;
+
+  /**
+   * 1/3 constitucional sobre as férias proporcionais em reais (R$).
+   */
+  tercoFerias: number;
+
+  /**
+   * 13º proporcional em reais (R$): 1/12 da remuneração com DSR.
    */
-  horasExtra50: number;
+  decimoTerceiro: number;
 
   /**
-   * Horas extras com adicional de 100%.
-   * Geralmente após as duas primeiras horas extras, ou em domingos/feriados.
+   * Total pago ao fim da convocação em reais (R$).
    */
-  horasExtra100: number;
+  total: number;
 };
 
 /**
- * Resumo consolidado de uma semana de trabalho.
- * Usado para cálculo do DSR (Descanso Semanal Remunerado).
+ * Regras do adicional noturno (art. 73 CLT ou CCT).
  */
-export type WeeklySummary = {
+export type NightShiftRules = {
   /**
-   * Total de horas trabalhadas na semana (incluindo extras).
+   * Percentual do adicional (ex: 0.2 para 20%).
    */
-  totalHoras: number;
+  percentual: number;
 
   /**
-   * Total de horas extras com adicional de 50% na semana.
+   * Início da janela noturna no formato HH:mm (ex: "22:00").
    */
-  horasExtra50: number;
+  inicio: string;
 
   /**
-   * Valor proporcional do DSR desta semana em reais (R$).
-   * Calculado sobre as horas extras trabalhadas.
+   * Fim da janela noturna no formato HH:mm (ex: "05:00").
    */
-  dsr: number;
+  fim: string;
+
+  /**
+   * Se a hora noturna é reduzida (52m30s). Urbano: true, rural: false.
+   */
+  horaReduzida: boolean;
+
+  /**
+   * Se as horas após o fim da janela também são noturnas quando a janela
+   * inteira foi trabalhada (Súmula 60, II TST).
+   */
+  prorrogacao: boolean;
 };
 
 /**
- * Resumo consolidado de um mês completo de trabalho.
- * Contém todos os totalizadores e valores financeiros.
+ * Configuração do IRRF do trabalhador.
  */
-export type MonthlySummary = {
+export type IRRFSettings = {
   /**
-   * Total de horas normais trabalhadas no mês.
+   * Número de dependentes para dedução do IRRF.
    */
-  horasNormais: number;
+  dependentes: number;
 
   /**
-   * Total de horas extras com adicional de 50% no mês.
+   * Se pode usar o desconto simplificado mensal no lugar das deduções legais
+   * (aplicado apenas quando for mais vantajoso).
    */
-  horasExtra50: number;
+  descontoSimplificado: boolean;
+};
 
+/**
+ * Faixa da tabela progressiva do IRRF.
+ */
+export type IRRFBracket = {
   /**
-   * Total de horas extras com adicional de 100% no mês.
+   * Limite superior da faixa em reais (null = sem limite).
    */
-  horasExtra100: number;
+  ate: number | null;
 
   /**
-   * Valor total do DSR (Descanso Semanal Remunerado) em reais (R$).
-   * Soma dos DSRs de todas as semanas do mês.
+   * Alíquota da faixa (ex: 0.075 para 7,5%).
    */
-  dsrTotal: number;
+  aliquota: number;
 
   /**
-   * Valor bruto total do mês em reais (R$).
-   * Inclui salário base + horas extras + DSR.
+   * Parcela a deduzir do imposto em reais.
    */
-  valorBruto: number;
+  deducao: number;
+};
 
+/**
+ * Tabela do IRRF mensal.
+ */
+export type IRRFTable = {
   /**
-   * Valor descontado de INSS em reais (R$).
-   * Calculado sobre o valor bruto conforme tabela vigente.
+   * Faixas progressivas, em ordem crescente.
    */
-  descontoINSS: number;
+  faixas: IRRFBracket[];
 
   /**
-   * Valor líquido a receber em reais (R$).
-   * Calculado como: valorBruto - descontoINSS.
+   * Dedução mensal por dependente em reais.
    */
-  valorLiquido: number;
+  deducaoDependente: number;
+
+  /**
+   * Valor do desconto simplificado mensal em reais.
+   */
+  descontoSimplificado: number;
+
+  /**
+   * Redução do imposto para rendimentos até certo limite (Lei 15.270/25), se vigente.
+   * Até limiteIsencao: redução = reducaoMaxima (zera o imposto).
+   * Até limiteReducao: redução = constante - coeficiente × rendimentos.
+   */
+  reducao?: {
+    limiteIsencao: number;
+    reducaoMaxima: number;
+    limiteReducao: number;
+    constante: number;
+    coeficiente: number;
+  };
+};
+
+/**
+ * Faixa da tabela progressiva do INSS.
+ */
+export type INSSBracket = {
+  /**
+   * Limite superior da faixa em reais (a última faixa é o teto).
+   */
+  ate: number;
+
+  /**
+   * Alíquota da faixa (ex: 0.075 para 7,5%).
+   */
+  aliquota: number;
+};
+
+/**
+ * Tabela do INSS do empregado.
+ */
+export type INSSTable = {
+  /**
+   * Faixas progressivas, em ordem crescente.
+   */
+  faixas: INSSBracket[];
+};
+
+/**
+ * Tabela do salário-família.
+ */
+export type SalarioFamiliaTable = {
+  /**
+   * Remuneração máxima para ter direito, em reais.
+   */
+  limiteRemuneracao: number;
+
+  /**
+   * Valor da cota por filho, em reais.
+   */
+  valorPorFilho: number;
+};
+
+/**
+ * Uma versão de tabela com a competência a partir da qual vale.
+ */
+export type TableVersion<T> = {
+  /**
+   * Competência de início da vigência no formato YYYY-MM (ex: "2026-01").
+   */
+  vigencia: string;
+
+  /**
+   * Conteúdo da tabela.
+   */
+  tabela: T;
+};
+
+/**
+ * Registro de tabelas versionadas por vigência.
+ */
+export type TaxTableRegistry = {
+  inss: TableVersion<INSSTable>[];
+  irrf: TableVersion<IRRFTable>[];
+  salarioMinimo: TableVersion<number>[];
+  salarioFamilia: TableVersion<SalarioFamiliaTable>[];
+};
+
+/**
+ * Tabelas em vigor em uma competência (resolvidas a partir do registro).
+ */
+export type TaxTables = {
+  /**
+   * Competência no formato YYYY-MM.
+   */
+  competencia: string;
+  inss: INSSTable;
+  irrf: IRRFTable;
+  salarioMinimo: number;
+  salarioFamilia: SalarioFamiliaTable;
+
+  /**
+   * Vigência (YYYY-MM) de cada tabela usada, para exibição e auditoria.
+   */
+  vigencias: Record<keyof TaxTableRegistry, string>;
+};
+
+/**
+ * Período de férias gozado (ou programado).
+ */
+export type VacationPeriod = {
+  /**
+   * Primeiro dia de férias no formato YYYY-MM-DD.
+   */
+  inicio: string;
+
+  /**
+   * Dias corridos de gozo (ex: 30, ou 20 com abono pecuniário).
+   */
+  dias: number;
+
+  /**
+   * Se vende 1/3 das férias (abono pecuniário, art. 143 CLT).
+   */
+  abonoPecuniario: boolean;
+
+  /**
+   * Média mensal de horas extras no período aquisitivo, por percentual.
+   */
+  mediaHorasExtras: OvertimeHours;
+};
+
+/**
+ * Configuração de férias do trabalhador.
+ */
+export type VacationSettings = {
+  /**
+   * Data de admissão no formato YYYY-MM-DD (base dos períodos aquisitivos).
+   */
+  dataAdmissao: string | null;
+
+  /**
+   * Férias gozadas ou programadas, em qualquer ordem.
+   */
+  periodos: VacationPeriod[];
+};
+
+/**
+ * Situação de um período aquisitivo de férias.
+ */
+export type AcquisitionStatus = 'em-aquisicao' | 'a-gozar' | 'vencido' | 'quitado';
+
+/**
+ * Período aquisitivo (12 meses de trabalho) e seu período concessivo (12 meses seguintes).
+ */
+export type AcquisitionPeriod = {
+  /**
+   * Número do período (1 = primeiro ano de contrato).
+   */
+  numero: number;
+
+  /**
+   * Início do período aquisitivo.
+   */
+  inicio: Date;
+
+  /**
+   * Fim do período aquisitivo.
+   */
+  fim: Date;
+
+  /**
+   * Último dia do período concessivo (prazo para conceder as férias).
+   */
+  limiteConcessao: Date;
+
+  /**
+   * Dias de férias a que tem direito (30, salvo faltas).
+   */
+  diasDireito: number;
+
+  /**
+   * Dias já gozados ou programados.
+   */
+  diasGozados: number;
+
+  /**
+   * Dias convertidos em abono pecuniário.
+   */
+  diasAbono: number;
+
+  /**
+   * Dias ainda disponíveis.
+   */
+  saldo: number;
+
+  situacao: AcquisitionStatus;
+};
+
+/**
+ * Valores de um período de férias (recibo de férias).
+ */
+export type VacationPay = {
+  diasGozo: number;
+  diasAbono: number;
+
+  /**
+   * Remuneração mensal usada: salário + média das horas extras.
+   */
+  remuneracaoBase: number;
+
+  /**
+   * Valor da média de horas extras incluída na remuneração.
+   */
+  mediaHorasExtras: number;
+
+  valorFerias: number;
+  tercoConstitucional: number;
+  valorAbono: number;
+  tercoAbono: number;
+  bruto: number;
+
+  /**
+   * INSS e IRRF incidem sobre férias + 1/3 (o abono é isento).
+   */
+  inss: number;
+  irrf: number;
+  liquido: number;
 };
+
+/**
+ * Configurações globais do trabalhador.
+ * Define os parâmetros base para todos os cálculos.
+ */
+export type Settings = {
+  /**
+   * Salário mensal bruto em reais (R$).
+   */
+  salarioMensal: number;
+
+  /**
+   * Horário de entrada padrão no formato HH:mm (ex: "08:00").
+   */
+  horaEntradaPadrao: string;
+
+  /**
+   * Horário de saída padrão no formato HH:mm (ex: "17:00").
+   */
+  horaSaidaPadrao: string;
+
+  /**
+   * Duração do intervalo intrajornada em horas (ex: 1 para 1 hora).
+   */
+  intervaloPadraoHoras: number;
+
+  /**
+   * Dia da semana que é folga padrão nas escalas semanais (6x1 e 5x2).
+   * Na 5x2, a segunda folga é o dia anterior a este.
+   */
+  folgaPadrao: WeekDay;
+
+  /**
+   * Escala de trabalho (ciclo trabalho/folga e jornada diária).
+   */
+  escala: WorkScale;
+
+  /**
+   * Carga horária semanal contratual e divisor do salário-hora.
+   */
+  cargaHoraria: ContractHours;
+
+  /**
+   * Modalidade do contrato (integral, tempo parcial ou intermitente).
+   */
+  contrato: ContractSettings;
+
+  /**
+   * Regras do adicional noturno (percentual, janela e hora reduzida).
+   */
+  adicionalNoturno: NightShiftRules;
+
+  /**
+   * Calendários de feriados (UF, município e feriados extras).
+   */
+  feriados: HolidaySettings;
+
+  /**
+   * Dependentes e desconto simplificado do IRRF.
+   */
+  irrf: IRRFSettings;
+
+  /**
+   * Tabelas adicionadas pelo usuário (somam-se às embutidas e têm prioridade
+   * na mesma vigência).
+   */
+  tabelas: TaxTableRegistry;
+
+  /**
+   * Data de admissão e períodos de férias.
+   */
+  ferias: VacationSettings;
+
+  /**
+   * FGTS: saldo inicial, TR e opção pelo saque-aniversário.
+   */
+  fgts: FGTSSettings;
+
+  /**
+   * Banco de horas: compensação das horas extras em vez do pagamento.
+   */
+  bancoHoras: TimeBankSettings;
+
+  /**
+   * Identificação do trabalhador e do empregador (espelho de ponto e importação do AFD).
+   */
+  identificacao: EmploymentInfo;
+
+  /**
+   * DSR sobre horas extras: fórmula e variações de convenção coletiva.
+   */
+  dsr: DSRSettings;
+
+  /**
+   * Percentuais das horas extras (faixas, dia da semana, folga e feriado).
+   */
+  horasExtras: OvertimeRules;
+};
+
+/**
+ * Fórmula do DSR sobre horas extras.
+ *
+ * - legal: Lei 605/49 – (valor das extras ÷ dias úteis) × (domingos + feriados),
+ *   contados pelo calendário do mês
+ * - aproximado: folgas da escala e feriados como repouso, demais dias como úteis
+ */
+export type DSRMethod = 'legal' | 'aproximado';
+
+/**
+ * Configuração do DSR sobre horas extras.
+ */
+export type DSRSettings = {
+  metodo: DSRMethod;
+
+  /**
+   * Sábados contam como repouso em vez de dia útil (variação de CCT; só no modo legal).
+   */
+  sabadoRepouso: boolean;
+
+  /**
+   * Adicional noturno habitual entra na base do DSR (variação de CCT; só no modo legal).
+   */
+  incluirAdicionalNoturno: boolean;
+};
+
+/**
+ * Memória de cálculo do DSR do mês (exibida no resumo).
+ */
+export type DSRBreakdown = {
+  metodo: DSRMethod;
+
+  /**
+   * Base do DSR em reais (R$): horas extras pagas no mês e, se configurado, adicional noturno.
+   */
+  base: number;
+
+  /**
+   * Dias úteis do mês (divisor); dias de férias não entram.
+   */
+  diasUteis: number;
+
+  /**
+   * Dias de repouso do mês (multiplicador); dias de férias não entram.
+   */
+  diasRepouso: number;
+};
+
+/**
+ * Identificação do trabalhador e do empregador (campos vazios = não informados).
+ */
+export type EmploymentInfo = {
+  /**
+   * Nome do trabalhador.
+   */
+  nome: string;
+
+  cargo: string;
+
+  /**
+   * PIS ou CPF do trabalhador (filtra as marcações na importação do AFD).
+   */
+  pisCpf: string;
+
+  /**
+   * Razão social do empregador.
+   */
+  empregador: string;
+
+  /**
+   * CNPJ ou CPF do empregador.
+   */
+  cnpjEmpregador: string;
+};
+
+/**
+ * Abrangência de um feriado.
+ * - 'facultativo': ponto facultativo (não gera 100% automaticamente)
+ */
+export type HolidayType = 'nacional' | 'estadual' | 'municipal' | 'facultativo';
+
+/**
+ * Feriado (ou ponto facultativo) em uma data específica.
+ */
+export type Holiday = {
+  /**
+   * Data do feriado.
+   */
+  date: Date;
+
+  /**
+   * Nome do feriado (ex: "Tiradentes").
+   */
+  nome: string;
+
+  /**
+   * Abrangência do feriado.
+   */
+  tipo: HolidayType;
+
+  /**
+   * Se vale apenas meio período (ex: Quarta-feira de Cinzas até 14h).
+   */
+  meioPeriodo?: boolean;
+};
+
+/**
+ * Identificação de feriado gravada no dia (sem a data, que já está no DayRecord).
+ */
+export type HolidayInfo = Omit<Holiday, 'date'>;
+
+/**
+ * Regra de um feriado recorrente em um calendário.
+ * - Data fixa: mes (0-11) e dia
+ * - Móvel: diasAposPascoa (negativo = antes da Páscoa)
+ */
+export type HolidayRule = HolidayInfo & (
+  | { mes: number; dia: number }
+  | { diasAposPascoa: number }
+);
+
+/**
+ * Calendário de feriados de uma abrangência (país, UF ou município).
+ */
+export type HolidayCalendar = {
+  /**
+   * Identificador único (ex: "BR", "RJ", "RJ-marica").
+   */
+  id: string;
+
+  /**
+   * Nome para exibição (ex: "Maricá").
+   */
+  nome: string;
+
+  /**
+   * UF do calendário (ausente no calendário nacional).
+   */
+  uf?: string;
+
+  /**
+   * Feriados e pontos facultativos do calendário.
+   */
+  regras: HolidayRule[];
+};
+
+/**
+ * Feriado ou ponto facultativo cadastrado pelo usuário.
+ */
+export type CustomHoliday = {
+  /**
+   * Data no formato "YYYY-MM-DD".
+   */
+  data: string;
+
+  /**
+   * Nome do feriado (ex: "Aniversário da empresa").
+   */
+  nome: string;
+
+  /**
+   * Abrangência ('facultativo' para ponto facultativo).
+   */
+  tipo: HolidayType;
+
+  /**
+   * Se repete todo ano no mesmo dia/mês (ignora o ano de `data`).
+   */
+  anual: boolean;
+};
+
+/**
+ * Seleção de calendários de feriados do trabalhador.
+ */
+export type HolidaySettings = {
+  /**
+   * UF do calendário estadual (ex: "RJ"), ou null para apenas feriados nacionais.
+   */
+  uf: string | null;
+
+  /**
+   * Id do calendário municipal (ex: "RJ-marica"), ou null.
+   */
+  municipio: string | null;
+
+  /**
+   * Feriados e pontos facultativos extras cadastrados pelo usuário.
+   */
+  extras: CustomHoliday[];
+
+  /**
+   * Se pontos facultativos devem ser tratados como feriado (ex: órgão público).
+   */
+  facultativosComoFeriado: boolean;
+};
+
+/**
+ * Representa o registro de um único dia do mês.
+ * Contém os dados brutos de entrada/saída e classificações do dia.
+ */
+export type DayRecord = {
+  /**
+   * Data do dia (ano, mês, dia).
+   */
+  date: Date;
+
+  /**
+   * Horário de entrada no formato HH:mm (ex: "08:15").
+   * Pode ser vazio se for folga ou feriado.
+   */
+  entrada: string;
+
+  /**
+   * Horário de saída no formato HH:mm (ex: "17:30").
+   * Pode ser vazio se for folga ou feriado.
+   */
+  saida: string;
+
+  /**
+   * Duração do intervalo intrajornada em horas (ex: 1.0).
+   * Descontado do total de horas trabalhadas.
+   * Com marcações, é só o intervalo não registrado (normalmente 0).
+   */
+  intervaloHoras: number;
+
+  /**
+   * Marcações do relógio de ponto em pares entrada/saída (opcional).
+   * Quando informadas, substituem o par entrada/saída no cálculo e os
+   * intervalos reais são as lacunas entre os pares; entrada e saida guardam
+   * a primeira entrada e a última saída.
+   */
+  marcacoes?: Punch[];
+
+  /**
+   * Indica se o dia é folga (ex: domingo na escala 6x1, dia de descanso na 12x36).
+   */
+  ehFolga: boolean;
+
+  /**
+   * Indica se o dia é feriado nacional/municipal.
+   * Feriados têm regras especiais de cálculo.
+   */
+  ehFeriado: boolean;
+
+  /**
+   * Feriado ou ponto facultativo do calendário nesta data (opcional).
+   * Apenas informativo: o cálculo usa ehFeriado.
+   */
+  feriado?: HolidayInfo;
+
+  /**
+   * Indica se o dia está em férias (ver VacationSettings).
+   * Dias de férias não geram horas; são pagos como férias + 1/3.
+   */
+  ehFerias?: boolean;
+
+  /**
+   * Ausência ou atraso registrado no dia (opcional, ver absences.ts).
+   * Ausências de dia inteiro não geram horas.
+   */
+  ausencia?: Absence;
+
+  /**
+   * Indica folga compensatória do banco de horas (ver timeBank.ts).
+   * O dia é pago normalmente e debita a jornada padrão do banco.
+   */
+  compensacao?: boolean;
+
+  /**
+   * Em folga trabalhada: data "YYYY-MM-DD" da folga compensatória concedida no
+   * lugar deste repouso (até 6 dias antes ou depois, ver overtime.ts).
+   * Com o vínculo, o dia é calculado como dia de trabalho normal.
+   */
+  folgaCompensatoria?: string;
+};
+
+/**
+ * Par de marcações do relógio de ponto (entrada e saída de um período).
+ */
+export type Punch = {
+  /**
+   * Horário de entrada no formato HH:mm.
+   */
+  entrada: string;
+
+  /**
+   * Horário de saída no formato HH:mm (anterior à entrada = dia seguinte).
+   */
+  saida: string;
+};
+
+/**
+ * Tipo de ausência no dia.
+ *
+ * - atestado: falta justificada por atestado médico (paga pelo empregador até 15 dias)
+ * - justificada: falta legal do art. 473 CLT (ver AbsenceReason)
+ * - injustificada: falta sem justificativa (desconta o dia e o DSR da semana)
+ * - atraso: chegada após o horário de entrada padrão (desconta os minutos)
+ */
+export type AbsenceType = 'atestado' | 'justificada' | 'injustificada' | 'atraso';
+
+/**
+ * Motivos de falta justificada (art. 473 CLT).
+ */
+export type AbsenceReason =
+  | 'falecimento'
+  | 'casamento'
+  | 'nascimento'
+  | 'doacao-sangue'
+  | 'alistamento-eleitoral'
+  | 'servico-militar'
+  | 'vestibular'
+  | 'juizo'
+  | 'consulta-gestante'
+  | 'consulta-filho'
+  | 'exame-preventivo'
+  | 'outro';
+
+/**
+ * Ausência registrada em um dia.
+ */
+export type Absence = {
+  tipo: AbsenceType;
+
+  /**
+   * Motivo legal (apenas para tipo "justificada").
+   */
+  motivo?: AbsenceReason;
+
+  /**
+   * Observação livre (ex.: CID do atestado, nome do falecido).
+   */
+  observacao?: string;
+};
+
+/**
+ * Horas extras agrupadas pelo percentual do adicional.
+ * Chave = percentual inteiro em texto (ex.: "50", "75", "100"); valor = horas.
+ *
+ * @example
+ * { "50": 2, "100": 1.5 } // 2h a 50% e 1h30 a 100%
+ */
+export type OvertimeHours = Record<string, number>;
+
+/**
+ * Faixa de horas extras de um dia de trabalho.
+ */
+export type OvertimeTier = {
+  /**
+   * Limite da faixa em horas extras acumuladas no dia (ex.: 2 = até a 2ª hora extra);
+   * null = sem limite (última faixa).
+   */
+  ateHoras: number | null;
+
+  /**
+   * Adicional em % (ex.: 50, 60, 75, 100).
+   */
+  percentual: number;
+};
+
+/**
+ * Regras dos percentuais de horas extras (CLT ou convenção coletiva).
+ */
+export type OvertimeRules = {
+  /**
+   * Faixas dos dias de trabalho, em ordem crescente de limite.
+   * Horas além da última faixa seguem o percentual da última.
+   */
+  faixas: OvertimeTier[];
+
+  /**
+   * Percentual próprio de um dia da semana (ex.: domingo 100%).
+   * Vale para todas as horas extras do dia, no lugar das faixas e da folga.
+   */
+  diasSemana: Partial<Record<WeekDay, number>>;
+
+  /**
+   * Percentual das horas em folga trabalhada (não feriado).
+   */
+  folga: number;
+
+  /**
+   * Súmula 146 TST: folga trabalhada sem folga compensatória vinculada é paga
+   * em dobro (100%, ou o percentual da folga/dia da semana, se maior).
+   * Com o vínculo (DayRecord.folgaCompensatoria), o dia conta como dia de trabalho.
+   */
+  folgaEmDobro: boolean;
+
+  /**
+   * Percentual das horas em feriado (tem precedência sobre as demais regras).
+   */
+  feriado: number;
+};
+
+/**
+ * Resultado do cálculo de horas trabalhadas em um único dia.
+ * Separa horas normais de horas extras com diferentes percentuais.
+ */
+export type DailyHoursResult = {
+  /**
+   * Horas trabalhadas dentro da jornada normal (até 8h/dia ou 44h/semana).
+   */
+  horasNormais: number;
+
+  /**
+   * Horas extras por percentual (ver OvertimeRules).
+   */
+  horasExtras: OvertimeHours;
+
+  /**
+   * Horas noturnas trabalhadas (já convertidas pela hora reduzida, se aplicável).
+   * Estão incluídas nas horas normais/extras acima.
+   */
+  horasNoturnas: number;
+
+  /**
+   * Parte das horas noturnas que também é hora extra (qualquer percentual).
+   */
+  horasNoturnasExtra: number;
+
+  /**
+   * Adicional noturno expresso em horas normais equivalentes.
+   * Valor em R$ = adicionalNoturnoHoras × valor hora.
+   * Sobre hora extra noturna, o adicional incide sobre a hora já majorada (OJ 97 SDI-1).
+   */
+  adicionalNoturnoHoras: number;
+};
+
+/**
+ * Resumo consolidado de uma semana de trabalho.
+ * Usado para o limite semanal de 44h e para o DSR (Descanso Semanal Remunerado).
+ */
+export type WeeklySummary = {
+  /**
+   * Primeiro dia da semana dentro do mês.
+   */
+  inicio: Date;
+
+  /**
+   * Último dia da semana dentro do mês.
+   */
+  fim: Date;
+
+  /**
+   * Total de horas trabalhadas na semana (incluindo extras).
+   */
+  totalHoras: number;
+
+  /**
+   * Total de horas normais na semana (após aplicar o limite semanal).
+   */
+  horasNormais: number;
+
+  /**
+   * Horas extras da semana por percentual.
+   * Inclui as horas reclassificadas pelo limite semanal.
+   */
+  horasExtras: OvertimeHours;
+
+  /**
+   * Horas normais que passaram do limite semanal e viraram extra (percentual
+   * da primeira faixa), mesmo sem nenhum dia isolado ter passado da jornada diária.
+   */
+  horasExtraLimiteSemanal: number;
+
+  /**
+   * Limite semanal aplicado em horas, ou null se a semana não é avaliada
+   * (semana incompleta no mês ou escala 12x36).
+   */
+  limiteSemanalHoras: number | null;
+
+  /**
+   * Valor proporcional do DSR desta semana em reais (R$).
+   * Parcela do DSR do mês proporcional ao valor das horas extras da semana.
+   */
+  dsr: number;
+};
+
+/**
+ * Resumo consolidado de um mês completo de trabalho.
+ * Contém todos os totalizadores e valores financeiros.
+ */
+export type MonthlySummary = {
+  /**
+   * Total de horas normais trabalhadas no mês.
+   */
+  horasNormais: number;
+
+  /**
+   * Horas extras pagas no mês, por percentual.
+   */
+  horasExtras: OvertimeHours;
+
+  /**
+   * Total de horas noturnas no mês (hora reduzida, se aplicável).
+   */
+  horasNoturnas: number;
+
+  /**
+   * Valor do adicional noturno do mês em reais (R$).
+   */
+  adicionalNoturno: number;
+
+  /**
+   * Valor total do DSR (Descanso Semanal Remunerado) em reais (R$).
+   * Soma dos DSRs de todas as semanas do mês.
+   */
+  dsrTotal: number;
+
+  /**
+   * Fórmula e valores usados no cálculo do DSR.
+   */
+  dsr: DSRBreakdown;
+
+  /**
+   * Valor da hora normal em reais (R$): salário ÷ divisor, ou o salário-hora
+   * do intermitente.
+   */
+  valorHora: number;
+
+  /**
+   * Salário base do mês em reais (R$), proporcional aos dias fora de férias.
+   * No intermitente, é o valor das horas normais trabalhadas nas convocações.
+   */
+  salarioBase: number;
+
+  /**
+   * Dias de férias no mês.
+   */
+  diasFerias: number;
+
+  /**
+   * Férias + 1/3 dos dias de férias do mês em reais (R$).
+   */
+  valorFerias: number;
+
+  /**
+   * Abono pecuniário + 1/3 das férias iniciadas no mês em reais (R$).
+   * Isento de INSS e IRRF.
+   */
+  valorAbonoFerias: number;
+
+  /**
+   * Faltas injustificadas no mês (dias).
+   */
+  diasFaltas: number;
+
+  /**
+   * Ausências justificadas no mês (atestado e art. 473), pagas normalmente.
+   */
+  diasAusenciasJustificadas: number;
+
+  /**
+   * Minutos de atraso descontados (acima da tolerância diária).
+   */
+  minutosAtraso: number;
+
+  /**
+   * Desconto das faltas injustificadas em reais (R$): salário ÷ 30 por dia.
+   */
+  descontoFaltas: number;
+
+  /**
+   * Desconto do DSR perdido nas semanas com falta injustificada (Lei 605/49, art. 6º).
+   */
+  descontoDSRFaltas: number;
+
+  /**
+   * Desconto dos atrasos em reais (R$): minutos × valor hora ÷ 60.
+   */
+  descontoAtrasos: number;
+
+  /**
+   * Movimento do banco de horas no mês (null fora do modo banco de horas).
+   * No modo banco, horasExtras são apenas as horas vencidas
+   * pagas no mês; as horas feitas viram crédito no banco.
+   */
+  bancoHoras: TimeBankEntry | null;
+
+  /**
+   * Pagamentos das convocações do mês (null fora do contrato intermitente).
+   */
+  convocacoes: IntermittentCallPay[] | null;
+
+  /**
+   * Férias proporcionais + 1/3 e 13º proporcional pagos nas convocações em reais (R$).
+   */
+  valorVerbasConvocacoes: number;
+
+  /**
+   * Valor bruto total do mês em reais (R$).
+   * Inclui salário base (proporcional, se houver férias) + horas extras +
+   * adicional noturno + DSR + férias + abono + verbas das convocações
+   * - faltas, DSR perdido e atrasos.
+   */
+  valorBruto: number;
+
+  /**
+   * Valor descontado de INSS em reais (R$).
+   * Calculado sobre o valor bruto conforme tabela vigente.
+   */
+  descontoINSS: number;
+
+  /**
+   * Desconto de IRRF em reais (R$).
+   * Calculado após o INSS (ver irrf.ts).
+   */
+  descontoIRRF: number;
+
+  /**
+   * Valor líquido a receber em reais (R$).
+   * Calculado como: valorBruto - descontoINSS - descontoIRRF.
+   */
+  valorLiquido: number;
+
+  /**
+   * Base do FGTS em reais (R$): remuneração do mês sem o abono pecuniário
+   * (salário + horas extras + DSR + adicional noturno + férias).
+   * Encargo do empregador; não é descontado do trabalhador.
+   */
+  baseFGTS: number;
+
+  /**
+   * Depósito mensal de FGTS em reais (R$): 8% da base.
+   */
+  depositoFGTS: number;
+
+  /**
+   * Resumo de cada semana do mês (mesma ordem de groupDaysByWeek).
+   */
+  semanas: WeeklySummary[];
+
+  /**
+   * Tabelas (INSS, IRRF etc.) usadas no cálculo desta competência.
+   */
+  tabelas: TaxTables;
+};
+
+/**
+ * Cálculo do 13º salário de um ano (Lei 4.090/62 e Lei 4.749/65).
+ */
+export type ThirteenthSalary = {
+  /**
+   * Ano de referência.
+   */
+  ano: number;
+
+  /**
+   * Avos de direito (meses com 15 ou mais dias trabalhados, máximo 12).
+   */
+  avos: number;
+
+  /**
+   * Meses (0-11) que contaram como avo.
+   */
+  mesesConsiderados: number[];
+
+  /**
+   * Salário mensal usado no cálculo em reais (R$).
+   */
+  salario: number;
+
+  /**
+   * Média mensal das horas extras (horas × valor hora atual) em reais (R$).
+   */
+  mediaHorasExtras: number;
+
+  /**
+   * Média mensal do DSR sobre extras em reais (R$).
+   */
+  mediaDSR: number;
+
+  /**
+   * Média mensal do adicional noturno em reais (R$).
+   */
+  mediaAdicionalNoturno: number;
+
+  /**
+   * Remuneração de referência: salário + médias.
+   */
+  remuneracao: number;
+
+  /**
+   * Valor integral do 13º: remuneração ÷ 12 × avos.
+   */
+  valorIntegral: number;
+
+  /**
+   * 1ª parcela: metade do valor, sem descontos, até 30 de novembro.
+   */
+  primeiraParcela: {
+    valor: number;
+    vencimento: Date;
+  };
+
+  /**
+   * 2ª parcela: restante, com INSS e IRRF sobre o valor integral, até 20 de dezembro.
+   */
+  segundaParcela: {
+    bruto: number;
+    inss: number;
+    irrf: number;
+    liquido: number;
+    vencimento: Date;
+  };
+
+  /**
+   * Total líquido recebido nas duas parcelas.
+   */
+  liquidoTotal: number;
+};
+
+/**
+ * Modalidade de desligamento.
+ *
+ * - sem-justa-causa: dispensa pelo empregador
+ * - pedido-demissao: iniciativa do empregado
+ * - acordo: rescisão por acordo (art. 484-A CLT)
+ * - justa-causa: dispensa por justa causa (art. 482 CLT)
+ * - fim-contrato: término do contrato por prazo determinado
+ */
+export type TerminationType =
+  | 'sem-justa-causa'
+  | 'pedido-demissao'
+  | 'acordo'
+  | 'justa-causa'
+  | 'fim-contrato';
+
+/**
+ * Forma de cumprimento do aviso prévio.
+ *
+ * - trabalhado: cumprido em serviço
+ * - indenizado: pago (ou descontado, no pedido de demissão) sem trabalho
+ */
+export type NoticeMode = 'trabalhado' | 'indenizado';
+
+/**
+ * Dados informados para simular uma rescisão.
+ */
+export type TerminationInput = {
+  /**
+   * Modalidade de desligamento.
+   */
+  tipo: TerminationType;
+
+  /**
+   * Último dia trabalhado (YYYY-MM-DD).
+   */
+  dataDesligamento: string;
+
+  /**
+   * Forma do aviso prévio (ignorada quando não há aviso).
+   */
+  aviso: NoticeMode;
+
+  /**
+   * Saldo atual da conta do FGTS (undefined = estimado pelo tempo de serviço).
+   */
+  saldoFGTS?: number;
+};
+
+/**
+ * Rubrica do termo de rescisão (TRCT).
+ */
+export type TerminationItem = {
+  /**
+   * Identificador da rubrica (ex.: "saldo-salario").
+   */
+  codigo: string;
+
+  /**
+   * Descrição exibida.
+   */
+  descricao: string;
+
+  /**
+   * Referência (ex.: "19 dias", "7/12 avos").
+   */
+  referencia: string;
+
+  /**
+   * Valor em reais (R$), sempre positivo.
+   */
+  valor: number;
+
+  /**
+   * true = desconto; false = provento.
+   */
+  desconto: boolean;
+
+  /**
+   * Incidência de INSS.
+   */
+  incideINSS: boolean;
+
+  /**
+   * Incidência de IRRF.
+   */
+  incideIRRF: boolean;
+
+  /**
+   * Incidência de FGTS.
+   */
+  incideFGTS: boolean;
+};
+
+/**
+ * Resultado da simulação de rescisão.
+ */
+export type TerminationResult = {
+  tipo: TerminationType;
+
+  /**
+   * Último dia trabalhado.
+   */
+  dataDesligamento: Date;
+
+  /**
+   * Data final com a projeção do aviso prévio indenizado (OJ 82 SDI-1 TST).
+   */
+  dataProjetada: Date;
+
+  /**
+   * Anos completos de serviço até o desligamento.
+   */
+  anosServico: number;
+
+  /**
+   * Dias de aviso prévio (30 + 3 por ano, até 90); 0 quando não há aviso.
+   */
+  diasAviso: number;
+
+  /**
+   * Remuneração de referência: salário + médias das verbas variáveis.
+   */
+  remuneracao: number;
+
+  /**
+   * Rubricas de proventos e descontos.
+   */
+  rubricas: TerminationItem[];
+
+  /**
+   * Soma dos proventos.
+   */
+  totalProventos: number;
+
+  /**
+   * INSS: sobre as verbas salariais do mês + sobre o 13º (calculados separadamente).
+   */
+  inss: number;
+
+  /**
+   * IRRF: sobre as verbas salariais do mês + sobre o 13º (tributação exclusiva).
+   */
+  irrf: number;
+
+  /**
+   * Soma dos descontos (rubricas de desconto + INSS + IRRF).
+   */
+  totalDescontos: number;
+
+  /**
+   * Líquido do termo de rescisão.
+   */
+  liquido: number;
+
+  /**
+   * FGTS: saldo, depósito sobre as verbas rescisórias, multa e saque.
+   */
+  fgts: {
+    /**
+     * Saldo antes da rescisão (informado ou estimado).
+     */
+    saldo: number;
+    saldoEstimado: boolean;
+
+    /**
+     * Depósito de 8% sobre as rubricas com incidência de FGTS.
+     */
+    depositoRescisao: number;
+
+    /**
+     * Percentual da multa (40% ou 20%; 0 quando não há multa).
+     */
+    percentualMulta: number;
+    multa: number;
+
+    /**
+     * Percentual do saldo liberado para saque (100%, 80% ou 0%).
+     */
+    percentualSaque: number;
+    valorSaque: number;
+  };
+
+  /**
+   * Total a receber: líquido do termo + multa do FGTS.
+   */
+  totalReceber: number;
+};
+
+/**
+ * Configuração do extrato do FGTS.
+ */
+export type FGTSSettings = {
+  /**
+   * Saldo da conta no início do extrato em reais (R$).
+   */
+  saldoInicial: number;
+
+  /**
+   * Competência do saldo inicial ("YYYY-MM"); null = primeiro mês salvo.
+   */
+  competenciaInicial: string | null;
+
+  /**
+   * TR mensal em percentual (ex.: 0.17 = 0,17% a.m.).
+   */
+  trMensal: number;
+
+  /**
+   * Optante pelo saque-aniversário (bloqueia o saldo na dispensa, Lei 13.932/19).
+   */
+  saqueAniversario: boolean;
+};
+
+/**
+ * Lançamento mensal do extrato do FGTS.
+ */
+export type FGTSLedgerEntry = {
+  /**
+   * Competência ("YYYY-MM").
+   */
+  competencia: string;
+
+  /**
+   * Base de cálculo do mês (0 se o mês não foi salvo).
+   */
+  base: number;
+
+  /**
+   * Depósito de 8% sobre a base do mês.
+   */
+  deposito: number;
+
+  /**
+   * Depósito de 8% sobre o 13º (apenas em dezembro).
+   */
+  deposito13: number;
+
+  /**
+   * Rendimento do mês (TR + 3% a.a. sobre o saldo anterior).
+   */
+  rendimento: number;
+
+  /**
+   * Saldo após o depósito e o rendimento.
+   */
+  saldo: number;
+};
+
+/**
+ * Valores que podem ser sacados do FGTS.
+ */
+export type FGTSWithdrawal = {
+  /**
+   * Saldo considerado.
+   */
+  saldo: number;
+
+  /**
+   * Saque-aniversário: alíquota da faixa + parcela adicional.
+   */
+  saqueAniversario: {
+    aliquota: number;
+    parcelaAdicional: number;
+    valor: number;
+  };
+
+  /**
+   * Dispensa sem justa causa: saldo liberado (zero para optantes do saque-aniversário) + multa de 40%.
+   */
+  dispensa: {
+    saldoLiberado: number;
+    multa: number;
+    total: number;
+  };
+};
+
+/**
+ * Tipo do acordo de banco de horas (art. 59 CLT).
+ *
+ * - individual: acordo escrito com o empregado, compensação em até 6 meses (§5º)
+ * - coletivo: convenção ou acordo coletivo, compensação em até 12 meses (§2º)
+ */
+export type TimeBankAgreement = 'individual' | 'coletivo';
+
+/**
+ * Configuração do banco de horas.
+ */
+export type TimeBankSettings = {
+  /**
+   * Modo banco de horas ativo (horas extras viram crédito em vez de pagamento).
+   */
+  ativo: boolean;
+
+  /**
+   * Tipo do acordo (define o prazo de vencimento das horas).
+   */
+  acordo: TimeBankAgreement;
+
+  /**
+   * Horas creditadas por hora extra com adicional abaixo de 100% (ex.: 1 = hora por hora, 1.5).
+   */
+  multiplicador50: number;
+
+  /**
+   * Horas creditadas por hora extra com adicional de 100% ou mais (ex.: feriado; 1, 2).
+   */
+  multiplicador100: number;
+
+  /**
+   * Saldo em horas no início do banco (negativo = horas devidas pelo empregado).
+   */
+  saldoInicialHoras: number;
+
+  /**
+   * Competência do saldo inicial ("YYYY-MM"); null = primeiro mês salvo.
+   */
+  competenciaInicial: string | null;
+};
+
+/**
+ * Lote de horas creditado em uma competência e ainda não compensado.
+ * Guarda as horas extras originais, para pagá-las com o adicional correto se vencerem.
+ */
+export type TimeBankLot = {
+  /**
+   * Competência do crédito ("YYYY-MM").
+   */
+  competencia: string;
+
+  /**
+   * Competência em que as horas não compensadas vencem e são pagas ("YYYY-MM").
+   */
+  vencimento: string;
+
+  /**
+   * Horas extras ainda no banco por percentual (antes do multiplicador).
+   */
+  horas: OvertimeHours;
+};
+
+/**
+ * Lançamento mensal do banco de horas.
+ */
+export type TimeBankEntry = {
+  /**
+   * Competência ("YYYY-MM").
+   */
+  competencia: string;
+
+  /**
+   * Horas creditadas no mês (horas extras × multiplicador).
+   */
+  credito: number;
+
+  /**
+   * Horas debitadas no mês (saídas antecipadas e folgas compensatórias).
+   */
+  debito: number;
+
+  /**
+   * Horas extras vencidas no mês por percentual (pagas como hora extra).
+   */
+  horasVencidas: OvertimeHours;
+
+  /**
+   * Saldo em horas após o mês (negativo = horas devidas pelo empregado).
+   */
+  saldo: number;
+
+  /**
+   * Lotes ainda no banco após o mês, do mais antigo ao mais recente.
+   */
+  lotes: TimeBankLot[];
+};
+
+/**
+ * Dados guardados além dos dias, usados ao recalcular meses anteriores
+ * (13º, FGTS, rescisão e média das férias) como no resumo do mês.
+ */
+export type MonthHistory = {
+  /**
+   * Lançamentos do banco de horas (ver buildTimeBankLedger); vazio fora do modo banco de horas.
+   */
+  bancoHoras: TimeBankEntry[];
+
+  /**
+   * Tabelas guardadas no fechamento de cada mês, por competência ("YYYY-MM").
+   */
+  tabelasFechamento: Record<string, TaxTables>;
+};
+
+/**
+ * Regra de jornada verificada pelos alertas de conformidade.
+ *
+ * - interjornada: descanso mínimo de 11h entre jornadas (art. 66 CLT)
+ * - intrajornada: intervalo mínimo de 1h em jornadas acima de 6h (art. 71 CLT)
+ * - limite-extras: no máximo 2 horas extras por dia (art. 59 CLT)
+ * - repouso-semanal: repouso após no máximo 6 dias seguidos de trabalho (art. 67 CLT)
+ * - tempo-parcial: horas extras acima do permitido no tempo parcial (art. 58-A CLT)
+ * - sem-convocacao: trabalho do intermitente fora de uma convocação (art. 452-A CLT)
+ */
+export type ComplianceRule =
+  | 'interjornada'
+  | 'intrajornada'
+  | 'limite-extras'
+  | 'repouso-semanal'
+  | 'tempo-parcial'
+  | 'sem-convocacao';
+
+/**
+ * Violação de jornada encontrada em um dia.
+ */
+export type ComplianceWarning = {
+  /**
+   * Dia em que a violação ocorreu.
+   */
+  data: Date;
+
+  regra: ComplianceRule;
+
+  /**
+   * Descrição da violação (ex.: "Descanso de 9h30 entre jornadas").
+   */
+  descricao: string;
+
+  /**
+   * Horas suprimidas ou excedentes.
+   */
+  horas: number;
+
+  /**
+   * Indenização devida em reais (R$); 0 quando a lei prevê apenas multa administrativa.
+   */
+  indenizacao: number;
+};
+
+/**
+ * Leiaute do AFD (Arquivo Fonte de Dados) do relógio de ponto.
+ *
+ * - portaria-1510: REP antigo (Portaria 1.510/2009), marcações com PIS
+ * - portaria-671: REP-C/REP-P (Portaria 671/2021), marcações com CPF e CRC-16/SHA-256
+ */
+export type AFDLayout = 'portaria-1510' | 'portaria-671';
+
+/**
+ * Marcação de ponto lida do AFD (registro tipo 3 ou 7).
+ */
+export type AFDPunchRecord = {
+  /**
+   * Número sequencial do registro (NSR).
+   */
+  nsr: number;
+
+  /**
+   * Data e hora da marcação (horário local do relógio).
+   */
+  dataHora: Date;
+
+  /**
+   * PIS ou CPF do trabalhador, apenas dígitos.
+   */
+  documento: string;
+};
+
+/**
+ * Problema encontrado na leitura de um arquivo importado (AFD ou planilha CSV).
+ */
+export type ImportIssue = {
+  /**
+   * Linha do arquivo (1 = primeira); 0 quando se refere ao arquivo inteiro.
+   */
+  linha: number;
+
+  /**
+   * Descrição do problema (ex.: "CRC-16 inválido (esperado 3F2A)").
+   */
+  mensagem: string;
+};
+
+/**
+ * Conteúdo de um AFD lido.
+ */
+export type AFDFile = {
+  layout: AFDLayout;
+
+  /**
+   * CNPJ ou CPF do empregador, apenas dígitos.
+   */
+  documentoEmpregador: string;
+
+  razaoSocial: string;
+
+  /**
+   * Número de fabricação do REP.
+   */
+  numeroREP: string;
+
+  /**
+   * Período coberto informado no cabeçalho (null se ilegível).
+   */
+  inicio: Date | null;
+  fim: Date | null;
+
+  /**
+   * Marcações de todos os trabalhadores, na ordem do arquivo.
+   */
+  marcacoes: AFDPunchRecord[];
+
+  /**
+   * Registros ignorados, CRC inválido e divergências com o trailer.
+   */
+  problemas: ImportIssue[];
+};
+
+/**
+ * Marcações de um dia montadas a partir do AFD.
+ */
+export type AFDDayImport = {
+  data: Date;
+
+  /**
+   * Pares entrada/saída do dia, em ordem.
+   */
+  marcacoes: Punch[];
+};
+
+/**
+ * Situação de um dia na prévia da importação do AFD.
+ *
+ * - novo: dia sem horário ou com o horário padrão (recebe as marcações)
+ * - igual: dia já tem as mesmas marcações
+ * - alterado: dia editado manualmente com outros horários
+ * - ferias: dia de férias (não recebe marcações)
+ */
+export type AFDDayStatus = 'novo' | 'igual' | 'alterado' | 'ferias';
+
+/**
+ * Linha da prévia da importação do AFD: horários atuais × importados.
+ */
+export type AFDDayDiff = {
+  data: Date;
+
+  situacao: AFDDayStatus;
+
+  /**
+   * Marcações atuais do dia (vazio = sem horário).
+   */
+  antes: Punch[];
+
+  /**
+   * Marcações lidas do AFD.
+   */
+  depois: Punch[];
+
+  /**
+   * Indica se o dia foi (ou será) gravado com as marcações do AFD.
+   */
+  aplicado: boolean;
+};
+
+/**
+ * Dia lido de uma planilha CSV.
+ */
+export type CSVDayImport = {
+  /**
+   * Linha da planilha (1 = cabeçalho).
+   */
+  linha: number;
+
+  data: Date;
+
+  /**
+   * Pares entrada/saída do dia (vazio = dia sem horário).
+   */
+  marcacoes: Punch[];
+
+  /**
+   * Intervalo em horas (null = coluna vazia, mantém o intervalo do dia).
+   */
+  intervaloHoras: number | null;
+};
+
+/**
+ * Resultado da leitura de uma planilha CSV.
+ */
+export type CSVImport = {
+  /**
+   * Dias lidos sem erro, em ordem cronológica.
+   */
+  dias: CSVDayImport[];
+
+  /**
+   * Linhas recusadas, com o motivo.
+   */
+  erros: ImportIssue[];
+};
+
+/**
+ * Dia do espelho de ponto.
+ */
+export type TimeSheetRow = {
+  data: Date;
+
+  /**
+   * Marcações do dia (vazio = sem horário).
+   */
+  marcacoes: Punch[];
+
+  /**
+   * Intervalo não registrado nas marcações, em horas.
+   */
+  intervaloHoras: number;
+
+  /**
+   * Situação do dia (ex.: "Folga / Feriado", "Atestado médico"; vazio = dia útil).
+   */
+  situacao: string;
+
+  resultado: DailyHoursResult;
+};
+
+/**
+ * Espelho de ponto mensal: identificação, dias por semana e resumo financeiro.
+ */
+export type TimeSheet = {
+  /**
+   * Competência "YYYY-MM".
+   */
+  competencia: string;
+
+  identificacao: EmploymentInfo;
+
+  /**
+   * Jornada contratual (ex.: "Escala 6x1 · 08:00–17:00 · intervalo 1h").
+   */
+  jornada: string;
+
+  /**
+   * Dias de cada semana com os totais da semana (mesmo agrupamento do Layout).
+   */
+  semanas: { dias: TimeSheetRow[]; totais: WeeklySummary | null }[];
+
+  /**
+   * Percentuais de hora extra com coluna própria (os presentes no mês, em ordem crescente).
+   */
+  percentuaisExtras: number[];
+
+  resumo: MonthlySummary;
+};
+
+/**
+ * Operação de desenho de uma página PDF (coordenadas em pontos, a partir do canto superior esquerdo).
+ */
+export type PDFOperation =
+  | { tipo: 'texto'; x: number; y: number; texto: string; tamanho: number; negrito?: boolean }
+  | { tipo: 'linha'; x1: number; y1: number; x2: number; y2: number };
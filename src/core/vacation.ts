@@ -0,0 +1,354 @@
+/**
+ * core/vacation.ts
+ *
+ * Férias: períodos aquisitivo/concessivo, dias de férias e valores (arts. 129 a 145 CLT).
+ *
+ * REGRAS DE NEGÓCIO:
+ * - A cada 12 meses de contrato (período aquisitivo) o trabalhador tem direito a 30 dias
+ * - As férias devem ser concedidas nos 12 meses seguintes (período concessivo)
+ * - Remuneração das férias + 1/3 constitucional (art. 7º, XVII CF)
+ * - Abono pecuniário: venda de 1/3 dos dias (10 de 30), também com + 1/3 (art. 143)
+ * - A média das horas extras habituais do período aquisitivo integra a remuneração
+ *   das férias (art. 142, §5º e Súmula 347 TST: média de horas × valor hora atual)
+ * - Abono pecuniário não sofre INSS nem IRRF
+ * - Tempo parcial: mesmas regras (art. 58-A §§6º e 7º)
+ * - Intermitente: férias gozadas sem remuneração, já paga com 1/3 em cada
+ *   convocação (art. 452-A §§6º e 9º, ver contract.ts)
+ *
+ * CRITÉRIOS DE DESENVOLVIMENTO:
+ * - Funções puras (sem estado global)
+ * - Datas gravadas como "YYYY-MM-DD", como em time.ts
+ */
+
+import type {
+    AcquisitionPeriod,
+    DayRecord,
+    IRRFSettings,
+    MonthlySummary,
+    OvertimeHours,
+    Settings,
+    TaxTables,
+    VacationPay,
+    VacationPeriod,
+    VacationSettings,
+} from './types';
+import { calculateINSS } from './inss';
+import { calculateIRRF } from './irrf';
+import { calculateHourlyValue } from './payroll';
+import { CLT_MONTHLY_DIVISOR } from './schedule';
+import { addOvertimeHours, calculateOvertimeValue, scaleOvertimeHours } from './overtime';
+import { parseDateKey } from './time';
+
+/**
+ * Configuração padrão: sem data de admissão e sem férias registradas.
+ */
+export const DEFAULT_VACATION_SETTINGS: VacationSettings = {
+    dataAdmissao: null,
+    periodos: [],
+};
+
+/**
+ * Dias de férias por período aquisitivo completo.
+ */
+export const VACATION_DAYS_PER_YEAR = 30;
+
+/**
+ * Dias convertidos em abono pecuniário (1/3 de 30).
+ */
+export const ABONO_DAYS = 10;
+
+/**
+ * Soma dias a uma data (sem alterar a original).
+ */
+function addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Soma anos a uma data (sem alterar a original).
+ */
+function addYears(date: Date, years: number): Date {
+    return new Date(date.getFullYear() + years, date.getMonth(), date.getDate());
+}
+
+/**
+ * Último dia de gozo de um período de férias.
+ */
+export function getVacationEnd(periodo: VacationPeriod): Date {
+    return addDays(parseDateKey(periodo.inicio), Math.max(periodo.dias, 1) - 1);
+}
+
+/**
+ * Dias de abono pecuniário de um período de férias.
+ */
+export function getAbonoDays(periodo: VacationPeriod): number {
+    return periodo.abonoPecuniario ? ABONO_DAYS : 0;
+}
+
+/**
+ * Retorna o período de férias que contém a data, se houver.
+ */
+export function getVacationPeriodForDate(date: Date, ferias: VacationSettings): VacationPeriod | undefined {
+    const time = new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    return ferias.periodos.find((periodo) =>
+        periodo.dias > 0
+        && parseDateKey(periodo.inicio).getTime() <= time
+        && time <= getVacationEnd(periodo).getTime());
+}
+
+/**
+ * Verifica se uma data está em férias.
+ */
+export function isVacationDay(date: Date, ferias: VacationSettings): boolean {
+    return getVacationPeriodForDate(date, ferias) !== undefined;
+}
+
+/**
+ * Marca (ou desmarca) os dias de férias de uma lista de dias.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Dias que entram em férias têm os horários limpos (férias não geram horas)
+ * - Dias que saem de férias mantêm os horários vazios; o usuário preenche
+ */
+export function markVacationDays(days: DayRecord[], ferias: VacationSettings): DayRecord[] {
+    return days.map((day) => {
+        const ehFerias = isVacationDay(day.date, ferias);
+        if (ehFerias === (day.ehFerias ?? false)) return day;
+
+        return ehFerias
+            ? { ...day, ehFerias, entrada: '', saida: '', intervaloHoras: 0, marcacoes: undefined }
+            : { ...day, ehFerias };
+    });
+}
+
+/**
+ * Distribui os períodos de férias entre os períodos aquisitivos (do mais antigo ao mais novo).
+ *
+ * @returns Para cada período aquisitivo, as férias (com dias de gozo/abono) descontadas dele
+ */
+function allocateVacations(
+    periodos: VacationPeriod[],
+    count: number
+): { periodo: VacationPeriod; dias: number; abono: number }[][] {
+    const allocation: { periodo: VacationPeriod; dias: number; abono: number }[][] =
+        Array.from({ length: count }, () => []);
+    const saldo = Array.from({ length: count }, () => VACATION_DAYS_PER_YEAR);
+
+    const ordered = [...periodos].sort((a, b) => a.inicio.localeCompare(b.inicio));
+    for (const periodo of ordered) {
+        let dias = periodo.dias;
+        let abono = getAbonoDays(periodo);
+
+        for (let i = 0; i < count && dias + abono > 0; i++) {
+            if (saldo[i] <= 0) continue;
+            const abonoAqui = Math.min(abono, saldo[i]);
+            const diasAqui = Math.min(dias, saldo[i] - abonoAqui);
+            saldo[i] -= abonoAqui + diasAqui;
+            abono -= abonoAqui;
+            dias -= diasAqui;
+            allocation[i].push({ periodo, dias: diasAqui, abono: abonoAqui });
+        }
+    }
+
+    return allocation;
+}
+
+/**
+ * Lista os períodos aquisitivos do contrato até uma data de referência.
+ *
+ * @param ferias - Data de admissão e férias registradas
+ * @param referencia - Data de referência (normalmente hoje)
+ * @returns Períodos aquisitivos, do primeiro ao atual (em aquisição)
+ *
+ * @example
+ * // Admissão em 2024-03-10, referência 2026-10-19:
+ * // 1º: 10/03/2024 a 09/03/2025, conceder até 09/03/2026
+ * // 2º: 10/03/2025 a 09/03/2026, conceder até 09/03/2027
+ * // 3º: 10/03/2026 a 09/03/2027 (em aquisição)
+ *
+ * DECISÃO CONSERVADORA:
+ * - Férias são descontadas do período aquisitivo mais antigo com saldo
+ * - Direito fixo de 30 dias (redução por faltas, art. 130, não aplicada)
+ */
+export function getAcquisitionPeriods(ferias: VacationSettings, referencia: Date): AcquisitionPeriod[] {
+    if (!ferias.dataAdmissao) return [];
+
+    const admissao = parseDateKey(ferias.dataAdmissao);
+    const periods: { inicio: Date; fim: Date; limiteConcessao: Date }[] = [];
+    for (let n = 0; addYears(admissao, n) <= referencia; n++) {
+        const inicio = addYears(admissao, n);
+        const fim = addDays(addYears(admissao, n + 1), -1);
+        periods.push({ inicio, fim, limiteConcessao: addDays(addYears(admissao, n + 2), -1) });
+    }
+
+    const allocation = allocateVacations(ferias.periodos, periods.length);
+
+    return periods.map((p, index) => {
+        const diasGozados = allocation[index].reduce((sum, a) => sum + a.dias, 0);
+        const diasAbono = allocation[index].reduce((sum, a) => sum + a.abono, 0);
+        const saldo = VACATION_DAYS_PER_YEAR - diasGozados - diasAbono;
+
+        let situacao: AcquisitionPeriod['situacao'] = 'a-gozar';
+        if (p.fim >= referencia) situacao = 'em-aquisicao';
+        else if (saldo <= 0) situacao = 'quitado';
+        else if (p.limiteConcessao < referencia) situacao = 'vencido';
+
+        return {
+            numero: index + 1,
+            ...p,
+            diasDireito: VACATION_DAYS_PER_YEAR,
+            diasGozados,
+            diasAbono,
+            saldo,
+            situacao,
+        };
+    });
+}
+
+/**
+ * Retorna o período aquisitivo ao qual um período de férias foi atribuído.
+ * Usado para calcular a média de horas extras do período aquisitivo.
+ */
+export function getAcquisitionPeriodOf(
+    ferias: VacationSettings,
+    periodo: VacationPeriod
+): AcquisitionPeriod | undefined {
+    const periods = getAcquisitionPeriods(ferias, getVacationEnd(periodo));
+    const allocation = allocateVacations(ferias.periodos, periods.length);
+    const index = allocation.findIndex((items) => items.some((a) => a.periodo === periodo));
+    return index >= 0 ? periods[index] : undefined;
+}
+
+/**
+ * Calcula a média mensal de horas extras de um conjunto de meses.
+ *
+ * @param summaries - Resumos dos meses do período aquisitivo
+ * @returns Média mensal de horas de cada percentual
+ *
+ * DECISÃO CONSERVADORA:
+ * - Considera apenas os meses informados (meses sem registro não entram na média)
+ */
+export function calculateOvertimeAverage(
+    summaries: Pick<MonthlySummary, 'horasExtras'>[]
+): OvertimeHours {
+    if (summaries.length === 0) return {};
+
+    return scaleOvertimeHours(addOvertimeHours(...summaries.map((s) => s.horasExtras)), 1 / summaries.length);
+}
+
+/**
+ * Valor mensal da média de horas extras (horas médias × valor hora atual).
+ */
+export function calculateOvertimeAverageValue(
+    periodo: VacationPeriod,
+    salarioMensal: number,
+    divisor: number = CLT_MONTHLY_DIVISOR
+): number {
+    const valorHora = calculateHourlyValue(salarioMensal, divisor);
+    return calculateOvertimeValue(periodo.mediaHorasExtras, valorHora);
+}
+
+/**
+ * Calcula o recibo de um período de férias.
+ *
+ * FÓRMULAS:
+ * - Remuneração base = salário + média das horas extras
+ * - Férias = base ÷ 30 × dias de gozo; 1/3 = férias ÷ 3
+ * - Abono = base ÷ 30 × dias vendidos; 1/3 do abono = abono ÷ 3
+ * - INSS e IRRF sobre férias + 1/3 (abono isento)
+ *
+ * @param periodo - Período de férias
+ * @param salarioMensal - Salário mensal em reais
+ * @param tabelas - Tabelas da competência de início das férias
+ * @param irrf - Dependentes/desconto simplificado
+ * @param divisor - Divisor mensal do salário-hora (padrão 220)
+ */
+export function calculateVacationPay(
+    periodo: VacationPeriod,
+    salarioMensal: number,
+    tabelas: TaxTables,
+    irrf: IRRFSettings,
+    divisor: number = CLT_MONTHLY_DIVISOR
+): VacationPay {
+    const round = (value: number) => Math.round(value * 100) / 100;
+
+    const mediaHorasExtras = calculateOvertimeAverageValue(periodo, salarioMensal, divisor);
+    const remuneracaoBase = salarioMensal + mediaHorasExtras;
+    const diasAbono = getAbonoDays(periodo);
+
+    const valorFerias = remuneracaoBase / 30 * periodo.dias;
+    const tercoConstitucional = valorFerias / 3;
+    const valorAbono = remuneracaoBase / 30 * diasAbono;
+    const tercoAbono = valorAbono / 3;
+
+    const tributavel = valorFerias + tercoConstitucional;
+    const inss = calculateINSS(tributavel, tabelas.inss);
+    const valorIRRF = calculateIRRF(tributavel, inss, irrf, tabelas.irrf);
+    const bruto = tributavel + valorAbono + tercoAbono;
+
+    return {
+        diasGozo: periodo.dias,
+        diasAbono,
+        remuneracaoBase: round(remuneracaoBase),
+        mediaHorasExtras: round(mediaHorasExtras),
+        valorFerias: round(valorFerias),
+        tercoConstitucional: round(tercoConstitucional),
+        valorAbono: round(valorAbono),
+        tercoAbono: round(tercoAbono),
+        bruto: round(bruto),
+        inss: round(inss),
+        irrf: valorIRRF,
+        liquido: round(bruto - inss - valorIRRF),
+    };
+}
+
+/**
+ * Calcula os valores de férias que entram no resumo de um mês.
+ *
+ * LÓGICA:
+ * - Cada dia de férias do mês vale (salário + média) ÷ 30 × 4/3
+ * - O abono pecuniário (+ 1/3) entra no mês em que as férias começam
+ *
+ * @param days - Dias do mês (com ehFerias marcado)
+ * @param settings - Configurações (salário e férias)
+ *
+ * DECISÃO CONSERVADORA:
+ * - As férias são lançadas na competência dos dias gozados, e não na data
+ *   de pagamento antecipado (art. 145)
+ * - Intermitente: os dias são contados, mas sem valores (pagos nas convocações)
+ */
+export function calculateMonthVacationValues(
+    days: DayRecord[],
+    settings: Settings
+): { diasFerias: number; valorFerias: number; valorAbonoFerias: number } {
+    let diasFerias = 0;
+    let valorFerias = 0;
+    let valorAbonoFerias = 0;
+
+    for (const day of days) {
+        if (!day.ehFerias) continue;
+        diasFerias++;
+        if (settings.contrato.tipo === 'intermitente') continue;
+
+        const periodo = getVacationPeriodForDate(day.date, settings.ferias);
+        const media = periodo ? calculateOvertimeAverageValue(periodo, settings.salarioMensal, settings.cargaHoraria.divisor) : 0;
+        valorFerias += (settings.salarioMensal + media) / 30 * (4 / 3);
+    }
+
+    if (days.length > 0 && settings.contrato.tipo !== 'intermitente') {
+        const first = days[0].date;
+        for (const periodo of settings.ferias.periodos) {
+            const inicio = parseDateKey(periodo.inicio);
+            if (inicio.getFullYear() !== first.getFullYear() || inicio.getMonth() !== first.getMonth()) continue;
+
+            const media = calculateOvertimeAverageValue(periodo, settings.salarioMensal, settings.cargaHoraria.divisor);
+            valorAbonoFerias += (settings.salarioMensal + media) / 30 * getAbonoDays(periodo) * (4 / 3);
+        }
+    }
+
+    return {
+        diasFerias,
+        valorFerias: Math.round(valorFerias * 100) / 100,
+        valorAbonoFerias: Math.round(valorAbonoFerias * 100) / 100,
+    };
+}
@@ -0,0 +1,165 @@
+/**
+ * storage/backend.ts
+ *
+ * Backends de armazenamento chave-valor usados pela camada de persistência.
+ *
+ * REGRAS:
+ * - Interface única (StorageBackend) para todos os backends
+ * - Backend IndexedDB para uso real no navegador
+ * - Backend em memória para testes e ambientes sem IndexedDB
+ * - Valores gravados devem ser serializáveis (sem Date, sem funções)
+ *
+ * CONTEXTO:
+ * - Os cálculos em core/ continuam puros; apenas este módulo tem efeitos colaterais
+ * - Toda operação é assíncrona para manter a mesma assinatura entre backends
+ */
+
+/**
+ * Nomes das "tabelas" (object stores) disponíveis.
+ * - months: registros de dias por mês (chave "YYYY-MM")
+ * - settings: configurações do trabalhador (chave única)
+ * - inss: desconto INSS manual por mês (chave "YYYY-MM")
+ * - closedMonths: tabelas (INSS, IRRF...) guardadas no fechamento do mês (chave "YYYY-MM")
+ */
+export type StoreName = 'months' | 'settings' | 'inss' | 'closedMonths';
+
+/**
+ * Lista de stores criadas na abertura do banco.
+ */
+export const STORE_NAMES: StoreName[] = ['months', 'settings', 'inss', 'closedMonths'];
+
+/**
+ * Contrato mínimo de um backend de armazenamento.
+ */
+export type StorageBackend = {
+    /**
+     * Lê um valor. Retorna undefined se a chave não existir.
+     */
+    get: <T>(store: StoreName, key: string) => Promise<T | undefined>;
+
+    /**
+     * Grava (ou sobrescreve) um valor.
+     */
+    set: <T>(store: StoreName, key: string, value: T) => Promise<void>;
+
+    /**
+     * Remove um valor. Não falha se a chave não existir.
+     */
+    remove: (store: StoreName, key: string) => Promise<void>;
+
+    /**
+     * Lista todas as chaves de uma store.
+     */
+    keys: (store: StoreName) => Promise<string[]>;
+};
+
+/**
+ * Cria um backend em memória.
+ *
+ * DECISÃO CONSERVADORA:
+ * - Valores são clonados na leitura e na escrita (structuredClone),
+ *   reproduzindo o comportamento do IndexedDB e evitando mutações compartilhadas
+ */
+export function createMemoryBackend(): StorageBackend {
+    const data = new Map<StoreName, Map<string, unknown>>();
+
+    const storeOf = (store: StoreName): Map<string, unknown> => {
+        let map = data.get(store);
+        if (!map) {
+            map = new Map();
+            data.set(store, map);
+        }
+        return map;
+    };
+
+    return {
+        get: async <T>(store: StoreName, key: string) => {
+            const value = storeOf(store).get(key);
+            return value === undefined ? undefined : structuredClone(value as T);
+        },
+        set: async <T>(store: StoreName, key: string, value: T) => {
+            storeOf(store).set(key, structuredClone(value));
+        },
+        remove: async (store: StoreName, key: string) => {
+            storeOf(store).delete(key);
+        },
+        keys: async (store: StoreName) => Array.from(storeOf(store).keys()),
+    };
+}
+
+/**
+ * Converte um IDBRequest em Promise.
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Cria um backend IndexedDB.
+ *
+ * @param dbName - Nome do banco (padrão: "clt-calculator")
+ * @param version - Versão do schema. Incrementar ao adicionar stores.
+ *
+ * DECISÃO CONSERVADORA:
+ * - A conexão é aberta de forma preguiçosa e reaproveitada
+ * - Cada operação usa sua própria transação (simples e previsível)
+ */
+export function createIndexedDBBackend(dbName = 'clt-calculator', version = 2): StorageBackend {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDB = (): Promise<IDBDatabase> => {
+        if (!dbPromise) {
+            dbPromise = new Promise((resolve, reject) => {
+                const request = indexedDB.open(dbName, version);
+                request.onupgradeneeded = () => {
+                    const db = request.result;
+                    for (const name of STORE_NAMES) {
+                        if (!db.objectStoreNames.contains(name)) {
+                            db.createObjectStore(name);
+                        }
+                    }
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+        }
+        return dbPromise;
+    };
+
+    const withStore = async <T>(
+        store: StoreName,
+        mode: IDBTransactionMode,
+        run: (objectStore: IDBObjectStore) => IDBRequest<T>
+    ): Promise<T> => {
+        const db = await openDB();
+        const tx = db.transaction(store, mode);
+        return promisifyRequest(run(tx.objectStore(store)));
+    };
+
+    return {
+        get: async <T>(store: StoreName, key: string) =>
+            (await withStore(store, 'readonly', (s) => s.get(key))) as T | undefined,
+        set: async <T>(store: StoreName, key: string, value: T) => {
+            await withStore(store, 'readwrite', (s) => s.put(value, key));
+        },
+        remove: async (store: StoreName, key: string) => {
+            await withStore(store, 'readwrite', (s) => s.delete(key));
+        },
+        keys: async (store: StoreName) =>
+            (await withStore(store, 'readonly', (s) => s.getAllKeys())).map(String),
+    };
+}
+
+/**
+ * Retorna o backend padrão do ambiente.
+ * Usa IndexedDB quando disponível, senão cai para memória (sem persistência).
+ */
+export function createDefaultBackend(): StorageBackend {
+    if (typeof indexedDB !== 'undefined') {
+        return createIndexedDBBackend();
+    }
+    return createMemoryBackend();
+}
@@ -0,0 +1,9 @@
+/**
+ * index.ts
+ *
+ * Arquivo de índice para exportar a camada de persistência.
+ * Simplifica imports em outros arquivos do projeto.
+ */
+
+export * from './backend';
+export * from './repository';
@@ -0,0 +1,249 @@
+/**
+ * storage/repository.ts
+ *
+ * Persistência dos dados do trabalhador sobre um StorageBackend.
+ *
+ * RESPONSABILIDADES:
+ * - Salvar/carregar os DayRecord de cada mês
+ * - Salvar/carregar as Settings
+ * - Salvar/carregar o desconto INSS manual de cada mês
+ * - Salvar/carregar as tabelas guardadas no fechamento de cada mês
+ *
+ * REGRAS:
+ * - Datas são gravadas como "YYYY-MM-DD" (valor serializável e independente de fuso)
+ * - Mês nunca salvo retorna undefined: o chamador decide gerar os dias padrão
+ * - Settings carregadas são mescladas com os padrões, para tolerar campos novos
+ */
+
+import type { DayRecord, Settings, TaxTables, VacationPeriod, WeekDay } from '../core/types';
+import { parseDateKey, toDateKey, toMonthKey } from '../core/time';
+import { createScale, weeklyAnchor } from '../core/schedule';
+import { DEFAULT_OVERTIME_RULES, roundOvertimeHours } from '../core/overtime';
+import type { StorageBackend } from './backend';
+
+/**
+ * Forma gravada de um DayRecord (data como texto).
+ */
+export type StoredDayRecord = Omit<DayRecord, 'date'> & {
+    date: string;
+};
+
+/**
+ * Período de férias gravado por versões antigas, com a média de extras em dois campos (50% e 100%).
+ */
+type LegacyVacationPeriod = VacationPeriod & {
+    mediaHorasExtra50?: number;
+    mediaHorasExtra100?: number;
+};
+
+/**
+ * Chave única usada na store de settings.
+ */
+const SETTINGS_KEY = 'current';
+
+/**
+ * Converte um DayRecord para a forma gravada.
+ */
+export function serializeDay(day: DayRecord): StoredDayRecord {
+    return { ...day, date: toDateKey(day.date) };
+}
+
+/**
+ * Converte a forma gravada de volta para DayRecord.
+ */
+export function deserializeDay(stored: StoredDayRecord): DayRecord {
+    return { ...stored, date: parseDateKey(stored.date) };
+}
+
+/**
+ * Carrega os dias salvos de um mês.
+ *
+ * @param backend - Backend de armazenamento
+ * @param year - Ano (ex: 2026)
+ * @param month - Mês (0-11)
+ * @returns Dias salvos, ou undefined se o mês nunca foi editado
+ */
+export async function loadMonthDays(
+    backend: StorageBackend,
+    year: number,
+    month: number
+): Promise<DayRecord[] | undefined> {
+    const stored = await backend.get<StoredDayRecord[]>('months', toMonthKey(year, month));
+    return stored?.map(deserializeDay);
+}
+
+/**
+ * Salva os dias de um mês (sobrescreve o mês inteiro).
+ *
+ * DECISÃO CONSERVADORA:
+ * - A chave é derivada da data do primeiro dia; array vazio não é gravado
+ */
+export async function saveMonthDays(backend: StorageBackend, days: DayRecord[]): Promise<void> {
+    if (days.length === 0) return;
+    const first = days[0].date;
+    await backend.set('months', toMonthKey(first.getFullYear(), first.getMonth()), days.map(serializeDay));
+}
+
+/**
+ * Carrega os meses salvos entre duas datas (inclusive), em ordem cronológica.
+ *
+ * @returns Dias de cada mês salvo; meses nunca editados são omitidos
+ */
+export async function loadMonthsInRange(
+    backend: StorageBackend,
+    inicio: Date,
+    fim: Date
+): Promise<DayRecord[][]> {
+    const months: DayRecord[][] = [];
+    for (
+        let cursor = new Date(inicio.getFullYear(), inicio.getMonth(), 1);
+        cursor <= fim;
+        cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+    ) {
+        const days = await loadMonthDays(backend, cursor.getFullYear(), cursor.getMonth());
+        if (days) months.push(days);
+    }
+    return months;
+}
+
+/**
+ * Lista as chaves ("YYYY-MM") de todos os meses já salvos, em ordem crescente.
+ */
+export async function listStoredMonths(backend: StorageBackend): Promise<string[]> {
+    return (await backend.keys('months')).sort();
+}
+
+/**
+ * Carrega todos os meses salvos, em ordem cronológica.
+ */
+export async function loadAllMonths(backend: StorageBackend): Promise<DayRecord[][]> {
+    const months: DayRecord[][] = [];
+    for (const key of await listStoredMonths(backend)) {
+        const [year, month] = key.split('-').map(Number);
+        const days = await loadMonthDays(backend, year, month - 1);
+        if (days) months.push(days);
+    }
+    return months;
+}
+
+/**
+ * Carrega as configurações salvas, mescladas sobre os valores padrão.
+ *
+ * @param backend - Backend de armazenamento
+ * @param defaults - Configurações padrão (usadas se nada foi salvo)
+ */
+export async function loadSettings(backend: StorageBackend, defaults: Settings): Promise<Settings> {
+    const stored = await backend.get<Partial<Settings>>('settings', SETTINGS_KEY);
+    const merged = { ...defaults, ...stored };
+
+    // Versões antigas gravavam a escala como texto ('6x1'): converte para o modelo de ciclo
+    if (typeof merged.escala === 'string') {
+        const folga: WeekDay = merged.folgaPadrao;
+        merged.escala = createScale('6x1', folga, weeklyAnchor(folga));
+    }
+
+    // Regras de horas extras gravadas antes da Súmula 146 não têm folgaEmDobro
+    merged.horasExtras = { ...DEFAULT_OVERTIME_RULES, ...merged.horasExtras };
+
+    // Versões antigas gravavam a média de extras das férias em dois campos (50% e 100%)
+    merged.ferias = {
+        ...merged.ferias,
+        periodos: merged.ferias.periodos.map((periodo: LegacyVacationPeriod): VacationPeriod => {
+            if (periodo.mediaHorasExtras) return periodo;
+            const { mediaHorasExtra50, mediaHorasExtra100, ...atual } = periodo;
+            return {
+                ...atual,
+                mediaHorasExtras: roundOvertimeHours({
+                    '50': mediaHorasExtra50 ?? 0,
+                    '100': mediaHorasExtra100 ?? 0,
+                }),
+            };
+        }),
+    };
+
+    return merged;
+}
+
+/**
+ * Salva as configurações.
+ */
+export async function saveSettings(backend: StorageBackend, settings: Settings): Promise<void> {
+    await backend.set('settings', SETTINGS_KEY, settings);
+}
+
+/**
+ * Carrega o desconto INSS manual de um mês.
+ *
+ * @returns Valor em reais, ou undefined se o INSS é calculado automaticamente
+ */
+export async function loadINSSOverride(
+    backend: StorageBackend,
+    year: number,
+    month: number
+): Promise<number | undefined> {
+    return backend.get<number>('inss', toMonthKey(year, month));
+}
+
+/**
+ * Salva (ou remove, se undefined) o desconto INSS manual de um mês.
+ */
+export async function saveINSSOverride(
+    backend: StorageBackend,
+    year: number,
+    month: number,
+    descontoINSS: number | undefined
+): Promise<void> {
+    const key = toMonthKey(year, month);
+    if (descontoINSS === undefined) {
+        await backend.remove('inss', key);
+    } else {
+        await backend.set('inss', key, descontoINSS);
+    }
+}
+
+/**
+ * Carrega as tabelas guardadas no fechamento de um mês.
+ *
+ * @returns Tabelas do fechamento, ou undefined se o mês está aberto
+ */
+export async function loadClosedMonthTables(
+    backend: StorageBackend,
+    year: number,
+    month: number
+): Promise<TaxTables | undefined> {
+    return backend.get<TaxTables>('closedMonths', toMonthKey(year, month));
+}
+
+/**
+ * Carrega as tabelas guardadas no fechamento de todos os meses fechados.
+ *
+ * @returns Tabelas por competência ("YYYY-MM"); meses abertos são omitidos
+ */
+export async function loadAllClosedMonthTables(backend: StorageBackend): Promise<Record<string, TaxTables>> {
+    const tabelas: Record<string, TaxTables> = {};
+    for (const key of await backend.keys('closedMonths')) {
+        const stored = await backend.get<TaxTables>('closedMonths', key);
+        if (stored) tabelas[key] = stored;
+    }
+    return tabelas;
+}
+
+/**
+ * Fecha um mês guardando as tabelas usadas (ou reabre, se undefined).
+ *
+ * DECISÃO CONSERVADORA:
+ * - Mês fechado continua com as mesmas tabelas mesmo que novas sejam cadastradas
+ */
+export async function saveClosedMonthTables(
+    backend: StorageBackend,
+    year: number,
+    month: number,
+    tabelas: TaxTables | undefined
+): Promise<void> {
+    const key = toMonthKey(year, month);
+    if (tabelas === undefined) {
+        await backend.remove('closedMonths', key);
+    } else {
+        await backend.set('closedMonths', key, tabelas);
+    }
+}
@@ -0,0 +1,306 @@
+/**
+ * AFDImporter.tsx
+ *
+ * Componente React para importar as marcações do AFD do relógio de ponto.
+ *
+ * RESPONSABILIDADES:
+ * - Ler o arquivo AFD escolhido e o PIS/CPF do trabalhador
+ * - Exibir o cabeçalho, os problemas do arquivo e as marcações sem par
+ * - Exibir a prévia dia a dia (horário atual × AFD) antes de gravar
+ * - Confirmar a importação, opcionalmente sobrescrevendo dias editados
+ *
+ * REGRAS:
+ * - Não implementa cálculos diretamente (delega para afd.ts)
+ * - A leitura e a gravação dos meses ficam com o parent (onPreview/onImport)
+ * - Falhas de leitura, conferência dos hashes, prévia e gravação entram na lista de problemas
+ * - Reaproveita as classes CSS do Summary e do simulador de rescisão
+ */
+
+import { useState } from 'react';
+import type { AFDDayDiff, AFDDayImport, AFDDayStatus, AFDFile, ImportIssue, AFDPunchRecord, Punch } from '../core/types';
+import {
+    AFD_LAYOUT_LABELS,
+    buildAFDDays,
+    filterPunchesByWorker,
+    parseAFD,
+    verifyAFDHashChain,
+} from '../core/afd';
+import './Summary.css';
+import './TerminationSimulator.css';
+import './AFDImporter.css';
+
+/**
+ * Props do componente AFDImporter
+ */
+type AFDImporterProps = {
+    /**
+     * PIS/CPF salvo nas configurações (valor inicial do campo)
+     */
+    documento: string;
+
+    /**
+     * Calcula a prévia dos dias importados sobre os meses salvos
+     */
+    onPreview: (dias: AFDDayImport[], sobrescrever: boolean) => Promise<AFDDayDiff[]>;
+
+    /**
+     * Grava os dias importados (e o PIS/CPF usado)
+     */
+    onImport: (dias: AFDDayImport[], sobrescrever: boolean, documento: string) => Promise<void>;
+};
+
+/**
+ * Rótulos da situação de cada dia na prévia
+ */
+const STATUS_LABELS: Record<AFDDayStatus, string> = {
+    novo: 'Novo',
+    igual: 'Sem mudança',
+    alterado: 'Editado manualmente',
+    ferias: 'Férias (ignorado)',
+};
+
+/**
+ * Lê o arquivo como ISO-8859-1 (um caractere por posição do leiaute)
+ */
+async function readAFDFile(file: File): Promise<string> {
+    return new TextDecoder('iso-8859-1').decode(await file.arrayBuffer());
+}
+
+/**
+ * Problema do arquivo inteiro a partir de uma falha (leitura, hash ou gravação)
+ */
+function toIssue(contexto: string, error: unknown): ImportIssue {
+    return { linha: 0, mensagem: `${contexto}: ${error instanceof Error ? error.message : String(error)}` };
+}
+
+/**
+ * Formata as marcações de um dia (ex.: "08:00–12:00, 13:00–17:00")
+ */
+function formatPunches(marcacoes: Punch[]): string {
+    return marcacoes.length > 0
+        ? marcacoes.map((m) => `${m.entrada}–${m.saida}`).join(', ')
+        : '—';
+}
+
+/**
+ * Formata uma data como DD/MM/AAAA
+ */
+function formatDate(date: Date | null): string {
+    return date ? date.toLocaleDateString('pt-BR') : '?';
+}
+
+/**
+ * Componente principal: importação do AFD
+ */
+function AFDImporter({ documento: documentoInicial, onPreview, onImport }: AFDImporterProps) {
+    const [arquivo, setArquivo] = useState<AFDFile | null>(null);
+    const [problemas, setProblemas] = useState<ImportIssue[]>([]);
+    const [documento, setDocumento] = useState(documentoInicial);
+    const [sobrescrever, setSobrescrever] = useState(false);
+    const [dias, setDias] = useState<AFDDayImport[]>([]);
+    const [semPar, setSemPar] = useState<AFDPunchRecord[]>([]);
+    const [totalTrabalhador, setTotalTrabalhador] = useState(0);
+    const [previa, setPrevia] = useState<AFDDayDiff[] | null>(null);
+
+    /**
+     * Lê o arquivo escolhido e confere CRC e hashes
+     */
+    const handleFile = async (file: File | undefined) => {
+        setPrevia(null);
+        if (!file) {
+            setArquivo(null);
+            setProblemas([]);
+            return;
+        }
+
+        let text: string;
+        try {
+            text = await readAFDFile(file);
+        } catch (error) {
+            setArquivo(null);
+            setProblemas([toIssue('Não foi possível ler o arquivo', error)]);
+            return;
+        }
+
+        const lido = parseAFD(text);
+        setArquivo(lido);
+        try {
+            setProblemas([...lido.problemas, ...await verifyAFDHashChain(text)]);
+        } catch (error) {
+            // Ex.: crypto.subtle indisponível fora de contexto seguro (HTTPS)
+            setProblemas([...lido.problemas, toIssue('Não foi possível conferir os hashes', error)]);
+        }
+    };
+
+    /**
+     * Filtra as marcações do trabalhador e monta a prévia
+     */
+    const handlePreview = async (overwrite = sobrescrever) => {
+        if (!arquivo) return;
+        const marcacoes = filterPunchesByWorker(arquivo.marcacoes, documento);
+        const montado = buildAFDDays(marcacoes);
+        setTotalTrabalhador(marcacoes.length);
+        setDias(montado.dias);
+        setSemPar(montado.semPar);
+        try {
+            setPrevia(await onPreview(montado.dias, overwrite));
+        } catch (error) {
+            setProblemas((atual) => [...atual, toIssue('Não foi possível montar a prévia', error)]);
+        }
+    };
+
+    /**
+     * Alterna a sobrescrita dos dias editados e refaz a prévia
+     */
+    const handleOverwriteChange = (overwrite: boolean) => {
+        setSobrescrever(overwrite);
+        if (previa) handlePreview(overwrite);
+    };
+
+    /**
+     * Grava os dias marcados como aplicados na prévia (o parent recarrega os meses)
+     */
+    const handleImport = async () => {
+        try {
+            await onImport(dias, sobrescrever, documento);
+            setPrevia(null);
+        } catch (error) {
+            setProblemas((atual) => [...atual, toIssue('Não foi possível gravar os dias', error)]);
+        }
+    };
+
+    const aplicados = previa ? previa.filter((d) => d.aplicado).length : 0;
+
+    return (
+        <div className="summary termination afd-importer">
+            <h2 className="summary__title">Importar AFD</h2>
+
+            {/* Seção: Arquivo e trabalhador */}
+            <section className="summary__section termination__form">
+                <label className="termination__field">
+                    <span className="summary__label">Arquivo AFD:</span>
+                    <input
+                        type="file"
+                        accept=".txt,.afd,text/plain"
+                        onChange={(e) => handleFile(e.target.files?.[0])}
+                    />
+                </label>
+
+                <label className="termination__field">
+                    <span className="summary__label">PIS/CPF do trabalhador:</span>
+                    <input
+                        type="text"
+                        inputMode="numeric"
+                        value={documento}
+                        onChange={(e) => setDocumento(e.target.value)}
+                        placeholder="000.000.000-00"
+                    />
+                </label>
+
+                <button
+                    type="button"
+                    className="termination__button"
+                    onClick={() => handlePreview()}
+                    disabled={!arquivo || !documento.trim()}
+                >
+                    🔍 Pré-visualizar
+                </button>
+            </section>
+
+            {arquivo && (
+                <section className="summary__section">
+                    <h3 className="summary__section-title">Arquivo</h3>
+                    <p className="afd-importer__info">
+                        {AFD_LAYOUT_LABELS[arquivo.layout]}
+                        {arquivo.razaoSocial && ` · ${arquivo.razaoSocial}`}
+                        {arquivo.numeroREP && ` · REP ${arquivo.numeroREP}`}
+                        <br />
+                        {formatDate(arquivo.inicio)} a {formatDate(arquivo.fim)}
+                        {' · '}{arquivo.marcacoes.length} marcação(ões) no arquivo
+                        {previa && ` · ${totalTrabalhador} do trabalhador`}
+                    </p>
+                </section>
+            )}
+
+            {problemas.length > 0 && (
+                <section className="summary__section">
+                    <ul className="summary__alerts">
+                        {problemas.map((p, index) => (
+                            <li key={index} className="summary__alert">
+                                <span className="summary__alert-text">
+                                    {p.linha > 0 && <strong>Linha {p.linha}: </strong>}
+                                    {p.mensagem}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </section>
+            )}
+
+            {previa && (
+                <>
+                    {/* Seção: Prévia */}
+                    <section className="summary__section">
+                        <h3 className="summary__section-title">Prévia ({previa.length} dia(s))</h3>
+
+                        {semPar.length > 0 && (
+                            <p className="afd-importer__info">
+                                Marcações sem par (não importadas):{' '}
+                                {semPar.map((m) => m.dataHora.toLocaleString('pt-BR', {
+                                    day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit',
+                                })).join(', ')}
+                            </p>
+                        )}
+
+                        <table className="termination__table">
+                            <thead>
+                                <tr>
+                                    <th>Dia</th>
+                                    <th>Atual</th>
+                                    <th>AFD</th>
+                                    <th>Situação</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {previa.map((d) => (
+                                    <tr
+                                        key={d.data.getTime()}
+                                        className={`afd-importer__row afd-importer__row--${d.situacao}${d.aplicado ? '' : ' afd-importer__row--skipped'}`}
+                                    >
+                                        <td>{d.data.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}</td>
+                                        <td>{formatPunches(d.antes)}</td>
+                                        <td>{formatPunches(d.depois)}</td>
+                                        <td>{STATUS_LABELS[d.situacao]}{d.situacao === 'alterado' && !d.aplicado && ' (mantido)'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+
+                    {/* Seção: Confirmação */}
+                    <section className="summary__section summary__section--final termination__form">
+                        <label className="afd-importer__overwrite">
+                            <input
+                                type="checkbox"
+                                checked={sobrescrever}
+                                onChange={(e) => handleOverwriteChange(e.target.checked)}
+                            />
+                            {' '}Sobrescrever dias editados manualmente
+                        </label>
+
+                        <button
+                            type="button"
+                            className="termination__button"
+                            onClick={handleImport}
+                            disabled={aplicados === 0}
+                        >
+                            📥 Importar {aplicados} dia(s)
+                        </button>
+                    </section>
+                </>
+            )}
+        </div>
+    );
+}
+
+export default AFDImporter;
@@ -0,0 +1,192 @@
+/**
+ * CSVTransfer.tsx
+ *
+ * Componente React para exportar o mês em CSV e importar horários de planilhas.
+ *
+ * RESPONSABILIDADES:
+ * - Baixar o CSV do mês (dias, horas calculadas e totais)
+ * - Ler uma planilha CSV e exibir as linhas recusadas antes de gravar
+ * - Confirmar a importação dos dias lidos
+ *
+ * REGRAS:
+ * - Não implementa cálculos diretamente (delega para csv.ts e calculations.ts)
+ * - A gravação dos meses fica com o parent (onImport)
+ * - Falhas de leitura e gravação aparecem abaixo do seletor de arquivo
+ * - Reaproveita as classes CSS do Summary, do simulador de rescisão e do AFD
+ */
+
+import { useState } from 'react';
+import type { CSVDayImport, CSVImport, DayRecord, MonthlySummary, Settings } from '../core/types';
+import { calculateDayResults } from '../core/calculations';
+import { exportMonthCSV, importCSV } from '../core/csv';
+import { toMonthKey } from '../core/time';
+import './Summary.css';
+import './TerminationSimulator.css';
+import './AFDImporter.css';
+
+/**
+ * Props do componente CSVTransfer
+ */
+type CSVTransferProps = {
+    /**
+     * Dias do mês exibido (exportação)
+     */
+    days: DayRecord[];
+
+    settings: Settings;
+
+    /**
+     * Resumo do mês exibido (totais da exportação)
+     */
+    monthlySummary: MonthlySummary;
+
+    /**
+     * Grava os dias lidos da planilha (o parent recarrega os meses)
+     */
+    onImport?: (dias: CSVDayImport[]) => Promise<void>;
+};
+
+/**
+ * Lê a planilha como UTF-8; se houver caracteres inválidos, como ISO-8859-1
+ * (CSV salvo pelo Excel em português)
+ */
+async function readCSVFile(file: File): Promise<string> {
+    const buffer = await file.arrayBuffer();
+    const utf8 = new TextDecoder('utf-8').decode(buffer);
+    return utf8.includes('\uFFFD') ? new TextDecoder('iso-8859-1').decode(buffer) : utf8;
+}
+
+/**
+ * Mensagem de uma falha de leitura ou gravação
+ */
+function describeError(contexto: string, error: unknown): string {
+    return `${contexto}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/**
+ * Baixa um texto como arquivo CSV (com BOM, para o Excel reconhecer o UTF-8)
+ */
+function downloadCSV(content: string, fileName: string) {
+    const url = URL.createObjectURL(new Blob(['\uFEFF' + content], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Componente principal: exportação e importação de planilhas
+ */
+function CSVTransfer({ days, settings, monthlySummary, onImport }: CSVTransferProps) {
+    const [lido, setLido] = useState<CSVImport | null>(null);
+    const [falha, setFalha] = useState('');
+
+    /**
+     * Exporta o mês exibido
+     */
+    const handleExport = () => {
+        const csv = exportMonthCSV(days, calculateDayResults(days, settings), monthlySummary);
+        const first = days[0].date;
+        downloadCSV(csv, `ponto-${toMonthKey(first.getFullYear(), first.getMonth())}.csv`);
+    };
+
+    /**
+     * Lê a planilha escolhida (nada é gravado ainda)
+     */
+    const handleFile = async (file: File | undefined) => {
+        setFalha('');
+        try {
+            setLido(file ? importCSV(await readCSVFile(file)) : null);
+        } catch (error) {
+            setLido(null);
+            setFalha(describeError('Não foi possível ler a planilha', error));
+        }
+    };
+
+    /**
+     * Grava os dias lidos
+     */
+    const handleImport = async () => {
+        if (!lido || !onImport) return;
+        try {
+            await onImport(lido.dias);
+            setLido(null);
+        } catch (error) {
+            setFalha(describeError('Não foi possível gravar os dias', error));
+        }
+    };
+
+    return (
+        <div className="summary termination">
+            <h2 className="summary__title">Planilha CSV</h2>
+
+            {/* Seção: Exportação */}
+            <section className="summary__section termination__form">
+                <button
+                    type="button"
+                    className="termination__button"
+                    onClick={handleExport}
+                    disabled={days.length === 0}
+                >
+                    📤 Exportar mês
+                </button>
+            </section>
+
+            {/* Seção: Importação */}
+            {onImport && (
+                <section className="summary__section summary__section--final termination__form">
+                    <label className="termination__field">
+                        <span className="summary__label">Importar planilha:</span>
+                        <input
+                            type="file"
+                            accept=".csv,.txt,text/csv,text/plain"
+                            onChange={(e) => handleFile(e.target.files?.[0])}
+                        />
+                    </label>
+
+                    {falha && <span className="termination__error">{falha}</span>}
+
+                    {lido && (
+                        <>
+                            <p className="afd-importer__info">
+                                {lido.dias.length} dia(s) lido(s)
+                                {lido.dias.length > 0 && (
+                                    ` de ${lido.dias[0].data.toLocaleDateString('pt-BR')}`
+                                    + ` a ${lido.dias[lido.dias.length - 1].data.toLocaleDateString('pt-BR')}`
+                                )}
+                                {lido.erros.length > 0 && ` · ${lido.erros.length} linha(s) recusada(s)`}
+                                <br />
+                                Os horários da planilha substituem os do app (dias de férias são mantidos).
+                            </p>
+
+                            {lido.erros.length > 0 && (
+                                <ul className="summary__alerts">
+                                    {lido.erros.map((erro) => (
+                                        <li key={erro.linha} className="summary__alert">
+                                            <span className="summary__alert-text">
+                                                <strong>Linha {erro.linha}: </strong>
+                                                {erro.mensagem}
+                                            </span>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            <button
+                                type="button"
+                                className="termination__button"
+                                onClick={handleImport}
+                                disabled={lido.dias.length === 0}
+                            >
+                                📥 Importar {lido.dias.length} dia(s)
+                            </button>
+                        </>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+}
+
+export default CSVTransfer;
@@ -0,0 +1,212 @@
+/**
+ * ContractSettingsFields.tsx
+ *
+ * Campos do SettingsPanel para a modalidade do contrato: integral, tempo
+ * parcial (art. 58-A) ou intermitente (art. 452-A), com as convocações.
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio além do
+ *   formulário de nova convocação
+ * - Convocações exibidas em ordem de início; sobreposições são apontadas
+ * - A carga semanal do tempo parcial é ajustada pelo SettingsPanel
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import { useState } from 'react';
+import type { ContractSettings, ContractType, IntermittentCall, PartTimeMode } from '../core/types';
+import { CONTRACT_TYPE_LABELS, PART_TIME_LIMITS, overlapsOtherCall, sortCalls } from '../core/contract';
+import { parseDateKey } from '../core/time';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente ContractSettingsFields
+ */
+type ContractSettingsFieldsProps = {
+    /**
+     * Contrato atual (em edição)
+     */
+    value: ContractSettings;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: ContractSettings) => void;
+};
+
+/**
+ * Formata uma data "YYYY-MM-DD" como DD/MM/YYYY
+ */
+function formatDate(key: string): string {
+    return parseDateKey(key).toLocaleDateString('pt-BR');
+}
+
+/**
+ * Componente principal: campos da modalidade do contrato
+ */
+function ContractSettingsFields({ value, onChange }: ContractSettingsFieldsProps) {
+    // Formulário de nova convocação
+    const [novoInicio, setNovoInicio] = useState('');
+    const [novoFim, setNovoFim] = useState('');
+    const [novaDescricao, setNovaDescricao] = useState('');
+
+    const convocacoes = sortCalls(value.convocacoes);
+
+    /**
+     * Adiciona a convocação preenchida
+     */
+    const handleAdd = () => {
+        if (!novoInicio || !novoFim || novoFim < novoInicio) return;
+
+        const convocacao: IntermittentCall = {
+            inicio: novoInicio,
+            fim: novoFim,
+            descricao: novaDescricao.trim(),
+        };
+        onChange({ ...value, convocacoes: [...value.convocacoes, convocacao] });
+        setNovoInicio('');
+        setNovoFim('');
+        setNovaDescricao('');
+    };
+
+    /**
+     * Remove uma convocação
+     */
+    const handleRemove = (convocacao: IntermittentCall) => {
+        onChange({ ...value, convocacoes: value.convocacoes.filter((c) => c !== convocacao) });
+    };
+
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Contrato</legend>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="contrato-tipo">
+                    Modalidade:
+                </label>
+                <select
+                    id="contrato-tipo"
+                    className="settings-panel__select"
+                    value={value.tipo}
+                    onChange={(e) => onChange({ ...value, tipo: e.target.value as ContractType })}
+                >
+                    {(Object.keys(CONTRACT_TYPE_LABELS) as ContractType[]).map((tipo) => (
+                        <option key={tipo} value={tipo}>
+                            {CONTRACT_TYPE_LABELS[tipo]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {value.tipo === 'parcial' && (
+                <div className="settings-panel__field">
+                    <label className="settings-panel__label" htmlFor="contrato-parcial">
+                        Tempo parcial:
+                    </label>
+                    <select
+                        id="contrato-parcial"
+                        className="settings-panel__select"
+                        value={value.modalidadeParcial}
+                        onChange={(e) => onChange({ ...value, modalidadeParcial: e.target.value as PartTimeMode })}
+                    >
+                        {(Object.keys(PART_TIME_LIMITS) as PartTimeMode[]).map((modalidade) => {
+                            const { horasSemanais, extrasSemanais } = PART_TIME_LIMITS[modalidade];
+                            return (
+                                <option key={modalidade} value={modalidade}>
+                                    Até {horasSemanais}h semanais
+                                    {extrasSemanais > 0 ? ` + até ${extrasSemanais}h extras` : ', sem horas extras'}
+                                </option>
+                            );
+                        })}
+                    </select>
+                </div>
+            )}
+
+            {value.tipo === 'intermitente' && (
+                <>
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="contrato-valor-hora">
+                            Salário-hora (R$):
+                        </label>
+                        <input
+                            id="contrato-valor-hora"
+                            type="number"
+                            className="settings-panel__input"
+                            value={value.valorHora}
+                            onChange={(e) => onChange({ ...value, valorHora: parseFloat(e.target.value) || 0 })}
+                            step="0.01"
+                            min="0"
+                            required
+                        />
+                    </div>
+
+                    <div className="settings-panel__field">
+                        <span className="settings-panel__label">
+                            Convocações:
+                            <span className="settings-panel__optional"> (férias + 1/3, 13º e DSR pagos ao fim de cada uma)</span>
+                        </span>
+                        {convocacoes.length === 0 && (
+                            <span className="settings-panel__optional">Nenhuma convocação cadastrada</span>
+                        )}
+                        {convocacoes.map((convocacao, index) => (
+                            <div key={`${convocacao.inicio}-${index}`} className="settings-panel__list-item">
+                                <span>
+                                    {formatDate(convocacao.inicio)} a {formatDate(convocacao.fim)}
+                                    {convocacao.descricao && ` · ${convocacao.descricao}`}
+                                </span>
+                                {overlapsOtherCall(convocacao, value.convocacoes) && (
+                                    <span className="settings-panel__error">sobreposta a outra convocação</span>
+                                )}
+                                <button
+                                    type="button"
+                                    className="settings-panel__button settings-panel__button--cancel"
+                                    onClick={() => handleRemove(convocacao)}
+                                >
+                                    ✕
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="convocacao-inicio">
+                            Nova convocação:
+                        </label>
+                        <input
+                            id="convocacao-inicio"
+                            type="date"
+                            className="settings-panel__input"
+                            value={novoInicio}
+                            onChange={(e) => setNovoInicio(e.target.value)}
+                            title="Primeiro dia"
+                        />
+                        <input
+                            type="date"
+                            className="settings-panel__input"
+                            value={novoFim}
+                            min={novoInicio || undefined}
+                            onChange={(e) => setNovoFim(e.target.value)}
+                            title="Último dia"
+                        />
+                        <input
+                            type="text"
+                            className="settings-panel__input"
+                            value={novaDescricao}
+                            onChange={(e) => setNovaDescricao(e.target.value)}
+                            placeholder="Serviço (opcional)"
+                        />
+                        <button
+                            type="button"
+                            className="settings-panel__button settings-panel__button--edit"
+                            onClick={handleAdd}
+                            disabled={!novoInicio || !novoFim || novoFim < novoInicio}
+                        >
+                            ➕ Adicionar
+                        </button>
+                    </div>
+                </>
+            )}
+        </fieldset>
+    );
+}
+
+export default ContractSettingsFields;
@@ -4,10 +4,18 @@
  * Componente React para exibir e editar um dia de registro de jornada.
  * 
  * RESPONSABILIDADES:
- * - Exibir data, horários (entrada/saída/intervalo)
+ * - Exibir data, horários (entrada/saída/intervalo) ou as marcações do dia
+ * - Editar várias marcações (turno partido, vários intervalos); um único
+ *   par entrada/saída + intervalo continua como atalho
+ * - Indicar jornadas que terminam no dia seguinte (+1)
  * - Permitir marcar/desmarcar folga e feriado
+ * - Registrar ausências (atestado, art. 473, falta injustificada, atraso)
+ * - Marcar folga compensatória do banco de horas
+ * - Vincular folga trabalhada à folga compensatória (Súmula 146 TST) e exibir o vínculo
+ * - Sinalizar violações de jornada (interjornada, intervalo, extras, repouso)
  * - Editar horários inline (modo semi-manual)
  * - Destacar visualmente feriados
+ * - Exibir nome e abrangência do feriado (nacional, estadual, municipal, facultativo)
  * 
  * REGRAS:
  * - Não implementa cálculos (delegados para calculations.ts/payroll.ts)
@@ -17,7 +25,11 @@
  */
 
 import React, { useState } from 'react';
-import type { DayRecord } from '../core/types';
+import type { AbsenceReason, AbsenceType, ComplianceWarning, DayRecord, HolidayType, Punch } from '../core/types';
+import { crossesMidnight, getDayPunches, toDateKey } from '../core/time';
+import { ABSENCE_REASONS, ABSENCE_TYPE_LABELS } from '../core/absences';
+import { COMPLIANCE_RULE_LABELS } from '../core/compliance';
+import { getRestCompensationRange } from '../core/overtime';
 import './DayRow.css';
 
 /**
@@ -33,6 +45,36 @@ type DayRowProps = {
      * Callback chamado quando o dia é modificado
      */
     onUpdate: (day: DayRecord) => void;
+
+    /**
+     * Modo banco de horas ativo (exibe a marcação de folga compensatória)
+     */
+    bancoHoras?: boolean;
+
+    /**
+     * Súmula 146 ativa (folga trabalhada sem compensação paga em dobro)
+     */
+    folgaEmDobro?: boolean;
+
+    /**
+     * Folga trabalhada compensada neste dia (se houver)
+     */
+    compensaFolga?: Date;
+
+    /**
+     * A folga trabalhada deste dia tem folga compensatória válida (ver getRestCompensations)
+     */
+    folgaCompensada?: boolean;
+
+    /**
+     * Motivo da recusa do vínculo de folga compensatória (ver getRestCompensationIssue)
+     */
+    problemaCompensacao?: string | null;
+
+    /**
+     * Violações de jornada deste dia (ver compliance.ts)
+     */
+    alertas?: ComplianceWarning[];
 };
 
 /**
@@ -48,26 +90,72 @@ function formatDate(date: Date): string {
     return `${weekDay}, ${day}/${month}/${year}`;
 }
 
+/**
+ * Formata uma data "YYYY-MM-DD" como DD/MM
+ */
+function formatShortDate(key: string): string {
+    const [, month, day] = key.split('-');
+    return `${day}/${month}`;
+}
+
+/**
+ * Rótulos da abrangência do feriado
+ */
+const HOLIDAY_TYPE_LABELS: Record<HolidayType, string> = {
+    nacional: 'Nacional',
+    estadual: 'Estadual',
+    municipal: 'Municipal',
+    facultativo: 'Ponto facultativo',
+};
+
+/**
+ * Marcações iniciais do editor (um par vazio se o dia não tem horários)
+ */
+function initialPunches(day: DayRecord): Punch[] {
+    const marcacoes = getDayPunches(day);
+    return marcacoes.length > 0 ? marcacoes : [{ entrada: day.entrada, saida: day.saida }];
+}
+
 /**
  * Componente principal: linha de dia da jornada
  */
-function DayRow({ day, onUpdate }: DayRowProps) {
+function DayRow({
+    day,
+    onUpdate,
+    bancoHoras = false,
+    folgaEmDobro = false,
+    compensaFolga,
+    folgaCompensada = false,
+    problemaCompensacao = null,
+    alertas = [],
+}: DayRowProps) {
     // Estado local para modo de edição
     const [isEditing, setIsEditing] = useState(false);
-    const [editEntrada, setEditEntrada] = useState(day.entrada);
-    const [editSaida, setEditSaida] = useState(day.saida);
+    const [editMarcacoes, setEditMarcacoes] = useState<Punch[]>(() => initialPunches(day));
     const [editIntervalo, setEditIntervalo] = useState(String(day.intervaloHoras));
 
     /**
-     * Confirma edição de horários
+     * Confirma edição de horários.
+     * Um único par vira entrada/saída + intervalo; vários pares viram marcações
+     * (intervalos reais entre os pares).
      */
     const handleSaveEdit = () => {
-        const updatedDay: DayRecord = {
-            ...day,
-            entrada: editEntrada,
-            saida: editSaida,
-            intervaloHoras: parseFloat(editIntervalo) || 0,
-        };
+        const marcacoes = editMarcacoes.filter((m) => m.entrada !== '' || m.saida !== '');
+        const updatedDay: DayRecord = marcacoes.length > 1
+            ? {
+                ...day,
+                entrada: marcacoes[0].entrada,
+                saida: marcacoes[marcacoes.length - 1].saida,
+                intervaloHoras: 0,
+                marcacoes,
+            }
+            : {
+                ...day,
+                entrada: marcacoes[0]?.entrada ?? '',
+                saida: marcacoes[0]?.saida ?? '',
+                intervaloHoras: parseFloat(editIntervalo) || 0,
+                marcacoes: undefined,
+            };
         onUpdate(updatedDay);
         setIsEditing(false);
     };
@@ -76,12 +164,32 @@ function DayRow({ day, onUpdate }: DayRowProps) {
      * Cancela edição e restaura valores originais
      */
     const handleCancelEdit = () => {
-        setEditEntrada(day.entrada);
-        setEditSaida(day.saida);
+        setEditMarcacoes(initialPunches(day));
         setEditIntervalo(String(day.intervaloHoras));
         setIsEditing(false);
     };
 
+    /**
+     * Altera um horário de uma marcação em edição
+     */
+    const handlePunchChange = (index: number, campo: keyof Punch, value: string) => {
+        setEditMarcacoes(editMarcacoes.map((m, i) => i === index ? { ...m, [campo]: value } : m));
+    };
+
+    /**
+     * Adiciona um período (ex.: volta do intervalo, segundo turno)
+     */
+    const handleAddPunch = () => {
+        setEditMarcacoes([...editMarcacoes, { entrada: '', saida: '' }]);
+    };
+
+    /**
+     * Remove um período
+     */
+    const handleRemovePunch = (index: number) => {
+        setEditMarcacoes(editMarcacoes.filter((_, i) => i !== index));
+    };
+
     /**
      * Marca/desmarca como folga
      */
@@ -89,9 +197,11 @@ function DayRow({ day, onUpdate }: DayRowProps) {
         const updatedDay: DayRecord = {
             ...day,
             ehFolga: !day.ehFolga,
-            // Se marcar como folga, limpa horários
+            // Se marcar como folga, limpa horários (o vínculo de compensação sai nos dois casos)
             entrada: !day.ehFolga ? '' : day.entrada,
             saida: !day.ehFolga ? '' : day.saida,
+            marcacoes: !day.ehFolga ? undefined : day.marcacoes,
+            folgaCompensatoria: undefined,
         };
         onUpdate(updatedDay);
     };
@@ -107,11 +217,66 @@ function DayRow({ day, onUpdate }: DayRowProps) {
         onUpdate(updatedDay);
     };
 
+    /**
+     * Registra (ou remove) a ausência do dia.
+     * Ausências de dia inteiro limpam os horários; atraso mantém.
+     */
+    const handleAbsenceChange = (tipo: AbsenceType | '') => {
+        if (tipo === '') {
+            onUpdate({ ...day, ausencia: undefined });
+            return;
+        }
+
+        const diaInteiro = tipo !== 'atraso';
+        onUpdate({
+            ...day,
+            ausencia: {
+                tipo,
+                motivo: tipo === 'justificada' ? day.ausencia?.motivo ?? 'outro' : undefined,
+            },
+            entrada: diaInteiro ? '' : day.entrada,
+            saida: diaInteiro ? '' : day.saida,
+            marcacoes: diaInteiro ? undefined : day.marcacoes,
+        });
+    };
+
+    /**
+     * Altera o motivo da falta justificada (art. 473)
+     */
+    const handleReasonChange = (motivo: AbsenceReason) => {
+        if (!day.ausencia) return;
+        onUpdate({ ...day, ausencia: { ...day.ausencia, motivo } });
+    };
+
+    /**
+     * Marca/desmarca folga compensatória do banco de horas (limpa os horários)
+     */
+    const handleToggleCompensacao = () => {
+        onUpdate({
+            ...day,
+            compensacao: !day.compensacao || undefined,
+            entrada: !day.compensacao ? '' : day.entrada,
+            saida: !day.compensacao ? '' : day.saida,
+            marcacoes: !day.compensacao ? undefined : day.marcacoes,
+        });
+    };
+
+    const ausenciaDiaInteiro = day.ausencia !== undefined && day.ausencia.tipo !== 'atraso';
+    const marcacoesDia = getDayPunches(day);
+    const folgaTrabalhada = day.ehFolga && !day.ehFeriado && !day.ehFerias && marcacoesDia.length > 0;
+    // Folga compensatória: até 6 dias antes ou depois, dentro do mês (o vínculo é conferido nos dias do mês)
+    const [prazoInicio, prazoFim] = getRestCompensationRange(day.date);
+    const compensacaoMin = [prazoInicio, toDateKey(new Date(day.date.getFullYear(), day.date.getMonth(), 1))].sort()[1];
+    const compensacaoMax = [prazoFim, toDateKey(new Date(day.date.getFullYear(), day.date.getMonth() + 1, 0))].sort()[0];
+
     // Determina classes CSS para destacar status especiais
     const rowClass = [
         'day-row',
         day.ehFeriado ? 'day-row--feriado' : '',
         day.ehFolga ? 'day-row--folga' : '',
+        day.ehFerias ? 'day-row--ferias' : '',
+        day.ausencia ? `day-row--${day.ausencia.tipo}` : '',
+        day.compensacao ? 'day-row--compensacao' : '',
     ]
         .filter(Boolean)
         .join(' ');
@@ -121,42 +286,130 @@ function DayRow({ day, onUpdate }: DayRowProps) {
             {/* Data do dia */}
             <div className="day-row__date">
                 <strong>{formatDate(day.date)}</strong>
+                {day.feriado && (
+                    <span
+                        className={`day-row__holiday day-row__holiday--${day.feriado.tipo}`}
+                        title={HOLIDAY_TYPE_LABELS[day.feriado.tipo]}
+                    >
+                        {day.feriado.nome}
+                        {day.feriado.meioPeriodo ? ' (meio período)' : ''}
+                        {' · '}
+                        {HOLIDAY_TYPE_LABELS[day.feriado.tipo]}
+                    </span>
+                )}
+                {day.ehFerias && (
+                    <span className="day-row__vacation" title="Dia de férias (configurado nas Configurações)">
+                        Férias
+                    </span>
+                )}
+                {day.ausencia && (
+                    <span
+                        className={`day-row__absence day-row__absence--${day.ausencia.tipo}`}
+                        title={day.ausencia.motivo ? ABSENCE_REASONS[day.ausencia.motivo].limite : undefined}
+                    >
+                        {ABSENCE_TYPE_LABELS[day.ausencia.tipo]}
+                        {day.ausencia.motivo ? ` · ${ABSENCE_REASONS[day.ausencia.motivo].descricao}` : ''}
+                    </span>
+                )}
+                {day.compensacao && (
+                    <span className="day-row__compensation" title="Debita a jornada padrão do banco de horas">
+                        Compensação
+                    </span>
+                )}
+                {folgaTrabalhada && (
+                    folgaCompensada && day.folgaCompensatoria ? (
+                        <span className="day-row__compensation" title="Calculada como dia de trabalho">
+                            Folga trabalhada · compensada em {formatShortDate(day.folgaCompensatoria)}
+                        </span>
+                    ) : folgaEmDobro && (
+                        <span className="day-row__warning" title="Súmula 146 TST: repouso trabalhado e não compensado">
+                            Folga trabalhada · paga em dobro
+                        </span>
+                    )
+                )}
+                {problemaCompensacao && (
+                    <span className="day-row__warning" title="Vínculo de folga compensatória recusado">
+                        Compensação recusada · {problemaCompensacao}
+                    </span>
+                )}
+                {compensaFolga && (
+                    <span className="day-row__compensation" title="Folga concedida no lugar do repouso trabalhado">
+                        Folga compensatória do repouso de {formatShortDate(toDateKey(compensaFolga))}
+                    </span>
+                )}
+                {alertas.map((alerta) => (
+                    <span key={alerta.regra} className="day-row__warning" title={alerta.descricao}>
+                        ⚠ {COMPLIANCE_RULE_LABELS[alerta.regra]}
+                    </span>
+                ))}
             </div>
 
             {/* Horários: entrada, saída, intervalo */}
             <div className="day-row__times">
                 {isEditing ? (
-                    // Modo edição: inputs
+                    // Modo edição: um período por linha (o primeiro com o intervalo, se for único)
+                    <div className="day-row__punches">
+                        {editMarcacoes.map((marcacao, index) => (
+                            <div key={index} className="day-row__punch">
+                                <label className="day-row__input-group">
+                                    <span>Entrada:</span>
+                                    <input
+                                        type="time"
+                                        className="day-row__input"
+                                        value={marcacao.entrada}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                            handlePunchChange(index, 'entrada', e.target.value)}
+                                    />
+                                </label>
+                                <label className="day-row__input-group">
+                                    <span>Saída:</span>
+                                    <input
+                                        type="time"
+                                        className="day-row__input"
+                                        value={marcacao.saida}
+                                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                                            handlePunchChange(index, 'saida', e.target.value)}
+                                    />
+                                </label>
+                                {editMarcacoes.length === 1 ? (
+                                    <label className="day-row__input-group">
+                                        <span>Intervalo (h):</span>
+                                        <input
+                                            type="number"
+                                            className="day-row__input"
+                                            value={editIntervalo}
+                                            step="0.5"
+                                            min="0"
+                                            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditIntervalo(e.target.value)}
+                                        />
+                                    </label>
+                                ) : (
+                                    <button
+                                        type="button"
+                                        className="day-row__punch-remove"
+                                        onClick={() => handleRemovePunch(index)}
+                                        title="Remover período"
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </div>
+                        ))}
+                        <button type="button" className="day-row__punch-add" onClick={handleAddPunch}>
+                            + Período
+                        </button>
+                    </div>
+                ) : marcacoesDia.length > 1 ? (
+                    // Modo visualização: marcações
                     <>
-                        <label className="day-row__input-group">
-                            <span>Entrada:</span>
-                            <input
-                                type="time"
-                                className="day-row__input"
-                                value={editEntrada}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditEntrada(e.target.value)}
-                            />
-                        </label>
-                        <label className="day-row__input-group">
-                            <span>Saída:</span>
-                            <input
-                                type="time"
-                                className="day-row__input"
-                                value={editSaida}
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditSaida(e.target.value)}
-                            />
-                        </label>
-                        <label className="day-row__input-group">
-                            <span>Intervalo (h):</span>
-                            <input
-                                type="number"
-                                className="day-row__input"
-                                value={editIntervalo}
-                                step="0.5"
-                                min="0"
-                                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEditIntervalo(e.target.value)}
-                            />
-                        </label>
+                        {marcacoesDia.map((marcacao, index) => (
+                            <span key={index} className="day-row__time-item">
+                                <strong>{index + 1}º:</strong> {marcacao.entrada}–{marcacao.saida}
+                                {crossesMidnight(marcacao.entrada, marcacao.saida) && (
+                                    <span className="day-row__next-day" title="Saída no dia seguinte"> (+1)</span>
+                                )}
+                            </span>
+                        ))}
                     </>
                 ) : (
                     // Modo visualização: texto
@@ -166,6 +419,9 @@ function DayRow({ day, onUpdate }: DayRowProps) {
                         </span>
                         <span className="day-row__time-item">
                             <strong>Saída:</strong> {day.saida || '--:--'}
+                            {day.entrada && day.saida && crossesMidnight(day.entrada, day.saida) && (
+                                <span className="day-row__next-day" title="Saída no dia seguinte"> (+1)</span>
+                            )}
                         </span>
                         <span className="day-row__time-item">
                             <strong>Intervalo:</strong> {day.intervaloHoras}h
@@ -194,6 +450,58 @@ function DayRow({ day, onUpdate }: DayRowProps) {
                     />
                     <span>Feriado</span>
                 </label>
+                {(bancoHoras || day.compensacao) && !day.ehFolga && !day.ehFerias && !day.ausencia && (
+                    <label className="day-row__checkbox" title="Folga compensatória do banco de horas">
+                        <input
+                            type="checkbox"
+                            checked={day.compensacao ?? false}
+                            onChange={handleToggleCompensacao}
+                            disabled={isEditing}
+                        />
+                        <span>Compensação</span>
+                    </label>
+                )}
+                {folgaTrabalhada && (
+                    <label className="day-row__input-group" title="Folga compensatória (até 6 dias antes ou depois)">
+                        <span>Compensada em:</span>
+                        <input
+                            type="date"
+                            className="day-row__input"
+                            value={day.folgaCompensatoria ?? ''}
+                            min={compensacaoMin}
+                            max={compensacaoMax}
+                            onChange={(e) => onUpdate({ ...day, folgaCompensatoria: e.target.value || undefined })}
+                            disabled={isEditing}
+                        />
+                    </label>
+                )}
+                {!day.ehFolga && !day.ehFerias && !day.compensacao && (
+                    <select
+                        className="day-row__select"
+                        value={day.ausencia?.tipo ?? ''}
+                        onChange={(e) => handleAbsenceChange(e.target.value as AbsenceType | '')}
+                        disabled={isEditing}
+                        title="Ausência"
+                    >
+                        <option value="">Presente</option>
+                        {(Object.keys(ABSENCE_TYPE_LABELS) as AbsenceType[]).map((tipo) => (
+                            <option key={tipo} value={tipo}>{ABSENCE_TYPE_LABELS[tipo]}</option>
+                        ))}
+                    </select>
+                )}
+                {day.ausencia?.tipo === 'justificada' && (
+                    <select
+                        className="day-row__select"
+                        value={day.ausencia.motivo ?? 'outro'}
+                        onChange={(e) => handleReasonChange(e.target.value as AbsenceReason)}
+                        disabled={isEditing}
+                        title="Motivo (art. 473 CLT)"
+                    >
+                        {(Object.keys(ABSENCE_REASONS) as AbsenceReason[]).map((motivo) => (
+                            <option key={motivo} value={motivo}>{ABSENCE_REASONS[motivo].descricao}</option>
+                        ))}
+                    </select>
+                )}
             </div>
 
             {/* Botões de ação */}
@@ -219,8 +527,12 @@ function DayRow({ day, onUpdate }: DayRowProps) {
                     <button
                         type="button"
                         className="day-row__button day-row__button--edit"
-                        onClick={() => setIsEditing(true)}
-                        disabled={day.ehFolga}
+                        onClick={() => {
+                            setEditMarcacoes(initialPunches(day));
+                            setEditIntervalo(String(day.intervaloHoras));
+                            setIsEditing(true);
+                        }}
+                        disabled={day.ehFerias || ausenciaDiaInteiro || day.compensacao}
                     >
                         Editar
                     </button>
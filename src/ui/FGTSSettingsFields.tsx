@@ -0,0 +1,98 @@
+/**
+ * FGTSSettingsFields.tsx
+ *
+ * Campos do SettingsPanel para o extrato do FGTS: saldo inicial, TR e
+ * opção pelo saque-aniversário.
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio
+ * - Cálculos delegados a core/fgts.ts
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import type { FGTSSettings } from '../core/types';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente FGTSSettingsFields
+ */
+type FGTSSettingsFieldsProps = {
+    /**
+     * Configuração atual (em edição)
+     */
+    value: FGTSSettings;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: FGTSSettings) => void;
+};
+
+/**
+ * Componente principal: campos do FGTS
+ */
+function FGTSSettingsFields({ value, onChange }: FGTSSettingsFieldsProps) {
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">FGTS</legend>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="fgts-competencia">
+                    Competência do saldo inicial:
+                    <span className="settings-panel__optional"> (vazio = primeiro mês salvo)</span>
+                </label>
+                <input
+                    id="fgts-competencia"
+                    type="month"
+                    className="settings-panel__input"
+                    value={value.competenciaInicial ?? ''}
+                    onChange={(e) => onChange({ ...value, competenciaInicial: e.target.value || null })}
+                />
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="fgts-saldo">
+                    Saldo inicial (R$):
+                </label>
+                <input
+                    id="fgts-saldo"
+                    type="number"
+                    className="settings-panel__input"
+                    value={value.saldoInicial}
+                    onChange={(e) => onChange({ ...value, saldoInicial: parseFloat(e.target.value) || 0 })}
+                    step="0.01"
+                    min="0"
+                />
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="fgts-tr">
+                    TR mensal (%):
+                </label>
+                <input
+                    id="fgts-tr"
+                    type="number"
+                    className="settings-panel__input"
+                    value={value.trMensal}
+                    onChange={(e) => onChange({ ...value, trMensal: parseFloat(e.target.value) || 0 })}
+                    step="0.0001"
+                    min="0"
+                />
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="fgts-aniversario">
+                    <input
+                        id="fgts-aniversario"
+                        type="checkbox"
+                        checked={value.saqueAniversario}
+                        onChange={(e) => onChange({ ...value, saqueAniversario: e.target.checked })}
+                    />
+                    {' '}Optante do saque-aniversário (saldo bloqueado na dispensa)
+                </label>
+            </div>
+        </fieldset>
+    );
+}
+
+export default FGTSSettingsFields;
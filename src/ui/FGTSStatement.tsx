@@ -0,0 +1,161 @@
+/**
+ * FGTSStatement.tsx
+ *
+ * Componente React para exibir o extrato do FGTS e os valores de saque.
+ *
+ * RESPONSABILIDADES:
+ * - Exibir saldo atual, depósitos e rendimentos acumulados
+ * - Exibir os últimos lançamentos do extrato (depósito, 13º, rendimento, saldo)
+ * - Exibir o que poderia ser sacado: dispensa sem justa causa e saque-aniversário
+ *
+ * REGRAS:
+ * - Não implementa cálculos diretamente (delega para fgts.ts)
+ * - Reaproveita as classes CSS do Summary e a tabela do simulador de rescisão
+ */
+
+import type { FGTSLedgerEntry } from '../core/types';
+import { calculateFGTSWithdrawal } from '../core/fgts';
+import './Summary.css';
+import './TerminationSimulator.css';
+
+/**
+ * Props do componente FGTSStatement
+ */
+type FGTSStatementProps = {
+    /**
+     * Lançamentos do extrato (em ordem cronológica, não vazio)
+     */
+    extrato: FGTSLedgerEntry[];
+
+    /**
+     * Optante do saque-aniversário
+     */
+    saqueAniversario: boolean;
+};
+
+/**
+ * Quantidade de lançamentos exibidos na tabela
+ */
+const VISIBLE_ENTRIES = 12;
+
+/**
+ * Formata um valor numérico como moeda brasileira (R$)
+ */
+function formatCurrency(value: number): string {
+    return value.toLocaleString('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+}
+
+/**
+ * Formata uma competência "YYYY-MM" como MM/YYYY
+ */
+function formatCompetencia(key: string): string {
+    const [year, month] = key.split('-');
+    return `${month}/${year}`;
+}
+
+/**
+ * Componente principal: extrato do FGTS
+ */
+function FGTSStatement({ extrato, saqueAniversario }: FGTSStatementProps) {
+    const saldo = extrato[extrato.length - 1].saldo;
+    const depositos = extrato.reduce((sum, e) => sum + e.deposito + e.deposito13, 0);
+    const rendimentos = extrato.reduce((sum, e) => sum + e.rendimento, 0);
+    const saque = calculateFGTSWithdrawal(saldo, saqueAniversario);
+    const recentes = extrato.slice(-VISIBLE_ENTRIES).reverse();
+
+    return (
+        <div className="summary">
+            <h2 className="summary__title">Extrato do FGTS</h2>
+
+            {/* Seção: Saldo */}
+            <section className="summary__section">
+                <div className="summary__grid">
+                    <div className="summary__item">
+                        <span className="summary__label">Depósitos no período:</span>
+                        <span className="summary__value summary__value--fgts">{formatCurrency(depositos)}</span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Rendimentos (TR + 3% a.a.):</span>
+                        <span className="summary__value">{formatCurrency(rendimentos)}</span>
+                    </div>
+
+                    <div className="summary__item summary__item--large">
+                        <span className="summary__label">
+                            Saldo em {formatCompetencia(extrato[extrato.length - 1].competencia)}:
+                        </span>
+                        <span className="summary__value summary__value--highlight">{formatCurrency(saldo)}</span>
+                    </div>
+                </div>
+            </section>
+
+            {/* Seção: Lançamentos */}
+            <section className="summary__section">
+                <h3 className="summary__section-title">Últimos lançamentos</h3>
+
+                <table className="termination__table">
+                    <thead>
+                        <tr>
+                            <th>Competência</th>
+                            <th>Depósito</th>
+                            <th>Rendimento</th>
+                            <th>Saldo</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {recentes.map((e) => (
+                            <tr key={e.competencia}>
+                                <td>{formatCompetencia(e.competencia)}</td>
+                                <td>
+                                    {formatCurrency(e.deposito)}
+                                    {e.deposito13 > 0 && ` + ${formatCurrency(e.deposito13)} (13º)`}
+                                </td>
+                                <td>{formatCurrency(e.rendimento)}</td>
+                                <td>{formatCurrency(e.saldo)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </section>
+
+            {/* Seção: Saques */}
+            <section className="summary__section summary__section--final">
+                <h3 className="summary__section-title">Quanto eu sacaria?</h3>
+
+                <div className="summary__grid">
+                    <div className="summary__item">
+                        <span className="summary__label">
+                            Dispensa sem justa causa
+                            {saqueAniversario ? ' (saldo bloqueado, só a multa)' : ' (saldo + multa de 40%)'}:
+                        </span>
+                        <span className="summary__value">{formatCurrency(saque.dispensa.total)}</span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">
+                            Saque-aniversário ({saque.saqueAniversario.aliquota}%
+                            {saque.saqueAniversario.parcelaAdicional > 0
+                                && ` + ${formatCurrency(saque.saqueAniversario.parcelaAdicional)}`}):
+                        </span>
+                        <span className="summary__value">{formatCurrency(saque.saqueAniversario.valor)}</span>
+                    </div>
+                </div>
+            </section>
+
+            {/* Rodapé informativo */}
+            <footer className="summary__footer">
+                <p className="summary__note">
+                    <strong>Nota:</strong> Depósitos calculados sobre os meses salvos; meses sem registro
+                    apenas rendem. Saldo inicial, TR e saque-aniversário em Configurações → FGTS.
+                </p>
+            </footer>
+        </div>
+    );
+}
+
+export default FGTSStatement;
@@ -0,0 +1,212 @@
+/**
+ * HolidaySettingsFields.tsx
+ *
+ * Campos do SettingsPanel para escolher os calendários de feriados.
+ *
+ * RESPONSABILIDADES:
+ * - Selecionar UF e município (calendários embutidos em holidayData.ts)
+ * - Cadastrar/remover feriados extras e pontos facultativos
+ * - Definir se pontos facultativos contam como feriado
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio além do formulário de novo feriado
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import { useState } from 'react';
+import type { CustomHoliday, HolidaySettings, HolidayType } from '../core/types';
+import { listMunicipalCalendars, listStateCalendars } from '../core/holidays';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente HolidaySettingsFields
+ */
+type HolidaySettingsFieldsProps = {
+    /**
+     * Configuração atual (em edição)
+     */
+    value: HolidaySettings;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: HolidaySettings) => void;
+};
+
+/**
+ * Opções de abrangência para feriados extras
+ */
+const CUSTOM_TYPE_OPTIONS: { value: HolidayType; label: string }[] = [
+    { value: 'municipal', label: 'Feriado' },
+    { value: 'facultativo', label: 'Ponto facultativo' },
+];
+
+/**
+ * Componente principal: campos de calendário de feriados
+ */
+function HolidaySettingsFields({ value, onChange }: HolidaySettingsFieldsProps) {
+    // Formulário de novo feriado extra
+    const [novaData, setNovaData] = useState('');
+    const [novoNome, setNovoNome] = useState('');
+    const [novoTipo, setNovoTipo] = useState<HolidayType>('municipal');
+    const [novoAnual, setNovoAnual] = useState(false);
+
+    const municipios = listMunicipalCalendars(value.uf);
+
+    /**
+     * Troca de UF: limpa o município se ele não pertence à nova UF
+     */
+    const handleUFChange = (uf: string) => {
+        const novaUF = uf || null;
+        const municipioValido = listMunicipalCalendars(novaUF).some((m) => m.id === value.municipio);
+        onChange({ ...value, uf: novaUF, municipio: municipioValido ? value.municipio : null });
+    };
+
+    /**
+     * Adiciona o feriado extra preenchido
+     */
+    const handleAddExtra = () => {
+        if (!novaData || !novoNome.trim()) return;
+
+        const extra: CustomHoliday = { data: novaData, nome: novoNome.trim(), tipo: novoTipo, anual: novoAnual };
+        onChange({ ...value, extras: [...value.extras, extra] });
+        setNovaData('');
+        setNovoNome('');
+        setNovoAnual(false);
+    };
+
+    /**
+     * Remove um feriado extra pelo índice
+     */
+    const handleRemoveExtra = (index: number) => {
+        onChange({ ...value, extras: value.extras.filter((_, i) => i !== index) });
+    };
+
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Feriados</legend>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="feriados-uf">
+                    Estado (UF):
+                </label>
+                <select
+                    id="feriados-uf"
+                    className="settings-panel__select"
+                    value={value.uf ?? ''}
+                    onChange={(e) => handleUFChange(e.target.value)}
+                >
+                    <option value="">Apenas nacionais</option>
+                    {listStateCalendars().map((calendar) => (
+                        <option key={calendar.id} value={calendar.id}>
+                            {calendar.nome}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="feriados-municipio">
+                    Município:
+                </label>
+                <select
+                    id="feriados-municipio"
+                    className="settings-panel__select"
+                    value={value.municipio ?? ''}
+                    onChange={(e) => onChange({ ...value, municipio: e.target.value || null })}
+                    disabled={municipios.length === 0}
+                >
+                    <option value="">Nenhum</option>
+                    {municipios.map((calendar) => (
+                        <option key={calendar.id} value={calendar.id}>
+                            {calendar.nome}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="feriados-facultativos">
+                    <input
+                        id="feriados-facultativos"
+                        type="checkbox"
+                        checked={value.facultativosComoFeriado}
+                        onChange={(e) => onChange({ ...value, facultativosComoFeriado: e.target.checked })}
+                    />
+                    {' '}Tratar pontos facultativos como feriado
+                </label>
+            </div>
+
+            <div className="settings-panel__field">
+                <span className="settings-panel__label">Feriados extras:</span>
+                {value.extras.length === 0 && (
+                    <span className="settings-panel__optional">Nenhum feriado extra cadastrado</span>
+                )}
+                {value.extras.map((extra, index) => (
+                    <div key={`${extra.data}-${index}`} className="settings-panel__list-item">
+                        <span>
+                            {extra.data}{extra.anual ? ' (anual)' : ''} — {extra.nome}
+                            {extra.tipo === 'facultativo' ? ' · ponto facultativo' : ''}
+                        </span>
+                        <button
+                            type="button"
+                            className="settings-panel__button settings-panel__button--cancel"
+                            onClick={() => handleRemoveExtra(index)}
+                        >
+                            ✕
+                        </button>
+                    </div>
+                ))}
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="feriados-nova-data">
+                    Novo feriado extra:
+                </label>
+                <input
+                    id="feriados-nova-data"
+                    type="date"
+                    className="settings-panel__input"
+                    value={novaData}
+                    onChange={(e) => setNovaData(e.target.value)}
+                />
+                <input
+                    type="text"
+                    className="settings-panel__input"
+                    value={novoNome}
+                    onChange={(e) => setNovoNome(e.target.value)}
+                    placeholder="Nome (ex: Aniversário da cidade)"
+                />
+                <select
+                    className="settings-panel__select"
+                    value={novoTipo}
+                    onChange={(e) => setNovoTipo(e.target.value as HolidayType)}
+                >
+                    {CUSTOM_TYPE_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                            {option.label}
+                        </option>
+                    ))}
+                </select>
+                <label className="settings-panel__label">
+                    <input
+                        type="checkbox"
+                        checked={novoAnual}
+                        onChange={(e) => setNovoAnual(e.target.checked)}
+                    />
+                    {' '}Repete todo ano
+                </label>
+                <button
+                    type="button"
+                    className="settings-panel__button settings-panel__button--edit"
+                    onClick={handleAddExtra}
+                    disabled={!novaData || !novoNome.trim()}
+                >
+                    ➕ Adicionar
+                </button>
+            </div>
+        </fieldset>
+    );
+}
+
+export default HolidaySettingsFields;
@@ -0,0 +1,69 @@
+/**
+ * IdentificationFields.tsx
+ *
+ * Campos do SettingsPanel para a identificação do trabalhador e do empregador
+ * (cabeçalho do espelho de ponto).
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio
+ * - Todos os campos são opcionais (em branco saem vazios no espelho)
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import type { EmploymentInfo } from '../core/types';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente IdentificationFields
+ */
+type IdentificationFieldsProps = {
+    /**
+     * Identificação atual (em edição)
+     */
+    value: EmploymentInfo;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: EmploymentInfo) => void;
+};
+
+/**
+ * Campos exibidos: chave, rótulo e placeholder
+ */
+const FIELDS: [keyof EmploymentInfo, string, string][] = [
+    ['nome', 'Nome do trabalhador:', 'Maria da Silva'],
+    ['cargo', 'Cargo:', 'Assistente administrativo'],
+    ['pisCpf', 'PIS/CPF:', '12345678901'],
+    ['empregador', 'Empregador (razão social):', 'Empresa Ltda'],
+    ['cnpjEmpregador', 'CNPJ/CPF do empregador:', '12.345.678/0001-90'],
+];
+
+/**
+ * Componente principal: campos de identificação
+ */
+function IdentificationFields({ value, onChange }: IdentificationFieldsProps) {
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Identificação (Espelho de Ponto)</legend>
+
+            {FIELDS.map(([campo, rotulo, exemplo]) => (
+                <div key={campo} className="settings-panel__field">
+                    <label className="settings-panel__label" htmlFor={`identificacao-${campo}`}>
+                        {rotulo}
+                    </label>
+                    <input
+                        id={`identificacao-${campo}`}
+                        type="text"
+                        className="settings-panel__input"
+                        value={value[campo]}
+                        onChange={(e) => onChange({ ...value, [campo]: e.target.value })}
+                        placeholder={exemplo}
+                    />
+                </div>
+            ))}
+        </fieldset>
+    );
+}
+
+export default IdentificationFields;
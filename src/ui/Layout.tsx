@@ -8,10 +8,50 @@
 import { useState, useMemo, useEffect } from 'react';
 import DayRow from './DayRow';
 import Summary from './Summary';
+import YearSummary from './YearSummary';
+import TerminationSimulator from './TerminationSimulator';
+import FGTSStatement from './FGTSStatement';
+import AFDImporter from './AFDImporter';
+import CSVTransfer from './CSVTransfer';
+import TimeSheetReport from './TimeSheetReport';
 import SettingsPanel from './SettingsPanel';
-import { calculateMonthlySummary } from '../core/calculations';
-import type { DayRecord, Settings } from '../core/types';
-import { isHoliday } from '../core/holidays';
+import {
+    calculateMonthlySummary,
+    getMonthTaxTables,
+    getStoredMonthTaxTables,
+    groupDaysByWeek,
+} from '../core/calculations';
+import type {
+    AFDDayDiff,
+    AFDDayImport,
+    CSVDayImport,
+    ComplianceWarning,
+    DayRecord,
+    MonthHistory,
+    OvertimeHours,
+    Settings,
+    TaxTables,
+    TerminationInput,
+    TerminationResult,
+    VacationPeriod,
+    VacationSettings,
+    WeeklySummary,
+} from '../core/types';
+import { getHolidayInfo, isHoliday } from '../core/holidays';
+import { isScheduledWorkDay } from '../core/schedule';
+import { isVacationDay } from '../core/vacation';
+import { calculateThirteenthSalary } from '../core/thirteenth';
+import { buildFGTSLedger } from '../core/fgts';
+import { buildTimeBankLedger } from '../core/timeBank';
+import {
+    getOvertimeHoursAt,
+    getOvertimePercents,
+    getRestCompensationIssue,
+    getRestCompensations,
+    isRestDayCompensated,
+} from '../core/overtime';
+import { checkCompliance } from '../core/compliance';
+import { toDateKey, toMonthKey } from '../core/time';
 import '../styles/app.css'; // Importando o novo estilo cartoon
 
 /**
@@ -21,8 +61,55 @@ type LayoutProps = {
     days: DayRecord[];
     settings: Settings;
     onSettingsChange: (settings: Settings) => void;
+    /**
+     * Chamado sempre que os dias do mês são editados (para persistência)
+     */
+    onDaysChange?: (days: DayRecord[]) => void;
     salarioMensal: number;
     descontoINSS?: number;
+    /**
+     * Chamado quando o desconto INSS manual muda (undefined = automático)
+     */
+    onINSSChange?: (descontoINSS: number | undefined) => void;
+    /**
+     * Tabelas guardadas no fechamento do mês (undefined = mês aberto)
+     */
+    tabelasFechamento?: TaxTables;
+    /**
+     * Chamado ao fechar (tabelas atuais) ou reabrir (undefined) o mês
+     */
+    onCloseMonthChange?: (tabelas: TaxTables | undefined) => void;
+    /**
+     * Dias de todos os meses salvos (13º e FGTS); o mês atual é substituído pelos dias em edição
+     */
+    storedMonths?: DayRecord[][];
+    /**
+     * Tabelas guardadas no fechamento de cada mês ("YYYY-MM"); o mês atual segue o fechamento em tela
+     */
+    storedClosedMonths?: Record<string, TaxTables>;
+    /**
+     * Calcula a média de horas extras do período aquisitivo de umas férias
+     */
+    onComputeOvertimeAverage?: (
+        ferias: VacationSettings,
+        periodo: VacationPeriod
+    ) => Promise<OvertimeHours>;
+    /**
+     * Simula a rescisão a partir dos meses salvos
+     */
+    onSimulateTermination?: (input: TerminationInput) => Promise<TerminationResult | null>;
+    /**
+     * Prévia da importação do AFD sobre os meses salvos
+     */
+    onPreviewAFD?: (dias: AFDDayImport[], sobrescrever: boolean) => Promise<AFDDayDiff[]>;
+    /**
+     * Grava os dias importados do AFD (e o PIS/CPF usado)
+     */
+    onImportAFD?: (dias: AFDDayImport[], sobrescrever: boolean, documento: string) => Promise<void>;
+    /**
+     * Grava os dias lidos de uma planilha CSV
+     */
+    onImportCSV?: (dias: CSVDayImport[]) => Promise<void>;
 };
 
 /**
@@ -37,43 +124,57 @@ function formatMonthYear(date: Date): string {
 }
 
 /**
- * Agrupa os registros em semanas (começando no domingo)
+ * Totais de uma semana (horas, extras, limite semanal e DSR)
  */
-function groupDaysByWeek(days: DayRecord[]): DayRecord[][] {
-    if (days.length === 0) return [];
-
-    const weeks: DayRecord[][] = [];
-    let currentWeek: DayRecord[] = [];
-
-    days.forEach((day) => {
-        // Se for domingo e a semana atual já tiver algo, começamos nova semana
-        // Ou se for o primeiro dia
-        if (day.date.getDay() === 0 && currentWeek.length > 0) {
-            weeks.push(currentWeek);
-            currentWeek = [];
-        }
-        currentWeek.push(day);
-    });
-
-    if (currentWeek.length > 0) {
-        weeks.push(currentWeek);
-    }
-
-    return weeks;
+function WeekTotals({ semana }: { semana: WeeklySummary }) {
+    return (
+        <div className="week-group__totals">
+            <span>{semana.totalHoras.toFixed(2)}h trabalhadas</span>
+            <span>{semana.horasNormais.toFixed(2)}h normais</span>
+            {getOvertimePercents(semana.horasExtras).map((percentual) => (
+                <span key={percentual}>
+                    {getOvertimeHoursAt(semana.horasExtras, percentual).toFixed(2)}h extra {percentual}%
+                </span>
+            ))}
+            {semana.horasExtraLimiteSemanal > 0 && (
+                <span className="week-group__limit">
+                    +{semana.horasExtraLimiteSemanal.toFixed(2)}h acima de {semana.limiteSemanalHoras}h/semana
+                </span>
+            )}
+            {semana.limiteSemanalHoras === null && (
+                <span className="week-group__note">limite semanal não avaliado</span>
+            )}
+            {semana.dsr > 0 && <span>DSR R$ {semana.dsr.toFixed(2)}</span>}
+        </div>
+    );
 }
 
 const Layout = ({
     days: initialDays,
     settings,
     onSettingsChange,
+    onDaysChange,
     salarioMensal,
-    descontoINSS: initialINSS
+    descontoINSS: initialINSS,
+    onINSSChange,
+    tabelasFechamento: initialTabelasFechamento,
+    onCloseMonthChange,
+    onComputeOvertimeAverage,
+    storedMonths,
+    storedClosedMonths,
+    onSimulateTermination,
+    onPreviewAFD,
+    onImportAFD,
+    onImportCSV
 }: LayoutProps) => {
 
     // Estados locais (apenas para dias e UI)
     const [days, setDays] = useState<DayRecord[]>(initialDays);
     const [descontoINSS, setDescontoINSS] = useState<number | undefined>(initialINSS);
+    const [tabelasFechamento, setTabelasFechamento] = useState<TaxTables | undefined>(initialTabelasFechamento);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isTimeSheetOpen, setIsTimeSheetOpen] = useState(false);
+    const [isFGTSOpen, setIsFGTSOpen] = useState(false);
 
     // Gerenciamento de Tema (Dark Mode)
     const [theme, setTheme] = useState<'light' | 'dark'>(() => {
@@ -90,66 +191,215 @@ const Layout = ({
         setTheme(prev => prev === 'light' ? 'dark' : 'light');
     };
 
+    /**
+     * Aplica uma nova lista de dias e notifica o parent para persistir
+     */
+    const commitDays = (nextDays: DayRecord[]) => {
+        setDays(nextDays);
+        onDaysChange?.(nextDays);
+    };
+
     /**
      * Atualização de um dia individual
+     * (folga compensatória recém-vinculada a uma folga trabalhada fica sem horário)
      */
     const handleDayUpdate = (updatedDay: DayRecord) => {
-        setDays(prev => prev.map(d =>
-            d.date.getTime() === updatedDay.date.getTime() ? updatedDay : d
-        ));
+        const anterior = days.find(d => d.date.getTime() === updatedDay.date.getTime());
+        const novaCompensacao = updatedDay.folgaCompensatoria !== anterior?.folgaCompensatoria
+            ? updatedDay.folgaCompensatoria
+            : undefined;
+
+        commitDays(days.map(d => {
+            if (d.date.getTime() === updatedDay.date.getTime()) return updatedDay;
+            if (novaCompensacao && toDateKey(d.date) === novaCompensacao && !d.ehFolga && !d.ehFerias) {
+                return {
+                    ...d,
+                    entrada: '',
+                    saida: '',
+                    intervaloHoras: 0,
+                    marcacoes: undefined,
+                    ausencia: undefined,
+                    compensacao: undefined,
+                };
+            }
+            return d;
+        }));
+    };
+
+    /**
+     * Atualização do desconto INSS manual
+     */
+    const handleINSSChange = (newINSS: number | undefined) => {
+        setDescontoINSS(newINSS);
+        onINSSChange?.(newINSS);
+    };
+
+    /**
+     * Fecha o mês (congela as tabelas vigentes) ou reabre
+     */
+    const handleToggleClosed = () => {
+        const next = tabelasFechamento ? undefined : getMonthTaxTables(days, settings);
+        setTabelasFechamento(next);
+        onCloseMonthChange?.(next);
     };
 
     /**
      * Atualização das configurações globais
-     * Reinunda dias que usam o valor padrão ou precisam mudar de folga/feriado
+     * Reinunda dias que usam o valor padrão ou precisam mudar de folga/feriado/férias
+     * (folgas seguem o ciclo da nova escala; férias seguem os períodos cadastrados)
      */
     const handleSettingsChange = (newSettings: Settings) => {
         onSettingsChange(newSettings);
 
-        const weekDayMap: Record<string, number> = {
-            'domingo': 0, 'segunda': 1, 'terca': 2, 'quarta': 3, 'quinta': 4, 'sexta': 5, 'sabado': 6,
-        };
-        const folgaDayNumber = weekDayMap[newSettings.folgaPadrao];
-
-        setDays(prev => prev.map(day => {
+        commitDays(days.map(day => {
             const date = day.date;
-            const dayOfWeek = date.getDay();
-            const isFolga = dayOfWeek === folgaDayNumber;
-            const ehFeriado = isHoliday(date);
+            const isFolga = !isScheduledWorkDay(date, newSettings.escala);
+            const ehFeriado = isHoliday(date, newSettings.feriados);
+            const feriado = getHolidayInfo(date, newSettings.feriados);
+            const ehFerias = isVacationDay(date, newSettings.ferias);
 
-            const statusMudou = day.ehFolga !== isFolga || day.ehFeriado !== ehFeriado;
+            const statusMudou = day.ehFolga !== isFolga || day.ehFeriado !== ehFeriado
+                || (day.ehFerias ?? false) !== ehFerias;
 
             if (statusMudou) {
+                // Folga e férias descartam ausência e compensação; os demais continuam sem horário
+                // (sem horário, a folga deixa de ter folga compensatória vinculada)
+                const ausencia = isFolga || ehFerias ? undefined : day.ausencia;
+                const compensacao = isFolga || ehFerias ? undefined : day.compensacao;
+                const semHorario = isFolga || ehFerias || compensacao || (ausencia !== undefined && ausencia.tipo !== 'atraso');
                 return {
                     ...day,
                     ehFolga: isFolga,
                     ehFeriado: ehFeriado,
-                    entrada: isFolga ? '' : newSettings.horaEntradaPadrao,
-                    saida: isFolga ? '' : newSettings.horaSaidaPadrao,
-                    intervaloHoras: isFolga ? 0 : newSettings.intervaloPadraoHoras
+                    ehFerias,
+                    ausencia,
+                    compensacao,
+                    folgaCompensatoria: undefined,
+                    feriado,
+                    entrada: semHorario ? '' : newSettings.horaEntradaPadrao,
+                    saida: semHorario ? '' : newSettings.horaSaidaPadrao,
+                    intervaloHoras: semHorario ? 0 : newSettings.intervaloPadraoHoras,
+                    marcacoes: undefined
                 };
             }
 
-            const isDefaultTime =
+            const isDefaultTime = !day.marcacoes &&
                 day.entrada === settings.horaEntradaPadrao &&
                 day.saida === settings.horaSaidaPadrao;
 
-            if (isDefaultTime && !isFolga) {
+            if (isDefaultTime && !isFolga && !ehFerias) {
                 return {
                     ...day,
+                    feriado,
                     entrada: newSettings.horaEntradaPadrao,
                     saida: newSettings.horaSaidaPadrao,
                     intervaloHoras: newSettings.intervaloPadraoHoras
                 };
             }
 
-            return day;
+            // Mantém horários editados, mas atualiza o nome do feriado/ponto facultativo
+            return { ...day, feriado };
         }));
     };
 
+    // Histórico: meses salvos + mês atual (com as edições ainda em tela)
+    const historico = useMemo(() => {
+        if (!storedMonths || days.length === 0) return null;
+        const atual = toMonthKey(days[0].date.getFullYear(), days[0].date.getMonth());
+        return [
+            ...storedMonths.filter((m) => m.length > 0
+                && toMonthKey(m[0].date.getFullYear(), m[0].date.getMonth()) !== atual),
+            days,
+        ].sort((a, b) => a[0].date.getTime() - b[0].date.getTime());
+    }, [storedMonths, days]);
+
+    // Última competência dos extratos: o mês de hoje, ou o último mês salvo se posterior
+    const ultimaCompetencia = useMemo(() => {
+        const hoje = new Date();
+        const meses = historico ?? [days];
+        const ultimo = meses.length > 0 && meses[meses.length - 1].length > 0 ? meses[meses.length - 1][0].date : hoje;
+        return [toMonthKey(hoje.getFullYear(), hoje.getMonth()), toMonthKey(ultimo.getFullYear(), ultimo.getMonth())].sort()[1];
+    }, [historico, days]);
+
+    // Banco de horas até a última competência (apenas no modo banco de horas) e
+    // tabelas dos meses fechados, usados no mês atual e nos meses recalculados (13º e FGTS)
+    const historicoMeses = useMemo<MonthHistory>(() => {
+        const tabelas = { ...storedClosedMonths };
+        if (days.length > 0) {
+            const atual = toMonthKey(days[0].date.getFullYear(), days[0].date.getMonth());
+            delete tabelas[atual];
+            if (tabelasFechamento) tabelas[atual] = tabelasFechamento;
+        }
+        return {
+            bancoHoras: settings.bancoHoras.ativo && days.length > 0
+                ? buildTimeBankLedger(historico ?? [days], settings, ultimaCompetencia)
+                : [],
+            tabelasFechamento: tabelas,
+        };
+    }, [historico, days, settings, ultimaCompetencia, storedClosedMonths, tabelasFechamento]);
+
+    const bancoHorasMes = useMemo(() => {
+        if (days.length === 0) return null;
+        const atual = toMonthKey(days[0].date.getFullYear(), days[0].date.getMonth());
+        return historicoMeses.bancoHoras.find((l) => l.competencia === atual) ?? null;
+    }, [historicoMeses, days]);
+
     // Cálculos derivados
-    const monthlySummary = useMemo(() => calculateMonthlySummary(days, settings), [days, settings]);
+    // Mês fechado usa as tabelas guardadas; aberto usa as vigentes na competência
+    const monthlySummary = useMemo(
+        () => calculateMonthlySummary(
+            days,
+            settings,
+            tabelasFechamento ?? getMonthTaxTables(days, settings),
+            bancoHorasMes
+        ),
+        [days, settings, tabelasFechamento, bancoHorasMes]
+    );
     const weeks = useMemo(() => groupDaysByWeek(days), [days]);
+    const compensacoesFolga = useMemo(() => getRestCompensations(days), [days]);
+
+    // Violações de jornada do mês, agrupadas por dia para os DayRows
+    const alertas = useMemo(() => checkCompliance(days, settings), [days, settings]);
+    const alertasPorDia = useMemo(() => {
+        const porDia = new Map<string, ComplianceWarning[]>();
+        for (const alerta of alertas) {
+            const key = toDateKey(alerta.data);
+            porDia.set(key, [...(porDia.get(key) ?? []), alerta]);
+        }
+        return porDia;
+    }, [alertas]);
+
+    // 13º do ano selecionado
+    const decimoTerceiro = useMemo(() => {
+        if (!historico) return null;
+        const year = days[0].date.getFullYear();
+        return calculateThirteenthSalary(
+            year,
+            historico,
+            settings,
+            getStoredMonthTaxTables(year, 11, settings, historicoMeses),
+            historicoMeses
+        );
+    }, [historico, days, settings, historicoMeses]);
+
+    // Extrato do FGTS até o mês atual (ou até o último mês salvo, se posterior);
+    // recalcula todos os meses salvos, por isso só com o extrato aberto
+    const extratoFGTS = useMemo(() => {
+        if (!historico || !isFGTSOpen) return null;
+        return buildFGTSLedger(historico, settings, ultimaCompetencia, historicoMeses);
+    }, [historico, settings, ultimaCompetencia, historicoMeses, isFGTSOpen]);
+
+    // Rescisão: sem saldo informado, usa o saldo do extrato do FGTS (calculado na simulação)
+    const handleSimulateTermination = onSimulateTermination && ((input: TerminationInput) => {
+        const extrato = extratoFGTS
+            ?? (historico ? buildFGTSLedger(historico, settings, ultimaCompetencia, historicoMeses) : null);
+        return onSimulateTermination({
+            ...input,
+            saldoFGTS: input.saldoFGTS
+                ?? (extrato && extrato.length > 0 ? extrato[extrato.length - 1].saldo : undefined),
+        });
+    });
+
     const monthYearTitle = days.length > 0 ? formatMonthYear(days[0].date) : 'Mês Atual';
 
     return (
@@ -168,6 +418,23 @@ const Layout = ({
                         >
                             {theme === 'light' ? '🌙' : '☀️'}
                         </button>
+                        <button
+                            className="duo-button"
+                            onClick={handleToggleClosed}
+                            title={tabelasFechamento
+                                ? 'Mês fechado: tabelas congeladas. Clique para reabrir.'
+                                : 'Fechar o mês mantém as tabelas atuais mesmo se novas forem cadastradas'}
+                        >
+                            {tabelasFechamento ? '🔒 Mês fechado' : '🔓 Fechar mês'}
+                        </button>
+                        <button
+                            className="duo-button"
+                            onClick={() => setIsTimeSheetOpen(true)}
+                            disabled={days.length === 0}
+                            title="Espelho de ponto do mês (PDF ou impressão)"
+                        >
+                            🖨️ Espelho
+                        </button>
                         <button
                             className="duo-button duo-button--navy"
                             onClick={() => setIsSettingsOpen(true)}
@@ -187,14 +454,24 @@ const Layout = ({
                             settings={settings}
                             onSettingsChange={(s) => { handleSettingsChange(s); setIsSettingsOpen(false); }}
                             salarioMensal={salarioMensal}
-                            onSalarioChange={(s) => onSettingsChange({ ...settings, salarioMensal: s })}
                             descontoINSS={descontoINSS}
-                            onINSSChange={setDescontoINSS}
+                            onINSSChange={handleINSSChange}
+                            onComputeOvertimeAverage={onComputeOvertimeAverage}
                         />
                     </div>
                 </div>
             )}
 
+            {/* Espelho de ponto */}
+            {isTimeSheetOpen && (
+                <TimeSheetReport
+                    days={days}
+                    settings={settings}
+                    monthlySummary={monthlySummary}
+                    onClose={() => setIsTimeSheetOpen(false)}
+                />
+            )}
+
             <div className="layout__content">
                 {/* Coluna Principal: Lista de Dias */}
                 <section className="layout__days-section">
@@ -203,21 +480,40 @@ const Layout = ({
                             {weeks.map((week, wIndex) => (
                                 <div key={wIndex} className="week-group">
                                     <h3 className="week-group__title">Semana {wIndex + 1}</h3>
+                                    {monthlySummary.semanas[wIndex] && (
+                                        <WeekTotals semana={monthlySummary.semanas[wIndex]} />
+                                    )}
                                     {week.map((day, dIndex) => {
                                         let extraClass = "cartoon-day";
                                         let icon = "💼";
-                                        if (day.ehFolga) {
+                                        if (day.ehFerias) {
+                                            extraClass += " cartoon-day--ferias";
+                                            icon = "🏖️";
+                                        } else if (day.ehFolga) {
                                             extraClass += " cartoon-day--folga";
                                             icon = "💤";
                                         } else if (day.ehFeriado) {
                                             extraClass += " cartoon-day--feriado";
                                             icon = "🎉";
+                                        } else if (day.ausencia?.tipo === 'injustificada') {
+                                            icon = "🚫";
+                                        } else if (day.ausencia && day.ausencia.tipo !== 'atraso') {
+                                            icon = "🩺";
                                         }
 
                                         return (
                                             <div key={dIndex} className={extraClass}>
                                                 <div className="cartoon-icon">{icon}</div>
-                                                <DayRow day={day} onUpdate={handleDayUpdate} />
+                                                <DayRow
+                                                    day={day}
+                                                    onUpdate={handleDayUpdate}
+                                                    bancoHoras={settings.bancoHoras.ativo}
+                                                    folgaEmDobro={settings.horasExtras.folgaEmDobro}
+                                                    compensaFolga={compensacoesFolga.get(toDateKey(day.date))}
+                                                    folgaCompensada={isRestDayCompensated(day, compensacoesFolga)}
+                                                    problemaCompensacao={getRestCompensationIssue(day, days, compensacoesFolga)}
+                                                    alertas={alertasPorDia.get(toDateKey(day.date))}
+                                                />
                                             </div>
                                         );
                                     })}
@@ -238,8 +534,68 @@ const Layout = ({
                             monthlySummary={monthlySummary}
                             salarioMensal={salarioMensal}
                             descontoINSS={descontoINSS}
+                            irrf={settings.irrf}
+                            divisor={settings.cargaHoraria.divisor}
+                            alertas={alertas}
                         />
                     </div>
+                    {decimoTerceiro && (
+                        <div className="cartoon-summary cartoon-summary--static">
+                            <h2>
+                                Resumo Anual
+                                <span className="cartoon-icon">🎁</span>
+                            </h2>
+                            <YearSummary decimoTerceiro={decimoTerceiro} />
+                        </div>
+                    )}
+                    {historico && (
+                        <div className="cartoon-summary cartoon-summary--static">
+                            <h2>
+                                FGTS
+                                <span className="cartoon-icon">🏦</span>
+                            </h2>
+                            <button
+                                type="button"
+                                className="duo-button"
+                                onClick={() => setIsFGTSOpen((open) => !open)}
+                            >
+                                {isFGTSOpen ? 'Ocultar extrato' : 'Ver extrato'}
+                            </button>
+                            {extratoFGTS && extratoFGTS.length > 0 && (
+                                <FGTSStatement extrato={extratoFGTS} saqueAniversario={settings.fgts.saqueAniversario} />
+                            )}
+                        </div>
+                    )}
+                    {handleSimulateTermination && (
+                        <div className="cartoon-summary cartoon-summary--static">
+                            <h2>
+                                Rescisão
+                                <span className="cartoon-icon">📄</span>
+                            </h2>
+                            <TerminationSimulator onSimulate={handleSimulateTermination} />
+                        </div>
+                    )}
+                    <div className="cartoon-summary cartoon-summary--static">
+                        <h2>
+                            Planilha
+                            <span className="cartoon-icon">📊</span>
+                        </h2>
+                        <CSVTransfer
+                            days={days}
+                            settings={settings}
+                            monthlySummary={monthlySummary}
+                            onImport={onImportCSV}
+                        />
+                    </div>
+                    {onPreviewAFD && onImportAFD && (
+                        <div className="cartoon-summary cartoon-summary--static">
+                            <h2>
+                                Relógio de Ponto
+                                <span className="cartoon-icon">⏱️</span>
+                            </h2>
+                            <AFDImporter documento={settings.identificacao.pisCpf} onPreview={onPreviewAFD} onImport={onImportAFD} />
+                        </div>
+                    )}
                 </aside>
             </div>
         </div>
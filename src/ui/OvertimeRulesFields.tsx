@@ -0,0 +1,224 @@
+/**
+ * OvertimeRulesFields.tsx
+ *
+ * Campos do SettingsPanel para os percentuais de horas extras: faixas do dia
+ * de trabalho, percentual por dia da semana, folga e feriado (CLT ou CCT).
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio
+ * - A última faixa não tem limite ("demais horas")
+ * - Dia da semana em branco segue as faixas (ou o percentual da folga)
+ * - Súmula 146: a folga compensatória é vinculada em cada dia (DayRow)
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import type { OvertimeRules, OvertimeTier, WeekDay } from '../core/types';
+import { DEFAULT_OVERTIME_RULES } from '../core/overtime';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente OvertimeRulesFields
+ */
+type OvertimeRulesFieldsProps = {
+    /**
+     * Regras atuais (em edição)
+     */
+    value: OvertimeRules;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: OvertimeRules) => void;
+};
+
+/**
+ * Dias da semana exibidos, de domingo a sábado
+ */
+const WEEKDAYS: [WeekDay, string][] = [
+    ['domingo', 'Domingo'],
+    ['segunda', 'Segunda'],
+    ['terca', 'Terça'],
+    ['quarta', 'Quarta'],
+    ['quinta', 'Quinta'],
+    ['sexta', 'Sexta'],
+    ['sabado', 'Sábado'],
+];
+
+/**
+ * Verifica se os limites das faixas estão em ordem crescente
+ */
+function isAscending(faixas: OvertimeTier[]): boolean {
+    return faixas.every((faixa, i) => i === 0
+        || faixa.ateHoras === null
+        || (faixas[i - 1].ateHoras ?? Infinity) < faixa.ateHoras);
+}
+
+/**
+ * Componente principal: campos dos percentuais de horas extras
+ */
+function OvertimeRulesFields({ value, onChange }: OvertimeRulesFieldsProps) {
+    const faixas = value.faixas.length > 0 ? value.faixas : DEFAULT_OVERTIME_RULES.faixas;
+    const ultima = faixas.length - 1;
+
+    /**
+     * Atualiza uma faixa pelo índice
+     */
+    const updateFaixa = (index: number, faixa: OvertimeTier) => {
+        onChange({ ...value, faixas: faixas.map((f, i) => (i === index ? faixa : f)) });
+    };
+
+    /**
+     * Insere uma faixa limitada antes da última ("demais horas")
+     */
+    const handleAddFaixa = () => {
+        const anterior = ultima > 0 ? faixas[ultima - 1].ateHoras ?? 0 : 0;
+        const nova: OvertimeTier = { ateHoras: anterior + 2, percentual: faixas[ultima].percentual };
+        onChange({ ...value, faixas: [...faixas.slice(0, ultima), nova, faixas[ultima]] });
+    };
+
+    /**
+     * Remove uma faixa limitada pelo índice
+     */
+    const handleRemoveFaixa = (index: number) => {
+        onChange({ ...value, faixas: faixas.filter((_, i) => i !== index) });
+    };
+
+    /**
+     * Define (ou limpa, com valor vazio) o percentual de um dia da semana
+     */
+    const handleWeekdayChange = (dia: WeekDay, texto: string) => {
+        const diasSemana = { ...value.diasSemana };
+        if (texto === '') {
+            delete diasSemana[dia];
+        } else {
+            diasSemana[dia] = parseFloat(texto) || 0;
+        }
+        onChange({ ...value, diasSemana });
+    };
+
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Horas Extras</legend>
+
+            <div className="settings-panel__field">
+                <span className="settings-panel__label">Faixas do dia de trabalho (horas extras no dia):</span>
+                {faixas.map((faixa, index) => (
+                    <div key={index} className="settings-panel__list-item">
+                        {index < ultima ? (
+                            <>
+                                <span>Até</span>
+                                <input
+                                    type="number"
+                                    className="settings-panel__input"
+                                    value={faixa.ateHoras ?? ''}
+                                    onChange={(e) => updateFaixa(index, { ...faixa, ateHoras: parseFloat(e.target.value) || 0 })}
+                                    step="0.5"
+                                    min="0.5"
+                                    title="Limite da faixa (horas extras no dia)"
+                                />
+                                <span>h:</span>
+                            </>
+                        ) : (
+                            <span>{ultima > 0 ? 'Demais horas:' : 'Todas as horas:'}</span>
+                        )}
+                        <input
+                            type="number"
+                            className="settings-panel__input"
+                            value={faixa.percentual}
+                            onChange={(e) => updateFaixa(index, { ...faixa, percentual: parseFloat(e.target.value) || 0 })}
+                            step="5"
+                            min="0"
+                            title="Adicional (%)"
+                        />
+                        <span>%</span>
+                        {index < ultima && (
+                            <button
+                                type="button"
+                                className="settings-panel__button settings-panel__button--cancel"
+                                onClick={() => handleRemoveFaixa(index)}
+                            >
+                                ✕
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {!isAscending(faixas) && (
+                    <span className="settings-panel__error">Os limites das faixas devem ser crescentes</span>
+                )}
+                <button
+                    type="button"
+                    className="settings-panel__button settings-panel__button--edit"
+                    onClick={handleAddFaixa}
+                >
+                    ➕ Faixa
+                </button>
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="extras-folga">
+                    Folga trabalhada (%):
+                </label>
+                <input
+                    id="extras-folga"
+                    type="number"
+                    className="settings-panel__input"
+                    value={value.folga}
+                    onChange={(e) => onChange({ ...value, folga: parseFloat(e.target.value) || 0 })}
+                    step="5"
+                    min="0"
+                />
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="extras-folga-dobro">
+                    <input
+                        id="extras-folga-dobro"
+                        type="checkbox"
+                        checked={value.folgaEmDobro}
+                        onChange={(e) => onChange({ ...value, folgaEmDobro: e.target.checked })}
+                    />
+                    {' '}Folga trabalhada sem folga compensatória paga em dobro (Súmula 146 TST)
+                </label>
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="extras-feriado">
+                    Feriado trabalhado (%):
+                </label>
+                <input
+                    id="extras-feriado"
+                    type="number"
+                    className="settings-panel__input"
+                    value={value.feriado}
+                    onChange={(e) => onChange({ ...value, feriado: parseFloat(e.target.value) || 0 })}
+                    step="5"
+                    min="0"
+                />
+            </div>
+
+            <div className="settings-panel__field">
+                <span className="settings-panel__label">
+                    Percentual por dia da semana (%):
+                    <span className="settings-panel__optional"> (vazio = faixas/folga; não vale em feriados)</span>
+                </span>
+                {WEEKDAYS.map(([dia, rotulo]) => (
+                    <div key={dia} className="settings-panel__list-item">
+                        <label htmlFor={`extras-${dia}`}>{rotulo}</label>
+                        <input
+                            id={`extras-${dia}`}
+                            type="number"
+                            className="settings-panel__input"
+                            value={value.diasSemana[dia] ?? ''}
+                            onChange={(e) => handleWeekdayChange(dia, e.target.value)}
+                            step="5"
+                            min="0"
+                            placeholder="padrão"
+                        />
+                    </div>
+                ))}
+            </div>
+        </fieldset>
+    );
+}
+
+export default OvertimeRulesFields;
@@ -6,7 +6,10 @@
  * RESPONSABILIDADES:
  * - Exibir formulário de configurações
  * - Permitir edição de horários padrão
- * - Permitir edição de salário e INSS
+ * - Permitir edição de salário, INSS e dependentes do IRRF
+ * - Permitir escolha dos calendários de feriados (UF, município, extras)
+ * - Permitir configurar FGTS, banco de horas e a fórmula do DSR
+ * - Permitir informar a identificação do espelho de ponto
  * - Chamar callbacks quando valores mudam
  * 
  * REGRAS:
@@ -17,7 +20,46 @@
  */
 
 import { useState } from 'react';
-import type { Settings, WeekDay } from '../core/types';
+import type {
+    ContractSettings,
+    DSRMethod,
+    DSRSettings,
+    EmploymentInfo,
+    FGTSSettings,
+    HolidaySettings,
+    NightShiftRules,
+    OvertimeHours,
+    OvertimeRules,
+    ScaleType,
+    Settings,
+    TaxTableRegistry,
+    TimeBankSettings,
+    VacationPeriod,
+    VacationSettings,
+    WeekDay,
+} from '../core/types';
+import {
+    MONTHLY_DIVISOR_OPTIONS,
+    createScale,
+    formatPattern,
+    getDailyStandardHours,
+    getStandardDivisor,
+    isWeeklyScale,
+    parsePattern,
+} from '../core/schedule';
+import { NIGHT_SHIFT_PRESETS } from '../core/nightShift';
+import { describeHolidaySettings } from '../core/holidays';
+import { DSR_METHOD_LABELS } from '../core/dsr';
+import { describeOvertimeRules } from '../core/overtime';
+import { describeContract, PART_TIME_LIMITS } from '../core/contract';
+import HolidaySettingsFields from './HolidaySettingsFields';
+import TaxTableFields from './TaxTableFields';
+import OvertimeRulesFields from './OvertimeRulesFields';
+import ContractSettingsFields from './ContractSettingsFields';
+import FGTSSettingsFields from './FGTSSettingsFields';
+import TimeBankSettingsFields from './TimeBankSettingsFields';
+import IdentificationFields from './IdentificationFields';
+import VacationSettingsFields from './VacationSettingsFields';
 import './SettingsPanel.css';
 
 /**
@@ -40,9 +82,10 @@ type SettingsPanelProps = {
     salarioMensal: number;
 
     /**
-     * Callback chamado quando salário muda
+     * Callback chamado quando salário muda (opcional)
+     * O salário também já vai em newSettings.salarioMensal
      */
-    onSalarioChange: (newSalario: number) => void;
+    onSalarioChange?: (newSalario: number) => void;
 
     /**
      * Desconto INSS customizado (opcional)
@@ -51,8 +94,17 @@ type SettingsPanelProps = {
 
     /**
      * Callback chamado quando INSS muda (opcional)
+     * Recebe undefined quando o campo é esvaziado (volta ao cálculo automático)
      */
-    onINSSChange?: (newINSS: number) => void;
+    onINSSChange?: (newINSS: number | undefined) => void;
+
+    /**
+     * Calcula a média de horas extras do período aquisitivo (opcional)
+     */
+    onComputeOvertimeAverage?: (
+        ferias: VacationSettings,
+        periodo: VacationPeriod
+    ) => Promise<OvertimeHours>;
 };
 
 /**
@@ -68,6 +120,41 @@ const WEEKDAY_OPTIONS: { value: WeekDay; label: string }[] = [
     { value: 'sabado', label: 'Sábado' },
 ];
 
+/**
+ * Opções de escala para o select
+ */
+const SCALE_OPTIONS: { value: ScaleType; label: string }[] = [
+    { value: '6x1', label: '6x1 (folga fixa semanal)' },
+    { value: '5x2', label: '5x2 (duas folgas semanais)' },
+    { value: '4x2', label: '4x2 (ciclo de 6 dias)' },
+    { value: '12x36', label: '12x36 (dia sim, dia não)' },
+    { value: 'personalizada', label: 'Personalizada (padrão livre)' },
+];
+
+/**
+ * Opções de regra de adicional noturno para o select
+ */
+const NIGHT_PRESET_OPTIONS: { value: keyof typeof NIGHT_SHIFT_PRESETS; label: string }[] = [
+    { value: 'urbano', label: 'Urbano (22h-5h, 20%, hora reduzida)' },
+    { value: 'rural-lavoura', label: 'Rural - lavoura (21h-5h, 25%)' },
+    { value: 'rural-pecuaria', label: 'Rural - pecuária (20h-4h, 25%)' },
+];
+
+/**
+ * Identifica qual preset corresponde às regras (ou 'personalizada' para CCT)
+ */
+function findNightPreset(regras: NightShiftRules): string {
+    const match = NIGHT_PRESET_OPTIONS.find(({ value }) => {
+        const preset = NIGHT_SHIFT_PRESETS[value];
+        return preset.percentual === regras.percentual &&
+            preset.inicio === regras.inicio &&
+            preset.fim === regras.fim &&
+            preset.horaReduzida === regras.horaReduzida &&
+            preset.prorrogacao === regras.prorrogacao;
+    });
+    return match ? match.value : 'personalizada';
+}
+
 /**
  * Componente principal: painel de configurações
  */
@@ -78,6 +165,7 @@ function SettingsPanel({
     onSalarioChange,
     descontoINSS,
     onINSSChange,
+    onComputeOvertimeAverage,
 }: SettingsPanelProps) {
     // Estado local para edição
     const [isEditing, setIsEditing] = useState(false);
@@ -87,8 +175,28 @@ function SettingsPanel({
     const [localSaida, setLocalSaida] = useState(settings.horaSaidaPadrao);
     const [localIntervalo, setLocalIntervalo] = useState(String(settings.intervaloPadraoHoras));
     const [localFolga, setLocalFolga] = useState(settings.folgaPadrao);
+    const [localEscalaTipo, setLocalEscalaTipo] = useState<ScaleType>(settings.escala.tipo);
+    const [localAncora, setLocalAncora] = useState(settings.escala.dataAncora);
+    const [localPadrao, setLocalPadrao] = useState(formatPattern(settings.escala.padrao));
+    const [localHorasSemanais, setLocalHorasSemanais] = useState(String(settings.cargaHoraria.horasSemanais));
+    const [localDivisor, setLocalDivisor] = useState(String(settings.cargaHoraria.divisor));
+    const [localDivisorPersonalizado, setLocalDivisorPersonalizado] = useState(
+        !MONTHLY_DIVISOR_OPTIONS.includes(settings.cargaHoraria.divisor)
+    );
+    const [localContrato, setLocalContrato] = useState<ContractSettings>(settings.contrato);
+    const [localNoturno, setLocalNoturno] = useState<NightShiftRules>(settings.adicionalNoturno);
+    const [localFeriados, setLocalFeriados] = useState<HolidaySettings>(settings.feriados);
     const [localSalario, setLocalSalario] = useState(String(salarioMensal));
     const [localINSS, setLocalINSS] = useState(descontoINSS ? String(descontoINSS) : '');
+    const [localDependentes, setLocalDependentes] = useState(String(settings.irrf.dependentes));
+    const [localSimplificado, setLocalSimplificado] = useState(settings.irrf.descontoSimplificado);
+    const [localTabelas, setLocalTabelas] = useState<TaxTableRegistry>(settings.tabelas);
+    const [localFerias, setLocalFerias] = useState<VacationSettings>(settings.ferias);
+    const [localFGTS, setLocalFGTS] = useState<FGTSSettings>(settings.fgts);
+    const [localBancoHoras, setLocalBancoHoras] = useState<TimeBankSettings>(settings.bancoHoras);
+    const [localDSR, setLocalDSR] = useState<DSRSettings>(settings.dsr);
+    const [localHorasExtras, setLocalHorasExtras] = useState<OvertimeRules>(settings.horasExtras);
+    const [localIdentificacao, setLocalIdentificacao] = useState<EmploymentInfo>(settings.identificacao);
 
     /**
      * Reseta campos locais com valores atuais
@@ -98,8 +206,62 @@ function SettingsPanel({
         setLocalSaida(settings.horaSaidaPadrao);
         setLocalIntervalo(String(settings.intervaloPadraoHoras));
         setLocalFolga(settings.folgaPadrao);
+        setLocalEscalaTipo(settings.escala.tipo);
+        setLocalAncora(settings.escala.dataAncora);
+        setLocalPadrao(formatPattern(settings.escala.padrao));
+        setLocalHorasSemanais(String(settings.cargaHoraria.horasSemanais));
+        setLocalDivisor(String(settings.cargaHoraria.divisor));
+        setLocalDivisorPersonalizado(!MONTHLY_DIVISOR_OPTIONS.includes(settings.cargaHoraria.divisor));
+        setLocalContrato(settings.contrato);
+        setLocalNoturno(settings.adicionalNoturno);
+        setLocalFeriados(settings.feriados);
         setLocalSalario(String(salarioMensal));
         setLocalINSS(descontoINSS ? String(descontoINSS) : '');
+        setLocalDependentes(String(settings.irrf.dependentes));
+        setLocalSimplificado(settings.irrf.descontoSimplificado);
+        setLocalTabelas(settings.tabelas);
+        setLocalFerias(settings.ferias);
+        setLocalFGTS(settings.fgts);
+        setLocalBancoHoras(settings.bancoHoras);
+        setLocalDSR(settings.dsr);
+        setLocalHorasExtras(settings.horasExtras);
+        setLocalIdentificacao(settings.identificacao);
+    };
+
+    /**
+     * Altera a carga semanal; fora do modo personalizado, o divisor acompanha (horas × 5)
+     */
+    const handleHorasSemanaisChange = (texto: string) => {
+        setLocalHorasSemanais(texto);
+        const horas = parseFloat(texto);
+        if (!localDivisorPersonalizado && horas > 0) {
+            setLocalDivisor(String(getStandardDivisor(horas)));
+        }
+    };
+
+    /**
+     * Seleciona um divisor usual ou o modo personalizado
+     */
+    const handleDivisorOptionChange = (opcao: string) => {
+        if (opcao === 'personalizado') {
+            setLocalDivisorPersonalizado(true);
+        } else {
+            setLocalDivisorPersonalizado(false);
+            setLocalDivisor(opcao);
+        }
+    };
+
+    /**
+     * Altera o contrato; ao entrar no tempo parcial (ou trocar a modalidade),
+     * a carga semanal passa ao teto da modalidade
+     */
+    const handleContratoChange = (contrato: ContractSettings) => {
+        const mudouParcial = contrato.tipo === 'parcial'
+            && (localContrato.tipo !== 'parcial' || contrato.modalidadeParcial !== localContrato.modalidadeParcial);
+        if (mudouParcial) {
+            handleHorasSemanaisChange(String(PART_TIME_LIMITS[contrato.modalidadeParcial].horasSemanais));
+        }
+        setLocalContrato(contrato);
     };
 
     /**
@@ -129,16 +291,38 @@ function SettingsPanel({
             horaSaidaPadrao: localSaida,
             intervaloPadraoHoras: parseFloat(localIntervalo) || 0,
             folgaPadrao: localFolga,
+            escala: createScale(localEscalaTipo, localFolga, localAncora, parsePattern(localPadrao)),
+            cargaHoraria: {
+                horasSemanais: parseFloat(localHorasSemanais) || settings.cargaHoraria.horasSemanais,
+                divisor: parseFloat(localDivisor) || settings.cargaHoraria.divisor,
+            },
+            contrato: localContrato,
+            adicionalNoturno: localNoturno,
+            feriados: localFeriados,
             salarioMensal: parseFloat(localSalario) || 0,
+            irrf: {
+                dependentes: Math.max(0, parseInt(localDependentes, 10) || 0),
+                descontoSimplificado: localSimplificado,
+            },
+            tabelas: localTabelas,
+            ferias: localFerias,
+            fgts: localFGTS,
+            bancoHoras: localBancoHoras,
+            dsr: localDSR,
+            horasExtras: localHorasExtras,
+            identificacao: {
+                ...localIdentificacao,
+                pisCpf: localIdentificacao.pisCpf.trim(),
+            },
         };
         onSettingsChange(newSettings);
 
         // Atualiza salário
-        onSalarioChange(parseFloat(localSalario) || 0);
+        onSalarioChange?.(parseFloat(localSalario) || 0);
 
-        // Atualiza INSS se callback fornecido
-        if (onINSSChange && localINSS) {
-            onINSSChange(parseFloat(localINSS) || 0);
+        // Atualiza INSS se callback fornecido (campo vazio = cálculo automático)
+        if (onINSSChange) {
+            onINSSChange(localINSS ? parseFloat(localINSS) || 0 : undefined);
         }
 
         setIsEditing(false);
@@ -213,22 +397,25 @@ function SettingsPanel({
                             </div>
                         </fieldset>
 
+                        {/* Seção: Contrato */}
+                        <ContractSettingsFields value={localContrato} onChange={handleContratoChange} />
+
                         {/* Seção: Escala */}
                         <fieldset className="settings-panel__fieldset">
                             <legend className="settings-panel__legend">Escala de Trabalho</legend>
 
                             <div className="settings-panel__field">
-                                <label className="settings-panel__label" htmlFor="folga">
-                                    Dia de Folga Padrão:
+                                <label className="settings-panel__label" htmlFor="escala">
+                                    Escala:
                                 </label>
                                 <select
-                                    id="folga"
+                                    id="escala"
                                     className="settings-panel__select"
-                                    value={localFolga}
-                                    onChange={(e) => setLocalFolga(e.target.value as WeekDay)}
+                                    value={localEscalaTipo}
+                                    onChange={(e) => setLocalEscalaTipo(e.target.value as ScaleType)}
                                     required
                                 >
-                                    {WEEKDAY_OPTIONS.map((option) => (
+                                    {SCALE_OPTIONS.map((option) => (
                                         <option key={option.value} value={option.value}>
                                             {option.label}
                                         </option>
@@ -236,12 +423,248 @@ function SettingsPanel({
                                 </select>
                             </div>
 
+                            {isWeeklyScale(localEscalaTipo) ? (
+                                <div className="settings-panel__field">
+                                    <label className="settings-panel__label" htmlFor="folga">
+                                        Dia de Folga Padrão:
+                                    </label>
+                                    <select
+                                        id="folga"
+                                        className="settings-panel__select"
+                                        value={localFolga}
+                                        onChange={(e) => setLocalFolga(e.target.value as WeekDay)}
+                                        required
+                                    >
+                                        {WEEKDAY_OPTIONS.map((option) => (
+                                            <option key={option.value} value={option.value}>
+                                                {option.label}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            ) : (
+                                <div className="settings-panel__field">
+                                    <label className="settings-panel__label" htmlFor="ancora">
+                                        Início do Ciclo:
+                                    </label>
+                                    <input
+                                        id="ancora"
+                                        type="date"
+                                        className="settings-panel__input"
+                                        value={localAncora}
+                                        onChange={(e) => setLocalAncora(e.target.value)}
+                                        required
+                                    />
+                                </div>
+                            )}
+
+                            {localEscalaTipo === 'personalizada' && (
+                                <div className="settings-panel__field">
+                                    <label className="settings-panel__label" htmlFor="padrao">
+                                        Padrão do Ciclo:
+                                        <span className="settings-panel__optional"> (T = trabalho, F = folga)</span>
+                                    </label>
+                                    <input
+                                        id="padrao"
+                                        type="text"
+                                        className="settings-panel__input"
+                                        value={localPadrao}
+                                        onChange={(e) => setLocalPadrao(e.target.value.toUpperCase())}
+                                        placeholder="TTTTTTFTTTTTTF"
+                                        required
+                                    />
+                                </div>
+                            )}
+
                             <div className="settings-panel__field">
-                                <label className="settings-panel__label">Escala:</label>
-                                <span className="settings-panel__value">{settings.escala}</span>
+                                <label className="settings-panel__label" htmlFor="horas-semanais">
+                                    Carga Horária Semanal (h):
+                                </label>
+                                <input
+                                    id="horas-semanais"
+                                    type="number"
+                                    className="settings-panel__input"
+                                    value={localHorasSemanais}
+                                    onChange={(e) => handleHorasSemanaisChange(e.target.value)}
+                                    step="0.5"
+                                    min="1"
+                                    max={localContrato.tipo === 'parcial'
+                                        ? PART_TIME_LIMITS[localContrato.modalidadeParcial].horasSemanais
+                                        : 44}
+                                    required
+                                />
+                            </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="divisor">
+                                    Divisor Mensal (salário-hora):
+                                </label>
+                                <select
+                                    id="divisor"
+                                    className="settings-panel__select"
+                                    value={localDivisorPersonalizado ? 'personalizado' : localDivisor}
+                                    onChange={(e) => handleDivisorOptionChange(e.target.value)}
+                                >
+                                    {MONTHLY_DIVISOR_OPTIONS.map((divisor) => (
+                                        <option key={divisor} value={String(divisor)}>
+                                            {divisor} ({divisor / 5}h semanais)
+                                        </option>
+                                    ))}
+                                    <option value="personalizado">Personalizado (CCT)</option>
+                                </select>
+                                {localDivisorPersonalizado && (
+                                    <input
+                                        id="divisor-personalizado"
+                                        type="number"
+                                        className="settings-panel__input"
+                                        value={localDivisor}
+                                        onChange={(e) => setLocalDivisor(e.target.value)}
+                                        step="1"
+                                        min="1"
+                                        title="Divisor mensal"
+                                        required
+                                    />
+                                )}
+                            </div>
+                        </fieldset>
+
+                        {/* Seção: Feriados */}
+                        <HolidaySettingsFields value={localFeriados} onChange={setLocalFeriados} />
+
+                        {/* Seção: Adicional Noturno */}
+                        <fieldset className="settings-panel__fieldset">
+                            <legend className="settings-panel__legend">Adicional Noturno</legend>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="noturno-regra">
+                                    Regra:
+                                </label>
+                                <select
+                                    id="noturno-regra"
+                                    className="settings-panel__select"
+                                    value={findNightPreset(localNoturno)}
+                                    onChange={(e) => {
+                                        const preset = NIGHT_PRESET_OPTIONS.find((opt) => opt.value === e.target.value);
+                                        if (preset) setLocalNoturno(NIGHT_SHIFT_PRESETS[preset.value]);
+                                    }}
+                                >
+                                    {NIGHT_PRESET_OPTIONS.map((option) => (
+                                        <option key={option.value} value={option.value}>
+                                            {option.label}
+                                        </option>
+                                    ))}
+                                    <option value="personalizada">Personalizada (CCT)</option>
+                                </select>
+                            </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="noturno-percentual">
+                                    Percentual (%):
+                                </label>
+                                <input
+                                    id="noturno-percentual"
+                                    type="number"
+                                    className="settings-panel__input"
+                                    value={Math.round(localNoturno.percentual * 10000) / 100}
+                                    onChange={(e) => setLocalNoturno({ ...localNoturno, percentual: (parseFloat(e.target.value) || 0) / 100 })}
+                                    step="1"
+                                    min="0"
+                                />
+                            </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="noturno-inicio">
+                                    Início da Janela:
+                                </label>
+                                <input
+                                    id="noturno-inicio"
+                                    type="time"
+                                    className="settings-panel__input"
+                                    value={localNoturno.inicio}
+                                    onChange={(e) => setLocalNoturno({ ...localNoturno, inicio: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="noturno-fim">
+                                    Fim da Janela:
+                                </label>
+                                <input
+                                    id="noturno-fim"
+                                    type="time"
+                                    className="settings-panel__input"
+                                    value={localNoturno.fim}
+                                    onChange={(e) => setLocalNoturno({ ...localNoturno, fim: e.target.value })}
+                                />
+                            </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="noturno-reduzida">
+                                    <input
+                                        id="noturno-reduzida"
+                                        type="checkbox"
+                                        checked={localNoturno.horaReduzida}
+                                        onChange={(e) => setLocalNoturno({ ...localNoturno, horaReduzida: e.target.checked })}
+                                    />
+                                    {' '}Hora reduzida (52m30s)
+                                </label>
                             </div>
                         </fieldset>
 
+                        {/* Seção: Horas extras */}
+                        <OvertimeRulesFields value={localHorasExtras} onChange={setLocalHorasExtras} />
+
+                        {/* Seção: DSR */}
+                        <fieldset className="settings-panel__fieldset">
+                            <legend className="settings-panel__legend">DSR sobre Horas Extras</legend>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="dsr-metodo">
+                                    Fórmula:
+                                </label>
+                                <select
+                                    id="dsr-metodo"
+                                    className="settings-panel__select"
+                                    value={localDSR.metodo}
+                                    onChange={(e) => setLocalDSR({ ...localDSR, metodo: e.target.value as DSRMethod })}
+                                >
+                                    {(Object.keys(DSR_METHOD_LABELS) as DSRMethod[]).map((metodo) => (
+                                        <option key={metodo} value={metodo}>
+                                            {DSR_METHOD_LABELS[metodo]}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            {localDSR.metodo === 'legal' && (
+                                <>
+                                    <div className="settings-panel__field">
+                                        <label className="settings-panel__label" htmlFor="dsr-sabado">
+                                            <input
+                                                id="dsr-sabado"
+                                                type="checkbox"
+                                                checked={localDSR.sabadoRepouso}
+                                                onChange={(e) => setLocalDSR({ ...localDSR, sabadoRepouso: e.target.checked })}
+                                            />
+                                            {' '}Sábado conta como repouso (CCT)
+                                        </label>
+                                    </div>
+
+                                    <div className="settings-panel__field">
+                                        <label className="settings-panel__label" htmlFor="dsr-noturno">
+                                            <input
+                                                id="dsr-noturno"
+                                                type="checkbox"
+                                                checked={localDSR.incluirAdicionalNoturno}
+                                                onChange={(e) => setLocalDSR({ ...localDSR, incluirAdicionalNoturno: e.target.checked })}
+                                            />
+                                            {' '}Incluir adicional noturno na base (CCT)
+                                        </label>
+                                    </div>
+                                </>
+                            )}
+                        </fieldset>
+
                         {/* Seção: Valores */}
                         <fieldset className="settings-panel__fieldset">
                             <legend className="settings-panel__legend">Valores Financeiros</legend>
@@ -278,8 +701,59 @@ function SettingsPanel({
                                     placeholder="Calculado automaticamente"
                                 />
                             </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="irrf-dependentes">
+                                    Dependentes (IRRF):
+                                </label>
+                                <input
+                                    id="irrf-dependentes"
+                                    type="number"
+                                    className="settings-panel__input"
+                                    value={localDependentes}
+                                    onChange={(e) => setLocalDependentes(e.target.value)}
+                                    step="1"
+                                    min="0"
+                                />
+                            </div>
+
+                            <div className="settings-panel__field">
+                                <label className="settings-panel__label" htmlFor="irrf-simplificado">
+                                    <input
+                                        id="irrf-simplificado"
+                                        type="checkbox"
+                                        checked={localSimplificado}
+                                        onChange={(e) => setLocalSimplificado(e.target.checked)}
+                                    />
+                                    {' '}Usar desconto simplificado do IRRF quando for mais vantajoso
+                                </label>
+                            </div>
                         </fieldset>
 
+                        {/* Seção: Férias */}
+                        <VacationSettingsFields
+                            value={localFerias}
+                            onChange={setLocalFerias}
+                            salarioMensal={parseFloat(localSalario) || 0}
+                            divisor={parseFloat(localDivisor) || settings.cargaHoraria.divisor}
+                            intermitente={localContrato.tipo === 'intermitente'}
+                            irrf={settings.irrf}
+                            tabelas={localTabelas}
+                            onComputeOvertimeAverage={onComputeOvertimeAverage}
+                        />
+
+                        {/* Seção: FGTS */}
+                        <FGTSSettingsFields value={localFGTS} onChange={setLocalFGTS} />
+
+                        {/* Seção: Banco de horas */}
+                        <TimeBankSettingsFields value={localBancoHoras} onChange={setLocalBancoHoras} />
+
+                        {/* Seção: Identificação */}
+                        <IdentificationFields value={localIdentificacao} onChange={setLocalIdentificacao} />
+
+                        {/* Seção: Tabelas versionadas */}
+                        <TaxTableFields value={localTabelas} onChange={setLocalTabelas} />
+
                         {/* Botões de ação */}
                         <div className="settings-panel__actions">
                             <button
@@ -318,16 +792,102 @@ function SettingsPanel({
                         </div>
 
                         <div className="settings-panel__summary-section">
-                            <h3 className="settings-panel__summary-title">Escala</h3>
+                            <h3 className="settings-panel__summary-title">Contrato</h3>
                             <div className="settings-panel__summary-item">
-                                <span className="settings-panel__summary-label">Folga:</span>
+                                <span className="settings-panel__summary-label">Modalidade:</span>
                                 <span className="settings-panel__summary-value">
-                                    {WEEKDAY_OPTIONS.find((opt) => opt.value === settings.folgaPadrao)?.label}
+                                    {describeContract(settings.contrato, settings.cargaHoraria)}
                                 </span>
                             </div>
+                        </div>
+
+                        <div className="settings-panel__summary-section">
+                            <h3 className="settings-panel__summary-title">Escala</h3>
                             <div className="settings-panel__summary-item">
                                 <span className="settings-panel__summary-label">Escala:</span>
-                                <span className="settings-panel__summary-value">{settings.escala}</span>
+                                <span className="settings-panel__summary-value">{settings.escala.tipo}</span>
+                            </div>
+                            {isWeeklyScale(settings.escala.tipo) ? (
+                                <div className="settings-panel__summary-item">
+                                    <span className="settings-panel__summary-label">Folga:</span>
+                                    <span className="settings-panel__summary-value">
+                                        {WEEKDAY_OPTIONS.find((opt) => opt.value === settings.folgaPadrao)?.label}
+                                    </span>
+                                </div>
+                            ) : (
+                                <div className="settings-panel__summary-item">
+                                    <span className="settings-panel__summary-label">Ciclo:</span>
+                                    <span className="settings-panel__summary-value">
+                                        {formatPattern(settings.escala.padrao)} desde {settings.escala.dataAncora}
+                                    </span>
+                                </div>
+                            )}
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Carga horária:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.cargaHoraria.horasSemanais}h semanais · divisor {settings.cargaHoraria.divisor}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Jornada diária:</span>
+                                <span className="settings-panel__summary-value">
+                                    {getDailyStandardHours(settings.escala, settings.cargaHoraria).toFixed(2)}h
+                                </span>
+                            </div>
+                        </div>
+
+                        <div className="settings-panel__summary-section">
+                            <h3 className="settings-panel__summary-title">Feriados</h3>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Calendário:</span>
+                                <span className="settings-panel__summary-value">
+                                    {describeHolidaySettings(settings.feriados)}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Extras:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.feriados.extras.length}
+                                </span>
+                            </div>
+                        </div>
+
+                        <div className="settings-panel__summary-section">
+                            <h3 className="settings-panel__summary-title">Adicional Noturno</h3>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Janela:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.adicionalNoturno.inicio} às {settings.adicionalNoturno.fim}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Percentual:</span>
+                                <span className="settings-panel__summary-value">
+                                    {Math.round(settings.adicionalNoturno.percentual * 100)}%
+                                    {settings.adicionalNoturno.horaReduzida ? ' (hora reduzida)' : ''}
+                                </span>
+                            </div>
+                        </div>
+
+                        <div className="settings-panel__summary-section">
+                            <h3 className="settings-panel__summary-title">Horas Extras</h3>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Percentuais:</span>
+                                <span className="settings-panel__summary-value">
+                                    {describeOvertimeRules(settings.horasExtras)}
+                                </span>
+                            </div>
+                        </div>
+
+                        <div className="settings-panel__summary-section">
+                            <h3 className="settings-panel__summary-title">DSR</h3>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Fórmula:</span>
+                                <span className="settings-panel__summary-value">
+                                    {DSR_METHOD_LABELS[settings.dsr.metodo]}
+                                    {settings.dsr.metodo === 'legal' && settings.dsr.sabadoRepouso ? ' · sábado repouso' : ''}
+                                    {settings.dsr.metodo === 'legal' && settings.dsr.incluirAdicionalNoturno ? ' · com adicional noturno' : ''}
+                                </span>
                             </div>
                         </div>
 
@@ -347,6 +907,49 @@ function SettingsPanel({
                                     </span>
                                 </div>
                             )}
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Dependentes IRRF:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.irrf.dependentes}
+                                    {settings.irrf.descontoSimplificado ? ' (simplificado permitido)' : ''}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Férias cadastradas:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.ferias.periodos.length}
+                                    {settings.ferias.dataAdmissao ? ` (admissão ${settings.ferias.dataAdmissao})` : ''}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">FGTS:</span>
+                                <span className="settings-panel__summary-value">
+                                    saldo inicial R$ {settings.fgts.saldoInicial.toFixed(2)}
+                                    {settings.fgts.competenciaInicial ? ` em ${settings.fgts.competenciaInicial}` : ''}
+                                    {settings.fgts.saqueAniversario ? ' · saque-aniversário' : ''}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Banco de horas:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.bancoHoras.ativo
+                                        ? `acordo ${settings.bancoHoras.acordo} · ${settings.bancoHoras.multiplicador50}h / ${settings.bancoHoras.multiplicador100}h por extra`
+                                        : 'desligado (extras pagas)'}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Trabalhador:</span>
+                                <span className="settings-panel__summary-value">
+                                    {settings.identificacao.nome || 'não informado'}
+                                    {settings.identificacao.empregador ? ` · ${settings.identificacao.empregador}` : ''}
+                                </span>
+                            </div>
+                            <div className="settings-panel__summary-item">
+                                <span className="settings-panel__summary-label">Tabelas cadastradas:</span>
+                                <span className="settings-panel__summary-value">
+                                    {Object.values(settings.tabelas).reduce((sum, versions) => sum + versions.length, 0)}
+                                </span>
+                            </div>
                         </div>
                     </div>
                 )}
@@ -4,8 +4,13 @@
  * Componente React para exibir o resumo mensal da jornada CLT.
  * 
  * RESPONSABILIDADES:
- * - Exibir totalizadores mensais (horas normais, extras, DSR)
- * - Exibir valores financeiros (bruto, INSS, líquido)
+ * - Exibir totalizadores mensais (horas normais, extras, noturnas, DSR)
+ * - Exibir a fórmula do DSR e os valores usados (base, dias úteis, repouso)
+ * - Exibir férias do mês (dias, férias + 1/3, abono)
+ * - Exibir faltas, atrasos e os descontos correspondentes
+ * - Exibir o movimento do banco de horas (crédito, débito, vencidas, saldo)
+ * - Listar os alertas de jornada (interjornada, intervalo, extras, repouso)
+ * - Exibir valores financeiros (bruto, INSS, IRRF, líquido)
  * - Formatar valores monetários em reais
  * - Usar funções de payroll.ts para cálculos
  * 
@@ -16,8 +21,11 @@
  * - Props tipadas com MonthlySummary
  */
 
-import type { MonthlySummary } from '../core/types';
-import { calculateHourlyValue, calculateOvertimeBreakdown } from '../core/payroll';
+import type { ComplianceWarning, IRRFSettings, MonthlySummary } from '../core/types';
+import { calculateHourlyValue, calculateMonthlyPayroll, calculateOvertimeBreakdown } from '../core/payroll';
+import { COMPLIANCE_RULE_LABELS } from '../core/compliance';
+import { DSR_METHOD_LABELS } from '../core/dsr';
+import { describeOvertimeHours, getOvertimeHoursAt, getOvertimePercents, sumOvertimeHours } from '../core/overtime';
 import './Summary.css';
 
 /**
@@ -39,6 +47,21 @@ type SummaryProps = {
      * Se não fornecido, usa o valor do monthlySummary
      */
     descontoINSS?: number;
+
+    /**
+     * Configuração do IRRF (para recalcular o IRRF com INSS customizado)
+     */
+    irrf?: IRRFSettings;
+
+    /**
+     * Divisor mensal do salário-hora (padrão 220)
+     */
+    divisor?: number;
+
+    /**
+     * Violações de jornada do mês (ver compliance.ts)
+     */
+    alertas?: ComplianceWarning[];
 };
 
 /**
@@ -60,25 +83,41 @@ function formatHours(hours: number): string {
     return hours.toFixed(2);
 }
 
+/**
+ * Classe de cor das horas extras: abaixo de 100% ou 100% ou mais
+ */
+function getOvertimeModifier(percentual: number): string {
+    return percentual < 100 ? 'summary__value--extra50' : 'summary__value--extra100';
+}
+
+/**
+ * Formata uma competência "YYYY-MM" como MM/YYYY
+ */
+function formatCompetencia(key: string): string {
+    const [year, month] = key.split('-');
+    return `${month}/${year}`;
+}
+
 /**
  * Componente principal: resumo mensal
  */
-function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps) {
-    // Calcula valor hora para exibição
-    const valorHora = calculateHourlyValue(salarioMensal);
+function Summary({ monthlySummary, salarioMensal, descontoINSS, irrf, divisor, alertas = [] }: SummaryProps) {
+    // Calcula valor hora para exibição (no intermitente, o salário-hora do contrato)
+    const valorHora = monthlySummary.convocacoes
+        ? monthlySummary.valorHora
+        : calculateHourlyValue(salarioMensal, divisor);
 
     // Calcula breakdown detalhado das horas extras
-    const overtimeBreakdown = calculateOvertimeBreakdown(
-        monthlySummary.horasExtra50,
-        monthlySummary.horasExtra100,
-        valorHora
-    );
+    const overtimeBreakdown = calculateOvertimeBreakdown(monthlySummary.horasExtras, valorHora);
+    const percentuais = getOvertimePercents(monthlySummary.horasExtras);
 
-    // Usa desconto INSS customizado se fornecido, senão usa o do summary
-    const inssValue = descontoINSS !== undefined ? descontoINSS : monthlySummary.descontoINSS;
+    // INSS (customizado ou do summary), IRRF e líquido
+    const payroll = calculateMonthlyPayroll(monthlySummary, salarioMensal, descontoINSS, irrf, divisor);
+    const inssValue = payroll.inss;
+    const valorLiquidoFinal = payroll.liquido;
 
-    // Valor líquido = bruto - INSS
-    const valorLiquidoFinal = monthlySummary.valorBruto - inssValue;
+    // Indenizações devidas pelas violações de jornada (não somadas ao bruto)
+    const totalIndenizacoes = alertas.reduce((sum, a) => sum + a.indenizacao, 0);
 
     return (
         <div className="summary">
@@ -94,17 +133,26 @@ function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps)
                         <span className="summary__value">{formatHours(monthlySummary.horasNormais)}h</span>
                     </div>
 
-                    <div className="summary__item">
-                        <span className="summary__label">Horas Extras 50%:</span>
-                        <span className="summary__value summary__value--extra50">
-                            {formatHours(monthlySummary.horasExtra50)}h
-                        </span>
-                    </div>
+                    {percentuais.length === 0 && (
+                        <div className="summary__item">
+                            <span className="summary__label">Horas Extras:</span>
+                            <span className="summary__value">{formatHours(0)}h</span>
+                        </div>
+                    )}
+
+                    {percentuais.map((percentual) => (
+                        <div key={percentual} className="summary__item">
+                            <span className="summary__label">Horas Extras {percentual}%:</span>
+                            <span className={`summary__value ${getOvertimeModifier(percentual)}`}>
+                                {formatHours(getOvertimeHoursAt(monthlySummary.horasExtras, percentual))}h
+                            </span>
+                        </div>
+                    ))}
 
                     <div className="summary__item">
-                        <span className="summary__label">Horas Extras 100%:</span>
-                        <span className="summary__value summary__value--extra100">
-                            {formatHours(monthlySummary.horasExtra100)}h
+                        <span className="summary__label">Horas Noturnas:</span>
+                        <span className="summary__value summary__value--noturno">
+                            {formatHours(monthlySummary.horasNoturnas)}h
                         </span>
                     </div>
                 </div>
@@ -120,24 +168,84 @@ function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps)
                         <span className="summary__value">{formatCurrency(valorHora)}</span>
                     </div>
 
+                    {percentuais.map((percentual) => (
+                        <div key={percentual} className="summary__item">
+                            <span className="summary__label">Valor Extras {percentual}%:</span>
+                            <span className={`summary__value ${getOvertimeModifier(percentual)}`}>
+                                {formatCurrency(overtimeBreakdown.valores[String(percentual)])}
+                            </span>
+                        </div>
+                    ))}
+
                     <div className="summary__item">
-                        <span className="summary__label">Valor Extras 50%:</span>
-                        <span className="summary__value summary__value--extra50">
-                            {formatCurrency(overtimeBreakdown.valorExtra50)}
+                        <span className="summary__label">Total Extras:</span>
+                        <span className="summary__value summary__value--highlight">
+                            {formatCurrency(overtimeBreakdown.total)}
                         </span>
                     </div>
+                </div>
+            </section>
 
-                    <div className="summary__item">
-                        <span className="summary__label">Valor Extras 100%:</span>
-                        <span className="summary__value summary__value--extra100">
-                            {formatCurrency(overtimeBreakdown.valorExtra100)}
-                        </span>
+            {/* Seção: Banco de Horas (apenas no modo banco de horas) */}
+            {monthlySummary.bancoHoras && (
+                <section className="summary__section">
+                    <h3 className="summary__section-title">Banco de Horas</h3>
+
+                    <div className="summary__grid">
+                        <div className="summary__item">
+                            <span className="summary__label">Crédito no Mês:</span>
+                            <span className="summary__value summary__value--extra50">
+                                +{formatHours(monthlySummary.bancoHoras.credito)}h
+                            </span>
+                        </div>
+
+                        <div className="summary__item">
+                            <span className="summary__label">Débito no Mês:</span>
+                            <span className="summary__value summary__value--negative">
+                                -{formatHours(monthlySummary.bancoHoras.debito)}h
+                            </span>
+                        </div>
+
+                        {getOvertimePercents(monthlySummary.bancoHoras.horasVencidas).length > 0 && (
+                            <div className="summary__item">
+                                <span className="summary__label">Vencidas (pagas como extras):</span>
+                                <span className="summary__value">
+                                    {describeOvertimeHours(monthlySummary.bancoHoras.horasVencidas)}
+                                </span>
+                            </div>
+                        )}
+
+                        {monthlySummary.bancoHoras.lotes.length > 0 && (
+                            <div className="summary__item">
+                                <span className="summary__label">Próximo Vencimento:</span>
+                                <span className="summary__value">
+                                    {formatCompetencia(monthlySummary.bancoHoras.lotes[0].vencimento)}
+                                </span>
+                            </div>
+                        )}
+
+                        <div className="summary__item summary__item--large">
+                            <span className="summary__label">Saldo do Banco:</span>
+                            <span className={monthlySummary.bancoHoras.saldo < 0
+                                ? 'summary__value summary__value--negative'
+                                : 'summary__value summary__value--highlight'}
+                            >
+                                {formatHours(monthlySummary.bancoHoras.saldo)}h
+                            </span>
+                        </div>
                     </div>
+                </section>
+            )}
+
+            {/* Seção: Adicional Noturno */}
+            <section className="summary__section">
+                <h3 className="summary__section-title">Adicional Noturno</h3>
 
+                <div className="summary__grid">
                     <div className="summary__item">
-                        <span className="summary__label">Total Extras:</span>
-                        <span className="summary__value summary__value--highlight">
-                            {formatCurrency(overtimeBreakdown.totalExtras)}
+                        <span className="summary__label">Adicional Noturno:</span>
+                        <span className="summary__value summary__value--noturno">
+                            {formatCurrency(monthlySummary.adicionalNoturno)}
                         </span>
                     </div>
                 </div>
@@ -149,14 +257,180 @@ function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps)
 
                 <div className="summary__grid">
                     <div className="summary__item">
-                        <span className="summary__label">DSR sobre Extras:</span>
+                        <span className="summary__label">
+                            {monthlySummary.convocacoes ? 'DSR sobre a Remuneração:' : 'DSR sobre Extras:'}
+                        </span>
                         <span className="summary__value summary__value--dsr">
                             {formatCurrency(monthlySummary.dsrTotal)}
                         </span>
                     </div>
+                    <div className="summary__item">
+                        <span className="summary__label">Fórmula:</span>
+                        <span className="summary__value">{DSR_METHOD_LABELS[monthlySummary.dsr.metodo]}</span>
+                    </div>
+                </div>
+                {monthlySummary.convocacoes ? (
+                    <p className="summary__note">
+                        Soma do DSR de cada convocação (remuneração ÷ dias úteis × dias de repouso
+                        da convocação) sobre {formatCurrency(monthlySummary.dsr.base)}
+                    </p>
+                ) : (
+                    <p className="summary__note">
+                        {formatCurrency(monthlySummary.dsr.base)} ÷ {monthlySummary.dsr.diasUteis} dias úteis
+                        {' '}× {monthlySummary.dsr.diasRepouso} dias de repouso = {formatCurrency(monthlySummary.dsrTotal)}
+                    </p>
+                )}
+            </section>
+
+            {/* Seção: Convocações (apenas no contrato intermitente) */}
+            {monthlySummary.convocacoes && (
+                <section className="summary__section">
+                    <h3 className="summary__section-title">Convocações ({monthlySummary.convocacoes.length})</h3>
+
+                    <div className="summary__grid">
+                        {monthlySummary.convocacoes.map((pagamento, index) => (
+                            <div key={`${pagamento.convocacao.inicio}-${index}`} className="summary__item">
+                                <span className="summary__label">
+                                    {pagamento.inicio.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
+                                    {' a '}
+                                    {pagamento.fim.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
+                                    {pagamento.convocacao.descricao && ` · ${pagamento.convocacao.descricao}`}
+                                    {' '}({formatHours(pagamento.horasNormais + sumOvertimeHours(pagamento.horasExtras))}h):
+                                </span>
+                                <span className="summary__value">{formatCurrency(pagamento.total)}</span>
+                            </div>
+                        ))}
+
+                        <div className="summary__item">
+                            <span className="summary__label">Férias + 1/3 e 13º Proporcionais:</span>
+                            <span className="summary__value summary__value--ferias">
+                                {formatCurrency(monthlySummary.valorVerbasConvocacoes)}
+                            </span>
+                        </div>
+                    </div>
+                    {monthlySummary.convocacoes.length === 0 && (
+                        <p className="summary__note">Nenhuma convocação neste mês.</p>
+                    )}
+                </section>
+            )}
+
+            {/* Seção: Férias (apenas se houver férias no mês) */}
+            {(monthlySummary.diasFerias > 0 || monthlySummary.valorAbonoFerias > 0) && (
+                <section className="summary__section">
+                    <h3 className="summary__section-title">Férias</h3>
+
+                    <div className="summary__grid">
+                        <div className="summary__item">
+                            <span className="summary__label">Dias de Férias:</span>
+                            <span className="summary__value">{monthlySummary.diasFerias}</span>
+                        </div>
+
+                        <div className="summary__item">
+                            <span className="summary__label">Férias + 1/3:</span>
+                            <span className="summary__value summary__value--ferias">
+                                {formatCurrency(monthlySummary.valorFerias)}
+                            </span>
+                        </div>
+
+                        {monthlySummary.valorAbonoFerias > 0 && (
+                            <div className="summary__item">
+                                <span className="summary__label">Abono Pecuniário + 1/3:</span>
+                                <span className="summary__value summary__value--ferias">
+                                    {formatCurrency(monthlySummary.valorAbonoFerias)}
+                                </span>
+                            </div>
+                        )}
+                    </div>
+                </section>
+            )}
+
+            {/* Seção: Faltas e Atrasos (apenas se houver ausências no mês) */}
+            {(monthlySummary.diasFaltas > 0
+                || monthlySummary.diasAusenciasJustificadas > 0
+                || monthlySummary.minutosAtraso > 0) && (
+                <section className="summary__section">
+                    <h3 className="summary__section-title">Faltas e Atrasos</h3>
+
+                    <div className="summary__grid">
+                        <div className="summary__item">
+                            <span className="summary__label">Ausências Justificadas (pagas):</span>
+                            <span className="summary__value">{monthlySummary.diasAusenciasJustificadas}</span>
+                        </div>
+
+                        <div className="summary__item">
+                            <span className="summary__label">Faltas Injustificadas ({monthlySummary.diasFaltas}):</span>
+                            <span className="summary__value summary__value--negative">
+                                - {formatCurrency(monthlySummary.descontoFaltas)}
+                            </span>
+                        </div>
+
+                        <div className="summary__item">
+                            <span className="summary__label">DSR Perdido:</span>
+                            <span className="summary__value summary__value--negative">
+                                - {formatCurrency(monthlySummary.descontoDSRFaltas)}
+                            </span>
+                        </div>
+
+                        <div className="summary__item">
+                            <span className="summary__label">Atrasos ({monthlySummary.minutosAtraso} min):</span>
+                            <span className="summary__value summary__value--negative">
+                                - {formatCurrency(monthlySummary.descontoAtrasos)}
+                            </span>
+                        </div>
+                    </div>
+                </section>
+            )}
+
+            {/* Seção: FGTS (encargo do empregador, não descontado) */}
+            <section className="summary__section">
+                <h3 className="summary__section-title">FGTS (Empregador)</h3>
+
+                <div className="summary__grid">
+                    <div className="summary__item">
+                        <span className="summary__label">Base do FGTS:</span>
+                        <span className="summary__value">{formatCurrency(monthlySummary.baseFGTS)}</span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Depósito (8%):</span>
+                        <span className="summary__value summary__value--fgts">
+                            {formatCurrency(monthlySummary.depositoFGTS)}
+                        </span>
+                    </div>
                 </div>
             </section>
 
+            {/* Seção: Alertas de Jornada (apenas se houver violações) */}
+            {alertas.length > 0 && (
+                <section className="summary__section">
+                    <h3 className="summary__section-title">Alertas de Jornada ({alertas.length})</h3>
+
+                    <ul className="summary__alerts">
+                        {alertas.map((alerta, index) => (
+                            <li key={`${alerta.regra}-${index}`} className="summary__alert">
+                                <span className="summary__alert-text">
+                                    <strong>
+                                        {alerta.data.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' })}
+                                        {' · '}{COMPLIANCE_RULE_LABELS[alerta.regra]}
+                                    </strong>
+                                    {alerta.descricao}
+                                </span>
+                                <span className="summary__value">
+                                    {alerta.indenizacao > 0 ? formatCurrency(alerta.indenizacao) : 'multa'}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="summary__item summary__item--total">
+                        <span className="summary__label">Indenizações devidas:</span>
+                        <span className="summary__value summary__value--extra100">
+                            {formatCurrency(totalIndenizacoes)}
+                        </span>
+                    </div>
+                </section>
+            )}
+
             {/* Seção: Valores Finais */}
             <section className="summary__section summary__section--final">
                 <h3 className="summary__section-title">Valores Finais</h3>
@@ -164,7 +438,11 @@ function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps)
                 <div className="summary__grid">
                     <div className="summary__item summary__item--large">
                         <span className="summary__label">Salário Base:</span>
-                        <span className="summary__value">{formatCurrency(salarioMensal)}</span>
+                        <span className="summary__value">
+                            {formatCurrency(monthlySummary.convocacoes || monthlySummary.diasFerias > 0
+                                ? monthlySummary.salarioBase
+                                : salarioMensal)}
+                        </span>
                     </div>
 
                     <div className="summary__item summary__item--large">
@@ -181,6 +459,13 @@ function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps)
                         </span>
                     </div>
 
+                    <div className="summary__item summary__item--large">
+                        <span className="summary__label">Desconto IRRF:</span>
+                        <span className="summary__value summary__value--negative">
+                            - {formatCurrency(payroll.irrf)}
+                        </span>
+                    </div>
+
                     <div className="summary__item summary__item--large summary__item--total">
                         <span className="summary__label">Valor Líquido:</span>
                         <span className="summary__value summary__value--total">
@@ -196,6 +481,11 @@ function Summary({ monthlySummary, salarioMensal, descontoINSS }: SummaryProps)
                     <strong>Nota:</strong> Os valores são calculados com base na CLT e podem variar
                     conforme convenção coletiva da categoria. Utilize como referência pessoal.
                 </p>
+                <p className="summary__note">
+                    Tabelas da competência {monthlySummary.tabelas.competencia}:
+                    INSS desde {monthlySummary.tabelas.vigencias.inss},
+                    IRRF desde {monthlySummary.tabelas.vigencias.irrf}.
+                </p>
             </footer>
         </div>
     );
@@ -0,0 +1,306 @@
+/**
+ * TaxTableFields.tsx
+ *
+ * Campos do SettingsPanel para cadastrar tabelas de INSS, IRRF, salário mínimo
+ * e salário-família quando uma nova for publicada.
+ *
+ * RESPONSABILIDADES:
+ * - Listar as vigências conhecidas (embutidas e do usuário)
+ * - Adicionar/substituir uma tabela a partir de uma competência
+ * - Remover tabelas do usuário
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio além do formulário de nova tabela
+ * - Faixas digitadas como texto (ver parseINSSBrackets/parseIRRFBrackets em taxTables.ts)
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import { useState } from 'react';
+import type { TaxTableRegistry } from '../core/types';
+import {
+    addTableVersion,
+    formatINSSBrackets,
+    formatIRRFBrackets,
+    listTableVersions,
+    parseINSSBrackets,
+    parseIRRFBrackets,
+    removeTableVersion,
+} from '../core/taxTables';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente TaxTableFields
+ */
+type TaxTableFieldsProps = {
+    /**
+     * Tabelas do usuário (em edição)
+     */
+    value: TaxTableRegistry;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: TaxTableRegistry) => void;
+};
+
+type TableKind = keyof TaxTableRegistry;
+
+/**
+ * Rótulos dos tipos de tabela
+ */
+const KIND_LABELS: Record<TableKind, string> = {
+    inss: 'INSS',
+    irrf: 'IRRF',
+    salarioMinimo: 'Salário mínimo',
+    salarioFamilia: 'Salário-família',
+};
+
+const KINDS = Object.keys(KIND_LABELS) as TableKind[];
+
+/**
+ * Componente principal: tabelas versionadas
+ */
+function TaxTableFields({ value, onChange }: TaxTableFieldsProps) {
+    // Formulário de nova tabela (pré-preenchido com a última versão conhecida)
+    const inssVersions = listTableVersions('inss', value);
+    const irrfVersions = listTableVersions('irrf', value);
+    const latestINSS = inssVersions[inssVersions.length - 1].tabela;
+    const latestIRRF = irrfVersions[irrfVersions.length - 1].tabela;
+
+    const [kind, setKind] = useState<TableKind>('inss');
+    const [vigencia, setVigencia] = useState('');
+    const [faixasINSS, setFaixasINSS] = useState(formatINSSBrackets(latestINSS.faixas));
+    const [faixasIRRF, setFaixasIRRF] = useState(formatIRRFBrackets(latestIRRF.faixas));
+    const [deducaoDependente, setDeducaoDependente] = useState(String(latestIRRF.deducaoDependente));
+    const [descontoSimplificado, setDescontoSimplificado] = useState(String(latestIRRF.descontoSimplificado));
+    const [manterReducao, setManterReducao] = useState(latestIRRF.reducao !== undefined);
+    const [valor, setValor] = useState('');
+    const [limiteRemuneracao, setLimiteRemuneracao] = useState('');
+    const [erro, setErro] = useState('');
+
+    /**
+     * Monta a nova tabela a partir do formulário e adiciona ao registro
+     */
+    const handleAdd = () => {
+        if (!vigencia) {
+            setErro('Informe a competência de início.');
+            return;
+        }
+
+        let next: TaxTableRegistry | undefined;
+        if (kind === 'inss') {
+            const faixas = parseINSSBrackets(faixasINSS);
+            if (faixas) next = addTableVersion(value, 'inss', { vigencia, tabela: { faixas } });
+        } else if (kind === 'irrf') {
+            const faixas = parseIRRFBrackets(faixasIRRF);
+            const dependente = parseFloat(deducaoDependente);
+            const simplificado = parseFloat(descontoSimplificado);
+            if (faixas && Number.isFinite(dependente) && Number.isFinite(simplificado)) {
+                next = addTableVersion(value, 'irrf', {
+                    vigencia,
+                    tabela: {
+                        faixas,
+                        deducaoDependente: dependente,
+                        descontoSimplificado: simplificado,
+                        reducao: manterReducao ? latestIRRF.reducao : undefined,
+                    },
+                });
+            }
+        } else if (kind === 'salarioMinimo') {
+            const salario = parseFloat(valor);
+            if (salario > 0) next = addTableVersion(value, 'salarioMinimo', { vigencia, tabela: salario });
+        } else {
+            const cota = parseFloat(valor);
+            const limite = parseFloat(limiteRemuneracao);
+            if (cota > 0 && limite > 0) {
+                next = addTableVersion(value, 'salarioFamilia', {
+                    vigencia,
+                    tabela: { limiteRemuneracao: limite, valorPorFilho: cota },
+                });
+            }
+        }
+
+        if (!next) {
+            setErro('Valores inválidos. Confira o formato das faixas.');
+            return;
+        }
+
+        onChange(next);
+        setErro('');
+        setVigencia('');
+    };
+
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Tabelas (INSS, IRRF, salário mínimo)</legend>
+
+            {KINDS.map((k) => (
+                <div key={k} className="settings-panel__field">
+                    <span className="settings-panel__label">{KIND_LABELS[k]}:</span>
+                    {listTableVersions(k, value).map((version) => {
+                        const doUsuario = value[k].some((v) => v.vigencia === version.vigencia);
+                        return (
+                            <div key={version.vigencia} className="settings-panel__list-item">
+                                <span>
+                                    desde {version.vigencia}{doUsuario ? ' (cadastrada)' : ''}
+                                </span>
+                                {doUsuario && (
+                                    <button
+                                        type="button"
+                                        className="settings-panel__button settings-panel__button--cancel"
+                                        onClick={() => onChange(removeTableVersion(value, k, version.vigencia))}
+                                    >
+                                        ✕
+                                    </button>
+                                )}
+                            </div>
+                        );
+                    })}
+                </div>
+            ))}
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="tabela-tipo">
+                    Nova tabela:
+                </label>
+                <select
+                    id="tabela-tipo"
+                    className="settings-panel__select"
+                    value={kind}
+                    onChange={(e) => setKind(e.target.value as TableKind)}
+                >
+                    {KINDS.map((k) => (
+                        <option key={k} value={k}>{KIND_LABELS[k]}</option>
+                    ))}
+                </select>
+                <input
+                    type="month"
+                    className="settings-panel__input"
+                    value={vigencia}
+                    onChange={(e) => setVigencia(e.target.value)}
+                    title="Competência de início da vigência"
+                />
+            </div>
+
+            {kind === 'inss' && (
+                <div className="settings-panel__field">
+                    <label className="settings-panel__label" htmlFor="tabela-inss-faixas">
+                        Faixas (limite:alíquota%; ...):
+                    </label>
+                    <input
+                        id="tabela-inss-faixas"
+                        type="text"
+                        className="settings-panel__input"
+                        value={faixasINSS}
+                        onChange={(e) => setFaixasINSS(e.target.value)}
+                    />
+                </div>
+            )}
+
+            {kind === 'irrf' && (
+                <>
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="tabela-irrf-faixas">
+                            Faixas (limite:alíquota%:dedução; ... ; -:alíquota%:dedução):
+                        </label>
+                        <input
+                            id="tabela-irrf-faixas"
+                            type="text"
+                            className="settings-panel__input"
+                            value={faixasIRRF}
+                            onChange={(e) => setFaixasIRRF(e.target.value)}
+                        />
+                    </div>
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="tabela-irrf-dependente">
+                            Dedução por dependente (R$):
+                        </label>
+                        <input
+                            id="tabela-irrf-dependente"
+                            type="number"
+                            className="settings-panel__input"
+                            value={deducaoDependente}
+                            onChange={(e) => setDeducaoDependente(e.target.value)}
+                            step="0.01"
+                            min="0"
+                        />
+                    </div>
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="tabela-irrf-simplificado">
+                            Desconto simplificado (R$):
+                        </label>
+                        <input
+                            id="tabela-irrf-simplificado"
+                            type="number"
+                            className="settings-panel__input"
+                            value={descontoSimplificado}
+                            onChange={(e) => setDescontoSimplificado(e.target.value)}
+                            step="0.01"
+                            min="0"
+                        />
+                    </div>
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="tabela-irrf-reducao">
+                            <input
+                                id="tabela-irrf-reducao"
+                                type="checkbox"
+                                checked={manterReducao}
+                                onChange={(e) => setManterReducao(e.target.checked)}
+                                disabled={latestIRRF.reducao === undefined}
+                            />
+                            {' '}Manter a redução da Lei 15.270/25
+                        </label>
+                    </div>
+                </>
+            )}
+
+            {(kind === 'salarioMinimo' || kind === 'salarioFamilia') && (
+                <div className="settings-panel__field">
+                    <label className="settings-panel__label" htmlFor="tabela-valor">
+                        {kind === 'salarioMinimo' ? 'Salário mínimo (R$):' : 'Cota por filho (R$):'}
+                    </label>
+                    <input
+                        id="tabela-valor"
+                        type="number"
+                        className="settings-panel__input"
+                        value={valor}
+                        onChange={(e) => setValor(e.target.value)}
+                        step="0.01"
+                        min="0"
+                    />
+                </div>
+            )}
+
+            {kind === 'salarioFamilia' && (
+                <div className="settings-panel__field">
+                    <label className="settings-panel__label" htmlFor="tabela-limite">
+                        Remuneração máxima (R$):
+                    </label>
+                    <input
+                        id="tabela-limite"
+                        type="number"
+                        className="settings-panel__input"
+                        value={limiteRemuneracao}
+                        onChange={(e) => setLimiteRemuneracao(e.target.value)}
+                        step="0.01"
+                        min="0"
+                    />
+                </div>
+            )}
+
+            {erro && <span className="settings-panel__error">{erro}</span>}
+
+            <div className="settings-panel__field">
+                <button
+                    type="button"
+                    className="settings-panel__button settings-panel__button--edit"
+                    onClick={handleAdd}
+                >
+                    ➕ Adicionar tabela
+                </button>
+            </div>
+        </fieldset>
+    );
+}
+
+export default TaxTableFields;
@@ -0,0 +1,273 @@
+/**
+ * TerminationSimulator.tsx
+ *
+ * Componente React para simular as verbas rescisórias.
+ *
+ * RESPONSABILIDADES:
+ * - Formulário: modalidade, data de desligamento, aviso prévio e saldo do FGTS
+ * - Exibir cada rubrica com as incidências de INSS, IRRF e FGTS
+ * - Exibir totais, líquido, multa e saque do FGTS
+ *
+ * REGRAS:
+ * - Não implementa cálculos diretamente (delega para termination.ts via onSimulate)
+ * - Falhas ao ler os meses salvos aparecem no lugar do resultado
+ * - Reaproveita as classes CSS do Summary
+ */
+
+import { useState } from 'react';
+import type { NoticeMode, TerminationInput, TerminationResult, TerminationType } from '../core/types';
+import { hasNotice, TERMINATION_TYPE_LABELS } from '../core/termination';
+import { toDateKey } from '../core/time';
+import './Summary.css';
+import './TerminationSimulator.css';
+
+/**
+ * Props do componente TerminationSimulator
+ */
+type TerminationSimulatorProps = {
+    /**
+     * Calcula a rescisão a partir dos meses salvos (null = sem data de admissão)
+     */
+    onSimulate: (input: TerminationInput) => Promise<TerminationResult | null>;
+};
+
+const TERMINATION_TYPES = Object.keys(TERMINATION_TYPE_LABELS) as TerminationType[];
+
+/**
+ * Formata um valor numérico como moeda brasileira (R$)
+ */
+function formatCurrency(value: number): string {
+    return value.toLocaleString('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+}
+
+/**
+ * Marca de incidência (✓ incide / — não incide)
+ */
+function Incidence({ incide }: { incide: boolean }) {
+    return <td className="termination__incidence">{incide ? '✓' : '—'}</td>;
+}
+
+/**
+ * Componente principal: simulador de rescisão
+ */
+function TerminationSimulator({ onSimulate }: TerminationSimulatorProps) {
+    const [tipo, setTipo] = useState<TerminationType>('sem-justa-causa');
+    const [dataDesligamento, setDataDesligamento] = useState(() => toDateKey(new Date()));
+    const [aviso, setAviso] = useState<NoticeMode>('indenizado');
+    const [saldoFGTS, setSaldoFGTS] = useState('');
+    const [resultado, setResultado] = useState<TerminationResult | null>(null);
+    const [erro, setErro] = useState('');
+
+    /**
+     * Executa a simulação com os dados do formulário
+     */
+    const handleSimulate = async () => {
+        const saldo = parseFloat(saldoFGTS);
+        try {
+            const result = await onSimulate({
+                tipo,
+                dataDesligamento,
+                aviso,
+                saldoFGTS: Number.isFinite(saldo) ? saldo : undefined,
+            });
+            setResultado(result);
+            setErro(result ? '' : 'Informe a data de admissão em Configurações → Férias (anterior ao desligamento).');
+        } catch (error) {
+            setResultado(null);
+            setErro(`Não foi possível simular a rescisão: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    return (
+        <div className="summary termination">
+            <h2 className="summary__title">Simulador de Rescisão</h2>
+
+            {/* Seção: Dados do desligamento */}
+            <section className="summary__section termination__form">
+                <label className="termination__field">
+                    <span className="summary__label">Modalidade:</span>
+                    <select value={tipo} onChange={(e) => setTipo(e.target.value as TerminationType)}>
+                        {TERMINATION_TYPES.map((t) => (
+                            <option key={t} value={t}>{TERMINATION_TYPE_LABELS[t]}</option>
+                        ))}
+                    </select>
+                </label>
+
+                <label className="termination__field">
+                    <span className="summary__label">Último dia trabalhado:</span>
+                    <input
+                        type="date"
+                        value={dataDesligamento}
+                        onChange={(e) => setDataDesligamento(e.target.value)}
+                    />
+                </label>
+
+                <label className="termination__field">
+                    <span className="summary__label">Aviso prévio:</span>
+                    <select
+                        value={aviso}
+                        onChange={(e) => setAviso(e.target.value as NoticeMode)}
+                        disabled={!hasNotice(tipo)}
+                    >
+                        <option value="trabalhado">Trabalhado</option>
+                        <option value="indenizado">
+                            {tipo === 'pedido-demissao' ? 'Não cumprido (descontado)' : 'Indenizado'}
+                        </option>
+                    </select>
+                </label>
+
+                <label className="termination__field">
+                    <span className="summary__label">Saldo do FGTS (opcional):</span>
+                    <input
+                        type="number"
+                        value={saldoFGTS}
+                        onChange={(e) => setSaldoFGTS(e.target.value)}
+                        step="0.01"
+                        min="0"
+                        placeholder="extrato do FGTS"
+                    />
+                </label>
+
+                <button
+                    type="button"
+                    className="termination__button"
+                    onClick={handleSimulate}
+                    disabled={!dataDesligamento}
+                >
+                    🧮 Simular
+                </button>
+
+                {erro && <span className="termination__error">{erro}</span>}
+            </section>
+
+            {resultado && (
+                <>
+                    {/* Seção: Rubricas */}
+                    <section className="summary__section">
+                        <h3 className="summary__section-title">
+                            Rubricas
+                            {resultado.diasAviso > 0 && ` · aviso de ${resultado.diasAviso} dias`}
+                            {' · '}até {resultado.dataProjetada.toLocaleDateString('pt-BR')}
+                        </h3>
+
+                        <table className="termination__table">
+                            <thead>
+                                <tr>
+                                    <th>Rubrica</th>
+                                    <th>Ref.</th>
+                                    <th>Valor</th>
+                                    <th>INSS</th>
+                                    <th>IRRF</th>
+                                    <th>FGTS</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {resultado.rubricas.map((r, index) => (
+                                    <tr key={`${r.codigo}-${index}`}>
+                                        <td>{r.descricao}</td>
+                                        <td>{r.referencia}</td>
+                                        <td className={r.desconto ? 'summary__value--negative' : ''}>
+                                            {r.desconto ? '- ' : ''}{formatCurrency(r.valor)}
+                                        </td>
+                                        <Incidence incide={r.incideINSS} />
+                                        <Incidence incide={r.incideIRRF} />
+                                        <Incidence incide={r.incideFGTS} />
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </section>
+
+                    {/* Seção: Totais */}
+                    <section className="summary__section">
+                        <div className="summary__grid">
+                            <div className="summary__item">
+                                <span className="summary__label">Total de Proventos:</span>
+                                <span className="summary__value">{formatCurrency(resultado.totalProventos)}</span>
+                            </div>
+
+                            <div className="summary__item">
+                                <span className="summary__label">INSS (mês + 13º):</span>
+                                <span className="summary__value summary__value--negative">
+                                    - {formatCurrency(resultado.inss)}
+                                </span>
+                            </div>
+
+                            <div className="summary__item">
+                                <span className="summary__label">IRRF (mês + 13º):</span>
+                                <span className="summary__value summary__value--negative">
+                                    - {formatCurrency(resultado.irrf)}
+                                </span>
+                            </div>
+
+                            <div className="summary__item">
+                                <span className="summary__label">Líquido da Rescisão:</span>
+                                <span className="summary__value summary__value--highlight">
+                                    {formatCurrency(resultado.liquido)}
+                                </span>
+                            </div>
+                        </div>
+                    </section>
+
+                    {/* Seção: FGTS */}
+                    <section className="summary__section summary__section--final">
+                        <h3 className="summary__section-title">FGTS</h3>
+
+                        <div className="summary__grid">
+                            <div className="summary__item">
+                                <span className="summary__label">
+                                    Saldo{resultado.fgts.saldoEstimado ? ' (estimado)' : ''}:
+                                </span>
+                                <span className="summary__value">{formatCurrency(resultado.fgts.saldo)}</span>
+                            </div>
+
+                            <div className="summary__item">
+                                <span className="summary__label">Depósito sobre a rescisão:</span>
+                                <span className="summary__value">
+                                    {formatCurrency(resultado.fgts.depositoRescisao)}
+                                </span>
+                            </div>
+
+                            <div className="summary__item">
+                                <span className="summary__label">
+                                    Multa ({resultado.fgts.percentualMulta}%, sem INSS/IRRF):
+                                </span>
+                                <span className="summary__value">{formatCurrency(resultado.fgts.multa)}</span>
+                            </div>
+
+                            <div className="summary__item">
+                                <span className="summary__label">
+                                    Saque ({resultado.fgts.percentualSaque}% do saldo + multa):
+                                </span>
+                                <span className="summary__value">{formatCurrency(resultado.fgts.valorSaque)}</span>
+                            </div>
+
+                            <div className="summary__item summary__item--large summary__item--total">
+                                <span className="summary__label">Total a Receber (líquido + multa):</span>
+                                <span className="summary__value summary__value--total">
+                                    {formatCurrency(resultado.totalReceber)}
+                                </span>
+                            </div>
+                        </div>
+                    </section>
+
+                    {/* Rodapé informativo */}
+                    <footer className="summary__footer">
+                        <p className="summary__note">
+                            <strong>Nota:</strong> Remuneração de referência {formatCurrency(resultado.remuneracao)}
+                            {' '}(salário + médias dos últimos 12 meses salvos). Considera que nenhuma parcela
+                            do 13º do ano foi adiantada.
+                        </p>
+                    </footer>
+                </>
+            )}
+        </div>
+    );
+}
+
+export default TerminationSimulator;
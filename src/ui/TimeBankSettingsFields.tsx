@@ -0,0 +1,136 @@
+/**
+ * TimeBankSettingsFields.tsx
+ *
+ * Campos do SettingsPanel para o banco de horas: modo ativo, tipo do acordo,
+ * multiplicadores e saldo inicial.
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio
+ * - Cálculos delegados a core/timeBank.ts
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import type { TimeBankAgreement, TimeBankSettings } from '../core/types';
+import { TIME_BANK_EXPIRY_MONTHS } from '../core/timeBank';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente TimeBankSettingsFields
+ */
+type TimeBankSettingsFieldsProps = {
+    /**
+     * Configuração atual (em edição)
+     */
+    value: TimeBankSettings;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: TimeBankSettings) => void;
+};
+
+/**
+ * Componente principal: campos do banco de horas
+ */
+function TimeBankSettingsFields({ value, onChange }: TimeBankSettingsFieldsProps) {
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Banco de Horas</legend>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="banco-ativo">
+                    <input
+                        id="banco-ativo"
+                        type="checkbox"
+                        checked={value.ativo}
+                        onChange={(e) => onChange({ ...value, ativo: e.target.checked })}
+                    />
+                    {' '}Compensar horas extras no banco (em vez de pagar)
+                </label>
+            </div>
+
+            {value.ativo && (
+                <>
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="banco-acordo">
+                            Acordo:
+                        </label>
+                        <select
+                            id="banco-acordo"
+                            className="settings-panel__input"
+                            value={value.acordo}
+                            onChange={(e) => onChange({ ...value, acordo: e.target.value as TimeBankAgreement })}
+                        >
+                            <option value="individual">
+                                Individual (vence em {TIME_BANK_EXPIRY_MONTHS.individual} meses)
+                            </option>
+                            <option value="coletivo">
+                                Coletivo – CCT/ACT (vence em {TIME_BANK_EXPIRY_MONTHS.coletivo} meses)
+                            </option>
+                        </select>
+                    </div>
+
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="banco-mult50">
+                            Horas creditadas por hora extra (adicional abaixo de 100%):
+                        </label>
+                        <input
+                            id="banco-mult50"
+                            type="number"
+                            className="settings-panel__input"
+                            value={value.multiplicador50}
+                            onChange={(e) => onChange({ ...value, multiplicador50: parseFloat(e.target.value) || 0 })}
+                            step="0.1"
+                            min="0"
+                        />
+                    </div>
+
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="banco-mult100">
+                            Horas creditadas por hora extra (100% ou mais, ex.: feriado):
+                        </label>
+                        <input
+                            id="banco-mult100"
+                            type="number"
+                            className="settings-panel__input"
+                            value={value.multiplicador100}
+                            onChange={(e) => onChange({ ...value, multiplicador100: parseFloat(e.target.value) || 0 })}
+                            step="0.1"
+                            min="0"
+                        />
+                    </div>
+
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="banco-competencia">
+                            Competência do saldo inicial:
+                            <span className="settings-panel__optional"> (vazio = primeiro mês salvo)</span>
+                        </label>
+                        <input
+                            id="banco-competencia"
+                            type="month"
+                            className="settings-panel__input"
+                            value={value.competenciaInicial ?? ''}
+                            onChange={(e) => onChange({ ...value, competenciaInicial: e.target.value || null })}
+                        />
+                    </div>
+
+                    <div className="settings-panel__field">
+                        <label className="settings-panel__label" htmlFor="banco-saldo">
+                            Saldo inicial (horas, negativo = devidas):
+                        </label>
+                        <input
+                            id="banco-saldo"
+                            type="number"
+                            className="settings-panel__input"
+                            value={value.saldoInicialHoras}
+                            onChange={(e) => onChange({ ...value, saldoInicialHoras: parseFloat(e.target.value) || 0 })}
+                            step="0.5"
+                        />
+                    </div>
+                </>
+            )}
+        </fieldset>
+    );
+}
+
+export default TimeBankSettingsFields;
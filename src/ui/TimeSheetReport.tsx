@@ -0,0 +1,194 @@
+/**
+ * TimeSheetReport.tsx
+ *
+ * Componente React do espelho de ponto: pré-visualização do documento do mês,
+ * download em PDF e impressão pelo navegador.
+ *
+ * RESPONSABILIDADES:
+ * - Exibir cabeçalho, dias com marcações, totais semanais, resumo e assinaturas
+ * - Baixar o PDF gerado no navegador (nada é enviado a servidores)
+ * - Imprimir a pré-visualização (folha de estilo de impressão como alternativa ao PDF)
+ *
+ * REGRAS:
+ * - Não implementa cálculos diretamente (delega para timesheet.ts e pdf.ts)
+ * - Usa o mesmo resumo do mês exibido no Layout
+ */
+
+import { useMemo } from 'react';
+import type { DayRecord, MonthlySummary, Settings } from '../core/types';
+import {
+    buildTimeSheet,
+    formatTimeSheetHours,
+    formatTimeSheetPeriod,
+    formatTimeSheetPunches,
+    getTimeSheetTotals,
+    renderTimeSheetPDF,
+} from '../core/timesheet';
+import { getOvertimeHoursAt } from '../core/overtime';
+import './TimeSheetReport.css';
+
+/**
+ * Props do componente TimeSheetReport
+ */
+type TimeSheetReportProps = {
+    /**
+     * Dias do mês exibido
+     */
+    days: DayRecord[];
+
+    settings: Settings;
+
+    /**
+     * Resumo do mês exibido (calculado pelo Layout)
+     */
+    monthlySummary: MonthlySummary;
+
+    /**
+     * Fecha a pré-visualização
+     */
+    onClose: () => void;
+};
+
+/**
+ * Baixa os bytes do PDF como arquivo
+ */
+function downloadPDF(bytes: Uint8Array<ArrayBuffer>, fileName: string) {
+    const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+/**
+ * Componente principal: espelho de ponto do mês
+ */
+function TimeSheetReport({ days, settings, monthlySummary, onClose }: TimeSheetReportProps) {
+    const espelho = useMemo(
+        () => buildTimeSheet(days, settings, monthlySummary),
+        [days, settings, monthlySummary]
+    );
+    const id = espelho.identificacao;
+
+    const handleDownload = () => {
+        downloadPDF(renderTimeSheetPDF(espelho), `espelho-${espelho.competencia}.pdf`);
+    };
+
+    return (
+        <div className="timesheet-overlay" onClick={onClose}>
+            <div className="timesheet-overlay__dialog" onClick={(e) => e.stopPropagation()}>
+                <div className="timesheet-overlay__actions">
+                    <button type="button" className="duo-button duo-button--navy" onClick={handleDownload}>
+                        📄 Baixar PDF
+                    </button>
+                    <button type="button" className="duo-button" onClick={() => window.print()}>
+                        🖨️ Imprimir
+                    </button>
+                    <button type="button" className="duo-button" onClick={onClose}>
+                        ✕ Fechar
+                    </button>
+                </div>
+
+                <article className="timesheet">
+                    {/* Cabeçalho */}
+                    <header className="timesheet__header">
+                        <h2 className="timesheet__title">Espelho de Ponto</h2>
+                        <span className="timesheet__period">
+                            Competência: {formatTimeSheetPeriod(espelho.competencia)}
+                        </span>
+                    </header>
+                    <dl className="timesheet__info">
+                        <dt>Empregador</dt><dd>{id.empregador || '—'}</dd>
+                        <dt>CNPJ/CPF</dt><dd>{id.cnpjEmpregador || '—'}</dd>
+                        <dt>Empregado(a)</dt><dd>{id.nome || '—'}</dd>
+                        <dt>PIS/CPF</dt><dd>{id.pisCpf || '—'}</dd>
+                        <dt>Cargo</dt><dd>{id.cargo || '—'}</dd>
+                        <dt>Jornada</dt><dd>{espelho.jornada}</dd>
+                    </dl>
+
+                    {/* Dias e totais semanais */}
+                    <table className="timesheet__table">
+                        <thead>
+                            <tr>
+                                <th>Dia</th>
+                                <th>Marcações</th>
+                                <th>Situação</th>
+                                <th>Normais</th>
+                                {espelho.percentuaisExtras.map((percentual) => (
+                                    <th key={percentual}>Extra {percentual}%</th>
+                                ))}
+                                <th>Noturnas</th>
+                            </tr>
+                        </thead>
+                        {espelho.semanas.map((semana, wIndex) => (
+                            <tbody key={wIndex}>
+                                {semana.dias.map((dia) => (
+                                    <tr key={dia.data.getTime()}>
+                                        <td>
+                                            {dia.data.toLocaleDateString('pt-BR', { day: '2-digit', weekday: 'short' })}
+                                        </td>
+                                        <td>{formatTimeSheetPunches(dia)}</td>
+                                        <td>{dia.situacao}</td>
+                                        <td>{formatTimeSheetHours(dia.resultado.horasNormais)}</td>
+                                        {espelho.percentuaisExtras.map((percentual) => (
+                                            <td key={percentual}>
+                                                {formatTimeSheetHours(getOvertimeHoursAt(dia.resultado.horasExtras, percentual))}
+                                            </td>
+                                        ))}
+                                        <td>{formatTimeSheetHours(dia.resultado.horasNoturnas)}</td>
+                                    </tr>
+                                ))}
+                                {semana.totais && (
+                                    <tr className="timesheet__week-total">
+                                        <td colSpan={3}>
+                                            Semana {wIndex + 1}: {formatTimeSheetHours(semana.totais.totalHoras) || '00:00'} trabalhadas
+                                            {semana.totais.horasExtraLimiteSemanal > 0 && (
+                                                ` · ${formatTimeSheetHours(semana.totais.horasExtraLimiteSemanal)}`
+                                                + ` acima de ${semana.totais.limiteSemanalHoras}h/semana`
+                                            )}
+                                        </td>
+                                        <td>{formatTimeSheetHours(semana.totais.horasNormais)}</td>
+                                        {espelho.percentuaisExtras.map((percentual) => (
+                                            <td key={percentual}>
+                                                {formatTimeSheetHours(getOvertimeHoursAt(semana.totais?.horasExtras ?? {}, percentual))}
+                                            </td>
+                                        ))}
+                                        <td />
+                                    </tr>
+                                )}
+                            </tbody>
+                        ))}
+                    </table>
+
+                    {/* Resumo financeiro */}
+                    <h3 className="timesheet__subtitle">Resumo do mês</h3>
+                    <dl className="timesheet__totals">
+                        {getTimeSheetTotals(espelho.resumo).map(([rotulo, valor]) => (
+                            <div key={rotulo} className="timesheet__total">
+                                <dt>{rotulo}</dt>
+                                <dd>{valor}</dd>
+                            </div>
+                        ))}
+                    </dl>
+
+                    {/* Declaração e assinaturas */}
+                    <p className="timesheet__declaration">
+                        Declaro que as marcações acima correspondem à jornada efetivamente trabalhada no período.
+                    </p>
+                    <p className="timesheet__declaration">Local e data: ______________________________</p>
+                    <div className="timesheet__signatures">
+                        <span className="timesheet__signature">
+                            Empregado(a){id.nome ? `: ${id.nome}` : ''}
+                        </span>
+                        <span className="timesheet__signature">
+                            Empregador{id.empregador ? `: ${id.empregador}` : ''}
+                        </span>
+                    </div>
+                </article>
+            </div>
+        </div>
+    );
+}
+
+export default TimeSheetReport;
@@ -0,0 +1,297 @@
+/**
+ * VacationSettingsFields.tsx
+ *
+ * Campos do SettingsPanel para férias: data de admissão, períodos aquisitivos
+ * e períodos de férias gozados/programados.
+ *
+ * RESPONSABILIDADES:
+ * - Editar a data de admissão (base dos períodos aquisitivos)
+ * - Listar os períodos aquisitivos com prazo de concessão e saldo
+ * - Cadastrar/remover férias (com abono pecuniário e média de horas extras)
+ * - Exibir o recibo resumido de cada período (bruto e líquido)
+ *
+ * REGRAS:
+ * - Componente controlado (value/onChange), sem estado próprio além do formulário de novas férias
+ *   e da falha ao calcular a média de horas extras
+ * - Cálculos delegados a core/vacation.ts
+ * - Reaproveita as classes CSS do SettingsPanel
+ */
+
+import { useState } from 'react';
+import type {
+    AcquisitionStatus,
+    IRRFSettings,
+    OvertimeHours,
+    TaxTableRegistry,
+    VacationPeriod,
+    VacationSettings,
+} from '../core/types';
+import { calculateVacationPay, getAcquisitionPeriods, getVacationEnd } from '../core/vacation';
+import { getTaxTables } from '../core/taxTables';
+import { describeOvertimeHours } from '../core/overtime';
+import { parseDateKey } from '../core/time';
+import './SettingsPanel.css';
+
+/**
+ * Props do componente VacationSettingsFields
+ */
+type VacationSettingsFieldsProps = {
+    /**
+     * Configuração atual (em edição)
+     */
+    value: VacationSettings;
+
+    /**
+     * Callback chamado a cada alteração
+     */
+    onChange: (value: VacationSettings) => void;
+
+    /**
+     * Salário mensal (para o recibo de férias)
+     */
+    salarioMensal: number;
+
+    /**
+     * Divisor mensal do salário-hora (para a média de horas extras)
+     */
+    divisor: number;
+
+    /**
+     * Contrato intermitente: férias já pagas nas convocações, sem recibo
+     */
+    intermitente?: boolean;
+
+    /**
+     * Configuração do IRRF (para o recibo de férias)
+     */
+    irrf: IRRFSettings;
+
+    /**
+     * Tabelas do usuário (para o recibo de férias)
+     */
+    tabelas: TaxTableRegistry;
+
+    /**
+     * Calcula a média de horas extras do período aquisitivo (opcional)
+     */
+    onComputeOvertimeAverage?: (
+        ferias: VacationSettings,
+        periodo: VacationPeriod
+    ) => Promise<OvertimeHours>;
+};
+
+/**
+ * Rótulos das situações do período aquisitivo
+ */
+const STATUS_LABELS: Record<AcquisitionStatus, string> = {
+    'em-aquisicao': 'em aquisição',
+    'a-gozar': 'a gozar',
+    'vencido': 'VENCIDO (pagar em dobro)',
+    'quitado': 'quitado',
+};
+
+/**
+ * Formata uma data como DD/MM/YYYY
+ */
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('pt-BR');
+}
+
+/**
+ * Componente principal: campos de férias
+ */
+function VacationSettingsFields({
+    value,
+    onChange,
+    salarioMensal,
+    divisor,
+    intermitente = false,
+    irrf,
+    tabelas,
+    onComputeOvertimeAverage,
+}: VacationSettingsFieldsProps) {
+    // Formulário de novas férias
+    const [novoInicio, setNovoInicio] = useState('');
+    const [novosDias, setNovosDias] = useState('30');
+    const [novoAbono, setNovoAbono] = useState(false);
+    const [erroMedia, setErroMedia] = useState('');
+
+    const aquisitivos = getAcquisitionPeriods(value, new Date());
+
+    /**
+     * Adiciona as férias preenchidas
+     */
+    const handleAdd = () => {
+        const dias = parseInt(novosDias, 10);
+        if (!novoInicio || !(dias > 0)) return;
+
+        const periodo: VacationPeriod = {
+            inicio: novoInicio,
+            dias,
+            abonoPecuniario: novoAbono,
+            mediaHorasExtras: {},
+        };
+        onChange({ ...value, periodos: [...value.periodos, periodo] });
+        setNovoInicio('');
+        setNovosDias('30');
+        setNovoAbono(false);
+    };
+
+    /**
+     * Atualiza um período de férias pelo índice
+     */
+    const updatePeriodo = (index: number, periodo: VacationPeriod) => {
+        onChange({ ...value, periodos: value.periodos.map((p, i) => (i === index ? periodo : p)) });
+    };
+
+    /**
+     * Remove um período de férias pelo índice
+     */
+    const handleRemove = (index: number) => {
+        onChange({ ...value, periodos: value.periodos.filter((_, i) => i !== index) });
+    };
+
+    /**
+     * Preenche a média de horas extras a partir dos meses salvos
+     */
+    const handleComputeAverage = async (index: number) => {
+        if (!onComputeOvertimeAverage) return;
+        const periodo = value.periodos[index];
+        try {
+            const mediaHorasExtras = await onComputeOvertimeAverage(value, periodo);
+            updatePeriodo(index, { ...periodo, mediaHorasExtras });
+            setErroMedia('');
+        } catch (error) {
+            setErroMedia(`Não foi possível calcular a média: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    return (
+        <fieldset className="settings-panel__fieldset">
+            <legend className="settings-panel__legend">Férias</legend>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="ferias-admissao">
+                    Data de admissão:
+                </label>
+                <input
+                    id="ferias-admissao"
+                    type="date"
+                    className="settings-panel__input"
+                    value={value.dataAdmissao ?? ''}
+                    onChange={(e) => onChange({ ...value, dataAdmissao: e.target.value || null })}
+                />
+            </div>
+
+            {aquisitivos.length > 0 && (
+                <div className="settings-panel__field">
+                    <span className="settings-panel__label">Períodos aquisitivos:</span>
+                    {aquisitivos.map((p) => (
+                        <div key={p.numero} className="settings-panel__list-item">
+                            <span>
+                                {p.numero}º: {formatDate(p.inicio)} a {formatDate(p.fim)}
+                                {' · '}conceder até {formatDate(p.limiteConcessao)}
+                                {' · '}saldo {p.saldo} dias
+                            </span>
+                            <span className={p.situacao === 'vencido' ? 'settings-panel__error' : ''}>
+                                {STATUS_LABELS[p.situacao]}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="settings-panel__field">
+                <span className="settings-panel__label">Férias registradas:</span>
+                {value.periodos.length === 0 && (
+                    <span className="settings-panel__optional">Nenhum período de férias cadastrado</span>
+                )}
+                {value.periodos.map((periodo, index) => {
+                    const inicio = parseDateKey(periodo.inicio);
+                    const recibo = calculateVacationPay(
+                        periodo,
+                        salarioMensal,
+                        getTaxTables(inicio.getFullYear(), inicio.getMonth(), tabelas),
+                        irrf,
+                        divisor
+                    );
+
+                    return (
+                        <div key={`${periodo.inicio}-${index}`} className="settings-panel__list-item">
+                            <span>
+                                {formatDate(inicio)} a {formatDate(getVacationEnd(periodo))}
+                                {' · '}{periodo.dias} dias
+                                {periodo.abonoPecuniario ? ' + abono de 10 dias' : ''}
+                                {' · '}média extras: {describeOvertimeHours(periodo.mediaHorasExtras) || '0h'}
+                                {intermitente
+                                    ? ' · já pagas nas convocações (art. 452-A §9º)'
+                                    : ` · bruto R$ ${recibo.bruto.toFixed(2)} / líquido R$ ${recibo.liquido.toFixed(2)}`}
+                            </span>
+                            {onComputeOvertimeAverage && (
+                                <button
+                                    type="button"
+                                    className="settings-panel__button settings-panel__button--edit"
+                                    onClick={() => handleComputeAverage(index)}
+                                    title="Calcula a média de horas extras dos meses salvos no período aquisitivo"
+                                >
+                                    📊 Média
+                                </button>
+                            )}
+                            <button
+                                type="button"
+                                className="settings-panel__button settings-panel__button--cancel"
+                                onClick={() => handleRemove(index)}
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    );
+                })}
+                {erroMedia && <span className="settings-panel__error">{erroMedia}</span>}
+            </div>
+
+            <div className="settings-panel__field">
+                <label className="settings-panel__label" htmlFor="ferias-inicio">
+                    Novas férias:
+                </label>
+                <input
+                    id="ferias-inicio"
+                    type="date"
+                    className="settings-panel__input"
+                    value={novoInicio}
+                    onChange={(e) => setNovoInicio(e.target.value)}
+                />
+                <input
+                    type="number"
+                    className="settings-panel__input"
+                    value={novosDias}
+                    onChange={(e) => setNovosDias(e.target.value)}
+                    min="5"
+                    max="30"
+                    title="Dias de gozo"
+                />
+                <label className="settings-panel__label">
+                    <input
+                        type="checkbox"
+                        checked={novoAbono}
+                        onChange={(e) => {
+                            setNovoAbono(e.target.checked);
+                            setNovosDias(e.target.checked ? '20' : '30');
+                        }}
+                    />
+                    {' '}Vender 10 dias (abono pecuniário)
+                </label>
+                <button
+                    type="button"
+                    className="settings-panel__button settings-panel__button--edit"
+                    onClick={handleAdd}
+                    disabled={!novoInicio}
+                >
+                    ➕ Adicionar
+                </button>
+            </div>
+        </fieldset>
+    );
+}
+
+export default VacationSettingsFields;
@@ -0,0 +1,157 @@
+/**
+ * YearSummary.tsx
+ *
+ * Componente React para exibir o resumo anual: 13º salário com 1ª e 2ª parcelas.
+ *
+ * RESPONSABILIDADES:
+ * - Exibir avos, médias e valor integral do 13º
+ * - Exibir as duas parcelas com vencimento, INSS, IRRF e líquido
+ *
+ * REGRAS:
+ * - Não implementa cálculos diretamente (delega para thirteenth.ts)
+ * - Reaproveita as classes CSS do Summary
+ */
+
+import type { ThirteenthSalary } from '../core/types';
+import './Summary.css';
+
+/**
+ * Props do componente YearSummary
+ */
+type YearSummaryProps = {
+    /**
+     * 13º salário calculado para o ano
+     */
+    decimoTerceiro: ThirteenthSalary;
+};
+
+/**
+ * Formata um valor numérico como moeda brasileira (R$)
+ */
+function formatCurrency(value: number): string {
+    return value.toLocaleString('pt-BR', {
+        style: 'currency',
+        currency: 'BRL',
+        minimumFractionDigits: 2,
+        maximumFractionDigits: 2,
+    });
+}
+
+/**
+ * Formata uma data como DD/MM
+ */
+function formatDayMonth(date: Date): string {
+    return date.toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+}
+
+/**
+ * Componente principal: resumo anual
+ */
+function YearSummary({ decimoTerceiro }: YearSummaryProps) {
+    const { primeiraParcela, segundaParcela } = decimoTerceiro;
+
+    return (
+        <div className="summary">
+            <h2 className="summary__title">13º Salário {decimoTerceiro.ano}</h2>
+
+            {/* Seção: Base de cálculo */}
+            <section className="summary__section">
+                <h3 className="summary__section-title">Base de Cálculo</h3>
+
+                <div className="summary__grid">
+                    <div className="summary__item">
+                        <span className="summary__label">Avos:</span>
+                        <span className="summary__value">{decimoTerceiro.avos}/12</span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Média Horas Extras:</span>
+                        <span className="summary__value summary__value--extra50">
+                            {formatCurrency(decimoTerceiro.mediaHorasExtras)}
+                        </span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Média DSR:</span>
+                        <span className="summary__value summary__value--dsr">
+                            {formatCurrency(decimoTerceiro.mediaDSR)}
+                        </span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Média Adicional Noturno:</span>
+                        <span className="summary__value summary__value--noturno">
+                            {formatCurrency(decimoTerceiro.mediaAdicionalNoturno)}
+                        </span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Valor Integral:</span>
+                        <span className="summary__value summary__value--highlight">
+                            {formatCurrency(decimoTerceiro.valorIntegral)}
+                        </span>
+                    </div>
+                </div>
+            </section>
+
+            {/* Seção: 1ª parcela */}
+            <section className="summary__section">
+                <h3 className="summary__section-title">
+                    1ª Parcela (até {formatDayMonth(primeiraParcela.vencimento)})
+                </h3>
+
+                <div className="summary__grid">
+                    <div className="summary__item">
+                        <span className="summary__label">Valor (sem descontos):</span>
+                        <span className="summary__value">{formatCurrency(primeiraParcela.valor)}</span>
+                    </div>
+                </div>
+            </section>
+
+            {/* Seção: 2ª parcela */}
+            <section className="summary__section summary__section--final">
+                <h3 className="summary__section-title">
+                    2ª Parcela (até {formatDayMonth(segundaParcela.vencimento)})
+                </h3>
+
+                <div className="summary__grid">
+                    <div className="summary__item">
+                        <span className="summary__label">Valor Bruto:</span>
+                        <span className="summary__value">{formatCurrency(segundaParcela.bruto)}</span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Desconto INSS:</span>
+                        <span className="summary__value summary__value--negative">
+                            - {formatCurrency(segundaParcela.inss)}
+                        </span>
+                    </div>
+
+                    <div className="summary__item">
+                        <span className="summary__label">Desconto IRRF:</span>
+                        <span className="summary__value summary__value--negative">
+                            - {formatCurrency(segundaParcela.irrf)}
+                        </span>
+                    </div>
+
+                    <div className="summary__item summary__item--large summary__item--total">
+                        <span className="summary__label">Líquido Total (2 parcelas):</span>
+                        <span className="summary__value summary__value--total">
+                            {formatCurrency(decimoTerceiro.liquidoTotal)}
+                        </span>
+                    </div>
+                </div>
+            </section>
+
+            {/* Rodapé informativo */}
+            <footer className="summary__footer">
+                <p className="summary__note">
+                    <strong>Nota:</strong> Conta um avo por mês salvo com 15 ou mais dias trabalhados.
+                    INSS e IRRF do 13º são calculados separadamente da folha mensal.
+                </p>
+            </footer>
+        </div>
+    );
+}
+
+export default YearSummary;
@@ -9,3 +9,17 @@ export { default as DayRow } from './DayRow';
 export { default as Summary } from './Summary';
 export { default as Layout } from './Layout';
 export { default as SettingsPanel } from './SettingsPanel';
+export { default as HolidaySettingsFields } from './HolidaySettingsFields';
+export { default as TaxTableFields } from './TaxTableFields';
+export { default as VacationSettingsFields } from './VacationSettingsFields';
+export { default as YearSummary } from './YearSummary';
+export { default as TerminationSimulator } from './TerminationSimulator';
+export { default as FGTSStatement } from './FGTSStatement';
+export { default as FGTSSettingsFields } from './FGTSSettingsFields';
+export { default as TimeBankSettingsFields } from './TimeBankSettingsFields';
+export { default as AFDImporter } from './AFDImporter';
+export { default as CSVTransfer } from './CSVTransfer';
+export { default as TimeSheetReport } from './TimeSheetReport';
+export { default as IdentificationFields } from './IdentificationFields';
+export { default as OvertimeRulesFields } from './OvertimeRulesFields';
+export { default as ContractSettingsFields } from './ContractSettingsFields';